@@ -0,0 +1,66 @@
+#if ANDROID
+using Android.Content;
+using Android.Media;
+using Android.Provider;
+
+namespace AviiMaui.App.Services.Gallery;
+
+/// <summary>
+/// Android 相册保存：Android 10+ 通过 MediaStore 写入 Pictures/Avii，无需存储权限；
+/// 更早的版本写入公共 Pictures 目录并通知媒体库扫描
+/// </summary>
+public static partial class ImageGallery
+{
+    public static async Task SaveAsync(byte[] bytes, string fileName, string contentType)
+    {
+        if (!OperatingSystem.IsAndroidVersionAtLeast(29))
+        {
+            await SaveLegacyAsync(bytes, fileName, contentType);
+            return;
+        }
+
+        var resolver = Platform.AppContext.ContentResolver
+            ?? throw new InvalidOperationException("ContentResolver is unavailable");
+
+        var values = new ContentValues();
+        values.Put(MediaStore.IMediaColumns.DisplayName, fileName);
+        values.Put(MediaStore.IMediaColumns.MimeType, contentType);
+        values.Put(MediaStore.IMediaColumns.RelativePath,
+            Path.Combine(Android.OS.Environment.DirectoryPictures!, AlbumName));
+        // 写入完成前对其他应用不可见
+        values.Put(MediaStore.IMediaColumns.IsPending, 1);
+
+        var uri = resolver.Insert(MediaStore.Images.Media.ExternalContentUri!, values)
+            ?? throw new IOException("无法创建相册条目");
+
+        await using (var stream = resolver.OpenOutputStream(uri)
+            ?? throw new IOException("无法写入相册"))
+        {
+            await stream.WriteAsync(bytes);
+        }
+
+        values.Clear();
+        values.Put(MediaStore.IMediaColumns.IsPending, 0);
+        resolver.Update(uri, values, null, null);
+    }
+
+    private static async Task SaveLegacyAsync(byte[] bytes, string fileName, string contentType)
+    {
+        var status = await MainThread.InvokeOnMainThreadAsync(
+            Permissions.RequestAsync<Permissions.StorageWrite>);
+        if (status != PermissionStatus.Granted)
+        {
+            throw new UnauthorizedAccessException("没有存储权限，无法保存到相册");
+        }
+
+        var pictures = Android.OS.Environment.GetExternalStoragePublicDirectory(
+            Android.OS.Environment.DirectoryPictures)!.AbsolutePath;
+        var folder = Path.Combine(pictures, AlbumName);
+        Directory.CreateDirectory(folder);
+
+        var path = Path.Combine(folder, fileName);
+        await File.WriteAllBytesAsync(path, bytes);
+        MediaScannerConnection.ScanFile(Platform.AppContext, [path], [contentType], null);
+    }
+}
+#endif
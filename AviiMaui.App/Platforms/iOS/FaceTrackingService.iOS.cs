@@ -125,9 +125,50 @@ public partial class FaceTrackingService
                   - (blendShapes.BrowDownRight ?? 0f),
         };
 
+        if (IncludeRawData)
+        {
+            data.BlendShapes = ExtractBlendShapes(blendShapes);
+            data.HeadTransform = ToColumnMajor(transform);
+        }
+
         RaiseFaceUpdate(data);
     }
 
+    /// <summary>
+    /// 读取全部 BlendShape，键名从 ARKit 原始值 (eyeBlink_L) 规范为 eyeBlinkLeft，
+    /// 与 MediaPipe 输出的名称一致
+    /// </summary>
+    private static Dictionary<string, float> ExtractBlendShapes(ARBlendShapeLocationOptions blendShapes)
+    {
+        var result = new Dictionary<string, float>();
+        var dictionary = blendShapes.Dictionary;
+        if (dictionary == null) return result;
+
+        foreach (var (key, value) in dictionary)
+        {
+            if (value is not NSNumber number) continue;
+
+            var name = key.ToString();
+            if (name.EndsWith("_L")) name = name[..^2] + "Left";
+            else if (name.EndsWith("_R")) name = name[..^2] + "Right";
+
+            result[name] = number.FloatValue;
+        }
+
+        return result;
+    }
+
+    /// <summary>
+    /// 变换矩阵转为列主序数组 (与 MediaPipe Matrix.data 相同)
+    /// </summary>
+    private static float[] ToColumnMajor(global::CoreGraphics.NMatrix4 m) =>
+    [
+        m.M11, m.M21, m.M31, m.M41,
+        m.M12, m.M22, m.M32, m.M42,
+        m.M13, m.M23, m.M33, m.M43,
+        m.M14, m.M24, m.M34, m.M44,
+    ];
+
     /// <summary>
     /// 从 simd_float4x4 变换矩阵提取欧拉角 (pitch, yaw, roll)
     /// </summary>
@@ -0,0 +1,34 @@
+#if IOS
+using Foundation;
+using Photos;
+
+namespace AviiMaui.App.Services.Gallery;
+
+/// <summary>
+/// iOS 相册保存：只申请“添加照片”权限，PNG 原样写入以保留透明通道
+/// </summary>
+public static partial class ImageGallery
+{
+    public static async Task SaveAsync(byte[] bytes, string fileName, string contentType)
+    {
+        var status = await PHPhotoLibrary.RequestAuthorizationAsync(PHAccessLevel.AddOnly);
+        if (status != PHAuthorizationStatus.Authorized && status != PHAuthorizationStatus.Limited)
+        {
+            throw new UnauthorizedAccessException("没有相册权限，请在设置中允许添加照片");
+        }
+
+        var data = NSData.FromArray(bytes);
+        var (success, error) = await PHPhotoLibrary.SharedPhotoLibrary.PerformChangesAsync(() =>
+        {
+            var request = PHAssetCreationRequest.CreationRequestForAsset();
+            request.AddResource(PHAssetResourceType.Photo, data,
+                new PHAssetResourceCreationOptions { OriginalFilename = fileName });
+        });
+
+        if (!success)
+        {
+            throw new IOException(error?.LocalizedDescription ?? "保存到相册失败");
+        }
+    }
+}
+#endif
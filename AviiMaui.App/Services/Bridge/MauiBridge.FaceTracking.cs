@@ -55,7 +55,10 @@ public partial class MauiBridge
                     eyeBallY = data.EyeBallY,
                     mouthOpen = data.MouthOpen,
                     browL = data.BrowL,
-                    browR = data.BrowR
+                    browR = data.BrowR,
+                    timestamp = data.Timestamp,
+                    blendShapes = data.BlendShapes,
+                    headTransform = data.HeadTransform
                 }
             };
 
@@ -83,7 +86,8 @@ public partial class MauiBridge
     /// <summary>
     /// 启动面部追踪（从 JavaScript 调用）
     /// </summary>
-    public Task<string> StartFaceTracking()
+    /// <param name="includeRawData">是否在消息中附带 52 个原始 BlendShape 与头部矩阵</param>
+    public Task<string> StartFaceTracking(bool includeRawData)
     {
         return ExecuteSafeAsync(async () =>
         {
@@ -94,6 +98,8 @@ public partial class MauiBridge
                 return new { success = false, error = (string?)"Face tracking service not available" };
             }
 
+            _faceTrackingService.IncludeRawData = includeRawData;
+
             var result = await _faceTrackingService.StartTrackingAsync();
 
             if (result)
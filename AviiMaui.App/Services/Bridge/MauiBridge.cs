@@ -2,6 +2,7 @@ using System.Text.Json;
 using Microsoft.Extensions.Logging;
 using CommunityToolkit.Maui.Alerts;
 using Plugin.Firebase.Analytics;
+using AviiMaui.App.Services.Gallery;
 
 namespace AviiMaui.App.Services.Bridge;
 
@@ -380,6 +381,100 @@ public partial class MauiBridge(ILogger<MauiBridge> logger)
         });
     }
 
+    /// <summary>
+    /// 选择任意文件并返回 Base64 编码数据
+    /// </summary>
+    /// <returns>JSON 格式结果，与 PickImageAsync 结构相同</returns>
+    public Task<string> PickFileAsync()
+    {
+        return ExecuteSafeAsync(async () =>
+        {
+            logger.LogInformation("Bridge: 开始选择文件");
+
+            return await MainThread.InvokeOnMainThreadAsync(async () =>
+            {
+                var file = await FilePicker.Default.PickAsync(new PickOptions
+                {
+                    PickerTitle = "选择文件"
+                });
+
+                if (file == null)
+                {
+                    return (object)new { cancelled = true };
+                }
+
+                using var stream = await file.OpenReadAsync();
+                using var memoryStream = new MemoryStream();
+                await stream.CopyToAsync(memoryStream);
+                var bytes = memoryStream.ToArray();
+
+                logger.LogInformation("Bridge: 文件选择成功: {FileName}, 大小: {Size} bytes",
+                    file.FileName, bytes.Length);
+
+                return new
+                {
+                    success = true,
+                    base64 = Convert.ToBase64String(bytes),
+                    contentType = file.ContentType ?? "application/octet-stream",
+                    fileName = file.FileName,
+                    size = bytes.Length
+                };
+            });
+        });
+    }
+
+    /// <summary>
+    /// 把文件写入缓存目录并弹出系统分享面板（保存到文件、AirDrop 等）
+    /// </summary>
+    /// <param name="fileName">文件名（不含路径）</param>
+    /// <param name="base64">Base64 编码的文件内容</param>
+    /// <param name="contentType">MIME 类型</param>
+    public Task<string> ShareFileAsync(string fileName, string base64, string contentType)
+    {
+        return ExecuteSafeVoidAsync(async () =>
+        {
+            var safeName = Path.GetFileName(fileName);
+            if (string.IsNullOrWhiteSpace(safeName))
+            {
+                throw new ArgumentException("File name cannot be empty", nameof(fileName));
+            }
+
+            var bytes = Convert.FromBase64String(base64);
+            var path = Path.Combine(FileSystem.CacheDirectory, safeName);
+            await File.WriteAllBytesAsync(path, bytes);
+            logger.LogInformation("Bridge: 分享文件 {FileName}, 大小: {Size} bytes", safeName, bytes.Length);
+
+            await MainThread.InvokeOnMainThreadAsync(() =>
+                Share.Default.RequestAsync(new ShareFileRequest
+                {
+                    Title = safeName,
+                    File = new ShareFile(path, contentType)
+                }));
+        });
+    }
+
+    /// <summary>
+    /// 保存图片到系统相册（Android 为 Pictures/Avii，iOS 为照片）
+    /// </summary>
+    /// <param name="fileName">文件名（不含路径）</param>
+    /// <param name="base64">Base64 编码的图片</param>
+    /// <param name="contentType">MIME 类型（image/png、image/jpeg）</param>
+    public Task<string> SaveImageToGalleryAsync(string fileName, string base64, string contentType)
+    {
+        return ExecuteSafeVoidAsync(async () =>
+        {
+            var safeName = Path.GetFileName(fileName);
+            if (string.IsNullOrWhiteSpace(safeName))
+            {
+                throw new ArgumentException("File name cannot be empty", nameof(fileName));
+            }
+
+            var bytes = Convert.FromBase64String(base64);
+            await ImageGallery.SaveAsync(bytes, safeName, contentType);
+            logger.LogInformation("Bridge: 已保存图片 {FileName}, 大小: {Size} bytes", safeName, bytes.Length);
+        });
+    }
+
     /// <summary>
     /// 设置屏幕常亮
     /// </summary>
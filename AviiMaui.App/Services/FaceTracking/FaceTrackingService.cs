@@ -1,3 +1,5 @@
+using System.Diagnostics;
+
 namespace AviiMaui.App.Services.FaceTracking;
 
 /// <summary>
@@ -34,6 +36,18 @@ public class FaceTrackingData
     
     /// <summary>右眉位置 (-1 ~ 1)</summary>
     public float BrowR { get; set; }
+
+    /// <summary>采集时间 (毫秒，单调时钟)，Web 端据此计算帧间隔</summary>
+    public double Timestamp { get; set; } = Stopwatch.GetTimestamp() * 1000.0 / Stopwatch.Frequency;
+
+    /// <summary>
+    /// 原始 BlendShape 权重 (0 ~ 1)，键名为 ARKit 规范名 (eyeBlinkLeft、jawOpen ...)
+    /// 仅在 IncludeRawData 开启时填充
+    /// </summary>
+    public Dictionary<string, float>? BlendShapes { get; set; }
+
+    /// <summary>头部变换矩阵 (4x4，列主序)，仅在 IncludeRawData 开启时填充</summary>
+    public float[]? HeadTransform { get; set; }
 }
 
 /// <summary>
@@ -44,6 +58,9 @@ public interface IFaceTrackingService
     /// <summary>是否正在追踪</summary>
     bool IsTracking { get; }
     
+    /// <summary>是否在 FaceTrackingData 中附带原始 BlendShape 与头部矩阵</summary>
+    bool IncludeRawData { get; set; }
+    
     /// <summary>面部数据更新事件</summary>
     event Action<FaceTrackingData>? OnFaceUpdate;
     
@@ -62,6 +79,8 @@ public partial class FaceTrackingService : IFaceTrackingService
 {
     public bool IsTracking { get; protected set; }
     
+    public bool IncludeRawData { get; set; }
+    
     public event Action<FaceTrackingData>? OnFaceUpdate;
     
     protected void RaiseFaceUpdate(FaceTrackingData data)
@@ -0,0 +1,22 @@
+namespace AviiMaui.App.Services.Gallery;
+
+/// <summary>
+/// 保存图片到系统相册
+/// Android 使用 MediaStore，iOS 使用 Photos，其他平台保存到“图片”文件夹
+/// </summary>
+public static partial class ImageGallery
+{
+    /// <summary>相册中的子目录名</summary>
+    public const string AlbumName = "Avii";
+
+#if !ANDROID && !IOS
+    /// <summary>保存到用户“图片”文件夹 - Windows / Mac Catalyst</summary>
+    public static async Task SaveAsync(byte[] bytes, string fileName, string contentType)
+    {
+        var folder = Path.Combine(
+            Environment.GetFolderPath(Environment.SpecialFolder.MyPictures), AlbumName);
+        Directory.CreateDirectory(folder);
+        await File.WriteAllBytesAsync(Path.Combine(folder, fileName), bytes);
+    }
+#endif
+}
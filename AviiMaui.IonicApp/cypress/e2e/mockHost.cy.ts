@@ -0,0 +1,18 @@
+describe('Browser mock host', () => {
+  it('lists the simulated log files', () => {
+    cy.visit('/?mockHost=1#/logs')
+    cy.contains('h2', /^v2ex-\d{8}\.txt$/)
+  })
+
+  it('enables face tracking on the home page', () => {
+    cy.visit('/?mockHost=1#/home')
+    cy.get('[data-testid="tracking-toggle"]').click({ force: true })
+    cy.contains('Tracking Active')
+  })
+
+  it('opens the calibration wizard from the toolbar', () => {
+    cy.visit('/?mockHost=1#/home')
+    cy.get('[data-testid="calibration-open"]').click({ force: true })
+    cy.contains('ion-button', '开始校准')
+  })
+})
@@ -0,0 +1,37 @@
+// 下载 MediaPipe Face Landmarker 模型到 public/，随应用一起打包，
+// 运行时不再依赖外网。已下载过则跳过。
+//
+// 用法：node scripts/fetch-face-landmarker.mjs [--optional]
+//   --optional  下载失败只输出警告（开发时离线也能启动，只是 Web 面部追踪不可用）
+import { existsSync } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const MODEL_URL =
+  "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task";
+const target = join(
+  dirname(fileURLToPath(import.meta.url)),
+  "../public/mediapipe/face_landmarker.task",
+);
+const optional = process.argv.includes("--optional");
+
+if (!existsSync(target)) {
+  try {
+    const response = await fetch(MODEL_URL);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const data = Buffer.from(await response.arrayBuffer());
+    await mkdir(dirname(target), { recursive: true });
+    // 先写临时文件，避免中断后留下不完整的模型
+    await writeFile(`${target}.tmp`, data);
+    await rename(`${target}.tmp`, target);
+    console.log(`Downloaded face landmarker model (${data.length} bytes)`);
+  } catch (e) {
+    const message = `Failed to download face landmarker model: ${e instanceof Error ? e.message : e}`;
+    if (!optional) {
+      console.error(message);
+      process.exit(1);
+    }
+    console.warn(`${message} (web face tracking will be unavailable)`);
+  }
+}
@@ -34,9 +34,12 @@ import "@ionic/react/css/palettes/dark.class.css";
 import "./theme/variables.css";
 import HomePage from "./pages/Home";
 import SettingsPage from "./pages/Settings";
+import ParameterMappingPage from "./pages/ParameterMapping";
 import NotFoundPage from "./pages/NotFound";
 import LogsPage from "./pages/Logs";
 import { initColorMode } from "./theme/colorMode";
+import { useSettingsStore } from "./store/settingsStore";
+import { useImportedModelStore } from "./store/importedModelStore";
 import TestPage from "./pages/Test";
 import FatalErrorBoundary from "./components/ErrorDebug/FatalErrorBoundary";
 import ErrorDebugScreen, {
@@ -61,6 +64,8 @@ const App: React.FC = () => {
 
   useEffect(() => {
     initColorMode();
+    void useSettingsStore.getState().loadSettings();
+    void useImportedModelStore.getState().loadModels();
   }, []);
 
   // 为原生 Android 返回键提供路由状态检查
@@ -138,6 +143,11 @@ const App: React.FC = () => {
             <Redirect exact from="/" to="/home" />
             <Route exact path="/home" component={HomePage} />
             <Route exact path="/settings" component={SettingsPage} />
+            <Route
+              exact
+              path="/settings/mapping"
+              component={ParameterMappingPage}
+            />
             <Route path="/logs" render={() => <LogsPage />} />
             <Route path="/test" render={() => <TestPage />} />
             <Route component={NotFoundPage} />
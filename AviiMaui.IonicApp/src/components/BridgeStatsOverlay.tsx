@@ -0,0 +1,39 @@
+import { useBridgeMessageStats } from "../hooks/useBridgeMessage";
+
+/**
+ * 开发模式下显示 Native -> Web 消息统计
+ */
+const BridgeStatsOverlay: React.FC = () => {
+  const stats = useBridgeMessageStats();
+  const problems =
+    stats.malformed +
+    stats.invalidPayload +
+    stats.unknownType +
+    stats.handlerErrors;
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        // 叠在 Live2DViewer 右下角的取景预设按钮之上
+        bottom: 56,
+        right: 16,
+        padding: "6px 10px",
+        backgroundColor: "rgba(0, 0, 0, 0.6)",
+        color: problems > 0 ? "#ff6b6b" : "#0f0",
+        borderRadius: 8,
+        fontFamily: "monospace",
+        fontSize: 10,
+        pointerEvents: "none",
+        whiteSpace: "pre",
+        zIndex: 10,
+      }}
+    >
+      {`msg ${stats.received}  ok ${stats.dispatched}  drop ${stats.dropped}\n` +
+        `bad ${stats.malformed}  schema ${stats.invalidPayload}  ` +
+        `unknown ${stats.unknownType}  err ${stats.handlerErrors}`}
+    </div>
+  );
+};
+
+export default BridgeStatsOverlay;
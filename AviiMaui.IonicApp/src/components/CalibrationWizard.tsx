@@ -0,0 +1,214 @@
+import {
+  IonButton,
+  IonButtons,
+  IonContent,
+  IonHeader,
+  IonModal,
+  IonProgressBar,
+  IonText,
+  IonTitle,
+  IonToolbar,
+} from "@ionic/react";
+import { useEffect, useRef, useState } from "react";
+import type { FaceTrackingResult } from "../hooks/useFaceTracking";
+import {
+  computeCalibration,
+  type Calibration,
+} from "../services/faceTracking/calibration";
+
+type Sampler = (data: FaceTrackingResult) => void;
+
+type Step = "intro" | "neutral" | "closed" | "done";
+
+interface CalibrationWizardProps {
+  isOpen: boolean;
+  isTracking: boolean;
+  hasCalibration: boolean;
+  onStartTracking: () => Promise<boolean>;
+  /** 采样期间接收未校准的原始追踪数据 */
+  registerSampler: (sampler: Sampler | null) => void;
+  onComplete: (calibration: Calibration) => void;
+  onClear: () => void;
+  onDismiss: () => void;
+}
+
+const NEUTRAL_SAMPLE_MS = 3000;
+const CLOSED_SAMPLE_MS = 2000;
+// 点击按钮后留时间闭眼
+const CLOSED_GRACE_MS = 1000;
+
+const STEP_TEXT: Record<Step, { title: string; hint: string }> = {
+  intro: {
+    title: "校准自然姿态",
+    hint: "以平时使用的姿势拿好手机，校准后模型不会再因为手机倾斜而一直歪头。",
+  },
+  neutral: {
+    title: "第 1 步：自然表情",
+    hint: "看向屏幕正前方，保持自然表情、双眼睁开，持续 3 秒。",
+  },
+  closed: {
+    title: "第 2 步：闭眼",
+    hint: "点击开始后保持姿势并闭上双眼，听到震动 (或 3 秒后) 再睁开。",
+  },
+  done: {
+    title: "校准完成",
+    hint: "已保存到当前模型，可随时重新校准。",
+  },
+};
+
+/**
+ * 自然姿态校准向导：采样自然姿态与闭眼状态，计算 Calibration
+ */
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({
+  isOpen,
+  isTracking,
+  hasCalibration,
+  onStartTracking,
+  registerSampler,
+  onComplete,
+  onClear,
+  onDismiss,
+}) => {
+  const [step, setStep] = useState<Step>("intro");
+  const [sampling, setSampling] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const neutralSamplesRef = useRef<FaceTrackingResult[]>([]);
+  const cancelRef = useRef<(() => void) | null>(null);
+
+  // 关闭时停止采样并回到第一步
+  useEffect(() => {
+    if (isOpen) return;
+    cancelRef.current?.();
+    setStep("intro");
+    setSampling(false);
+    setProgress(0);
+    setError(null);
+  }, [isOpen]);
+
+  useEffect(() => () => cancelRef.current?.(), []);
+
+  const sample = (durationMs: number, delayMs = 0) =>
+    new Promise<FaceTrackingResult[] | null>((resolve) => {
+      const samples: FaceTrackingResult[] = [];
+      const startedAt = performance.now() + delayMs;
+      setSampling(true);
+      setProgress(0);
+      setError(null);
+
+      let registered = false;
+
+      const timer = window.setInterval(() => {
+        const elapsed = performance.now() - startedAt;
+        if (elapsed < 0) return;
+        if (!registered) {
+          registerSampler((data) => samples.push(data));
+          registered = true;
+        }
+        setProgress(Math.min(1, elapsed / durationMs));
+        if (elapsed >= durationMs) finish(samples);
+      }, 50);
+
+      const finish = (result: FaceTrackingResult[] | null) => {
+        window.clearInterval(timer);
+        registerSampler(null);
+        cancelRef.current = null;
+        setSampling(false);
+        resolve(result);
+      };
+      cancelRef.current = () => finish(null);
+    });
+
+  const ensureTracking = async () => {
+    if (isTracking || (await onStartTracking())) return true;
+    setError("无法开启面部追踪");
+    return false;
+  };
+
+  const sampleNeutral = async () => {
+    if (!(await ensureTracking())) return;
+    const samples = await sample(NEUTRAL_SAMPLE_MS);
+    if (!samples) return;
+    if (samples.length === 0) {
+      setError("没有收到追踪数据，请确认脸部在镜头内");
+      return;
+    }
+    neutralSamplesRef.current = samples;
+    setStep("closed");
+  };
+
+  const sampleClosed = async () => {
+    const samples = await sample(CLOSED_SAMPLE_MS, CLOSED_GRACE_MS);
+    if (!samples) return;
+    navigator.vibrate?.(200);
+    if (samples.length === 0) {
+      setError("没有收到追踪数据，请确认脸部在镜头内");
+      return;
+    }
+    onComplete(computeCalibration(neutralSamplesRef.current, samples));
+    setStep("done");
+  };
+
+  const { title, hint } = STEP_TEXT[step];
+
+  return (
+    <IonModal isOpen={isOpen} onDidDismiss={onDismiss}>
+      <IonHeader>
+        <IonToolbar>
+          <IonTitle>{title}</IonTitle>
+          <IonButtons slot="end">
+            <IonButton onClick={onDismiss}>
+              {step === "done" ? "完成" : "取消"}
+            </IonButton>
+          </IonButtons>
+        </IonToolbar>
+      </IonHeader>
+      <IonContent className="ion-padding">
+        <p>{hint}</p>
+
+        {sampling && <IonProgressBar value={progress} />}
+
+        {error && (
+          <IonText color="danger">
+            <p>{error}</p>
+          </IonText>
+        )}
+
+        {step === "intro" && (
+          <>
+            <IonButton expand="block" onClick={() => setStep("neutral")}>
+              开始校准
+            </IonButton>
+            {hasCalibration && (
+              <IonButton
+                expand="block"
+                fill="outline"
+                color="medium"
+                onClick={() => {
+                  onClear();
+                  onDismiss();
+                }}
+              >
+                清除当前校准
+              </IonButton>
+            )}
+          </>
+        )}
+
+        {step === "neutral" && (
+          <IonButton expand="block" disabled={sampling} onClick={sampleNeutral}>
+            开始采样
+          </IonButton>
+        )}
+
+        {step === "closed" && (
+          <IonButton expand="block" disabled={sampling} onClick={sampleClosed}>
+            开始闭眼采样
+          </IonButton>
+        )}
+      </IonContent>
+    </IonModal>
+  );
+};
+
+export default CalibrationWizard;
@@ -0,0 +1,299 @@
+import {
+  IonButton,
+  IonButtons,
+  IonContent,
+  IonHeader,
+  IonInput,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonListHeader,
+  IonModal,
+  IonRange,
+  IonSelect,
+  IonSelectOption,
+  IonTitle,
+  IonToggle,
+  IonToolbar,
+} from "@ionic/react";
+import { useState } from "react";
+import {
+  ANY_HIT_AREA,
+  findBinding,
+  setBinding,
+  type InteractionAction,
+  type InteractionGesture,
+} from "../services/models/interactions";
+import {
+  selectInteractionConfig,
+  useInteractionStore,
+} from "../store/interactionStore";
+
+type ActionType = InteractionAction["type"] | "none";
+
+const GESTURES: Array<{ value: InteractionGesture; label: string }> = [
+  { value: "tap", label: "点击" },
+  { value: "longPress", label: "长按" },
+];
+
+const ACTION_TYPES: Array<{ value: ActionType; label: string }> = [
+  { value: "none", label: "无" },
+  { value: "motion", label: "动作" },
+  { value: "expression", label: "表情" },
+  { value: "sound", label: "声音" },
+];
+
+interface ActionEditorProps {
+  label: string;
+  action: InteractionAction | null;
+  motionGroups: string[];
+  expressions: string[];
+  onChange: (action: InteractionAction | null) => void;
+}
+
+/**
+ * 单个手势的动作：类型 + 动作组 / 表情 / 声音 URL
+ */
+const ActionEditor: React.FC<ActionEditorProps> = ({
+  label,
+  action,
+  motionGroups,
+  expressions,
+  onChange,
+}) => {
+  // 声音需要先填写 URL，选择类型后暂存在本地
+  const [type, setType] = useState<ActionType>(action?.type ?? "none");
+
+  const changeType = (next: ActionType) => {
+    setType(next);
+    if (next === "none") onChange(null);
+    else if (next === "motion" && motionGroups[0]) {
+      onChange({ type: "motion", group: motionGroups[0] });
+    } else if (next === "expression" && expressions[0]) {
+      onChange({ type: "expression", name: expressions[0] });
+    }
+  };
+
+  return (
+    <>
+      <IonItem>
+        <IonSelect
+          label={label}
+          interface="popover"
+          value={type}
+          onIonChange={(e) => changeType(e.detail.value)}
+        >
+          {ACTION_TYPES.map((t) => (
+            <IonSelectOption
+              key={t.value}
+              value={t.value}
+              disabled={
+                (t.value === "motion" && motionGroups.length === 0) ||
+                (t.value === "expression" && expressions.length === 0)
+              }
+            >
+              {t.label}
+            </IonSelectOption>
+          ))}
+        </IonSelect>
+      </IonItem>
+      {action?.type === "motion" && (
+        <IonItem lines="none">
+          <IonSelect
+            label="动作组"
+            interface="popover"
+            value={action.group}
+            onIonChange={(e) =>
+              onChange({ type: "motion", group: e.detail.value })
+            }
+          >
+            {Array.from(new Set([action.group, ...motionGroups])).map((g) => (
+              <IonSelectOption key={g} value={g}>
+                {g}
+              </IonSelectOption>
+            ))}
+          </IonSelect>
+        </IonItem>
+      )}
+      {action?.type === "expression" && (
+        <IonItem lines="none">
+          <IonSelect
+            label="表情"
+            interface="popover"
+            value={action.name}
+            onIonChange={(e) =>
+              onChange({ type: "expression", name: e.detail.value })
+            }
+          >
+            {Array.from(new Set([action.name, ...expressions])).map((n) => (
+              <IonSelectOption key={n} value={n}>
+                {n}
+              </IonSelectOption>
+            ))}
+          </IonSelect>
+        </IonItem>
+      )}
+      {type === "sound" && (
+        <IonItem lines="none">
+          <IonInput
+            label="声音 URL"
+            placeholder="https://..."
+            value={action?.type === "sound" ? action.url : ""}
+            onIonChange={(e) =>
+              onChange(
+                e.detail.value ? { type: "sound", url: e.detail.value } : null,
+              )
+            }
+          />
+        </IonItem>
+      )}
+    </>
+  );
+};
+
+interface InteractionEditorProps {
+  isOpen: boolean;
+  modelUrl: string;
+  /** 画面上点选的命中区域，`*` 为模型任意位置 */
+  selectedHitArea: string | null;
+  onSelectHitArea: (hitArea: string) => void;
+  onDismiss: () => void;
+}
+
+/**
+ * 当前模型的互动编辑器（半屏，编辑时画面上框出命中区域）
+ */
+const InteractionEditor: React.FC<InteractionEditorProps> = ({
+  isOpen,
+  modelUrl,
+  selectedHitArea,
+  onSelectHitArea,
+  onDismiss,
+}) => {
+  const config = useInteractionStore(selectInteractionConfig(modelUrl));
+  const info = useInteractionStore((state) => state.modelInfo[modelUrl]);
+  const { setConfig, resetConfig } = useInteractionStore();
+
+  const hitArea = selectedHitArea ?? ANY_HIT_AREA;
+  const hitAreas = info?.hitAreas ?? [];
+
+  return (
+    <IonModal
+      isOpen={isOpen}
+      onDidDismiss={onDismiss}
+      initialBreakpoint={0.45}
+      breakpoints={[0.2, 0.45, 0.9]}
+      // 低于 0.9 时不显示遮罩，仍可点击画面选择命中区域
+      backdropBreakpoint={0.9}
+    >
+      <IonHeader>
+        <IonToolbar>
+          <IonTitle>互动编辑</IonTitle>
+          <IonButtons slot="end">
+            <IonButton onClick={() => void resetConfig(modelUrl)}>
+              恢复默认
+            </IonButton>
+            <IonButton onClick={onDismiss}>完成</IonButton>
+          </IonButtons>
+        </IonToolbar>
+      </IonHeader>
+      <IonContent>
+        <IonList>
+          <IonItem>
+            <IonToggle
+              checked={config.dragFollow}
+              onIonChange={(e) =>
+                void setConfig(modelUrl, {
+                  ...config,
+                  dragFollow: e.detail.checked,
+                })
+              }
+            >
+              拖动跟随
+              <p className="settings-help">
+                在模型上拖动时视线跟随手指，拖动空白处平移画面
+              </p>
+            </IonToggle>
+          </IonItem>
+          <IonItem>
+            <IonLabel>
+              长按时间: {config.longPressMs} ms
+              <IonRange
+                min={200}
+                max={2000}
+                step={100}
+                value={config.longPressMs}
+                onIonChange={(e) =>
+                  void setConfig(modelUrl, {
+                    ...config,
+                    longPressMs: e.detail.value as number,
+                  })
+                }
+              />
+            </IonLabel>
+          </IonItem>
+
+          <IonListHeader>
+            <IonLabel>命中区域</IonLabel>
+          </IonListHeader>
+          <IonItem>
+            <IonSelect
+              label="区域"
+              interface="popover"
+              value={hitArea}
+              onIonChange={(e) => onSelectHitArea(e.detail.value)}
+            >
+              <IonSelectOption value={ANY_HIT_AREA}>
+                模型任意位置 (*)
+              </IonSelectOption>
+              {hitAreas.map((name) => (
+                <IonSelectOption key={name} value={name}>
+                  {name}
+                </IonSelectOption>
+              ))}
+            </IonSelect>
+          </IonItem>
+          <p className="settings-help ion-padding-horizontal">
+            {hitAreas.length > 0
+              ? "也可以直接点击画面上框出的区域"
+              : "该模型没有定义命中区域，只能配置任意位置"}
+          </p>
+
+          {GESTURES.map(({ value, label }) => (
+            <ActionEditor
+              // 切换区域时重置本地暂存的动作类型
+              key={`${hitArea}:${value}`}
+              label={label}
+              action={
+                config.bindings.find(
+                  (b) => b.hitArea === hitArea && b.gesture === value,
+                )?.action ?? null
+              }
+              motionGroups={info?.motionGroups ?? []}
+              expressions={info?.expressions ?? []}
+              onChange={(action) =>
+                void setConfig(
+                  modelUrl,
+                  setBinding(config, hitArea, value, action),
+                )
+              }
+            />
+          ))}
+          {hitArea !== ANY_HIT_AREA &&
+            GESTURES.some(
+              ({ value }) =>
+                !config.bindings.some(
+                  (b) => b.hitArea === hitArea && b.gesture === value,
+                ) && findBinding(config, [hitArea], value),
+            ) && (
+              <p className="settings-help ion-padding-horizontal">
+                未设置的手势使用「模型任意位置」的配置
+              </p>
+            )}
+        </IonList>
+      </IonContent>
+    </IonModal>
+  );
+};
+
+export default InteractionEditor;
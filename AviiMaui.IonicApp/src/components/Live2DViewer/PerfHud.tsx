@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { PERF_TARGETS, type PerfSample } from "../../services/render/perfStats";
+import type { Result } from "../../services/result";
+
+const formatMB = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+
+interface PerfHudProps {
+  /** 最近一秒的统计，尚无样本时为 null */
+  sample: PerfSample | null;
+  onExport: () => Promise<Result<void>>;
+  onReset: () => void;
+}
+
+/**
+ * 开发模式下的性能 HUD：帧率、帧时间、掉帧、追踪消息频率、端到端延迟与内存 / 纹理
+ */
+const PerfHud: React.FC<PerfHudProps> = ({ sample, onExport, onReset }) => {
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    const result = await onExport();
+    setMessage(
+      result.error !== null ? `导出失败: ${result.error.message}` : null,
+    );
+  };
+
+  const slow =
+    sample !== null &&
+    (sample.fps < PERF_TARGETS.fps ||
+      (sample.latencyMs ?? 0) > PERF_TARGETS.latencyMs);
+  const latency =
+    sample?.latencyMs != null
+      ? `${sample.latencyMs}ms p95 ${sample.latencyP95Ms}ms` +
+        (sample.latencyClock === "estimated" ? " (est)" : "")
+      : "-";
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        // 位于左下角的摄像头预览（160x120）与回放控制条之上
+        bottom: 152,
+        left: 16,
+        padding: "6px 10px",
+        backgroundColor: "rgba(0, 0, 0, 0.6)",
+        color: slow ? "#ff6b6b" : "#0f0",
+        borderRadius: 8,
+        fontFamily: "monospace",
+        fontSize: 10,
+        whiteSpace: "pre",
+        zIndex: 10,
+      }}
+    >
+      {sample
+        ? `fps ${sample.fps}  frame ${sample.frameTimeMs}ms p95 ${sample.frameTimeP95Ms}ms\n` +
+          `dropped ${sample.droppedFrames}  msg ${sample.messageRate}/s\n` +
+          `latency ${latency}\n` +
+          `heap ${sample.memoryBytes !== null ? formatMB(sample.memoryBytes) : "-"}  ` +
+          `tex ${sample.textures} ${formatMB(sample.textureBytes)}`
+        : "measuring..."}
+      {message && `\n${message}`}
+      <div style={{ display: "flex", gap: 6, marginTop: 4 }}>
+        <button type="button" onClick={() => void handleExport()}>
+          导出 JSON
+        </button>
+        <button type="button" onClick={onReset}>
+          重置
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PerfHud;
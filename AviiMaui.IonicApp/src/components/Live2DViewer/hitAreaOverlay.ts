@@ -0,0 +1,82 @@
+import type { Container, Graphics, Matrix, Rectangle, Text } from "pixi.js";
+
+type Pixi = typeof import("pixi.js");
+
+export interface HitAreaInternalModel {
+  hitAreas: Record<string, { index: number }>;
+  getDrawableBounds(index: number, bounds?: Rectangle): Rectangle;
+  /** 模型坐标 -> Live2DModel 本地坐标 */
+  localTransform: Matrix;
+}
+
+const NORMAL_COLOR = 0xe31a1a;
+const SELECTED_COLOR = 0x1ec832;
+const STROKE_WIDTH = 3;
+
+/**
+ * 互动编辑器中在模型上框出各命中区域（参考 pixi-live2d-display/extra 的 HitAreaFrames，
+ * 区别是始终显示名称并高亮选中的区域）
+ */
+export class HitAreaOverlay {
+  private readonly graphics: Graphics;
+  private readonly labels: Array<{ name: string; text: Text }>;
+  private readonly bounds: Rectangle;
+
+  constructor(
+    PIXI: Pixi,
+    private readonly model: Container,
+    private readonly internalModel: HitAreaInternalModel,
+  ) {
+    this.graphics = new PIXI.Graphics();
+    this.bounds = new PIXI.Rectangle();
+    const style = new PIXI.TextStyle({
+      fontSize: 20,
+      fill: "#ffffff",
+      stroke: "#000000",
+      strokeThickness: 4,
+    });
+    this.labels = Object.keys(internalModel.hitAreas).map((name) => {
+      const text = new PIXI.Text(name, style);
+      this.graphics.addChild(text);
+      return { name, text };
+    });
+    // 作为模型的子节点，随模型一起缩放、平移
+    model.addChild(this.graphics);
+  }
+
+  /**
+   * 每帧调用：模型变形后命中区域的包围盒也会变化
+   */
+  draw(selected: string | null) {
+    const { a, d, tx, ty } = this.internalModel.localTransform;
+    const world = this.graphics.worldTransform;
+    // 线宽与文字保持屏幕上的固定大小
+    const scale = 1 / Math.hypot(world.a, world.b) || 1;
+
+    this.graphics.clear();
+    for (const { name, text } of this.labels) {
+      const bounds = this.internalModel.getDrawableBounds(
+        this.internalModel.hitAreas[name].index,
+        this.bounds,
+      );
+      const x = bounds.x * a + tx;
+      const y = bounds.y * d + ty;
+      const width = bounds.width * a;
+      const height = bounds.height * d;
+      this.graphics.lineStyle({
+        width: (name === selected ? 2 : 1) * STROKE_WIDTH * scale,
+        color: name === selected ? SELECTED_COLOR : NORMAL_COLOR,
+      });
+      this.graphics.drawRect(x, y, width, height);
+      text.position.set(x + STROKE_WIDTH * scale, y + STROKE_WIDTH * scale);
+      text.scale.set(scale);
+    }
+  }
+
+  destroy() {
+    // 模型可能已先被销毁
+    if (this.graphics.destroyed) return;
+    this.model.removeChild(this.graphics);
+    this.graphics.destroy({ children: true });
+  }
+}
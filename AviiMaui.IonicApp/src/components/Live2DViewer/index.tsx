@@ -7,30 +7,108 @@ import {
   forwardRef,
   useImperativeHandle,
 } from "react";
-import type { Application, Container } from "pixi.js";
+import type { Application, Container, Ticker } from "pixi.js";
 import type { FaceTrackingResult } from "../../hooks/useFaceTracking";
-
-// Minimal interface for Live2DModel to avoid 'any'
-interface Live2DModel {
-  internalModel: {
-    coreModel: {
-      setParameterValueById(id: string, value: number): void;
-    };
-    motionManager?: {
-      definitions?: Record<string, Array<{ File?: string; file?: string }>>;
-    };
-  };
-  x: number;
-  y: number;
-  anchor: { set(x: number, y: number): void };
-  scale: { set(x: number): void };
-  rotation: number;
-  destroy(): void;
-  autoInteract: boolean;
-  interactive: boolean;
-  on(event: string, fn: (hitAreas: string[]) => void): void;
-  motion(group: string, index?: number, priority?: number): void;
-}
+import type { FaceTrackingData } from "../../services/bridgeMessages";
+import {
+  DEFAULT_PARAMETER_MAPPINGS,
+  evaluateMappings,
+  type ParameterMapping,
+} from "../../services/faceTracking/parameterMapping";
+import {
+  DEFAULT_SMOOTHING_SETTINGS,
+  FaceSmoother,
+  type SmoothingSettings,
+} from "../../services/faceTracking/smoothing";
+import {
+  DEFAULT_IDLE_SETTINGS,
+  IdleAnimator,
+  TrackingBlend,
+  mixFaceData,
+  type IdleSettings,
+} from "../../services/faceTracking/idle";
+import {
+  DEFAULT_LIP_SYNC_SETTINGS,
+  mixLipSync,
+  type LipSyncFrame,
+  type LipSyncSettings,
+} from "../../services/lipSync/analysis";
+import {
+  DEFAULT_EXPRESSION_SETTINGS,
+  ExpressionTrigger,
+  findExpressionIndex,
+  normalizeExpressionName,
+  type ExpressionSettings,
+} from "../../services/faceTracking/expressions";
+import {
+  STILL_MAX_SIZE,
+  encodeStill,
+  fitFraming,
+  type StillOptions,
+} from "../../services/capture/still";
+import { err, fail, toResultError, type Result } from "../../services/result";
+import {
+  loadLive2DRuntime,
+  resolveModelRuntime,
+} from "../../services/models/cubismRuntime";
+import type { ModelVersion } from "../../services/models/catalog";
+import {
+  ANY_HIT_AREA,
+  DEFAULT_INTERACTION_CONFIG,
+  applyPointerFocus,
+  findBinding,
+  type InteractionAction,
+  type InteractionConfig,
+  type InteractionGesture,
+  type PointerFocus,
+} from "../../services/models/interactions";
+import {
+  DEFAULT_FRAMING,
+  FRAMING_PRESETS,
+  FRAMING_TRANSITION_MS,
+  MAX_ZOOM,
+  MIN_ZOOM,
+  easeInOutCubic,
+  framePreset,
+  interpolateFraming,
+  resetView,
+  type Framing,
+  type FramingPresetId,
+} from "../../services/models/framing";
+import {
+  DEFAULT_SCENE_SETTINGS,
+  type SceneSettings,
+} from "../../services/scene/scene";
+import {
+  MAIN_AVATAR_ID,
+  type StageAvatar,
+} from "../../services/models/avatars";
+import {
+  DEFAULT_PHYSICS_SETTINGS,
+  scaleBreath,
+  type PhysicsSettings,
+} from "../../services/models/physics";
+import {
+  DEFAULT_RENDER_PROFILE,
+  RENDER_PROFILES,
+  renderResolution,
+  type RenderProfileId,
+} from "../../services/render/renderProfile";
+import { PerfMonitor, type PerfSample } from "../../services/render/perfStats";
+import { exportFile } from "../../services/fileTransfer";
+import { HitAreaOverlay } from "./hitAreaOverlay";
+import {
+  MODEL_OFFSET_Y,
+  findIdleMotionGroup,
+  getMotionGroups,
+  writeParameters,
+  type Live2DModel,
+} from "./live2dModel";
+import PerfHud from "./PerfHud";
+import { readPerfResources } from "./perfResources";
+import { applyPhysicsSettings } from "./physicsTuning";
+import { SceneLayers } from "./sceneLayers";
+import { StageAvatarModel } from "./stageAvatar";
 
 export interface ModelOption {
   name: string;
@@ -41,9 +119,39 @@ export interface Live2DViewerProps {
   modelUrl: string;
   availableModels?: ModelOption[];
   onModelChange?: (url: string) => void;
-  scale?: number;
-  rotation?: number;
-  lerpFactor?: number;
+  /** 当前模型的取景：平移 / 缩放 / 模型大小 / 旋转 */
+  framing?: Framing;
+  /** 拖动、双指缩放、滚轮或切换预设结束后回调，用于保存取景 */
+  onFramingChange?: (framing: Framing) => void;
+  /** 模型前后的背景、前景道具与粒子 */
+  scene?: SceneSettings;
+  /** 当前模型的物理与呼吸调整 */
+  physics?: PhysicsSettings;
+  /** 与主模型同台的其他模型 */
+  avatars?: StageAvatar[];
+  /** 各参数组的滤波设置 */
+  smoothing?: SmoothingSettings;
+  /** 追踪输入 -> 模型参数的映射，默认使用 Cubism 标准参数 ID */
+  parameterMappings?: ParameterMapping[];
+  /** 无追踪数据时的待机动画 */
+  idle?: IdleSettings;
+  /** 音频口型与面部追踪嘴巴的混合方式 */
+  lipSync?: LipSyncSettings;
+  /** 由追踪数据触发表情的规则 */
+  expressionTriggers?: ExpressionSettings;
+  /** 命中区域互动配置 */
+  interactions?: InteractionConfig;
+  /** 互动编辑模式：框出命中区域，点击只选择区域、不触发动作 */
+  editingHitAreas?: boolean;
+  selectedHitArea?: string | null;
+  /** 编辑模式下点击模型：命中区域名，模型上其他位置为 `*`，模型外为 null */
+  onHitAreaSelect?: (hitArea: string | null) => void;
+  /** 渲染档位；抗锯齿只在创建画布时生效，切换时由调用方用 key 重新挂载 */
+  renderProfile?: RenderProfileId;
+  /** 暂停渲染与模型更新（页面不可见时） */
+  paused?: boolean;
+  /** 开发模式的性能 HUD */
+  showPerfHud?: boolean;
   showDebugInfo?: boolean;
   onLoad?: () => void;
   onError?: (error: string) => void;
@@ -51,12 +159,52 @@ export interface Live2DViewerProps {
 
 export interface Live2DViewerRef {
   updateFaceData: (data: FaceTrackingResult) => void;
-  playMotion: (group: string, index?: number) => void;
+  /** 音频口型，null 表示停止 */
+  updateLipSync: (frame: LipSyncFrame | null) => void;
+  /** 播放动作，avatarId 省略时为主模型 */
+  playMotion: (group: string, index?: number, avatarId?: string) => void;
+  /** 当前模型的表情名（已去掉文件后缀） */
+  getExpressions: () => string[];
+  /** 手动设置表情，优先于追踪触发；模型没有该表情时返回 false */
+  setExpression: (name: string) => Promise<boolean>;
+  /** 清除手动表情，恢复由追踪触发 */
+  clearExpression: () => void;
+  /** 当前模型的命中区域名 */
+  getHitAreas: () => string[];
+  /** 模型的动作组名，avatarId 省略时为主模型 */
+  getMotionGroups: (avatarId?: string) => string[];
+  /** 舞台上的模型 id，主模型为 `main` */
+  getAvatarIds: () => string[];
+  /** 驱动某个同台模型（录制回放），null 表示停止、恢复待机 */
+  updateAvatarFaceData: (
+    avatarId: string,
+    data: FaceTrackingResult | null,
+  ) => void;
+  /** 当前模型的全部参数 ID（Cubism 2 模型无法枚举，返回空数组） */
+  getParameterIds: () => string[];
+  /** PIXI 画布，用于录制 */
+  getCanvas: () => HTMLCanvasElement | null;
+  /** 每次渲染之后回调（此时画布内容可读），返回取消函数 */
+  onAfterRender: (callback: () => void) => () => void;
+  /** 按指定分辨率渲染当前姿态并编码为图片，取景与屏幕一致 */
+  captureFrame: (options: StillOptions) => Promise<Result<Blob>>;
+  /** 以动画切换到取景预设（全身 / 半身 / 面部特写） */
+  frameTo: (preset: FramingPresetId) => void;
+  /** 以动画恢复默认平移与缩放 */
+  resetFraming: () => void;
 }
 
-function lerp(current: number, target: number, factor: number): number {
-  return current + (target - current) * factor;
-}
+// 移动超过该距离不再算作点击 / 长按
+const TAP_SLOP_PX = 10;
+// 两次点击的间隔与距离在此范围内算作双击
+const DOUBLE_TAP_MS = 300;
+const DOUBLE_TAP_SLOP_PX = 30;
+// 滚轮停止后再保存取景
+const WHEEL_COMMIT_DELAY_MS = 300;
+
+const NO_AVATARS: StageAvatar[] = [];
+
+const FRAMING_PRESET_IDS = Object.keys(FRAMING_PRESETS) as FramingPresetId[];
 
 /**
  * Live2D Viewer Component with ref support
@@ -67,9 +215,23 @@ export const Live2DViewer = forwardRef<Live2DViewerRef, Live2DViewerProps>(
       modelUrl,
       availableModels = [],
       onModelChange,
-      scale = 0.15,
-      rotation = 0,
-      lerpFactor = 0.3,
+      framing = DEFAULT_FRAMING,
+      onFramingChange,
+      scene = DEFAULT_SCENE_SETTINGS,
+      physics = DEFAULT_PHYSICS_SETTINGS,
+      avatars = NO_AVATARS,
+      smoothing = DEFAULT_SMOOTHING_SETTINGS,
+      parameterMappings = DEFAULT_PARAMETER_MAPPINGS,
+      idle = DEFAULT_IDLE_SETTINGS,
+      lipSync = DEFAULT_LIP_SYNC_SETTINGS,
+      expressionTriggers = DEFAULT_EXPRESSION_SETTINGS,
+      interactions = DEFAULT_INTERACTION_CONFIG,
+      editingHitAreas = false,
+      selectedHitArea = null,
+      onHitAreaSelect,
+      renderProfile = DEFAULT_RENDER_PROFILE,
+      paused = false,
+      showPerfHud = false,
       showDebugInfo = false,
       onLoad,
       onError,
@@ -78,109 +240,470 @@ export const Live2DViewer = forwardRef<Live2DViewerRef, Live2DViewerProps>(
   ) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const appRef = useRef<Application | null>(null);
+    // pixi-live2d-display 在共享 ticker 上更新模型，与 app.ticker 一起限帧 / 暂停
+    const sharedTickerRef = useRef<Ticker | null>(null);
+    const renderProfileRef = useRef(renderProfile);
+    renderProfileRef.current = renderProfile;
+
+    // Performance HUD（只在开启时统计）
+    const perfMonitorRef = useRef<PerfMonitor | null>(null);
+    // 最近一条带 timestamp 的追踪帧，参数写入模型时计算端到端延迟
+    const pendingLatencyRef = useRef<{
+      timestamp: number;
+      receivedAt: number;
+    } | null>(null);
+    const [perfSample, setPerfSample] = useState<PerfSample | null>(null);
     const modelRef = useRef<Live2DModel | null>(null);
+    const modelVersionRef = useRef<ModelVersion>("cubism4");
     const viewportRef = useRef<Container | null>(null);
-
-    // Pan and zoom state
-    const panRef = useRef({ x: 0, y: 0 });
-    const zoomRef = useRef(1);
+    const sceneRef = useRef<SceneLayers | null>(null);
+    // 同台模型，按 id
+    const avatarModelsRef = useRef(new Map<string, StageAvatarModel>());
+    const idleMotionGroupRef = useRef<string | null>(null);
+
+    // Pan and zoom state：当前（含手势与动画中的）取景
+    const viewRef = useRef<Framing>(framing);
+    const onFramingChangeRef = useRef(onFramingChange);
+    onFramingChangeRef.current = onFramingChange;
+    // 正在进行的取景动画，取消时从 ticker 移除
+    const framingAnimationRef = useRef<(() => void) | null>(null);
     const isDraggingRef = useRef(false);
     const lastTouchRef = useRef<{ x: number; y: number } | null>(null);
     const lastTouchDistanceRef = useRef<number | null>(null);
 
-    // Face tracking params with smoothing
-    const currentParamsRef = useRef({
-      angleX: 0,
-      angleY: 0,
-      angleZ: 0,
-      eyeOpenL: 1,
-      eyeOpenR: 1,
-      eyeBallX: 0,
-      eyeBallY: 0,
-      mouthOpen: 0,
-    });
+    // Face tracking input filters
+    const smootherRef = useRef(new FaceSmoother(smoothing));
+    // 最近一帧（已平滑）的追踪数据，每帧在 beforeModelUpdate 中写入模型
+    const trackedRef = useRef<FaceTrackingData | null>(null);
+    const idleAnimatorRef = useRef(new IdleAnimator(idle));
+    const trackingBlendRef = useRef(new TrackingBlend(idle));
+    const idleSettingsRef = useRef(idle);
+    const physicsRef = useRef(physics);
+    physicsRef.current = physics;
+    const mappingsRef = useRef(parameterMappings);
+    mappingsRef.current = parameterMappings;
+    const lipSyncFrameRef = useRef<LipSyncFrame | null>(null);
+    const lipSyncRef = useRef(lipSync);
+    lipSyncRef.current = lipSync;
+
+    // Interactions
+    const interactionsRef = useRef(interactions);
+    interactionsRef.current = interactions;
+    const editingHitAreasRef = useRef(editingHitAreas);
+    editingHitAreasRef.current = editingHitAreas;
+    const selectedHitAreaRef = useRef(selectedHitArea);
+    selectedHitAreaRef.current = selectedHitArea;
+    const onHitAreaSelectRef = useRef(onHitAreaSelect);
+    onHitAreaSelectRef.current = onHitAreaSelect;
+    // 在模型上拖动时的指针位置，非 null 时覆盖头部角度与视线
+    const pointerFocusRef = useRef<PointerFocus | null>(null);
+
+    // Expressions
+    const expressionTriggerRef = useRef(
+      new ExpressionTrigger(expressionTriggers),
+    );
+    const expressionNamesRef = useRef<string[]>([]);
+    // 手动选择的表情；非 null 时不再由追踪触发
+    const manualExpressionRef = useRef<string | null>(null);
+    // 当前由追踪触发的表情
+    const autoExpressionRef = useRef<string | null>(null);
 
     const [pixiReady, setPixiReady] = useState(false);
+    const [loadedModel, setLoadedModel] = useState<Live2DModel | null>(null);
     const [motionGroups, setMotionGroups] = useState<
       Array<{ group: string; count: number }>
     >([]);
+    const [expressionNames, setExpressionNames] = useState<string[]>([]);
+    const [manualExpression, setManualExpression] = useState<string | null>(
+      null,
+    );
     const [debugInfo, setDebugInfo] = useState("");
 
-    // Sensitivity scale factors
-    const SCALES = {
-      angleX: 2.5,
-      angleY: 2.5,
-      angleZ: 2.5,
-      eyeBallX: 1.0,
-      eyeBallY: 1.0,
-    };
+    /**
+     * 切换到指定表情，null 恢复默认表情
+     */
+    const showExpression = useCallback(
+      async (name: string | null): Promise<boolean> => {
+        const manager =
+          modelRef.current?.internalModel.motionManager?.expressionManager;
+        if (!manager) return false;
+
+        const index =
+          name === null
+            ? -1
+            : findExpressionIndex(expressionNamesRef.current, name);
+        if (index < 0) {
+          manager.resetExpression();
+          // resetExpression 不更新 currentExpression，之后设回同一表情会被忽略
+          manager.currentExpression = manager.defaultExpression;
+          return name === null;
+        }
+        return manager.setExpression(index);
+      },
+      [],
+    );
+
+    const selectExpression = useCallback(
+      (name: string | null) => {
+        manualExpressionRef.current = name;
+        setManualExpression(name);
+        return showExpression(name ?? autoExpressionRef.current);
+      },
+      [showExpression],
+    );
+
+    const runInteraction = useCallback(
+      (action: InteractionAction) => {
+        const model = modelRef.current;
+        if (!model) return;
+        switch (action.type) {
+          case "motion":
+            model.motion(action.group, action.index, 3);
+            break;
+          case "expression":
+            // 再次触发同一表情时取消
+            void selectExpression(
+              manualExpressionRef.current === action.name ? null : action.name,
+            );
+            break;
+          case "sound":
+            new Audio(action.url)
+              .play()
+              .catch((e) => console.warn("Failed to play sound:", e));
+            break;
+        }
+      },
+      [selectExpression],
+    );
+
+    const updateAutoExpression = useCallback(
+      (name: string | null) => {
+        if (name === autoExpressionRef.current) return;
+        autoExpressionRef.current = name;
+        if (manualExpressionRef.current === null) void showExpression(name);
+      },
+      [showExpression],
+    );
+
+    /**
+     * 把 viewRef 写入视口与模型；平移按画布大小换算为像素
+     */
+    const applyView = useCallback(() => {
+      const app = appRef.current;
+      const viewport = viewportRef.current;
+      if (!app || !viewport) return;
+      const view = viewRef.current;
+      viewport.scale.set(view.zoom);
+      viewport.x = app.screen.width * (0.5 + view.panX);
+      viewport.y = app.screen.height * (0.5 + view.panY);
+      if (modelRef.current) {
+        modelRef.current.scale.set(view.scale);
+        modelRef.current.rotation = (view.rotation * Math.PI) / 180;
+      }
+    }, []);
+
+    const commitView = useCallback(() => {
+      onFramingChangeRef.current?.(viewRef.current);
+    }, []);
+
+    const stopFramingAnimation = useCallback(() => {
+      if (framingAnimationRef.current) {
+        appRef.current?.ticker.remove(framingAnimationRef.current);
+        framingAnimationRef.current = null;
+      }
+    }, []);
+
+    /**
+     * 以缓动动画切换到目标取景，结束后保存
+     */
+    const animateTo = useCallback(
+      (target: Framing) => {
+        const app = appRef.current;
+        if (!app) return;
+        stopFramingAnimation();
+
+        const from = viewRef.current;
+        const start = performance.now();
+        const step = () => {
+          const t = Math.min(
+            1,
+            (performance.now() - start) / FRAMING_TRANSITION_MS,
+          );
+          viewRef.current =
+            t < 1
+              ? interpolateFraming(from, target, easeInOutCubic(t))
+              : target;
+          applyView();
+          if (t >= 1) {
+            stopFramingAnimation();
+            commitView();
+          }
+        };
+        framingAnimationRef.current = step;
+        app.ticker.add(step);
+      },
+      [applyView, commitView, stopFramingAnimation],
+    );
+
+    const frameTo = useCallback(
+      (preset: FramingPresetId) => {
+        const app = appRef.current;
+        const model = modelRef.current;
+        if (!app || !model) return;
+        animateTo(
+          framePreset(preset, viewRef.current, {
+            modelHeight: model.height,
+            modelOffsetY: MODEL_OFFSET_Y,
+            screenHeight: app.screen.height,
+          }),
+        );
+      },
+      [animateTo],
+    );
+
+    const resetFraming = useCallback(() => {
+      animateTo(resetView(viewRef.current));
+    }, [animateTo]);
 
     // Expose methods via ref
     useImperativeHandle(ref, () => ({
       updateFaceData: (data: FaceTrackingResult) => {
-        const model = modelRef.current;
-        if (!model?.internalModel?.coreModel) return;
-
-        const coreModel = model.internalModel.coreModel;
-        const params = currentParamsRef.current;
-
-        // Apply sensitivity scaling
-        const targetAngleX = data.angleX * SCALES.angleX;
-        const targetAngleY = data.angleY * SCALES.angleY;
-        const targetAngleZ = data.angleZ * SCALES.angleZ;
-
-        // Smooth the values
-        params.angleX = lerp(params.angleX, targetAngleX, lerpFactor);
-        params.angleY = lerp(params.angleY, targetAngleY, lerpFactor);
-        params.angleZ = lerp(params.angleZ, targetAngleZ, lerpFactor);
-        params.eyeOpenL = lerp(params.eyeOpenL, data.eyeOpenL, lerpFactor);
-        params.eyeOpenR = lerp(params.eyeOpenR, data.eyeOpenR, lerpFactor);
-        params.eyeBallX = lerp(
-          params.eyeBallX,
-          data.eyeBallX * SCALES.eyeBallX,
-          lerpFactor,
-        );
-        params.eyeBallY = lerp(
-          params.eyeBallY,
-          data.eyeBallY * SCALES.eyeBallY,
-          lerpFactor,
+        if (!modelRef.current) return;
+
+        const now = performance.now();
+        const perf = perfMonitorRef.current;
+        if (perf) {
+          perf.recordMessage(now);
+          if (data.timestamp !== undefined) {
+            pendingLatencyRef.current = {
+              timestamp: data.timestamp,
+              receivedAt: now,
+            };
+          }
+        }
+        trackedRef.current = smootherRef.current.process(
+          data,
+          data.timestamp ?? now,
         );
-        params.mouthOpen = lerp(params.mouthOpen, data.mouthOpen, lerpFactor);
-
-        try {
-          coreModel.setParameterValueById("ParamAngleX", params.angleX);
-          coreModel.setParameterValueById("ParamAngleY", params.angleY);
-          coreModel.setParameterValueById("ParamAngleZ", params.angleZ);
-          coreModel.setParameterValueById("ParamEyeLOpen", params.eyeOpenL);
-          coreModel.setParameterValueById("ParamEyeROpen", params.eyeOpenR);
-          coreModel.setParameterValueById("ParamEyeBallX", params.eyeBallX);
-          coreModel.setParameterValueById("ParamEyeBallY", params.eyeBallY);
-          coreModel.setParameterValueById("ParamMouthOpenY", params.mouthOpen);
-        } catch {
-          // Some models may not have all parameters
+        // 丢失判断用本地时钟，消息 timestamp 可能来自原生的另一个时钟
+        trackingBlendRef.current.markTracked(now);
+        for (const avatar of avatarModelsRef.current.values()) {
+          if (avatar.source === "tracking") {
+            avatar.feed(trackedRef.current, now, false);
+          }
         }
+        updateAutoExpression(
+          expressionTriggerRef.current.update(trackedRef.current),
+        );
 
         if (showDebugInfo) {
           setDebugInfo(
             JSON.stringify(
               data,
               (key, val) =>
-                typeof val === "number" ? Number(val.toFixed(2)) : val,
+                key === "blendShapes" || key === "headTransform"
+                  ? undefined
+                  : typeof val === "number"
+                    ? Number(val.toFixed(2))
+                    : val,
               2,
             ),
           );
         }
       },
-      playMotion: (group: string, index = 0) => {
-        if (modelRef.current) {
+      updateLipSync: (frame: LipSyncFrame | null) => {
+        lipSyncFrameRef.current = frame;
+      },
+      playMotion: (group: string, index = 0, avatarId = MAIN_AVATAR_ID) => {
+        if (avatarId !== MAIN_AVATAR_ID) {
+          avatarModelsRef.current.get(avatarId)?.playMotion(group, index);
+        } else if (modelRef.current) {
           modelRef.current.motion(group, index, 3);
         }
       },
+      getExpressions: () => expressionNamesRef.current,
+      setExpression: async (name: string) => {
+        if (findExpressionIndex(expressionNamesRef.current, name) < 0) {
+          return false;
+        }
+        return selectExpression(name);
+      },
+      clearExpression: () => {
+        void selectExpression(null);
+      },
+      getHitAreas: () =>
+        Object.keys(modelRef.current?.internalModel.hitAreas ?? {}),
+      getMotionGroups: (avatarId = MAIN_AVATAR_ID) => {
+        if (avatarId !== MAIN_AVATAR_ID) {
+          return avatarModelsRef.current.get(avatarId)?.motionGroups ?? [];
+        }
+        return modelRef.current
+          ? getMotionGroups(modelRef.current).map((g) => g.group)
+          : [];
+      },
+      getAvatarIds: () => [MAIN_AVATAR_ID, ...avatarModelsRef.current.keys()],
+      updateAvatarFaceData: (
+        avatarId: string,
+        data: FaceTrackingResult | null,
+      ) => {
+        const avatar = avatarModelsRef.current.get(avatarId);
+        if (!avatar) return;
+        if (data) avatar.feed(data, performance.now(), true);
+        else avatar.clearFace();
+      },
+      getParameterIds: () =>
+        modelRef.current?.internalModel.coreModel.getModel?.().parameters.ids ??
+        [],
+      getCanvas: () => canvasRef.current,
+      onAfterRender: (callback: () => void) => {
+        const app = appRef.current;
+        if (!app) return () => {};
+        // Application 以 LOW (-25) 优先级渲染，UTILITY (-50) 在其之后执行；
+        // 同一帧内 WebGL 缓冲区尚未清空，drawImage 能读到画面
+        app.ticker.add(callback, undefined, -50);
+        return () => {
+          appRef.current?.ticker.remove(callback);
+        };
+      },
+      captureFrame: async (options: StillOptions) => {
+        const app = appRef.current;
+        const viewport = viewportRef.current;
+        if (!app || !viewport || !modelRef.current) {
+          return err("unsupported", "模型尚未加载");
+        }
+        const width = Math.round(options.width);
+        const height = Math.round(options.height);
+        if (
+          !(width > 0 && width <= STILL_MAX_SIZE) ||
+          !(height > 0 && height <= STILL_MAX_SIZE)
+        ) {
+          return err(
+            "invalid_arguments",
+            `分辨率需在 1 - ${STILL_MAX_SIZE} 之间`,
+          );
+        }
+
+        const { RenderTexture } = await import("pixi.js");
+        const texture = RenderTexture.create({ width, height });
+        const saved = {
+          x: viewport.x,
+          y: viewport.y,
+          scale: viewport.scale.x,
+        };
+        let restoreScene: (() => void) | undefined;
+        try {
+          // 临时把视口缩放到输出尺寸，离屏渲染一帧后还原
+          const fit = fitFraming(app.screen, { width, height }, viewport);
+          viewport.scale.set(saved.scale * fit.scale);
+          viewport.position.set(fit.x, fit.y);
+          restoreScene = sceneRef.current?.prepareCapture(
+            width,
+            height,
+            fit.scale,
+            { x: fit.x - saved.x * fit.scale, y: fit.y - saved.y * fit.scale },
+          );
+          app.renderer.render(app.stage, {
+            renderTexture: texture,
+            clear: true,
+          });
+          const canvas: HTMLCanvasElement =
+            app.renderer.plugins.extract.canvas(texture);
+          return await encodeStill(canvas, options);
+        } catch (e) {
+          return fail(toResultError(e, "unknown", "截图失败"));
+        } finally {
+          viewport.scale.set(saved.scale);
+          viewport.position.set(saved.x, saved.y);
+          restoreScene?.();
+          texture.destroy(true);
+        }
+      },
+      frameTo,
+      resetFraming,
     }));
 
+    /**
+     * 每帧在动作与物理之后写入参数：追踪数据与待机姿态按权重交叉淡化
+     */
+    const applyParameters = useCallback(() => {
+      const model = modelRef.current;
+      if (!model) return;
+      const internalModel = model.internalModel;
+
+      const now = performance.now();
+      const idleSettings = idleSettingsRef.current;
+      const tracked = trackedRef.current;
+      let face: FaceTrackingData | null = tracked;
+      let breath: number | null = null;
+
+      if (idleSettings.enabled) {
+        const weight = trackingBlendRef.current.update(now);
+        const pose = idleAnimatorRef.current.sample(now);
+        if (weight < 1 || !tracked) {
+          face = mixFaceData(pose.face, tracked ?? pose.face, weight);
+        }
+        if (idleSettings.breath) {
+          breath = scaleBreath(pose.breath, physicsRef.current.breath);
+        }
+      }
+
+      // 追踪期间不自动播放 Idle 动作，避免和追踪抢参数
+      const motionManager = internalModel.motionManager;
+      if (motionManager) {
+        const allowIdleMotions =
+          !idleSettings.enabled ||
+          (idleSettings.idleMotions &&
+            !trackingBlendRef.current.isTracking(now));
+        motionManager.groups.idle = allowIdleMotions
+          ? (idleMotionGroupRef.current ?? "")
+          : "";
+      }
+
+      // 追踪丢失后收起由追踪触发的表情
+      if (
+        autoExpressionRef.current !== null &&
+        !trackingBlendRef.current.isTracking(now)
+      ) {
+        expressionTriggerRef.current.reset();
+        updateAutoExpression(null);
+      }
+
+      if (pointerFocusRef.current) {
+        face = applyPointerFocus(face, pointerFocusRef.current);
+      }
+
+      // 关闭待机动画时保持最后一帧（旧行为）；只有口型时仍然驱动嘴巴
+      if (!face && !lipSyncFrameRef.current) return;
+
+      let targets = face ? evaluateMappings(mappingsRef.current, face) : {};
+      if (lipSyncFrameRef.current) {
+        targets = mixLipSync(
+          targets,
+          lipSyncFrameRef.current,
+          lipSyncRef.current,
+        );
+      }
+      if (breath !== null && !("ParamBreath" in targets)) {
+        targets.ParamBreath = breath;
+      }
+
+      writeParameters(model, modelVersionRef.current, targets);
+
+      const pending = pendingLatencyRef.current;
+      if (pending && perfMonitorRef.current) {
+        perfMonitorRef.current.recordLatency(
+          pending.timestamp,
+          pending.receivedAt,
+          performance.now(),
+        );
+        pendingLatencyRef.current = null;
+      }
+    }, [updateAutoExpression]);
+
     // Initialize PIXI Application (once)
     useEffect(() => {
       let mounted = true;
+      const avatarModels = avatarModelsRef.current;
 
       const initPixiApp = async () => {
         if (!canvasRef.current || appRef.current) return;
@@ -191,21 +714,36 @@ export const Live2DViewer = forwardRef<Live2DViewerRef, Live2DViewerProps>(
 
           if (!mounted) return;
 
+          const profile = RENDER_PROFILES[renderProfileRef.current];
           const app = new PIXI.Application({
             view: canvasRef.current,
             backgroundAlpha: 0,
             resizeTo: canvasRef.current.parentElement || undefined,
-            antialias: true,
+            antialias: profile.antialias,
+            resolution: renderResolution(profile, window.devicePixelRatio),
+            autoDensity: true,
           });
           appRef.current = app;
+          sharedTickerRef.current = PIXI.Ticker.shared;
 
           // Create viewport container for pan/zoom
           const viewport = new PIXI.Container();
+          // 同台模型按 zIndex 排序，主模型为 0
+          viewport.sortableChildren = true;
           viewport.x = app.screen.width / 2;
           viewport.y = app.screen.height / 2;
           app.stage.addChild(viewport);
           viewportRef.current = viewport;
 
+          // 背景插在视口之下，前景在视口之上
+          const sceneLayers = new SceneLayers(PIXI, app.stage);
+          sceneLayers.layout(app.screen.width, app.screen.height);
+          app.renderer.on("resize", () =>
+            sceneLayers.layout(app.screen.width, app.screen.height),
+          );
+          app.ticker.add(() => sceneLayers.update(app.ticker.deltaMS));
+          sceneRef.current = sceneLayers;
+
           console.log("PIXI Application initialized");
           setPixiReady(true);
         } catch (err) {
@@ -219,25 +757,22 @@ export const Live2DViewer = forwardRef<Live2DViewerRef, Live2DViewerProps>(
 
       void initPixiApp();
 
-      const handleResize = () => {
-        if (appRef.current && viewportRef.current) {
-          viewportRef.current.x =
-            appRef.current.screen.width / 2 + panRef.current.x;
-          viewportRef.current.y =
-            appRef.current.screen.height / 2 + panRef.current.y;
-        }
-      };
+      const handleResize = () => applyView();
       window.addEventListener("resize", handleResize);
 
       return () => {
         mounted = false;
         window.removeEventListener("resize", handleResize);
+        sceneRef.current?.destroy();
+        sceneRef.current = null;
+        avatarModels.forEach((avatar) => avatar.destroy());
+        avatarModels.clear();
         if (appRef.current) {
           appRef.current.destroy(true);
           appRef.current = null;
         }
       };
-    }, [onError]);
+    }, [onError, applyView]);
 
     // Load Live2D model (changes when modelUrl changes)
     useEffect(() => {
@@ -249,8 +784,11 @@ export const Live2DViewer = forwardRef<Live2DViewerRef, Live2DViewerProps>(
         if (!appRef.current || !viewportRef.current) return;
 
         try {
-          // @ts-ignore - Dynamic import type
-          const { Live2DModel } = await import("pixi-live2d-display/cubism4");
+          // 导入的模型从 IndexedDB 读取为 File[]；按清单选择 Cubism 2 / 4 运行时
+          const resolved = await resolveModelRuntime(modelUrl);
+          if (resolved.error !== null) throw new Error(resolved.error.message);
+          const runtime = await loadLive2DRuntime(resolved.data.version);
+          if (runtime.error !== null) throw new Error(runtime.error.message);
 
           if (!mounted) return;
 
@@ -260,51 +798,64 @@ export const Live2DViewer = forwardRef<Live2DViewerRef, Live2DViewerProps>(
             viewportRef.current.removeChild(modelRef.current as any);
             modelRef.current.destroy();
             modelRef.current = null;
+            setLoadedModel(null);
           }
 
-          console.log("Loading Live2D model:", modelUrl);
-          const model = await Live2DModel.from(modelUrl);
+          console.log(
+            `Loading Live2D model (${resolved.data.version}):`,
+            modelUrl,
+          );
+          const model = (await runtime.data.from(
+            resolved.data.source,
+          )) as Live2DModel;
 
           if (!mounted) {
             model.destroy();
             return;
           }
 
-          modelRef.current = model as unknown as Live2DModel;
-
-          // Enable interaction
-          model.interactive = true;
-          model.autoInteract = true;
+          modelRef.current = model;
+          modelVersionRef.current = resolved.data.version;
+          smootherRef.current.reset();
+          trackedRef.current = null;
+          trackingBlendRef.current.reset();
+          expressionTriggerRef.current.reset();
+          manualExpressionRef.current = null;
+          autoExpressionRef.current = null;
+          setManualExpression(null);
 
-          // Handle hit events
-          model.on("hit", (hitAreas: string[]) => {
-            console.log("Hit areas:", hitAreas);
-
-            if (hitAreas.includes("Head")) {
-              model.motion("TapHead");
-            } else if (hitAreas.includes("Body")) {
-              model.motion("TapBody");
-            } else {
-              model.motion("Tap");
-            }
-          });
+          // 点击、长按与拖动跟随由画布上的手势处理，见 interactions
+          model.autoInteract = false;
 
           model.anchor.set(0.5, 0.5);
-          model.scale.set(scale);
-          model.rotation = rotation;
           model.x = 0;
-          model.y = 50;
+          model.y = MODEL_OFFSET_Y;
+          model.zIndex = 0;
+          applyPhysicsSettings(
+            model,
+            resolved.data.version,
+            physicsRef.current,
+          );
 
-          viewportRef.current.addChild(model);
+          viewportRef.current.addChild(model as unknown as Container);
+          applyView();
+          setLoadedModel(model);
 
           // Extract motion groups
-          const definitions =
-            model.internalModel?.motionManager?.definitions || {};
-          const groups = Object.keys(definitions).map((group) => ({
-            group,
-            count: definitions[group]?.length || 0,
-          }));
+          const groups = getMotionGroups(model);
           setMotionGroups(groups);
+          idleMotionGroupRef.current = findIdleMotionGroup(groups);
+
+          const expressions = (
+            modelRef.current.internalModel.motionManager?.expressionManager
+              ?.definitions ?? []
+          ).map((d, i) => normalizeExpressionName(d.Name ?? d.name ?? `${i}`));
+          expressionNamesRef.current = expressions;
+          setExpressionNames(expressions);
+          modelRef.current.internalModel.on(
+            "beforeModelUpdate",
+            applyParameters,
+          );
           console.log("Available motions:", groups);
 
           console.log("Live2D model loaded successfully!");
@@ -326,17 +877,169 @@ export const Live2DViewer = forwardRef<Live2DViewerRef, Live2DViewerProps>(
           viewportRef.current.removeChild(modelRef.current as any);
           modelRef.current.destroy();
           modelRef.current = null;
+          setLoadedModel(null);
         }
       };
-    }, [pixiReady, modelUrl, scale, rotation, onLoad, onError]);
+    }, [pixiReady, modelUrl, onLoad, onError, applyParameters, applyView]);
 
-    // Update model scale/rotation when they change
+    // 互动编辑模式下框出命中区域
     useEffect(() => {
-      if (modelRef.current) {
-        modelRef.current.scale.set(scale);
-        modelRef.current.rotation = rotation;
+      const app = appRef.current;
+      if (!editingHitAreas || !app || !loadedModel) return;
+
+      let overlay: HitAreaOverlay | null = null;
+      let cancelled = false;
+      const draw = () => overlay?.draw(selectedHitAreaRef.current);
+      void import("pixi.js").then((PIXI) => {
+        if (cancelled) return;
+        overlay = new HitAreaOverlay(
+          PIXI,
+          loadedModel as unknown as Container,
+          loadedModel.internalModel,
+        );
+        app.ticker.add(draw);
+      });
+      return () => {
+        cancelled = true;
+        appRef.current?.ticker.remove(draw);
+        overlay?.destroy();
+      };
+    }, [editingHitAreas, loadedModel]);
+
+    // 渲染档位：分辨率与帧率可随时切换；暂停时停止两个 ticker
+    useEffect(() => {
+      const app = appRef.current;
+      const sharedTicker = sharedTickerRef.current;
+      if (!pixiReady || !app || !sharedTicker) return;
+
+      const profile = RENDER_PROFILES[renderProfile];
+      const resolution = renderResolution(profile, window.devicePixelRatio);
+      if (app.renderer.resolution !== resolution) {
+        app.renderer.resolution = resolution;
+        const interaction = app.renderer.plugins.interaction as
+          { resolution: number } | undefined;
+        if (interaction) interaction.resolution = resolution;
+        app.resize();
+      }
+      for (const ticker of [app.ticker, sharedTicker]) {
+        ticker.maxFPS = profile.maxFPS;
+        if (paused) ticker.stop();
+        else ticker.start();
+      }
+      perfMonitorRef.current?.resumeFrames();
+    }, [renderProfile, paused, pixiReady]);
+
+    // 性能 HUD：每次渲染之后记录帧间隔，每秒取一次样本
+    useEffect(() => {
+      const app = appRef.current;
+      if (!showPerfHud || !pixiReady || !app) return;
+
+      const monitor = new PerfMonitor();
+      perfMonitorRef.current = monitor;
+      // 不限帧率时按 60fps 判断掉帧
+      const recordFrame = () =>
+        monitor.recordFrame(
+          performance.now(),
+          RENDER_PROFILES[renderProfileRef.current].maxFPS || 60,
+        );
+      app.ticker.add(recordFrame, undefined, -50);
+      const timer = window.setInterval(
+        () =>
+          setPerfSample(
+            monitor.sample(performance.now(), readPerfResources(app)),
+          ),
+        1000,
+      );
+
+      return () => {
+        window.clearInterval(timer);
+        appRef.current?.ticker.remove(recordFrame);
+        perfMonitorRef.current = null;
+        pendingLatencyRef.current = null;
+        setPerfSample(null);
+      };
+    }, [showPerfHud, pixiReady]);
+
+    const exportPerfReport = useCallback(async () => {
+      const monitor = perfMonitorRef.current;
+      if (!monitor) return err("unsupported", "性能统计未开启");
+      const report = monitor.report({
+        modelUrl,
+        renderProfile,
+        resolution: appRef.current?.renderer.resolution ?? null,
+        userAgent: navigator.userAgent,
+      });
+      const stamp = report.createdAt.replace(/[:.]/g, "-");
+      return exportFile(
+        `perf-${stamp}.json`,
+        JSON.stringify(report, null, 2),
+        "application/json",
+      );
+    }, [modelUrl, renderProfile]);
+
+    useEffect(() => {
+      sceneRef.current?.setSettings(scene);
+    }, [scene, pixiReady]);
+
+    useEffect(() => {
+      if (!loadedModel) return;
+      applyPhysicsSettings(loadedModel, modelVersionRef.current, physics);
+    }, [physics, loadedModel]);
+
+    useEffect(() => {
+      smootherRef.current.setSettings(smoothing);
+    }, [smoothing]);
+
+    useEffect(() => {
+      expressionTriggerRef.current.setSettings(expressionTriggers);
+    }, [expressionTriggers]);
+
+    useEffect(() => {
+      idleSettingsRef.current = idle;
+      idleAnimatorRef.current.setSettings(idle);
+      trackingBlendRef.current.setSettings(idle);
+      avatarModelsRef.current.forEach((avatar) => avatar.setIdleSettings(idle));
+    }, [idle]);
+
+    // 同台模型：按 id 增删，地址变化时重新加载
+    useEffect(() => {
+      const viewport = viewportRef.current;
+      if (!pixiReady || !viewport) return;
+
+      const current = avatarModelsRef.current;
+      const ids = new Set(avatars.map((a) => a.id));
+      for (const [id, avatar] of current) {
+        if (!ids.has(id)) {
+          avatar.destroy();
+          current.delete(id);
+        }
+      }
+      for (const config of avatars) {
+        let avatar = current.get(config.id);
+        if (avatar && !avatar.setConfig(config)) continue;
+        if (!avatar) {
+          avatar = new StageAvatarModel(
+            viewport,
+            config,
+            idleSettingsRef.current,
+          );
+          current.set(config.id, avatar);
+        }
+        void avatar.load().then((result) => {
+          if (result.error !== null) {
+            console.error("Failed to load stage avatar:", result.error);
+            onError?.(`同台模型加载失败: ${result.error.message}`);
+          }
+        });
       }
-    }, [scale, rotation]);
+    }, [avatars, pixiReady, onError]);
+
+    // 外部更新取景（切换模型、设置页调整、重置）时直接应用，不重新加载模型
+    useEffect(() => {
+      stopFramingAnimation();
+      viewRef.current = framing;
+      applyView();
+    }, [framing, applyView, stopFramingAnimation]);
 
     // Pan and zoom handlers
     useEffect(() => {
@@ -349,56 +1052,216 @@ export const Live2DViewer = forwardRef<Live2DViewerRef, Live2DViewerProps>(
         return;
 
       const canvas = canvasRef.current;
-      const viewport = viewportRef.current;
       const app = appRef.current;
 
-      const updateViewport = () => {
-        viewport.scale.set(zoomRef.current);
-        viewport.x = app.screen.width / 2 + panRef.current.x;
-        viewport.y = app.screen.height / 2 + panRef.current.y;
+      // 本次手势是否改变了取景，结束时保存
+      let viewChanged = false;
+      let wheelTimer: number | null = null;
+      let lastTap: { x: number; y: number; time: number } | null = null;
+
+      const panBy = (dx: number, dy: number) => {
+        stopFramingAnimation();
+        const view = viewRef.current;
+        viewRef.current = {
+          ...view,
+          panX: view.panX + dx / app.screen.width,
+          panY: view.panY + dy / app.screen.height,
+        };
+        viewChanged = true;
+        applyView();
+      };
+
+      const zoomBy = (factor: number) => {
+        stopFramingAnimation();
+        const view = viewRef.current;
+        viewRef.current = {
+          ...view,
+          zoom: Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, view.zoom * factor)),
+        };
+        viewChanged = true;
+        applyView();
+      };
+
+      const commitGestureView = () => {
+        if (!viewChanged) return;
+        viewChanged = false;
+        commitView();
       };
 
       const handleWheel = (e: WheelEvent) => {
         e.preventDefault();
-        const zoomDelta = e.deltaY > 0 ? 0.9 : 1.1;
-        zoomRef.current = Math.max(
-          0.1,
-          Math.min(5, zoomRef.current * zoomDelta),
-        );
-        updateViewport();
+        zoomBy(e.deltaY > 0 ? 0.9 : 1.1);
+        if (wheelTimer !== null) window.clearTimeout(wheelTimer);
+        wheelTimer = window.setTimeout(() => {
+          wheelTimer = null;
+          commitGestureView();
+        }, WHEEL_COMMIT_DELAY_MS);
+      };
+
+      /**
+       * 双击画面恢复默认平移与缩放
+       * @returns 是否为双击
+       */
+      const detectDoubleTap = (x: number, y: number): boolean => {
+        const now = performance.now();
+        const isDouble =
+          lastTap !== null &&
+          now - lastTap.time <= DOUBLE_TAP_MS &&
+          Math.hypot(x - lastTap.x, y - lastTap.y) <= DOUBLE_TAP_SLOP_PX;
+        lastTap = isDouble ? null : { x, y, time: now };
+        if (isDouble) resetFraming();
+        return isDouble;
+      };
+
+      // Model gestures: tap / long press / drag-follow
+      let gesture: {
+        x: number;
+        y: number;
+        onModel: boolean;
+        hitAreas: string[];
+        follow: boolean;
+        moved: boolean;
+        timer: number | null;
+      } | null = null;
+
+      const toGlobal = (clientX: number, clientY: number) => {
+        const rect = canvas.getBoundingClientRect();
+        return {
+          x: ((clientX - rect.left) * app.screen.width) / rect.width,
+          y: ((clientY - rect.top) * app.screen.height) / rect.height,
+        };
+      };
+
+      const clampUnit = (v: number) => Math.max(-1, Math.min(1, v));
+
+      const updateFocus = (clientX: number, clientY: number) => {
+        const model = modelRef.current;
+        if (!model) return;
+        const { x, y } = toGlobal(clientX, clientY);
+        const bounds = model.getBounds();
+        pointerFocusRef.current = {
+          x: clampUnit((x - bounds.x) / (bounds.width / 2) - 1),
+          y: clampUnit(1 - (y - bounds.y) / (bounds.height / 2)),
+        };
+      };
+
+      const runBinding = (hitAreas: string[], type: InteractionGesture) => {
+        const binding = findBinding(interactionsRef.current, hitAreas, type);
+        if (binding) runInteraction(binding.action);
+      };
+
+      /**
+       * @returns 是否由模型处理（跟随指针，不平移画面）
+       */
+      const beginGesture = (clientX: number, clientY: number): boolean => {
+        const model = modelRef.current;
+        if (!model) return false;
+        const { x, y } = toGlobal(clientX, clientY);
+        const bounds = model.getBounds();
+        const onModel =
+          x >= bounds.x &&
+          x <= bounds.x + bounds.width &&
+          y >= bounds.y &&
+          y <= bounds.y + bounds.height;
+        const editing = editingHitAreasRef.current;
+        const config = interactionsRef.current;
+        const current = {
+          x: clientX,
+          y: clientY,
+          onModel,
+          hitAreas: onModel ? model.hitTest(x, y) : [],
+          follow: onModel && config.dragFollow && !editing,
+          moved: false,
+          timer: null as number | null,
+        };
+        if (onModel && !editing) {
+          current.timer = window.setTimeout(() => {
+            current.timer = null;
+            // 长按之后松开不再算作点击
+            current.moved = true;
+            runBinding(current.hitAreas, "longPress");
+          }, config.longPressMs);
+        }
+        gesture = current;
+        return current.follow;
+      };
+
+      /**
+       * @returns 是否由模型处理
+       */
+      const moveGesture = (clientX: number, clientY: number): boolean => {
+        if (!gesture) return false;
+        if (
+          !gesture.moved &&
+          Math.hypot(clientX - gesture.x, clientY - gesture.y) > TAP_SLOP_PX
+        ) {
+          gesture.moved = true;
+          if (gesture.timer !== null) window.clearTimeout(gesture.timer);
+        }
+        if (gesture.follow && gesture.moved) updateFocus(clientX, clientY);
+        return gesture.follow;
+      };
+
+      const endGesture = (cancelled: boolean) => {
+        if (!gesture) return;
+        if (gesture.timer !== null) window.clearTimeout(gesture.timer);
+        if (!cancelled && !gesture.moved) {
+          if (detectDoubleTap(gesture.x, gesture.y)) {
+            // 第一次点击已触发过动作，双击只用于重置取景
+          } else if (editingHitAreasRef.current) {
+            onHitAreaSelectRef.current?.(
+              gesture.onModel ? (gesture.hitAreas[0] ?? ANY_HIT_AREA) : null,
+            );
+          } else if (gesture.onModel) {
+            runBinding(gesture.hitAreas, "tap");
+          }
+        }
+        gesture = null;
+        pointerFocusRef.current = null;
       };
 
       const handleMouseDown = (e: MouseEvent) => {
-        isDraggingRef.current = true;
+        isDraggingRef.current = !beginGesture(e.clientX, e.clientY);
         lastTouchRef.current = { x: e.clientX, y: e.clientY };
       };
 
       const handleMouseMove = (e: MouseEvent) => {
+        if (moveGesture(e.clientX, e.clientY)) return;
         if (!isDraggingRef.current || !lastTouchRef.current) return;
 
-        const dx = e.clientX - lastTouchRef.current.x;
-        const dy = e.clientY - lastTouchRef.current.y;
-
-        panRef.current.x += dx;
-        panRef.current.y += dy;
-
+        panBy(
+          e.clientX - lastTouchRef.current.x,
+          e.clientY - lastTouchRef.current.y,
+        );
         lastTouchRef.current = { x: e.clientX, y: e.clientY };
-        updateViewport();
       };
 
       const handleMouseUp = () => {
+        endGesture(false);
         isDraggingRef.current = false;
         lastTouchRef.current = null;
+        commitGestureView();
+      };
+
+      const handleMouseLeave = () => {
+        endGesture(true);
+        isDraggingRef.current = false;
+        lastTouchRef.current = null;
+        commitGestureView();
       };
 
       const handleTouchStart = (e: TouchEvent) => {
         if (e.touches.length === 1) {
-          isDraggingRef.current = true;
+          isDraggingRef.current = !beginGesture(
+            e.touches[0].clientX,
+            e.touches[0].clientY,
+          );
           lastTouchRef.current = {
             x: e.touches[0].clientX,
             y: e.touches[0].clientY,
           };
         } else if (e.touches.length === 2) {
+          endGesture(true);
           const dx = e.touches[1].clientX - e.touches[0].clientX;
           const dy = e.touches[1].clientY - e.touches[0].clientY;
           lastTouchDistanceRef.current = Math.sqrt(dx * dx + dy * dy);
@@ -408,22 +1271,26 @@ export const Live2DViewer = forwardRef<Live2DViewerRef, Live2DViewerProps>(
       const handleTouchMove = (e: TouchEvent) => {
         e.preventDefault();
 
+        if (
+          e.touches.length === 1 &&
+          moveGesture(e.touches[0].clientX, e.touches[0].clientY)
+        ) {
+          return;
+        }
+
         if (
           e.touches.length === 1 &&
           isDraggingRef.current &&
           lastTouchRef.current
         ) {
-          const dx = e.touches[0].clientX - lastTouchRef.current.x;
-          const dy = e.touches[0].clientY - lastTouchRef.current.y;
-
-          panRef.current.x += dx;
-          panRef.current.y += dy;
-
+          panBy(
+            e.touches[0].clientX - lastTouchRef.current.x,
+            e.touches[0].clientY - lastTouchRef.current.y,
+          );
           lastTouchRef.current = {
             x: e.touches[0].clientX,
             y: e.touches[0].clientY,
           };
-          updateViewport();
         } else if (
           e.touches.length === 2 &&
           lastTouchDistanceRef.current !== null
@@ -432,28 +1299,26 @@ export const Live2DViewer = forwardRef<Live2DViewerRef, Live2DViewerProps>(
           const dy = e.touches[1].clientY - e.touches[0].clientY;
           const distance = Math.sqrt(dx * dx + dy * dy);
 
-          const zoomDelta = distance / lastTouchDistanceRef.current;
-          zoomRef.current = Math.max(
-            0.1,
-            Math.min(5, zoomRef.current * zoomDelta),
-          );
-
+          zoomBy(distance / lastTouchDistanceRef.current);
           lastTouchDistanceRef.current = distance;
-          updateViewport();
         }
       };
 
-      const handleTouchEnd = () => {
+      const handleTouchEnd = (e: TouchEvent) => {
+        // 阻止随后模拟的 mousedown / mouseup，避免重复触发点击
+        if (e.cancelable) e.preventDefault();
+        endGesture(false);
         isDraggingRef.current = false;
         lastTouchRef.current = null;
         lastTouchDistanceRef.current = null;
+        commitGestureView();
       };
 
       canvas.addEventListener("wheel", handleWheel, { passive: false });
       canvas.addEventListener("mousedown", handleMouseDown);
       canvas.addEventListener("mousemove", handleMouseMove);
       canvas.addEventListener("mouseup", handleMouseUp);
-      canvas.addEventListener("mouseleave", handleMouseUp);
+      canvas.addEventListener("mouseleave", handleMouseLeave);
       canvas.addEventListener("touchstart", handleTouchStart, {
         passive: false,
       });
@@ -465,12 +1330,22 @@ export const Live2DViewer = forwardRef<Live2DViewerRef, Live2DViewerProps>(
         canvas.removeEventListener("mousedown", handleMouseDown);
         canvas.removeEventListener("mousemove", handleMouseMove);
         canvas.removeEventListener("mouseup", handleMouseUp);
-        canvas.removeEventListener("mouseleave", handleMouseUp);
+        canvas.removeEventListener("mouseleave", handleMouseLeave);
         canvas.removeEventListener("touchstart", handleTouchStart);
         canvas.removeEventListener("touchmove", handleTouchMove);
         canvas.removeEventListener("touchend", handleTouchEnd);
+        endGesture(true);
+        if (wheelTimer !== null) window.clearTimeout(wheelTimer);
+        commitGestureView();
       };
-    }, [pixiReady]);
+    }, [
+      pixiReady,
+      runInteraction,
+      applyView,
+      commitView,
+      stopFramingAnimation,
+      resetFraming,
+    ]);
 
     const playMotion = useCallback((motionKey: string) => {
       if (!modelRef.current) return;
@@ -571,6 +1446,88 @@ export const Live2DViewer = forwardRef<Live2DViewerRef, Live2DViewerProps>(
           </div>
         )}
 
+        {/* Expression Selector */}
+        {expressionNames.length > 0 && (
+          <div
+            style={{
+              position: "absolute",
+              top:
+                16 +
+                (availableModels.length > 0 ? 48 : 0) +
+                (motionGroups.length > 0 ? 48 : 0),
+              left: 16,
+              backgroundColor: "rgba(0,0,0,0.6)",
+              borderRadius: 16,
+              overflow: "hidden",
+              zIndex: 10,
+            }}
+          >
+            <IonSelect
+              interface="popover"
+              placeholder="Expression"
+              value={manualExpression ?? ""}
+              onIonChange={(e) => void selectExpression(e.detail.value || null)}
+              style={{
+                color: "white",
+                fontSize: 12,
+                padding: "6px 10px",
+                minWidth: 140,
+              }}
+            >
+              <IonSelectOption value="">自动 (Auto)</IonSelectOption>
+              {expressionNames.map((name) => (
+                <IonSelectOption key={name} value={name}>
+                  {name}
+                </IonSelectOption>
+              ))}
+            </IonSelect>
+          </div>
+        )}
+
+        {/* Framing Presets */}
+        {loadedModel && (
+          <div
+            style={{
+              position: "absolute",
+              bottom: 16,
+              right: 16,
+              display: "flex",
+              gap: 6,
+              zIndex: 10,
+            }}
+          >
+            {FRAMING_PRESET_IDS.map((id) => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => frameTo(id)}
+                style={{
+                  backgroundColor: "rgba(0,0,0,0.6)",
+                  color: "white",
+                  border: "none",
+                  borderRadius: 16,
+                  fontSize: 12,
+                  padding: "6px 10px",
+                }}
+              >
+                {FRAMING_PRESETS[id].label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Performance HUD */}
+        {showPerfHud && (
+          <PerfHud
+            sample={perfSample}
+            onExport={exportPerfReport}
+            onReset={() => {
+              perfMonitorRef.current?.reset();
+              setPerfSample(null);
+            }}
+          />
+        )}
+
         {/* Debug Info */}
         {showDebugInfo && debugInfo && (
           <div
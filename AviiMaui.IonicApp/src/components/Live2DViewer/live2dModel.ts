@@ -0,0 +1,96 @@
+import { toCubism2ParameterId } from "../../services/models/cubismRuntime";
+import type { ModelVersion } from "../../services/models/catalog";
+import type { HitAreaInternalModel } from "./hitAreaOverlay";
+
+/** 主模型中心相对视口原点的偏移 */
+export const MODEL_OFFSET_Y = 50;
+
+export interface ExpressionManager {
+  /** Cubism 4: { Name, File }，Cubism 2: { name, file } */
+  definitions: Array<{ Name?: string; name?: string }>;
+  currentExpression: unknown;
+  defaultExpression: unknown;
+  setExpression(index: number): Promise<boolean>;
+  resetExpression(): void;
+}
+
+// Minimal interface for Live2DModel to avoid 'any'
+export interface Live2DModel {
+  internalModel: HitAreaInternalModel & {
+    coreModel: {
+      /** Cubism 4 */
+      setParameterValueById?(id: string, value: number): void;
+      getModel?(): { parameters: { ids: string[] } };
+      /** Cubism 2 */
+      setParamFloat?(id: string, value: number): void;
+    };
+    motionManager?: {
+      definitions?: Record<string, Array<{ File?: string; file?: string }>>;
+      groups: { idle: string };
+      expressionManager?: ExpressionManager;
+    };
+    /** 物理与呼吸，结构因版本而异，见 physicsTuning */
+    physics?: unknown;
+    breath?: unknown;
+    on(event: "beforeModelUpdate", fn: () => void): void;
+  };
+  x: number;
+  y: number;
+  /** 同一视口内的层级（视口开启 sortableChildren） */
+  zIndex: number;
+  anchor: { set(x: number, y: number): void };
+  scale: { set(x: number): void };
+  rotation: number;
+  /** 当前缩放下的高度（视口坐标） */
+  height: number;
+  destroy(): void;
+  autoInteract: boolean;
+  /** 全局坐标下指针处的命中区域 */
+  hitTest(x: number, y: number): string[];
+  getBounds(): { x: number; y: number; width: number; height: number };
+  motion(group: string, index?: number, priority?: number): void;
+}
+
+/**
+ * 模型的动作组名与组内动作数
+ */
+export const getMotionGroups = (
+  model: Live2DModel,
+): Array<{ group: string; count: number }> => {
+  const definitions = model.internalModel.motionManager?.definitions || {};
+  return Object.keys(definitions).map((group) => ({
+    group,
+    count: definitions[group]?.length || 0,
+  }));
+};
+
+/**
+ * 名为 Idle（不区分大小写）的动作组
+ */
+export const findIdleMotionGroup = (
+  groups: Array<{ group: string }>,
+): string | null =>
+  groups.find((g) => g.group.toLowerCase() === "idle")?.group ?? null;
+
+/**
+ * 写入参数；Cubism 2 模型换成 V2 的参数 ID
+ */
+export function writeParameters(
+  model: Live2DModel,
+  version: ModelVersion,
+  targets: Record<string, number>,
+) {
+  const coreModel = model.internalModel.coreModel;
+  const isCubism2 = version === "cubism2";
+  for (const [id, value] of Object.entries(targets)) {
+    try {
+      if (isCubism2) {
+        coreModel.setParamFloat?.(toCubism2ParameterId(id), value);
+      } else {
+        coreModel.setParameterValueById?.(id, value);
+      }
+    } catch {
+      // Some models may not have all parameters
+    }
+  }
+}
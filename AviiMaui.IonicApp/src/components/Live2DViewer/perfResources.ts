@@ -0,0 +1,25 @@
+import type { Application, BaseTexture } from "pixi.js";
+import type { PerfResources } from "../../services/render/perfStats";
+
+interface PerformanceWithMemory extends Performance {
+  /** 仅 Chromium 内核提供 */
+  memory?: { usedJSHeapSize: number };
+}
+
+/**
+ * 当前的 JS 堆与 GPU 纹理占用（纹理按 RGBA 估算）
+ */
+export function readPerfResources(app: Application): PerfResources {
+  const memory = (performance as PerformanceWithMemory).memory;
+  const textures =
+    (app.renderer as { texture?: { managedTextures: BaseTexture[] } }).texture
+      ?.managedTextures ?? [];
+  return {
+    memoryBytes: memory?.usedJSHeapSize ?? null,
+    textures: textures.length,
+    textureBytes: textures.reduce(
+      (sum, t) => sum + t.realWidth * t.realHeight * 4,
+      0,
+    ),
+  };
+}
@@ -0,0 +1,122 @@
+import type { ModelVersion } from "../../services/models/catalog";
+import {
+  directionVector,
+  type PhysicsSettings,
+} from "../../services/models/physics";
+import type { Live2DModel } from "./live2dModel";
+
+/** Cubism 4 的 CubismPhysics（只用到调整需要的字段） */
+interface Cubism4Physics {
+  _physicsRig?: {
+    settings: Array<{ baseOutputIndex: number; outputCount: number }>;
+    inputs: Array<{ weight: number }>;
+    outputs: Array<{ weight: number }>;
+  };
+  getOption(): {
+    gravity: { x: number; y: number };
+    wind: { x: number; y: number };
+  };
+}
+
+/** Cubism 4 的 CubismBreath */
+interface Cubism4Breath {
+  getParameters(): Array<{ peak: number }>;
+}
+
+/** Cubism 2 的 Live2DPhysics */
+interface Cubism2Physics {
+  physicsHairs: unknown[];
+}
+
+/** 模型加载时的原始值，每次调整都从原始值重新计算 */
+interface PhysicsBaseline {
+  inputWeights: number[];
+  outputWeights: number[];
+  breathPeaks: number[];
+  hairs: unknown[];
+}
+
+const baselines = new WeakMap<object, PhysicsBaseline>();
+
+function getBaseline(model: Live2DModel, version: ModelVersion) {
+  const internalModel = model.internalModel;
+  let baseline = baselines.get(internalModel);
+  if (!baseline) {
+    if (version === "cubism2") {
+      const physics = internalModel.physics as Cubism2Physics | undefined;
+      baseline = {
+        inputWeights: [],
+        outputWeights: [],
+        breathPeaks: [],
+        hairs: physics?.physicsHairs ?? [],
+      };
+    } else {
+      const rig = (internalModel.physics as Cubism4Physics | undefined)
+        ?._physicsRig;
+      const breath = internalModel.breath as Cubism4Breath | undefined;
+      baseline = {
+        inputWeights: rig?.inputs.map((i) => i.weight) ?? [],
+        outputWeights: rig?.outputs.map((o) => o.weight) ?? [],
+        breathPeaks: breath?.getParameters().map((p) => p.peak) ?? [],
+        hairs: [],
+      };
+    }
+    baselines.set(internalModel, baseline);
+  }
+  return baseline;
+}
+
+/**
+ * 把物理与呼吸调整应用到已加载的模型
+ *
+ * Cubism 4：输入权重乘以倍率，关闭的物理组输出权重为 0（参数保持动作的值），
+ * 重力与风写入物理选项，模型自带呼吸（头部与身体的摆动）的幅度乘以倍率。
+ * Cubism 2：只移除关闭的物理组。
+ */
+export function applyPhysicsSettings(
+  model: Live2DModel,
+  version: ModelVersion,
+  settings: PhysicsSettings,
+) {
+  const baseline = getBaseline(model, version);
+  const disabled = new Set(settings.disabledRigs);
+  const internalModel = model.internalModel;
+
+  if (version === "cubism2") {
+    const physics = internalModel.physics as Cubism2Physics | undefined;
+    if (physics) {
+      physics.physicsHairs = baseline.hairs.filter((_, i) => !disabled.has(i));
+    }
+    return;
+  }
+
+  const physics = internalModel.physics as Cubism4Physics | undefined;
+  const rig = physics?._physicsRig;
+  if (physics && rig) {
+    rig.inputs.forEach((input, i) => {
+      input.weight = baseline.inputWeights[i] * settings.strength;
+    });
+    rig.settings.forEach((setting, index) => {
+      for (let i = 0; i < setting.outputCount; i++) {
+        const o = setting.baseOutputIndex + i;
+        rig.outputs[o].weight = disabled.has(index)
+          ? 0
+          : baseline.outputWeights[o];
+      }
+    });
+
+    // 选项中的向量是 CubismVector2，只改分量
+    const options = physics.getOption();
+    const gravity = directionVector(settings.gravityAngle);
+    const wind = directionVector(settings.windAngle, settings.wind);
+    options.gravity.x = gravity.x;
+    options.gravity.y = gravity.y;
+    options.wind.x = wind.x;
+    options.wind.y = wind.y;
+  }
+
+  const breath = internalModel.breath as Cubism4Breath | undefined;
+  breath?.getParameters().forEach((parameter, i) => {
+    parameter.peak = baseline.breathPeaks[i] * settings.breath;
+  });
+}
@@ -0,0 +1,270 @@
+import type { Container, Graphics, Sprite, Texture } from "pixi.js";
+import {
+  fitImage,
+  gradientEndpoints,
+  type SceneSettings,
+} from "../../services/scene/scene";
+import { ParticleField, type Particle } from "../../services/scene/particles";
+
+type Pixi = typeof import("pixi.js");
+
+// 渐变先画到小画布再拉伸，最长边的像素数
+const GRADIENT_TEXTURE_SIZE = 256;
+
+/**
+ * 舞台上的场景层：背景在视口（模型）之下，前景道具与粒子在其上。
+ * 背景铺满画布；道具与粒子按画布比例定位。
+ */
+export class SceneLayers {
+  private readonly background: Container;
+  private readonly foreground: Container;
+  /** 纯色 / 绿幕 */
+  private readonly backdrop: Graphics;
+  private readonly particleGraphics: Graphics;
+  private readonly field = new ParticleField();
+  private backgroundSprite: Sprite | null = null;
+  private propSprites: Sprite[] = [];
+  private settings: SceneSettings | null = null;
+  private size = { width: 0, height: 0 };
+
+  constructor(
+    private readonly PIXI: Pixi,
+    private readonly stage: Container,
+  ) {
+    this.background = new PIXI.Container();
+    this.foreground = new PIXI.Container();
+    this.backdrop = new PIXI.Graphics();
+    this.particleGraphics = new PIXI.Graphics();
+    this.background.addChild(this.backdrop);
+    this.foreground.addChild(this.particleGraphics);
+    stage.addChildAt(this.background, 0);
+    stage.addChild(this.foreground);
+  }
+
+  setSettings(settings: SceneSettings) {
+    const previous = this.settings;
+    this.settings = settings;
+    if (previous?.background !== settings.background) this.buildBackground();
+    if (previous?.props !== settings.props) this.buildProps();
+    if (previous?.particles !== settings.particles) {
+      this.field.setSettings(settings.particles);
+      this.particleGraphics.clear();
+    }
+    this.layout(this.size.width, this.size.height);
+  }
+
+  /**
+   * 画布大小变化时调用
+   */
+  layout(width: number, height: number) {
+    this.size = { width, height };
+    this.layoutBackground(width, height);
+    this.layoutProps();
+  }
+
+  /**
+   * 每帧调用
+   * @param deltaMs 距上一帧的毫秒数
+   */
+  update(deltaMs: number) {
+    if (!this.field.shape) return;
+    this.drawParticles(this.field.update(deltaMs / 1000));
+  }
+
+  /**
+   * 截图时背景铺满输出尺寸，前景与视口做同样的缩放平移（与屏幕上的相对位置一致）
+   * @returns 还原函数
+   */
+  prepareCapture(
+    width: number,
+    height: number,
+    scale: number,
+    offset: { x: number; y: number },
+  ): () => void {
+    const saved = this.size;
+    this.layoutBackground(width, height);
+    this.foreground.scale.set(scale);
+    this.foreground.position.set(offset.x, offset.y);
+    return () => {
+      this.foreground.scale.set(1);
+      this.foreground.position.set(0, 0);
+      this.layoutBackground(saved.width, saved.height);
+    };
+  }
+
+  destroy() {
+    if (this.background.destroyed) return;
+    this.stage.removeChild(this.background, this.foreground);
+    this.background.destroy({ children: true, texture: true });
+    this.foreground.destroy({ children: true, texture: true });
+  }
+
+  private buildBackground() {
+    this.backgroundSprite?.destroy({ texture: true, baseTexture: true });
+    this.backgroundSprite = null;
+
+    const background = this.settings?.background;
+    if (background?.type === "image") {
+      this.backgroundSprite = this.createSprite(background.image);
+    } else if (background?.type === "gradient") {
+      this.backgroundSprite = new this.PIXI.Sprite();
+    }
+    if (this.backgroundSprite) this.background.addChild(this.backgroundSprite);
+  }
+
+  private buildProps() {
+    for (const sprite of this.propSprites) {
+      sprite.destroy({ texture: true, baseTexture: true });
+    }
+    this.propSprites = (this.settings?.props ?? []).map((prop) => {
+      const sprite = this.createSprite(prop.image);
+      sprite.anchor.set(0.5);
+      // 粒子保持在最上层
+      this.foreground.addChildAt(sprite, this.foreground.children.length - 1);
+      return sprite;
+    });
+  }
+
+  /**
+   * data URL 的纹理异步解码，解码完成后重新布局
+   */
+  private createSprite(image: string): Sprite {
+    // 不经过 TextureCache：背景与道具可能使用同一张图片，各自销毁
+    const texture = new this.PIXI.Texture(new this.PIXI.BaseTexture(image));
+    if (!texture.baseTexture.valid) {
+      texture.baseTexture.once("loaded", () =>
+        this.layout(this.size.width, this.size.height),
+      );
+    }
+    return new this.PIXI.Sprite(texture);
+  }
+
+  private layoutBackground(width: number, height: number) {
+    const background = this.settings?.background;
+    this.backdrop.clear();
+    if (!background || !(width > 0 && height > 0)) return;
+
+    if (background.type === "color" || background.type === "chromaKey") {
+      this.backdrop
+        .beginFill(this.PIXI.utils.string2hex(background.color))
+        .drawRect(0, 0, width, height)
+        .endFill();
+    }
+
+    const sprite = this.backgroundSprite;
+    if (!sprite) return;
+    if (background.type === "gradient") {
+      const old = sprite.texture;
+      sprite.texture = this.createGradientTexture(
+        background.from,
+        background.to,
+        background.angle,
+        width / height,
+      );
+      if (old !== this.PIXI.Texture.EMPTY) old.destroy(true);
+      sprite.position.set(0, 0);
+      sprite.width = width;
+      sprite.height = height;
+    } else if (
+      background.type === "image" &&
+      sprite.texture.baseTexture.valid
+    ) {
+      const { scale, x, y } = fitImage(
+        sprite.texture,
+        { width, height },
+        background.fit,
+      );
+      sprite.scale.set(scale);
+      sprite.position.set(x, y);
+    }
+  }
+
+  private layoutProps() {
+    const { width, height } = this.size;
+    (this.settings?.props ?? []).forEach((prop, i) => {
+      const sprite = this.propSprites[i];
+      if (!sprite?.texture.baseTexture.valid) return;
+      sprite.position.set(prop.x * width, prop.y * height);
+      sprite.scale.set((prop.size * height) / sprite.texture.height);
+      sprite.alpha = prop.opacity;
+    });
+  }
+
+  private createGradientTexture(
+    from: string,
+    to: string,
+    angle: number,
+    aspect: number,
+  ): Texture {
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(
+      1,
+      Math.round(GRADIENT_TEXTURE_SIZE * Math.min(1, aspect)),
+    );
+    canvas.height = Math.max(
+      1,
+      Math.round(GRADIENT_TEXTURE_SIZE * Math.min(1, 1 / aspect)),
+    );
+    const ctx = canvas.getContext("2d");
+    if (ctx) {
+      const { start, end } = gradientEndpoints(
+        angle,
+        canvas.width,
+        canvas.height,
+      );
+      const gradient = ctx.createLinearGradient(start.x, start.y, end.x, end.y);
+      gradient.addColorStop(0, from);
+      gradient.addColorStop(1, to);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    return new this.PIXI.Texture(new this.PIXI.BaseTexture(canvas));
+  }
+
+  private drawParticles(particles: readonly Particle[]) {
+    const { width, height } = this.size;
+    const g = this.particleGraphics;
+    g.clear();
+    for (const p of particles) {
+      const x = p.x * width;
+      const y = p.y * height;
+      g.beginFill(p.color, p.alpha);
+      switch (this.field.shape) {
+        case "petal":
+          g.drawPolygon(petalPoints(x, y, p.radius, p.rotation));
+          break;
+        case "star":
+          g.drawPolygon(sparklePoints(x, y, p.radius));
+          break;
+        default:
+          g.drawCircle(x, y, p.radius);
+      }
+      g.endFill();
+    }
+  }
+}
+
+/** 旋转的椭圆花瓣 */
+function petalPoints(x: number, y: number, r: number, rotation: number) {
+  const points: number[] = [];
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  for (let i = 0; i < 8; i++) {
+    const a = (i / 8) * Math.PI * 2;
+    const px = Math.cos(a) * r;
+    const py = Math.sin(a) * r * 0.55;
+    points.push(x + px * cos - py * sin, y + px * sin + py * cos);
+  }
+  return points;
+}
+
+/** 四角星 */
+function sparklePoints(x: number, y: number, r: number) {
+  const points: number[] = [];
+  for (let i = 0; i < 8; i++) {
+    const a = (i / 8) * Math.PI * 2;
+    const radius = i % 2 === 0 ? r * 2 : r * 0.4;
+    points.push(x + Math.cos(a) * radius, y + Math.sin(a) * radius);
+  }
+  return points;
+}
@@ -0,0 +1,216 @@
+import type { Container } from "pixi.js";
+import type { FaceTrackingData } from "../../services/bridgeMessages";
+import {
+  DEFAULT_PARAMETER_MAPPINGS,
+  evaluateMappings,
+} from "../../services/faceTracking/parameterMapping";
+import {
+  DEFAULT_SMOOTHING_SETTINGS,
+  FaceSmoother,
+  type SmoothingSettings,
+} from "../../services/faceTracking/smoothing";
+import {
+  DEFAULT_IDLE_SETTINGS,
+  IdleAnimator,
+  TrackingBlend,
+  mixFaceData,
+  type IdleSettings,
+} from "../../services/faceTracking/idle";
+import type { StageAvatar } from "../../services/models/avatars";
+import type { ModelVersion } from "../../services/models/catalog";
+import {
+  loadLive2DRuntime,
+  resolveModelRuntime,
+} from "../../services/models/cubismRuntime";
+import {
+  err,
+  ok,
+  toResultError,
+  fail,
+  type Result,
+} from "../../services/result";
+import {
+  MODEL_OFFSET_Y,
+  findIdleMotionGroup,
+  getMotionGroups,
+  writeParameters,
+  type Live2DModel,
+} from "./live2dModel";
+
+/**
+ * 与主模型同台的一个模型：自己的待机动画与追踪交叉淡化，参数映射使用默认的 Cubism 标准参数
+ */
+export class StageAvatarModel {
+  private model: Live2DModel | null = null;
+  private version: ModelVersion = "cubism4";
+  private idleGroup: string | null = null;
+  private face: FaceTrackingData | null = null;
+  private readonly smoother: FaceSmoother;
+  private readonly idleAnimator: IdleAnimator;
+  private readonly blend: TrackingBlend;
+  private idle: IdleSettings;
+  private loadId = 0;
+  private destroyed = false;
+
+  constructor(
+    private readonly viewport: Container,
+    private config: StageAvatar,
+    idle: IdleSettings = DEFAULT_IDLE_SETTINGS,
+    smoothing: SmoothingSettings = DEFAULT_SMOOTHING_SETTINGS,
+  ) {
+    this.idle = idle;
+    this.smoother = new FaceSmoother(smoothing);
+    this.idleAnimator = new IdleAnimator(idle);
+    this.blend = new TrackingBlend(idle);
+  }
+
+  get id(): string {
+    return this.config.id;
+  }
+
+  get source(): StageAvatar["source"] {
+    return this.config.source;
+  }
+
+  get motionGroups(): string[] {
+    return this.model ? getMotionGroups(this.model).map((g) => g.group) : [];
+  }
+
+  /**
+   * 加载（或切换到）配置中的模型
+   */
+  async load(): Promise<Result<void>> {
+    const loadId = ++this.loadId;
+    const { modelUrl } = this.config;
+    try {
+      const resolved = await resolveModelRuntime(modelUrl);
+      if (resolved.error !== null) return fail(resolved.error);
+      const runtime = await loadLive2DRuntime(resolved.data.version);
+      if (runtime.error !== null) return fail(runtime.error);
+
+      const model = (await runtime.data.from(
+        resolved.data.source,
+      )) as Live2DModel;
+      // 加载期间被销毁或切换了模型
+      if (this.destroyed || loadId !== this.loadId) {
+        model.destroy();
+        return ok(undefined);
+      }
+
+      this.removeModel();
+      model.autoInteract = false;
+      model.anchor.set(0.5, 0.5);
+      model.internalModel.on("beforeModelUpdate", this.applyParameters);
+      this.model = model;
+      this.version = resolved.data.version;
+      this.idleGroup = findIdleMotionGroup(getMotionGroups(model));
+      this.applyTransform();
+      this.viewport.addChild(model as unknown as Container);
+      return ok(undefined);
+    } catch (e) {
+      return fail(toResultError(e, "unknown", "加载失败"));
+    }
+  }
+
+  /**
+   * 更新配置
+   * @returns 模型地址是否变化（需要重新 load）
+   */
+  setConfig(config: StageAvatar): boolean {
+    const reload = config.modelUrl !== this.config.modelUrl;
+    if (config.source !== this.config.source) this.clearFace();
+    this.config = config;
+    this.applyTransform();
+    return reload;
+  }
+
+  setIdleSettings(idle: IdleSettings) {
+    this.idle = idle;
+    this.idleAnimator.setSettings(idle);
+    this.blend.setSettings(idle);
+  }
+
+  /**
+   * 驱动模型的面部数据
+   * @param smooth 录制回放的原始帧需要经过平滑；主模型转发的追踪数据已平滑
+   */
+  feed(data: FaceTrackingData, now: number, smooth: boolean) {
+    this.face = smooth
+      ? this.smoother.process(data, data.timestamp ?? now)
+      : data;
+    this.blend.markTracked(now);
+  }
+
+  clearFace() {
+    this.face = null;
+    this.smoother.reset();
+    this.blend.reset();
+  }
+
+  playMotion(group: string, index?: number): Result<void> {
+    if (!this.model) return err("unsupported", "模型尚未加载");
+    this.model.motion(group, index, 3);
+    return ok(undefined);
+  }
+
+  destroy() {
+    this.destroyed = true;
+    this.removeModel();
+  }
+
+  private applyTransform() {
+    if (!this.model) return;
+    this.model.x = this.config.x;
+    this.model.y = MODEL_OFFSET_Y + this.config.y;
+    this.model.scale.set(this.config.scale);
+    this.model.zIndex = this.config.zIndex;
+  }
+
+  private removeModel() {
+    if (!this.model) return;
+    this.viewport.removeChild(this.model as unknown as Container);
+    this.model.destroy();
+    this.model = null;
+  }
+
+  /**
+   * 每帧在动作与物理之后写入参数（与主模型相同的交叉淡化，idle 来源始终播放待机动画）
+   */
+  private applyParameters = () => {
+    const model = this.model;
+    if (!model) return;
+
+    const now = performance.now();
+    const idleEnabled = this.idle.enabled || this.config.source === "idle";
+    const tracking = this.blend.isTracking(now);
+    let face = this.face;
+    let breath: number | null = null;
+
+    if (idleEnabled) {
+      const weight = this.blend.update(now);
+      const pose = this.idleAnimator.sample(now);
+      if (weight < 1 || !face) {
+        face = mixFaceData(pose.face, face ?? pose.face, weight);
+      }
+      if (this.idle.breath) breath = pose.breath;
+    }
+
+    const motionManager = model.internalModel.motionManager;
+    if (motionManager) {
+      const allowIdleMotions =
+        this.config.source === "idle" ||
+        !idleEnabled ||
+        (this.idle.idleMotions && !tracking);
+      motionManager.groups.idle = allowIdleMotions
+        ? (this.idleGroup ?? "")
+        : "";
+    }
+
+    if (!face) return;
+    const targets = evaluateMappings(DEFAULT_PARAMETER_MAPPINGS, face);
+    if (breath !== null && !("ParamBreath" in targets)) {
+      targets.ParamBreath = breath;
+    }
+    writeParameters(model, this.version, targets);
+  };
+}
@@ -0,0 +1,141 @@
+import {
+  IonButton,
+  IonIcon,
+  IonRange,
+  IonSelect,
+  IonSelectOption,
+} from "@ionic/react";
+import { close, pause, play, shareOutline } from "ionicons/icons";
+import { useEffect, useRef, useState } from "react";
+import type { FaceTrackingResult } from "../hooks/useFaceTracking";
+import { exportFile } from "../services/fileTransfer";
+import {
+  FacePlayer,
+  RECORDING_FILE_EXTENSION,
+  recordingDuration,
+  serializeRecording,
+  type FaceRecording,
+} from "../services/faceTracking/recording";
+
+const SPEEDS = [0.25, 0.5, 1, 2];
+
+interface RecordingPlayerProps {
+  recording: FaceRecording;
+  onFrame: (data: FaceTrackingResult) => void;
+  onClose: () => void;
+  onError?: (message: string) => void;
+}
+
+const formatTime = (ms: number) => {
+  const seconds = ms / 1000;
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(1).padStart(4, "0");
+  return `${m}:${s}`;
+};
+
+/**
+ * 面部录制回放面板：播放 / 暂停 / 拖动 / 变速 / 导出
+ */
+const RecordingPlayer: React.FC<RecordingPlayerProps> = ({
+  recording,
+  onFrame,
+  onClose,
+  onError,
+}) => {
+  const onFrameRef = useRef(onFrame);
+  onFrameRef.current = onFrame;
+  const playerRef = useRef<FacePlayer | null>(null);
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  useEffect(() => {
+    const player = new FacePlayer(
+      recording,
+      (data) => onFrameRef.current(data),
+      (positionMs, isPlaying) => {
+        setPosition(positionMs);
+        setPlaying(isPlaying);
+      },
+    );
+    playerRef.current = player;
+    setSpeed(1);
+    player.seek(0);
+    return () => player.dispose();
+  }, [recording]);
+
+  const duration = recordingDuration(recording);
+
+  const handleExport = async () => {
+    const stamp = recording.header.createdAt.replace(/[:.]/g, "-");
+    const result = await exportFile(
+      `face-${stamp}${RECORDING_FILE_EXTENSION}`,
+      serializeRecording(recording),
+      "application/x-ndjson",
+    );
+    if (result.error !== null) onError?.(`导出失败: ${result.error.message}`);
+  };
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        left: 16,
+        right: 16,
+        bottom: 16,
+        display: "flex",
+        alignItems: "center",
+        gap: 8,
+        padding: "4px 8px",
+        backgroundColor: "rgba(0,0,0,0.7)",
+        color: "white",
+        borderRadius: 16,
+        zIndex: 15,
+      }}
+    >
+      <IonButton
+        fill="clear"
+        size="small"
+        onClick={() =>
+          playing ? playerRef.current?.pause() : playerRef.current?.play()
+        }
+      >
+        <IonIcon slot="icon-only" icon={playing ? pause : play} />
+      </IonButton>
+      <span style={{ fontSize: 12, fontFamily: "monospace" }}>
+        {formatTime(position)} / {formatTime(duration)}
+      </span>
+      <IonRange
+        style={{ flex: 1 }}
+        min={0}
+        max={duration || 1}
+        step={1}
+        value={position}
+        onIonInput={(e) => playerRef.current?.seek(e.detail.value as number)}
+      />
+      <IonSelect
+        interface="popover"
+        value={speed}
+        onIonChange={(e) => {
+          setSpeed(e.detail.value);
+          playerRef.current?.setSpeed(e.detail.value);
+        }}
+        style={{ fontSize: 12, minWidth: 48 }}
+      >
+        {SPEEDS.map((s) => (
+          <IonSelectOption key={s} value={s}>
+            {s}x
+          </IonSelectOption>
+        ))}
+      </IonSelect>
+      <IonButton fill="clear" size="small" onClick={handleExport}>
+        <IonIcon slot="icon-only" icon={shareOutline} />
+      </IonButton>
+      <IonButton fill="clear" size="small" color="medium" onClick={onClose}>
+        <IonIcon slot="icon-only" icon={close} />
+      </IonButton>
+    </div>
+  );
+};
+
+export default RecordingPlayer;
@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  AvatarRecorder,
+  type CaptureFormat,
+  type CaptureOptions,
+  type CaptureSource,
+} from "../services/capture/AvatarRecorder";
+import { exportFile } from "../services/fileTransfer";
+import type { ResultError } from "../services/result";
+
+/**
+ * 录制形象画面（视频 / 动图），结束后交给原生分享，浏览器中直接下载
+ * @param getSource 开始录制时调用，返回 null 表示画布未就绪
+ */
+export function useAvatarCapture(getSource: () => CaptureSource | null) {
+  const getSourceRef = useRef(getSource);
+  getSourceRef.current = getSource;
+
+  const recorderRef = useRef<AvatarRecorder | null>(null);
+  const [format, setFormat] = useState<CaptureFormat | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<ResultError | null>(null);
+
+  const stop = useCallback(async () => {
+    const recorder = recorderRef.current;
+    if (!recorder?.isRecording) return false;
+    setFormat(null);
+    setIsExporting(true);
+    try {
+      const result = await recorder.stop();
+      if (result.error !== null) {
+        setError(result.error);
+        return false;
+      }
+      const { blob, extension } = result.data;
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      const exported = await exportFile(
+        `avatar-${stamp}${extension}`,
+        blob,
+        blob.type,
+      );
+      if (exported.error !== null) {
+        setError(exported.error);
+        return false;
+      }
+      return true;
+    } finally {
+      setIsExporting(false);
+    }
+  }, []);
+
+  const start = useCallback(
+    async (options: CaptureOptions) => {
+      setError(null);
+      const source = getSourceRef.current();
+      if (!source) {
+        setError({ code: "unsupported", message: "模型画面尚未就绪" });
+        return false;
+      }
+      const recorder = (recorderRef.current ??= new AvatarRecorder());
+      // 动图到达最长时长后自动结束并导出
+      const result = await recorder.start(source, options, () => void stop());
+      if (result.error !== null) {
+        if (result.error.code !== "aborted") setError(result.error);
+        return false;
+      }
+      setFormat(options.format);
+      return true;
+    },
+    [stop],
+  );
+
+  // Cleanup on unmount
+  useEffect(() => () => recorderRef.current?.cancel(), []);
+
+  return {
+    isSupported: AvatarRecorder.isSupported("video"),
+    isApngSupported: AvatarRecorder.isSupported("apng"),
+    format,
+    isExporting,
+    error,
+    start,
+    stop,
+  };
+}
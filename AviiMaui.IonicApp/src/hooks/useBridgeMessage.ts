@@ -0,0 +1,48 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  bridgeMessageBus,
+  type BridgeMessageHandler,
+  type BridgeMessageStats,
+} from "../services/BridgeMessageBus";
+import type { BridgeMessageType } from "../services/bridgeMessages";
+
+/**
+ * 订阅一种 Native -> Web 消息，组件卸载时自动取消订阅。
+ * handler 通过 ref 保存，调用方无需 useCallback。
+ */
+export function useBridgeMessage<T extends BridgeMessageType>(
+  type: T,
+  handler: BridgeMessageHandler<T>,
+  enabled = true,
+) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return bridgeMessageBus.subscribe(type, (payload) =>
+      handlerRef.current(payload),
+    );
+  }, [type, enabled]);
+}
+
+/**
+ * 定时读取消息统计（开发模式 HUD 使用）
+ */
+export function useBridgeMessageStats(
+  enabled = true,
+  intervalMs = 1000,
+): BridgeMessageStats {
+  const [stats, setStats] = useState(() => bridgeMessageBus.getStats());
+
+  useEffect(() => {
+    if (!enabled) return;
+    const timer = window.setInterval(
+      () => setStats(bridgeMessageBus.getStats()),
+      intervalMs,
+    );
+    return () => window.clearInterval(timer);
+  }, [enabled, intervalMs]);
+
+  return stats;
+}
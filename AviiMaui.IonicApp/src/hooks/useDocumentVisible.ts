@@ -0,0 +1,18 @@
+import { useEffect, useState } from "react";
+
+/**
+ * 文档是否可见；浏览器切换标签页或 App 进入后台时为 false
+ */
+export function useDocumentVisible(): boolean {
+  const [visible, setVisible] = useState(
+    () => document.visibilityState !== "hidden",
+  );
+
+  useEffect(() => {
+    const update = () => setVisible(document.visibilityState !== "hidden");
+    document.addEventListener("visibilitychange", update);
+    return () => document.removeEventListener("visibilitychange", update);
+  }, []);
+
+  return visible;
+}
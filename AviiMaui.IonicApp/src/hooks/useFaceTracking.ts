@@ -1,155 +1,232 @@
 import { useEffect, useRef, useState, useCallback } from "react";
 import { mauiBridgeService } from "../services/MauiBridgeService";
-
-export interface FaceTrackingResult {
-  // Head rotation
-  angleX: number; // Left-Right
-  angleY: number; // Up-Down
-  angleZ: number; // Tilt
-
-  // Eyes
-  eyeOpenL: number;
-  eyeOpenR: number;
-  eyeBallX: number;
-  eyeBallY: number;
-
-  // Mouth
-  mouthOpen: number;
-
-  // Eyebrows
-  browL: number;
-  browR: number;
-}
+import type { FaceTrackingData } from "../services/bridgeMessages";
+import { WebFaceTracker } from "../services/faceTracking/WebFaceTracker";
+import {
+  FaceRecorder,
+  type FaceRecording,
+} from "../services/faceTracking/recording";
+import { toResultError, type ResultError } from "../services/result";
+import { useBridgeMessage } from "./useBridgeMessage";
+
+export type FaceTrackingResult = FaceTrackingData;
+
+/**
+ * - native: MAUI 原生追踪（iOS ARKit），数据通过 faceTracking 消息推送
+ * - web: WebView 内 getUserMedia + MediaPipe 追踪
+ */
+export type FaceTrackingMode = "native" | "web";
 
 interface UseFaceTrackingOptions {
   onResult?: (result: FaceTrackingResult) => void;
-  // showVideo option is deprecated but kept for compatibility
+  /**
+   * Web 模式下是否在 canvasRef 上绘制关键点。
+   * 摄像头画面会播放到 videoRef（未挂载时使用离屏 video 元素）。
+   */
   showVideo?: boolean;
+  /** 默认 auto：原生可用时用原生，否则回退到 Web */
+  preferredMode?: FaceTrackingMode | "auto";
+  /** 原生模式下请求原始 blendShapes（Web 模式始终附带） */
+  includeRawData?: boolean;
 }
 
 export function useFaceTracking(options: UseFaceTrackingOptions = {}) {
-  const { onResult } = options;
+  const {
+    onResult,
+    showVideo = false,
+    preferredMode = "auto",
+    includeRawData = false,
+  } = options;
   const onResultRef = useRef(onResult);
   onResultRef.current = onResult;
 
-  const [isReady, setIsReady] = useState(false);
+  const [mode, setMode] = useState<FaceTrackingMode | null>(null);
   const [isTracking, setIsTracking] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ResultError | null>(null);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const webTrackerRef = useRef<WebFaceTracker | null>(null);
+  const offscreenVideoRef = useRef<HTMLVideoElement | null>(null);
+
+  // Recording: 保存原始追踪帧（校准之前），用于回放复现问题
+  const recorderRef = useRef(new FaceRecorder());
+  const [isRecording, setIsRecording] = useState(false);
 
-  // Check availability
+  const emit = useCallback((data: FaceTrackingResult) => {
+    recorderRef.current.add(data);
+    onResultRef.current?.(data);
+  }, []);
+
+  // Check availability and pick a mode
   const checkAvailability = useCallback(async () => {
-    try {
+    let selected: FaceTrackingMode | null = null;
+
+    if (preferredMode !== "web") {
       const result = await mauiBridgeService.isFaceTrackingAvailable();
       if (result.error !== null) {
         console.warn(
-          "[FaceTracking] Availability check warning:",
+          "[FaceTracking] Native availability check warning:",
           result.error,
         );
-        setIsReady(false);
-        return false;
+      } else if (result.data) {
+        selected = "native";
       }
-      // result.data is boolean here
-      setIsReady(result.data);
-      return result.data;
-    } catch (err) {
-      console.error("[FaceTracking] Failed to check availability:", err);
-      setIsReady(false);
+    }
+
+    if (
+      selected === null &&
+      preferredMode !== "native" &&
+      WebFaceTracker.isSupported()
+    ) {
+      selected = "web";
+    }
+
+    setMode(selected);
+    return selected !== null;
+  }, [preferredMode]);
+
+  // 当前原生追踪会话启动时使用的 includeRawData
+  const nativeRawDataRef = useRef<boolean | null>(null);
+
+  const startNative = useCallback(async () => {
+    nativeRawDataRef.current = includeRawData;
+    const result = await mauiBridgeService.startFaceTracking({
+      includeRawData,
+    });
+
+    if (result.error !== null) {
+      setError(result.error);
+      return false;
+    }
+
+    if (!result.data.success) {
+      setError({
+        code: "native_error",
+        message: result.data.error || "Failed to start tracking",
+      });
       return false;
     }
-  }, []);
+
+    console.log("[FaceTracking] Started native tracking");
+    return true;
+  }, [includeRawData]);
+
+  const startWeb = useCallback(async () => {
+    webTrackerRef.current ??= new WebFaceTracker();
+    const video =
+      videoRef.current ??
+      (offscreenVideoRef.current ??= document.createElement("video"));
+
+    const result = await webTrackerRef.current.start(
+      video,
+      emit,
+      showVideo ? canvasRef.current : null,
+      (trackerError) => {
+        setError(trackerError);
+        setIsTracking(false);
+      },
+    );
+
+    if (result.error !== null) {
+      if (result.error.code !== "aborted") setError(result.error);
+      return false;
+    }
+
+    console.log("[FaceTracking] Started web tracking");
+    return true;
+  }, [emit, showVideo]);
 
   // Start tracking
   const startTracking = useCallback(async () => {
+    if (mode === null) return false;
     try {
       setError(null);
-      const result = await mauiBridgeService.startFaceTracking();
-
-      if (result.error || !result.data) {
-        setError(result.error || "Failed to start tracking (no data)");
-        return false;
-      }
-
-      if (result.data.success) {
-        setIsTracking(true);
-        console.log("[FaceTracking] Started native tracking");
-        return true;
-      } else {
-        setError(result.data.error || "Failed to start tracking");
-        return false;
-      }
+      const started =
+        mode === "native" ? await startNative() : await startWeb();
+      setIsTracking(started);
+      return started;
     } catch (err) {
-      const message = err instanceof Error ? err.message : "Unknown error";
-      setError(message);
+      setError(toResultError(err));
       console.error("[FaceTracking] Failed to start:", err);
       return false;
     }
-  }, []);
+  }, [mode, startNative, startWeb]);
 
   // Stop tracking
   const stopTracking = useCallback(async () => {
     try {
-      await mauiBridgeService.stopFaceTracking();
+      if (mode === "native") {
+        await mauiBridgeService.stopFaceTracking();
+      } else {
+        webTrackerRef.current?.stop();
+      }
       setIsTracking(false);
-      console.log("[FaceTracking] Stopped native tracking");
+      console.log(`[FaceTracking] Stopped ${mode} tracking`);
     } catch (err) {
       console.error("[FaceTracking] Failed to stop:", err);
     }
-  }, []);
+  }, [mode]);
 
-  // Listen for native messages
+  // 原生追踪只在启动时读取 includeRawData：追踪中切换模型或修改映射 / 表情规则后重新启动
   useEffect(() => {
-    const handleMessage = (event: HybridWebViewMessageEvent) => {
-      try {
-        const raw = event.detail?.message;
-        if (!raw) return;
-
-        const parsed = typeof raw === "string" ? JSON.parse(raw) : raw;
-
-        if (parsed.type === "faceTracking" && parsed.data) {
-          const data = parsed.data;
-
-          // Map native data to FaceTrackingResult
-          const result: FaceTrackingResult = {
-            angleX: data.angleX || 0,
-            angleY: data.angleY || 0,
-            angleZ: data.angleZ || 0,
-            eyeOpenL: data.eyeOpenL || 0,
-            eyeOpenR: data.eyeOpenR || 0,
-            eyeBallX: data.eyeBallX || 0,
-            eyeBallY: data.eyeBallY || 0,
-            mouthOpen: data.mouthOpen || 0,
-            browL: data.browL || 0,
-            browR: data.browR || 0,
-          };
-
-          onResultRef.current?.(result);
-        }
-      } catch (err) {
-        // Ignore parse errors
-        console.warn("[FaceTracking] Failed to parse message:", err);
+    if (mode !== "native" || !isTracking) return;
+    if (nativeRawDataRef.current === includeRawData) return;
+    nativeRawDataRef.current = includeRawData;
+    void (async () => {
+      const stopped = await mauiBridgeService.stopFaceTracking();
+      if (stopped.error !== null) {
+        console.warn(
+          "[FaceTracking] Failed to stop for restart:",
+          stopped.error,
+        );
+      }
+      const started = await startNative();
+      setIsTracking(started);
+      if (started) {
+        console.log(
+          `[FaceTracking] Restarted native tracking (includeRawData: ${includeRawData})`,
+        );
       }
-    };
+    })();
+  }, [mode, isTracking, includeRawData, startNative]);
 
-    window.addEventListener("HybridWebViewMessageReceived", handleMessage);
+  // Listen for native messages
+  useBridgeMessage("faceTracking", emit, mode === "native");
 
-    // Initial check
-    void checkAvailability();
+  const startRecording = useCallback(() => {
+    recorderRef.current.start();
+    setIsRecording(true);
+  }, []);
+
+  /** 没有录到任何帧时返回 null */
+  const stopRecording = useCallback((): FaceRecording | null => {
+    setIsRecording(false);
+    return recorderRef.current.stop();
+  }, []);
 
-    return () => {
-      window.removeEventListener("HybridWebViewMessageReceived", handleMessage);
-    };
+  // Initial check
+  useEffect(() => {
+    void checkAvailability();
   }, [checkAvailability]);
 
-  // Normalize API to match previous hook structure where possible
+  // Release the camera when the component goes away
+  useEffect(() => () => webTrackerRef.current?.stop(), []);
+
   return {
-    isReady, // Replaces isReady (MediaPipe loaded) with isReady (Native available)
+    isReady: mode !== null,
     isTracking,
     error,
+    /** 当前使用的追踪方式，不可用时为 null */
+    mode,
     initialize: checkAvailability, // Alias for backward compat
     startTracking,
     stopTracking,
-    // Deprecated refs (kept null to avoid breaking destructuring)
-    videoRef: { current: null },
-    canvasRef: { current: null },
+    isRecording,
+    startRecording,
+    stopRecording,
+    // Web 模式的摄像头预览与关键点 overlay（可选挂载）
+    videoRef,
+    canvasRef,
   };
 }
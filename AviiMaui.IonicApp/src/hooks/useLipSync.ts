@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  LipSyncEngine,
+  type LipSyncSource,
+} from "../services/lipSync/LipSyncEngine";
+import {
+  DEFAULT_LIP_SYNC_SETTINGS,
+  type LipSyncFrame,
+  type LipSyncSettings,
+} from "../services/lipSync/analysis";
+import type { ResultError } from "../services/result";
+
+interface UseLipSyncOptions {
+  /** 停止时收到 null */
+  onFrame?: (frame: LipSyncFrame | null) => void;
+  settings?: LipSyncSettings;
+}
+
+/**
+ * 麦克风 / 音频文件口型同步
+ */
+export function useLipSync(options: UseLipSyncOptions = {}) {
+  const { onFrame, settings = DEFAULT_LIP_SYNC_SETTINGS } = options;
+  const onFrameRef = useRef(onFrame);
+  onFrameRef.current = onFrame;
+
+  const engineRef = useRef<LipSyncEngine | null>(null);
+  const [source, setSource] = useState<LipSyncSource | null>(null);
+  const [error, setError] = useState<ResultError | null>(null);
+
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const getEngine = useCallback(
+    () => (engineRef.current ??= new LipSyncEngine(settingsRef.current)),
+    [],
+  );
+
+  useEffect(() => {
+    engineRef.current?.setSettings(settings);
+  }, [settings]);
+
+  const emit = useCallback((frame: LipSyncFrame) => {
+    onFrameRef.current?.(frame);
+  }, []);
+
+  const stop = useCallback(() => {
+    engineRef.current?.stop();
+    setSource(null);
+    onFrameRef.current?.(null);
+  }, []);
+
+  const startMicrophone = useCallback(async () => {
+    setError(null);
+    const result = await getEngine().startMicrophone(emit);
+    if (result.error !== null) {
+      if (result.error.code !== "aborted") setError(result.error);
+      return false;
+    }
+    setSource("microphone");
+    return true;
+  }, [emit, getEngine]);
+
+  const startFile = useCallback(
+    async (file: Blob | string) => {
+      setError(null);
+      const result = await getEngine().startFile(file, emit, () => {
+        setSource(null);
+        onFrameRef.current?.(null);
+      });
+      if (result.error !== null) {
+        if (result.error.code !== "aborted") setError(result.error);
+        return false;
+      }
+      setSource("file");
+      return true;
+    },
+    [emit, getEngine],
+  );
+
+  // Cleanup on unmount
+  useEffect(() => () => engineRef.current?.stop(), []);
+
+  return {
+    isSupported: LipSyncEngine.isSupported(),
+    source,
+    error,
+    startMicrophone,
+    startFile,
+    stop,
+  };
+}
@@ -0,0 +1,48 @@
+import { useEffect, useMemo, useState } from "react";
+import { useImportedModelStore } from "../store/importedModelStore";
+import {
+  buildCatalog,
+  checkModelAvailability,
+  type ModelAvailability,
+} from "../services/models/catalog";
+
+interface UseModelCatalogOptions {
+  /** 逐个检查模型文件能否读取（设置页使用） */
+  checkAvailability?: boolean;
+}
+
+/**
+ * 模型目录：内置模型 + 导入的模型
+ */
+export function useModelCatalog(options: UseModelCatalogOptions = {}) {
+  const { checkAvailability = false } = options;
+  const importedModels = useImportedModelStore((state) => state.models);
+  const catalog = useMemo(() => buildCatalog(importedModels), [importedModels]);
+  const [availability, setAvailability] = useState<
+    Record<string, ModelAvailability>
+  >({});
+
+  useEffect(() => {
+    if (!checkAvailability) return;
+    let cancelled = false;
+    setAvailability(
+      Object.fromEntries(catalog.map((m) => [m.url, "checking"] as const)),
+    );
+    void Promise.all(
+      catalog.map(
+        async (m) =>
+          [
+            m.url,
+            (await checkModelAvailability(m)) ? "available" : "missing",
+          ] as const,
+      ),
+    ).then((entries) => {
+      if (!cancelled) setAvailability(Object.fromEntries(entries));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [catalog, checkAvailability]);
+
+  return { catalog, availability };
+}
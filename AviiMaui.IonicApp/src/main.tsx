@@ -1,6 +1,15 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import {
+  installBrowserMockHost,
+  shouldUseBrowserMockHost,
+} from './services/BrowserMockHost';
+
+// 浏览器开发 / Cypress：用 Mock Host 模拟全部 Native Bridge 方法
+if (shouldUseBrowserMockHost()) {
+  installBrowserMockHost();
+}
 
 const container = document.getElementById('root');
 const root = createRoot(container!);
@@ -9,54 +9,170 @@ import {
   IonIcon,
   IonMenuButton,
   IonSpinner,
+  useIonActionSheet,
+  useIonViewDidLeave,
+  useIonViewWillEnter,
 } from "@ionic/react";
-import { useEffect, useRef, useState, useCallback } from "react";
-import { videocam, videocamOff, settingsOutline } from "ionicons/icons";
+import { useEffect, useMemo, useRef, useState, useCallback } from "react";
+import {
+  videocam,
+  videocamOff,
+  settingsOutline,
+  scanOutline,
+  mic,
+  micOff,
+  musicalNotes,
+  radioButtonOn,
+  filmOutline,
+  cameraOutline,
+  handLeftOutline,
+} from "ionicons/icons";
 import { useHistory } from "react-router-dom";
 
 import {
   useFaceTracking,
   FaceTrackingResult,
 } from "../../hooks/useFaceTracking";
-import { useSettingsStore } from "../../store/settingsStore";
+import { useLipSync } from "../../hooks/useLipSync";
+import { useAvatarCapture } from "../../hooks/useAvatarCapture";
+import { useDocumentVisible } from "../../hooks/useDocumentVisible";
+import {
+  selectFraming,
+  selectPhysics,
+  selectScene,
+  useSettingsStore,
+} from "../../store/settingsStore";
 import { Live2DViewer, Live2DViewerRef } from "../../components/Live2DViewer";
 import { ModelOption } from "../../components/Live2DViewer";
+import BridgeStatsOverlay from "../../components/BridgeStatsOverlay";
+import CalibrationWizard from "../../components/CalibrationWizard";
+import RecordingPlayer from "../../components/RecordingPlayer";
+import InteractionEditor from "../../components/InteractionEditor";
+import {
+  parseRecording,
+  type FaceRecording,
+} from "../../services/faceTracking/recording";
+import {
+  bytesToBase64,
+  importTextFile,
+  saveImage,
+} from "../../services/fileTransfer";
+import { uploadImageToImgur } from "../../services/ImgurService";
+import { mauiBridgeService } from "../../services/MauiBridgeService";
+import { stillExtension } from "../../services/capture/still";
+import { applyCalibration } from "../../services/faceTracking/calibration";
+import { useDevModeStore } from "../../store/devModeStore";
+import { useModelCatalog } from "../../hooks/useModelCatalog";
+import { findModel } from "../../services/models/catalog";
+import { recordingAvatarIds } from "../../services/models/avatars";
+import {
+  selectMappings,
+  useParameterMappingStore,
+} from "../../store/parameterMappingStore";
+import {
+  selectInteractionConfig,
+  useInteractionStore,
+} from "../../store/interactionStore";
+import { expressionInputs } from "../../services/faceTracking/expressions";
+import { needsRawData } from "../../services/faceTracking/parameterMapping";
+import type { ResultError } from "../../services/result";
+import { APNG_MAX_DURATION_MS } from "../../services/capture/AvatarRecorder";
+import { RENDER_PROFILES } from "../../services/render/renderProfile";
 
-const AVAILABLE_MODELS: ModelOption[] = [
-  {
-    name: "Hiyori",
-    url: "models/hiyori_free_en/runtime/hiyori_free_t08.model3.json",
-  },
-  { name: "chitose", url: "models/chitose/runtime/chitose.model3.json" },
-  {
-    name: "natori",
-    url: "models/natori_pro_en/runtime/natori_pro_t06.model3.json",
-  },
-  { name: "rice", url: "models/rice_pro_en/runtime/rice_pro_t03.model3.json" },
-  {
-    name: "tororo",
-    url: "models/tororo_hijiki/tororo/runtime/tororo.model3.json",
-  },
-  {
-    name: "hijiki",
-    url: "models/tororo_hijiki/hijiki/runtime/hijiki.model3.json",
-  },
-  {
-    name: "wanko",
-    url: "models/wanko/runtime/wanko_touch.model3.json",
-  },
-];
+function describeTrackingError(error: ResultError): string {
+  switch (error.code) {
+    case "bridge_unavailable":
+      return "面部追踪仅在 App 内可用";
+    case "timeout":
+      return "面部追踪服务无响应，请稍后重试";
+    case "permission_denied":
+      return "请允许访问摄像头后再开启面部追踪";
+    case "unsupported":
+      return `当前设备无法进行面部追踪: ${error.message}`;
+    case "dotnet_exception":
+      return `面部追踪启动失败 (${error.dotNetType ?? "Native"}): ${error.message}`;
+    default:
+      return error.message;
+  }
+}
+
+function describeLipSyncError(error: ResultError): string {
+  switch (error.code) {
+    case "permission_denied":
+      return "请允许访问麦克风后再开启口型同步";
+    case "unsupported":
+      return `当前设备无法进行口型同步: ${error.message}`;
+    default:
+      return error.message;
+  }
+}
+
+function describeCaptureError(error: ResultError): string {
+  switch (error.code) {
+    case "permission_denied":
+      return "请允许访问麦克风后再录制带声音的视频";
+    case "unsupported":
+      return `当前设备无法录制画面: ${error.message}`;
+    default:
+      return `录制失败: ${error.message}`;
+  }
+}
 
 const HomePage: React.FC = () => {
   const history = useHistory();
   const {
     modelUrl,
     setModelUrl,
-    lerpFactor,
+    smoothing,
+    idle,
+    lipSync,
+    expressions,
+    captureBackground,
+    screenshot,
+    renderProfile,
+    avatars,
     showDebugInfo,
-    modelScale,
-    modelRotation,
+    setFraming,
+    calibrations,
+    setCalibration,
   } = useSettingsStore();
+  const framing = useSettingsStore(selectFraming(modelUrl));
+  const physics = useSettingsStore(selectPhysics(modelUrl));
+  const scene = useSettingsStore(selectScene(modelUrl));
+  const calibration = calibrations[modelUrl];
+  const { catalog } = useModelCatalog();
+  const availableModels = useMemo<ModelOption[]>(() => {
+    const options = catalog.map((m) => ({
+      name: m.source === "imported" ? `${m.name} (导入)` : m.name,
+      url: m.url,
+    }));
+    // 目录外的远程模型也要出现在选择器中
+    const current = findModel(catalog, modelUrl);
+    if (current?.source === "remote") options.push(current);
+    return options;
+  }, [catalog, modelUrl]);
+  const devMode = useDevModeStore((state) => state.devMode);
+  const parameterMappings = useParameterMappingStore(selectMappings(modelUrl));
+  const { loadMappings, setModelParameters } = useParameterMappingStore();
+  const includeRawData = needsRawData(
+    parameterMappings,
+    expressionInputs(expressions),
+  );
+
+  useEffect(() => {
+    void loadMappings(modelUrl);
+  }, [modelUrl, loadMappings]);
+
+  // Interactions
+  const interactions = useInteractionStore(selectInteractionConfig(modelUrl));
+  const { loadConfig: loadInteractions, setModelInfo } = useInteractionStore();
+  const [editingInteractions, setEditingInteractions] = useState(false);
+  const [selectedHitArea, setSelectedHitArea] = useState<string | null>(null);
+
+  useEffect(() => {
+    void loadInteractions(modelUrl);
+    setSelectedHitArea(null);
+  }, [modelUrl, loadInteractions]);
 
   const viewerRef = useRef<Live2DViewerRef>(null);
 
@@ -64,20 +180,302 @@ const HomePage: React.FC = () => {
   const [displayError, setDisplayError] = useState<string | null>(null);
 
   // Face Tracking
-  const applyFaceData = useCallback((data: FaceTrackingResult) => {
-    viewerRef.current?.updateFaceData(data);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const calibrationRef = useRef(calibration);
+  calibrationRef.current = calibration;
+  const samplerRef = useRef<((data: FaceTrackingResult) => void) | null>(null);
+  const registerSampler = useCallback(
+    (sampler: ((data: FaceTrackingResult) => void) | null) => {
+      samplerRef.current = sampler;
+    },
+    [],
+  );
+
+  // Recording playback
+  const [presentActionSheet] = useIonActionSheet();
+  const [playback, setPlayback] = useState<FaceRecording | null>(null);
+  // 有 recording 来源的同台模型时由它们回放，主模型继续跟随实时追踪
+  const recordingAvatarsRef = useRef<string[]>([]);
+  recordingAvatarsRef.current = useMemo(
+    () => recordingAvatarIds(avatars),
+    [avatars],
+  );
+  const playbackActiveRef = useRef(false);
+  playbackActiveRef.current =
+    playback !== null && recordingAvatarsRef.current.length === 0;
+
+  const sendToViewer = useCallback((data: FaceTrackingResult) => {
+    // 校准向导采集的是未归一化的原始数据
+    samplerRef.current?.(data);
+    const calibration = calibrationRef.current;
+    viewerRef.current?.updateFaceData(
+      calibration ? applyCalibration(data, calibration) : data,
+    );
+  }, []);
+
+  const sendPlaybackFrame = useCallback(
+    (data: FaceTrackingResult) => {
+      const ids = recordingAvatarsRef.current;
+      if (ids.length === 0) {
+        sendToViewer(data);
+        return;
+      }
+      ids.forEach((id) => viewerRef.current?.updateAvatarFaceData(id, data));
+    },
+    [sendToViewer],
+  );
+
+  const closePlayback = useCallback(() => {
+    recordingAvatarsRef.current.forEach((id) =>
+      viewerRef.current?.updateAvatarFaceData(id, null),
+    );
+    setPlayback(null);
   }, []);
 
+  const applyFaceData = useCallback(
+    (data: FaceTrackingResult) => {
+      // 回放期间忽略实时数据
+      if (playbackActiveRef.current) return;
+      sendToViewer(data);
+    },
+    [sendToViewer],
+  );
+
   const {
     isReady: isTrackingAvailable,
     isTracking,
     error: trackingError,
+    mode: trackingMode,
     startTracking,
     stopTracking,
+    videoRef,
+    canvasRef,
+    isRecording,
+    startRecording,
+    stopRecording,
   } = useFaceTracking({
     onResult: applyFaceData,
+    showVideo: showDebugInfo,
+    includeRawData,
+  });
+  const showCameraPreview =
+    trackingMode === "web" && isTracking && showDebugInfo;
+
+  // Lip Sync
+  const audioInputRef = useRef<HTMLInputElement>(null);
+  const {
+    isSupported: isLipSyncSupported,
+    source: lipSyncSource,
+    error: lipSyncError,
+    startMicrophone,
+    startFile,
+    stop: stopLipSync,
+  } = useLipSync({
+    settings: lipSync,
+    onFrame: (frame) => viewerRef.current?.updateLipSync(frame),
+  });
+
+  const toggleMicrophone = useCallback(async () => {
+    if (lipSyncSource === "microphone") stopLipSync();
+    else await startMicrophone();
+  }, [lipSyncSource, startMicrophone, stopLipSync]);
+
+  const handleAudioFile = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      // 允许再次选择同一个文件
+      e.target.value = "";
+      if (file) await startFile(file);
+    },
+    [startFile],
+  );
+
+  const importRecording = useCallback(async () => {
+    const file = await importTextFile(".jsonl,application/x-ndjson");
+    if (file.error !== null) {
+      setDisplayError(`导入失败: ${file.error.message}`);
+      return;
+    }
+    if (!file.data) return;
+    const parsed = parseRecording(file.data.content);
+    if (parsed.error !== null) {
+      setDisplayError(`录制文件无效: ${parsed.error.message}`);
+      return;
+    }
+    setDisplayError(null);
+    setPlayback(parsed.data);
+  }, []);
+
+  const handleRecordClick = useCallback(() => {
+    if (isRecording) {
+      const recording = stopRecording();
+      if (recording) setPlayback(recording);
+      else setDisplayError("没有录到追踪数据");
+      return;
+    }
+    void presentActionSheet({
+      header: "面部录制",
+      buttons: [
+        {
+          text: "开始录制",
+          handler: () => {
+            closePlayback();
+            startRecording();
+          },
+        },
+        { text: "导入录制", handler: () => void importRecording() },
+        { text: "取消", role: "cancel" },
+      ],
+    });
+  }, [
+    isRecording,
+    stopRecording,
+    startRecording,
+    closePlayback,
+    importRecording,
+    presentActionSheet,
+  ]);
+
+  // Avatar capture
+  const {
+    isSupported: isCaptureSupported,
+    isApngSupported,
+    format: captureFormat,
+    isExporting,
+    error: captureError,
+    start: startCapture,
+    stop: stopCapture,
+  } = useAvatarCapture(() => {
+    const viewer = viewerRef.current;
+    const canvas = viewer?.getCanvas();
+    if (!viewer || !canvas) return null;
+    return { canvas, onAfterRender: viewer.onAfterRender };
   });
 
+  // 渲染档位：页面不可见时暂停渲染（录制画面时除外），追踪或录制时保持屏幕常亮
+  const profile = RENDER_PROFILES[renderProfile];
+  const [viewVisible, setViewVisible] = useState(true);
+  useIonViewWillEnter(() => setViewVisible(true));
+  useIonViewDidLeave(() => setViewVisible(false));
+  const documentVisible = useDocumentVisible();
+  const renderPaused =
+    profile.pauseWhenHidden &&
+    captureFormat === null &&
+    (!viewVisible || !documentVisible);
+  const keepScreenOn =
+    profile.keepScreenOn && (isTracking || captureFormat !== null);
+
+  useEffect(() => {
+    if (!keepScreenOn) return;
+    void mauiBridgeService.setKeepScreenOn(true);
+    return () => {
+      void mauiBridgeService.setKeepScreenOn(false);
+    };
+  }, [keepScreenOn]);
+
+  const handleCaptureClick = useCallback(() => {
+    if (captureFormat) {
+      void stopCapture();
+      return;
+    }
+    const background = captureBackground || null;
+    void presentActionSheet({
+      header: "录制画面",
+      buttons: [
+        {
+          text: "录制视频",
+          handler: () => void startCapture({ format: "video", background }),
+        },
+        {
+          text: "录制视频 + 麦克风",
+          handler: () =>
+            void startCapture({
+              format: "video",
+              background,
+              includeMicrophone: true,
+            }),
+        },
+        ...(isApngSupported
+          ? [
+              {
+                text: `录制动图 (最长 ${APNG_MAX_DURATION_MS / 1000} 秒)`,
+                handler: () =>
+                  void startCapture({ format: "apng", background }),
+              },
+            ]
+          : []),
+        { text: "取消", role: "cancel" },
+      ],
+    });
+  }, [
+    captureFormat,
+    captureBackground,
+    isApngSupported,
+    startCapture,
+    stopCapture,
+    presentActionSheet,
+  ]);
+
+  // Screenshot
+  const [isSavingStill, setIsSavingStill] = useState(false);
+
+  const takeScreenshot = useCallback(
+    async (target: "gallery" | "imgur") => {
+      const viewer = viewerRef.current;
+      if (!viewer) return;
+      setIsSavingStill(true);
+      try {
+        const still = await viewer.captureFrame(screenshot);
+        if (still.error !== null) {
+          setDisplayError(`截图失败: ${still.error.message}`);
+          return;
+        }
+        if (target === "gallery") {
+          const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+          const saved = await saveImage(
+            `avatar-${stamp}${stillExtension(screenshot.format)}`,
+            still.data,
+          );
+          if (saved.error !== null) {
+            setDisplayError(`保存失败: ${saved.error.message}`);
+            return;
+          }
+          void mauiBridgeService.showToast("截图已保存");
+          return;
+        }
+        const uploaded = await uploadImageToImgur(
+          bytesToBase64(new Uint8Array(await still.data.arrayBuffer())),
+        );
+        if (!uploaded.success || !uploaded.url) {
+          setDisplayError(`上传失败: ${uploaded.error ?? "未知错误"}`);
+          return;
+        }
+        await navigator.clipboard?.writeText(uploaded.url).catch(() => {});
+        void mauiBridgeService.showToast(`已上传，链接已复制: ${uploaded.url}`);
+      } finally {
+        setIsSavingStill(false);
+      }
+    },
+    [screenshot],
+  );
+
+  const handleScreenshotClick = useCallback(() => {
+    void presentActionSheet({
+      header: `截图 ${screenshot.width} × ${screenshot.height}`,
+      buttons: [
+        {
+          text: "保存到相册",
+          handler: () => void takeScreenshot("gallery"),
+        },
+        {
+          text: "上传到 Imgur",
+          handler: () => void takeScreenshot("imgur"),
+        },
+        { text: "取消", role: "cancel" },
+      ],
+    });
+  }, [screenshot, takeScreenshot, presentActionSheet]);
+
   const toggleTracking = useCallback(async () => {
     if (isTracking) await stopTracking();
     else await startTracking();
@@ -95,7 +493,14 @@ const HomePage: React.FC = () => {
   const handleLoad = useCallback(() => {
     setLoading(false);
     setDisplayError(null);
-  }, []);
+    const viewer = viewerRef.current;
+    setModelParameters(modelUrl, viewer?.getParameterIds() ?? []);
+    setModelInfo(modelUrl, {
+      hitAreas: viewer?.getHitAreas() ?? [],
+      motionGroups: viewer?.getMotionGroups() ?? [],
+      expressions: viewer?.getExpressions() ?? [],
+    });
+  }, [modelUrl, setModelParameters, setModelInfo]);
 
   const handleError = useCallback((err: string) => {
     setLoading(false);
@@ -112,6 +517,74 @@ const HomePage: React.FC = () => {
           <IonTitle>Avii</IonTitle>
           <IonButtons slot="end">
             <IonButton
+              onClick={handleScreenshotClick}
+              disabled={isSavingStill || loading}
+              color="medium"
+            >
+              {isSavingStill ? (
+                <IonSpinner name="crescent" />
+              ) : (
+                <IonIcon slot="icon-only" icon={cameraOutline} />
+              )}
+            </IonButton>
+            <IonButton
+              onClick={handleCaptureClick}
+              disabled={!isCaptureSupported || isExporting || loading}
+              color={captureFormat ? "danger" : "medium"}
+            >
+              {isExporting ? (
+                <IonSpinner name="crescent" />
+              ) : (
+                <IonIcon slot="icon-only" icon={filmOutline} />
+              )}
+            </IonButton>
+            <IonButton
+              onClick={handleRecordClick}
+              disabled={loading}
+              color={isRecording ? "danger" : "medium"}
+            >
+              <IonIcon slot="icon-only" icon={radioButtonOn} />
+            </IonButton>
+            <IonButton
+              onClick={() =>
+                lipSyncSource === "file"
+                  ? stopLipSync()
+                  : audioInputRef.current?.click()
+              }
+              disabled={!isLipSyncSupported || loading}
+              color={lipSyncSource === "file" ? "success" : "medium"}
+            >
+              <IonIcon slot="icon-only" icon={musicalNotes} />
+            </IonButton>
+            <IonButton
+              onClick={toggleMicrophone}
+              disabled={!isLipSyncSupported || loading}
+              color={lipSyncSource === "microphone" ? "success" : "medium"}
+            >
+              <IonIcon
+                slot="icon-only"
+                icon={lipSyncSource === "microphone" ? mic : micOff}
+              />
+            </IonButton>
+            <IonButton
+              onClick={() => setEditingInteractions(true)}
+              disabled={loading}
+              color={editingInteractions ? "primary" : "medium"}
+            >
+              <IonIcon slot="icon-only" icon={handLeftOutline} />
+            </IonButton>
+            <IonButton
+              data-testid="calibration-open"
+              aria-label="表情校准"
+              onClick={() => setShowCalibration(true)}
+              disabled={!isTrackingAvailable || loading}
+              color={calibration ? "primary" : "medium"}
+            >
+              <IonIcon slot="icon-only" icon={scanOutline} />
+            </IonButton>
+            <IonButton
+              data-testid="tracking-toggle"
+              aria-label={isTracking ? "停止面部追踪" : "开始面部追踪"}
               onClick={toggleTracking}
               disabled={!isTrackingAvailable || loading}
               color={isTracking ? "success" : "medium"}
@@ -134,13 +607,29 @@ const HomePage: React.FC = () => {
           }}
         >
           <Live2DViewer
+            // 抗锯齿只能在创建 WebGL 上下文时指定，切换时重新创建画布
+            key={profile.antialias ? "antialias" : "aliased"}
             ref={viewerRef}
             modelUrl={modelUrl}
-            availableModels={AVAILABLE_MODELS}
+            availableModels={availableModels}
             onModelChange={handleModelChange}
-            scale={modelScale}
-            rotation={modelRotation}
-            lerpFactor={lerpFactor}
+            framing={framing}
+            onFramingChange={(f) => void setFraming(modelUrl, f)}
+            scene={scene}
+            physics={physics}
+            avatars={avatars}
+            smoothing={smoothing}
+            idle={idle}
+            lipSync={lipSync}
+            expressionTriggers={expressions}
+            interactions={interactions}
+            editingHitAreas={editingInteractions}
+            selectedHitArea={selectedHitArea}
+            onHitAreaSelect={setSelectedHitArea}
+            parameterMappings={parameterMappings}
+            renderProfile={renderProfile}
+            paused={renderPaused}
+            showPerfHud={devMode}
             showDebugInfo={showDebugInfo}
             onLoad={handleLoad}
             onError={handleError}
@@ -167,7 +656,7 @@ const HomePage: React.FC = () => {
           )}
 
           {/* Error Display */}
-          {(displayError || trackingError) && (
+          {(displayError || trackingError || lipSyncError || captureError) && (
             <div
               style={{
                 position: "absolute",
@@ -182,7 +671,10 @@ const HomePage: React.FC = () => {
                 zIndex: 30,
               }}
             >
-              {displayError || trackingError}
+              {displayError ||
+                (trackingError && describeTrackingError(trackingError)) ||
+                (lipSyncError && describeLipSyncError(lipSyncError)) ||
+                (captureError && describeCaptureError(captureError))}
             </div>
           )}
 
@@ -202,9 +694,82 @@ const HomePage: React.FC = () => {
                 zIndex: 10,
               }}
             >
-              ● Tracking Active
+              ● Tracking Active{trackingMode === "web" ? " (Camera)" : ""}
             </div>
           )}
+
+          {/* Camera Preview (Web tracking + debug info)，放在左下角，避开模型选择器 */}
+          <div
+            style={{
+              position: "absolute",
+              bottom: 16,
+              left: 16,
+              width: 160,
+              aspectRatio: "4 / 3",
+              display: showCameraPreview ? "block" : "none",
+              borderRadius: 8,
+              overflow: "hidden",
+              transform: "scaleX(-1)",
+              pointerEvents: "none",
+              zIndex: 10,
+            }}
+          >
+            <video
+              ref={videoRef}
+              muted
+              playsInline
+              style={{ width: "100%", height: "100%", objectFit: "cover" }}
+            />
+            <canvas
+              ref={canvasRef}
+              style={{
+                position: "absolute",
+                inset: 0,
+                width: "100%",
+                height: "100%",
+                objectFit: "cover",
+              }}
+            />
+          </div>
+
+          {playback && (
+            <RecordingPlayer
+              recording={playback}
+              onFrame={sendPlaybackFrame}
+              onClose={closePlayback}
+              onError={setDisplayError}
+            />
+          )}
+
+          <input
+            ref={audioInputRef}
+            type="file"
+            accept="audio/*"
+            style={{ display: "none" }}
+            onChange={handleAudioFile}
+          />
+
+          <InteractionEditor
+            isOpen={editingInteractions}
+            modelUrl={modelUrl}
+            selectedHitArea={selectedHitArea}
+            onSelectHitArea={setSelectedHitArea}
+            onDismiss={() => setEditingInteractions(false)}
+          />
+
+          <CalibrationWizard
+            isOpen={showCalibration}
+            isTracking={isTracking}
+            hasCalibration={!!calibration}
+            onStartTracking={startTracking}
+            registerSampler={registerSampler}
+            onComplete={(c) => void setCalibration(modelUrl, c)}
+            onClear={() => void setCalibration(modelUrl, null)}
+            onDismiss={() => setShowCalibration(false)}
+          />
+
+          {/* Bridge Message Stats (Dev Mode) */}
+          {devMode && <BridgeStatsOverlay />}
         </div>
       </IonContent>
     </IonPage>
@@ -28,40 +28,66 @@ const LogsPage = () => {
   const [loading, setLoading] = useState(false);
   const [selectedLogContent, setSelectedLogContent] =
     useState<LogFileContent | null>(null);
+  const [unavailable, setUnavailable] = useState(false);
   const [present] = useIonAlert();
 
-  const loadLogs = async () => {
+  const loadLogs = async (signal?: AbortSignal) => {
     setLoading(true);
-    const response = await getLogFiles();
-    if (response.error) {
-      present({
-        header: "Error",
-        message: response.error,
-        buttons: ["OK"],
-      });
-    } else {
-      setLogs(response.files);
-    }
+    const result = await getLogFiles(signal);
+    // Page was left before the bridge answered
+    if (signal?.aborted) return;
     setLoading(false);
+
+    if (result.error === null) {
+      setUnavailable(false);
+      setLogs(result.data);
+      return;
+    }
+
+    switch (result.error.code) {
+      case "aborted":
+        return;
+      case "bridge_unavailable":
+        setUnavailable(true);
+        return;
+      case "timeout":
+        present({
+          header: "Timeout",
+          message: "The app did not respond in time. Please try again.",
+          buttons: ["OK"],
+        });
+        return;
+      default:
+        present({
+          header: "Error",
+          message: result.error.message,
+          buttons: ["OK"],
+        });
+    }
   };
 
   useEffect(() => {
-    loadLogs();
+    const controller = new AbortController();
+    void loadLogs(controller.signal);
+    return () => controller.abort();
   }, []);
 
   const handleLogSelect = async (fileName: string) => {
     setLoading(true);
-    const content = await getLogFileContent(fileName);
+    const result = await getLogFileContent(fileName);
     setLoading(false);
 
-    if (!content) {
+    if (result.error !== null) {
       present({
         header: "Error",
-        message: "Failed to load log content",
+        message:
+          result.error.code === "native_error"
+            ? result.error.message
+            : "Failed to load log content",
         buttons: ["OK"],
       });
     } else {
-      setSelectedLogContent(content);
+      setSelectedLogContent(result.data);
     }
   };
 
@@ -113,7 +139,7 @@ const LogsPage = () => {
         <IonToolbar>
           <IonTitle>Logs</IonTitle>
           <div slot="end" style={{ display: "flex", gap: "8px" }}>
-            <IonButton onClick={loadLogs} fill="clear">
+            <IonButton onClick={() => loadLogs()} fill="clear">
               <IonIcon icon={refresh} />
             </IonButton>
             {logs.length > 0 && (
@@ -147,7 +173,11 @@ const LogsPage = () => {
             <>
               {logs.length === 0 && !loading && (
                 <div style={{ textAlign: "center", marginTop: "32px" }}>
-                  <p>No log files available</p>
+                  <p>
+                    {unavailable
+                      ? "Logs are only available inside the app"
+                      : "No log files available"}
+                  </p>
                 </div>
               )}
               <LogsList
@@ -1,4 +1,5 @@
 import { mauiBridgeService } from "../../services/MauiBridgeService";
+import { map, unwrapOr, type Result } from "../../services/result";
 
 export interface LogFile {
   fileName: string;
@@ -10,26 +11,17 @@ export interface LogFileContent extends LogFile {
   content: string;
 }
 
-export interface GetLogsResponse {
-  files: LogFile[];
-  error?: string;
-}
-
-export interface LogContentResponse extends LogFileContent {
-  error?: string;
-}
-
 /**
  * 获取日志文件列表
  */
-export async function getLogFiles(): Promise<GetLogsResponse> {
-  const result = await mauiBridgeService.getLogFiles();
-  if (result.error !== null) {
-    console.error("Error fetching log files:", result.error);
-    return { files: [], error: result.error };
+export async function getLogFiles(
+  signal?: AbortSignal,
+): Promise<Result<LogFile[]>> {
+  const result = await mauiBridgeService.getLogFiles({ signal });
+  if (result.error !== null && result.error.code !== "aborted") {
+    console.error("Error fetching log files:", result.error.message);
   }
-  // Safe cast since we know the structure from Bridge
-  return result.data as GetLogsResponse;
+  return map(result, (data) => data.files);
 }
 
 /**
@@ -37,13 +29,12 @@ export async function getLogFiles(): Promise<GetLogsResponse> {
  */
 export async function getLogFileContent(
   fileName: string,
-): Promise<LogContentResponse | null> {
+): Promise<Result<LogFileContent>> {
   const result = await mauiBridgeService.getLogFileContent(fileName);
   if (result.error !== null) {
-    console.error("Error fetching log content:", result.error);
-    return null;
+    console.error("Error fetching log content:", result.error.message);
   }
-  return result.data as LogContentResponse;
+  return result;
 }
 
 /**
@@ -51,7 +42,7 @@ export async function getLogFileContent(
  */
 export async function deleteLogFile(fileName: string): Promise<boolean> {
   const result = await mauiBridgeService.deleteLogFile(fileName);
-  return (result as any).data ?? true; // mauiBridgeService returns Result<boolean> which is { error: string | null, data: boolean }
+  return unwrapOr(result, false);
 }
 
 /**
@@ -59,7 +50,7 @@ export async function deleteLogFile(fileName: string): Promise<boolean> {
  */
 export async function clearAllLogs(): Promise<boolean> {
   const result = await mauiBridgeService.clearAllLogs();
-  return (result as any).data ?? true;
+  return unwrapOr(result, false);
 }
 
 /**
@@ -67,9 +58,9 @@ export async function clearAllLogs(): Promise<boolean> {
  */
 export async function downloadLogFile(fileName: string): Promise<void> {
   try {
-    const logContent = await getLogFileContent(fileName);
+    const { data: logContent } = await getLogFileContent(fileName);
 
-    if (!logContent || logContent.error) {
+    if (!logContent) {
       console.error("Failed to get log content for download");
       return;
     }
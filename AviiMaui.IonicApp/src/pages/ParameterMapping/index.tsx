@@ -0,0 +1,276 @@
+import {
+  IonBackButton,
+  IonButton,
+  IonButtons,
+  IonContent,
+  IonHeader,
+  IonIcon,
+  IonInput,
+  IonItem,
+  IonItemGroup,
+  IonLabel,
+  IonList,
+  IonListHeader,
+  IonNote,
+  IonPage,
+  IonSelect,
+  IonSelectOption,
+  IonTitle,
+  IonToggle,
+  IonToolbar,
+  useIonAlert,
+} from "@ionic/react";
+import { add, refresh, trash } from "ionicons/icons";
+import { ARKIT_BLENDSHAPE_NAMES } from "../../services/faceTracking/blendshapes";
+import {
+  BASIC_CHANNELS,
+  BLENDSHAPE_CHANNEL_PREFIX,
+  BLENDSHAPE_PRESET_MAPPINGS,
+  type MappingCurve,
+  type ParameterMapping,
+} from "../../services/faceTracking/parameterMapping";
+import {
+  selectMappings,
+  useParameterMappingStore,
+} from "../../store/parameterMappingStore";
+import { useSettingsStore } from "../../store/settingsStore";
+import "./ParameterMapping.css";
+
+const INPUT_CHANNELS = [
+  ...BASIC_CHANNELS,
+  ...ARKIT_BLENDSHAPE_NAMES.map((name) => BLENDSHAPE_CHANNEL_PREFIX + name),
+];
+
+const CURVES: Array<{ value: MappingCurve; label: string }> = [
+  { value: "linear", label: "线性" },
+  { value: "easeIn", label: "缓入 (x²)" },
+  { value: "easeOut", label: "缓出 (√x)" },
+];
+
+const NUMBER_FIELDS = [
+  { field: "gain", label: "增益" },
+  { field: "offset", label: "偏移" },
+  { field: "min", label: "最小" },
+  { field: "max", label: "最大" },
+] as const;
+
+/**
+ * 当前模型的参数映射编辑器（按模型保存）
+ */
+const ParameterMappingPage: React.FC = () => {
+  const modelUrl = useSettingsStore((state) => state.modelUrl);
+  const mappings = useParameterMappingStore(selectMappings(modelUrl));
+  const modelParameters = useParameterMappingStore(
+    (state) => state.modelParameters[modelUrl],
+  );
+  const { setMappings, resetMappings } = useParameterMappingStore();
+  const [presentAlert] = useIonAlert();
+
+  const modelName = modelUrl.split("/").pop() || modelUrl;
+
+  const update = (index: number, patch: Partial<ParameterMapping>) => {
+    void setMappings(
+      modelUrl,
+      mappings.map((m, i) => (i === index ? { ...m, ...patch } : m)),
+    );
+  };
+
+  const remove = (index: number) => {
+    void setMappings(
+      modelUrl,
+      mappings.filter((_, i) => i !== index),
+    );
+  };
+
+  const addMapping = () => {
+    void setMappings(modelUrl, [
+      ...mappings,
+      {
+        input: "mouthOpen",
+        parameterId: modelParameters?.[0] ?? "ParamMouthOpenY",
+        gain: 1,
+        offset: 0,
+        min: -1,
+        max: 1,
+        curve: "linear",
+        invert: false,
+      },
+    ]);
+  };
+
+  // 尚未添加的可选 blendshape 映射（按输入 + 参数判断）
+  const missingPresets = BLENDSHAPE_PRESET_MAPPINGS.filter(
+    (preset) =>
+      !mappings.some(
+        (m) => m.input === preset.input && m.parameterId === preset.parameterId,
+      ),
+  );
+
+  const addPresets = () => {
+    void setMappings(modelUrl, [...mappings, ...missingPresets]);
+  };
+
+  const confirmReset = () => {
+    void presentAlert({
+      header: "恢复默认映射",
+      message: `将丢弃 ${modelName} 的自定义映射`,
+      buttons: [
+        { text: "取消", role: "cancel" },
+        {
+          text: "恢复",
+          role: "destructive",
+          handler: () => void resetMappings(modelUrl),
+        },
+      ],
+    });
+  };
+
+  return (
+    <IonPage>
+      <IonHeader>
+        <IonToolbar>
+          <IonButtons slot="start">
+            <IonBackButton defaultHref="/settings" />
+          </IonButtons>
+          <IonTitle>参数映射</IonTitle>
+          <IonButtons slot="end">
+            <IonButton onClick={confirmReset}>
+              <IonIcon slot="icon-only" icon={refresh} />
+            </IonButton>
+            <IonButton onClick={addMapping}>
+              <IonIcon slot="icon-only" icon={add} />
+            </IonButton>
+          </IonButtons>
+        </IonToolbar>
+      </IonHeader>
+      <IonContent>
+        <IonList>
+          <IonListHeader>
+            <IonLabel>
+              {modelName}
+              <p className="mapping-help">
+                value = clamp(curve(输入) × 增益 + 偏移, 最小, 最大)；
+                同一参数的多条映射相加。bs: 开头的通道为原始 blendshape，
+                使用后原生追踪会额外请求原始数据。
+              </p>
+            </IonLabel>
+          </IonListHeader>
+          {missingPresets.length > 0 && (
+            <IonItem lines="none">
+              <IonButton size="small" fill="outline" onClick={addPresets}>
+                添加微笑 / 鼓腮映射 (blendshape)
+              </IonButton>
+            </IonItem>
+          )}
+
+          {mappings.map((m, index) => (
+            <IonItemGroup key={index} className="mapping-group">
+              <IonItem>
+                <IonSelect
+                  label="输入"
+                  interface="popover"
+                  value={m.input}
+                  onIonChange={(e) => update(index, { input: e.detail.value })}
+                >
+                  {INPUT_CHANNELS.map((channel) => (
+                    <IonSelectOption key={channel} value={channel}>
+                      {channel}
+                    </IonSelectOption>
+                  ))}
+                </IonSelect>
+              </IonItem>
+              <IonItem>
+                {/* 模型在首页加载过后才能拿到参数列表，否则手动输入 */}
+                {modelParameters?.length ? (
+                  <IonSelect
+                    label="参数 ID"
+                    interface="popover"
+                    value={m.parameterId}
+                    onIonChange={(e) =>
+                      update(index, { parameterId: e.detail.value })
+                    }
+                  >
+                    {Array.from(
+                      new Set([m.parameterId, ...modelParameters]),
+                    ).map((id) => (
+                      <IonSelectOption key={id} value={id}>
+                        {id}
+                      </IonSelectOption>
+                    ))}
+                  </IonSelect>
+                ) : (
+                  <IonInput
+                    label="参数 ID"
+                    value={m.parameterId}
+                    onIonChange={(e) =>
+                      e.detail.value &&
+                      update(index, { parameterId: e.detail.value })
+                    }
+                  />
+                )}
+                {!!modelParameters?.length &&
+                  !modelParameters.includes(m.parameterId) && (
+                    <IonNote slot="end" color="warning">
+                      模型中不存在
+                    </IonNote>
+                  )}
+              </IonItem>
+              <IonItem>
+                <div className="mapping-numbers">
+                  {NUMBER_FIELDS.map(({ field, label }) => (
+                    <IonInput
+                      key={field}
+                      type="number"
+                      label={label}
+                      labelPlacement="stacked"
+                      value={m[field]}
+                      onIonChange={(e) => {
+                        const value = parseFloat(e.detail.value ?? "");
+                        if (!Number.isNaN(value))
+                          update(index, { [field]: value });
+                      }}
+                    />
+                  ))}
+                </div>
+              </IonItem>
+              <IonItem>
+                <IonSelect
+                  label="曲线"
+                  interface="popover"
+                  value={m.curve}
+                  onIonChange={(e) => update(index, { curve: e.detail.value })}
+                >
+                  {CURVES.map((c) => (
+                    <IonSelectOption key={c.value} value={c.value}>
+                      {c.label}
+                    </IonSelectOption>
+                  ))}
+                </IonSelect>
+              </IonItem>
+              <IonItem>
+                <IonToggle
+                  checked={m.invert}
+                  onIonChange={(e) =>
+                    update(index, { invert: e.detail.checked })
+                  }
+                >
+                  反转
+                </IonToggle>
+                <IonButton
+                  slot="end"
+                  fill="clear"
+                  color="danger"
+                  onClick={() => remove(index)}
+                >
+                  <IonIcon slot="icon-only" icon={trash} />
+                </IonButton>
+              </IonItem>
+            </IonItemGroup>
+          ))}
+        </IonList>
+      </IonContent>
+    </IonPage>
+  );
+};
+
+export default ParameterMappingPage;
@@ -0,0 +1,55 @@
+import {
+  IonItem,
+  IonLabel,
+  IonListHeader,
+  IonSelect,
+  IonSelectOption,
+} from "@ionic/react";
+
+const BACKGROUNDS: Array<{ value: string; label: string }> = [
+  { value: "", label: "透明" },
+  { value: "#1a1a2e", label: "深色" },
+  { value: "#ffffff", label: "白色" },
+  { value: "#00ff00", label: "绿幕" },
+];
+
+interface CaptureSettingsSectionProps {
+  background: string;
+  onChange: (background: string) => void;
+}
+
+/**
+ * 画面录制设置
+ */
+export const CaptureSettingsSection: React.FC<CaptureSettingsSectionProps> = ({
+  background,
+  onChange,
+}) => (
+  <>
+    <IonListHeader>
+      <IonLabel>画面录制</IonLabel>
+    </IonListHeader>
+    <IonItem>
+      <IonSelect
+        label="录制背景"
+        interface="popover"
+        value={background}
+        onIonChange={(e) => onChange(e.detail.value)}
+      >
+        {BACKGROUNDS.map((b) => (
+          <IonSelectOption key={b.value} value={b.value}>
+            {b.label}
+          </IonSelectOption>
+        ))}
+      </IonSelect>
+    </IonItem>
+    <IonItem lines="none">
+      <IonLabel>
+        <p className="settings-help">
+          透明背景仅动图 (APNG) 与支持 Alpha 的 WebM
+          播放器可见，绿幕便于后期抠像
+        </p>
+      </IonLabel>
+    </IonItem>
+  </>
+);
@@ -0,0 +1,126 @@
+import {
+  IonInput,
+  IonItem,
+  IonLabel,
+  IonListHeader,
+  IonRange,
+  IonToggle,
+} from "@ionic/react";
+import type {
+  ExpressionRule,
+  ExpressionSettings,
+} from "../../services/faceTracking/expressions";
+
+interface ExpressionSettingsSectionProps {
+  expressions: ExpressionSettings;
+  onChange: (expressions: ExpressionSettings) => void;
+}
+
+/**
+ * 表情触发设置：每条规则的表情名、阈值与滞回
+ */
+export const ExpressionSettingsSection: React.FC<
+  ExpressionSettingsSectionProps
+> = ({ expressions, onChange }) => {
+  const updateRule = (index: number, patch: Partial<ExpressionRule>) =>
+    onChange({
+      ...expressions,
+      rules: expressions.rules.map((rule, i) =>
+        i === index ? { ...rule, ...patch } : rule,
+      ),
+    });
+
+  const updateThreshold = (index: number, condition: number, value: number) =>
+    updateRule(index, {
+      conditions: expressions.rules[index].conditions.map((c, i) =>
+        i === condition ? { ...c, threshold: value } : c,
+      ),
+    });
+
+  return (
+    <>
+      <IonListHeader>
+        <IonLabel>表情触发 (Expressions)</IonLabel>
+      </IonListHeader>
+      <IonItem>
+        <IonToggle
+          checked={expressions.enabled}
+          onIonChange={(e) =>
+            onChange({ ...expressions, enabled: e.detail.checked })
+          }
+        >
+          由追踪数据切换表情
+          <p className="settings-help">
+            首页手动选择的表情优先；模型没有对应表情时该规则不生效
+          </p>
+        </IonToggle>
+      </IonItem>
+
+      {expressions.enabled &&
+        expressions.rules.map((rule, index) => (
+          <div key={index}>
+            <IonItem>
+              <IonToggle
+                checked={rule.enabled}
+                onIonChange={(e) =>
+                  updateRule(index, { enabled: e.detail.checked })
+                }
+              >
+                规则 {index + 1}
+              </IonToggle>
+            </IonItem>
+            {rule.enabled && (
+              <>
+                <IonItem>
+                  <IonInput
+                    label="表情名"
+                    value={rule.expression}
+                    onIonChange={(e) =>
+                      e.detail.value &&
+                      updateRule(index, { expression: e.detail.value })
+                    }
+                  />
+                </IonItem>
+                {rule.conditions.map((c, ci) => (
+                  <IonItem key={ci}>
+                    <IonLabel>
+                      {c.input} {c.comparison === "above" ? "≥" : "≤"}{" "}
+                      {c.threshold.toFixed(2)}
+                      <IonRange
+                        min={-1}
+                        max={1}
+                        step={0.05}
+                        value={c.threshold}
+                        onIonChange={(e) =>
+                          updateThreshold(index, ci, e.detail.value as number)
+                        }
+                      />
+                    </IonLabel>
+                  </IonItem>
+                ))}
+                <IonItem>
+                  <IonLabel>
+                    滞回: {rule.hysteresis.toFixed(2)}
+                    <p className="settings-help">
+                      激活后数值需回落超过该幅度才解除，避免表情来回切换
+                    </p>
+                    <IonRange
+                      min={0}
+                      max={0.5}
+                      step={0.05}
+                      value={rule.hysteresis}
+                      onIonChange={(e) =>
+                        updateRule(index, {
+                          hysteresis: e.detail.value as number,
+                        })
+                      }
+                    />
+                  </IonLabel>
+                </IonItem>
+              </>
+            )}
+          </div>
+        ))}
+    </>
+  );
+};
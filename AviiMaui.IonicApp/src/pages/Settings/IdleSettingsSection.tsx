@@ -0,0 +1,99 @@
+import {
+  IonItem,
+  IonLabel,
+  IonListHeader,
+  IonRange,
+  IonToggle,
+} from "@ionic/react";
+import type { IdleSettings } from "../../services/faceTracking/idle";
+
+type ToggleKey = "autoBlink" | "breath" | "headSway" | "idleMotions";
+
+const TOGGLES: Array<{ key: ToggleKey; label: string }> = [
+  { key: "autoBlink", label: "自动眨眼" },
+  { key: "breath", label: "呼吸" },
+  { key: "headSway", label: "轻微摆头" },
+  { key: "idleMotions", label: "随机播放 Idle 动作" },
+];
+
+interface IdleSettingsSectionProps {
+  idle: IdleSettings;
+  onChange: (idle: IdleSettings) => void;
+}
+
+/**
+ * 待机动画设置：追踪关闭或丢失后的自动动作与交叉淡化
+ */
+export const IdleSettingsSection: React.FC<IdleSettingsSectionProps> = ({
+  idle,
+  onChange,
+}) => {
+  const update = (patch: Partial<IdleSettings>) =>
+    onChange({ ...idle, ...patch });
+
+  return (
+    <>
+      <IonListHeader>
+        <IonLabel>待机动画 (Idle)</IonLabel>
+      </IonListHeader>
+      <IonItem>
+        <IonToggle
+          checked={idle.enabled}
+          onIonChange={(e) => update({ enabled: e.detail.checked })}
+        >
+          启用待机动画
+          <p className="settings-help">
+            未开启追踪或脸离开画面时，模型不再停在最后一帧
+          </p>
+        </IonToggle>
+      </IonItem>
+
+      {idle.enabled && (
+        <>
+          {TOGGLES.map(({ key, label }) => (
+            <IonItem key={key}>
+              <IonToggle
+                checked={idle[key]}
+                onIonChange={(e) => update({ [key]: e.detail.checked })}
+              >
+                {label}
+              </IonToggle>
+            </IonItem>
+          ))}
+          <IonItem>
+            <IonLabel>
+              丢失判定: {(idle.lossTimeoutMs / 1000).toFixed(1)} 秒
+              <p className="settings-help">
+                超过该时间没有追踪数据后切换到待机
+              </p>
+              <IonRange
+                min={200}
+                max={5000}
+                step={100}
+                value={idle.lossTimeoutMs}
+                onIonChange={(e) =>
+                  update({ lossTimeoutMs: e.detail.value as number })
+                }
+              />
+            </IonLabel>
+          </IonItem>
+          <IonItem>
+            <IonLabel>
+              过渡时长: {(idle.fadeMs / 1000).toFixed(1)} 秒
+              <p className="settings-help">追踪与待机之间的淡入淡出时间</p>
+              <IonRange
+                min={0}
+                max={3000}
+                step={100}
+                value={idle.fadeMs}
+                onIonChange={(e) =>
+                  update({ fadeMs: e.detail.value as number })
+                }
+              />
+            </IonLabel>
+          </IonItem>
+        </>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,125 @@
+import {
+  IonButton,
+  IonIcon,
+  IonItem,
+  IonLabel,
+  IonListHeader,
+  IonSpinner,
+} from "@ionic/react";
+import { useState } from "react";
+import { addOutline, settingsOutline, trashOutline } from "ionicons/icons";
+import { useImportedModelStore } from "../../store/importedModelStore";
+import { importedModelUrl } from "../../services/models/importedModels";
+import { DEFAULT_MODEL_URL } from "../../services/models/catalog";
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(1)} MB`
+    : `${Math.ceil(bytes / 1024)} KB`;
+
+interface ImportedModelsSectionProps {
+  modelUrl: string;
+  onSelect: (url: string) => void;
+}
+
+/**
+ * 用户导入的模型：从 zip 导入、切换、删除
+ */
+export const ImportedModelsSection: React.FC<ImportedModelsSectionProps> = ({
+  modelUrl,
+  onSelect,
+}) => {
+  const { models, importModel, removeModel } = useImportedModelStore();
+  const [importing, setImporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleImport = async () => {
+    setImporting(true);
+    setMessage(null);
+    try {
+      const result = await importModel();
+      if (result.error !== null) {
+        setMessage(`导入失败: ${result.error.message}`);
+      } else if (result.data && result.data.warnings.length > 0) {
+        setMessage(`已导入，以下文件缺失: ${result.data.warnings.join(", ")}`);
+      }
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    const url = importedModelUrl(id);
+    const result = await removeModel(id);
+    if (result.error !== null) {
+      setMessage(`删除失败: ${result.error.message}`);
+      return;
+    }
+    if (modelUrl === url) onSelect(DEFAULT_MODEL_URL);
+  };
+
+  return (
+    <>
+      <IonListHeader>
+        <IonLabel>导入的模型 (Imported)</IonLabel>
+      </IonListHeader>
+      {models.map((model) => {
+        const url = importedModelUrl(model.id);
+        return (
+          <IonItem key={model.id}>
+            <IonLabel>
+              <h2>{model.name}</h2>
+              <p>
+                {formatSize(model.size)} ·{" "}
+                {new Date(model.importedAt).toLocaleDateString()}
+              </p>
+            </IonLabel>
+            <IonButton
+              fill="outline"
+              slot="end"
+              color={modelUrl === url ? "success" : "medium"}
+              onClick={() => onSelect(url)}
+            >
+              <IonIcon slot="start" icon={settingsOutline} />
+              {modelUrl === url ? "Using" : "Switch"}
+            </IonButton>
+            <IonButton
+              fill="clear"
+              slot="end"
+              color="danger"
+              onClick={() => void handleRemove(model.id)}
+            >
+              <IonIcon slot="icon-only" icon={trashOutline} />
+            </IonButton>
+          </IonItem>
+        );
+      })}
+      <IonItem
+        button
+        detail={false}
+        onClick={handleImport}
+        disabled={importing}
+      >
+        {importing ? (
+          <IonSpinner slot="start" name="crescent" />
+        ) : (
+          <IonIcon slot="start" icon={addOutline} />
+        )}
+        <IonLabel>
+          导入模型 (.zip)
+          <p className="settings-help">
+            包含 .model3.json (或 Cubism 2 的
+            .model.json)、moc、贴图、动作与物理文件的压缩包
+          </p>
+        </IonLabel>
+      </IonItem>
+      {message && (
+        <IonItem lines="none">
+          <IonLabel color="danger" className="ion-text-wrap">
+            {message}
+          </IonLabel>
+        </IonItem>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,112 @@
+import {
+  IonItem,
+  IonLabel,
+  IonListHeader,
+  IonRange,
+  IonSelect,
+  IonSelectOption,
+  IonToggle,
+} from "@ionic/react";
+import type {
+  LipSyncMixMode,
+  LipSyncSettings,
+} from "../../services/lipSync/analysis";
+
+const MIX_MODES: Array<{ value: LipSyncMixMode; label: string }> = [
+  { value: "max", label: "取较大值" },
+  { value: "blend", label: "按比例混合" },
+  { value: "replace", label: "仅音频" },
+];
+
+interface LipSyncSettingsSectionProps {
+  lipSync: LipSyncSettings;
+  onChange: (lipSync: LipSyncSettings) => void;
+}
+
+/**
+ * 口型同步设置：灵敏度、噪声门限与面部追踪的混合方式
+ */
+export const LipSyncSettingsSection: React.FC<LipSyncSettingsSectionProps> = ({
+  lipSync,
+  onChange,
+}) => {
+  const update = (patch: Partial<LipSyncSettings>) =>
+    onChange({ ...lipSync, ...patch });
+
+  return (
+    <>
+      <IonListHeader>
+        <IonLabel>口型同步 (Lip Sync)</IonLabel>
+      </IonListHeader>
+      <IonItem>
+        <IonSelect
+          label="与面部追踪混合"
+          interface="popover"
+          value={lipSync.mixMode}
+          onIonChange={(e) => update({ mixMode: e.detail.value })}
+        >
+          {MIX_MODES.map((m) => (
+            <IonSelectOption key={m.value} value={m.value}>
+              {m.label}
+            </IonSelectOption>
+          ))}
+        </IonSelect>
+      </IonItem>
+      {lipSync.mixMode === "blend" && (
+        <IonItem>
+          <IonLabel>
+            音频比例: {Math.round(lipSync.audioWeight * 100)}%
+            <IonRange
+              min={0}
+              max={1}
+              step={0.05}
+              value={lipSync.audioWeight}
+              onIonChange={(e) =>
+                update({ audioWeight: e.detail.value as number })
+              }
+            />
+          </IonLabel>
+        </IonItem>
+      )}
+      <IonItem>
+        <IonLabel>
+          灵敏度: {lipSync.sensitivity}
+          <p className="settings-help">声音小的麦克风需要调高</p>
+          <IonRange
+            min={1}
+            max={50}
+            step={1}
+            value={lipSync.sensitivity}
+            onIonChange={(e) =>
+              update({ sensitivity: e.detail.value as number })
+            }
+          />
+        </IonLabel>
+      </IonItem>
+      <IonItem>
+        <IonLabel>
+          噪声门限: {lipSync.noiseGate.toFixed(3)}
+          <p className="settings-help">低于该音量时不张嘴，环境嘈杂时调高</p>
+          <IonRange
+            min={0}
+            max={0.1}
+            step={0.005}
+            value={lipSync.noiseGate}
+            onIonChange={(e) => update({ noiseGate: e.detail.value as number })}
+          />
+        </IonLabel>
+      </IonItem>
+      <IonItem>
+        <IonToggle
+          checked={lipSync.vowels}
+          onIonChange={(e) => update({ vowels: e.detail.checked })}
+        >
+          元音口型
+          <p className="settings-help">
+            按 a / i / u / e / o 调整嘴型，关闭时只按音量张嘴
+          </p>
+        </IonToggle>
+      </IonItem>
+    </>
+  );
+};
@@ -0,0 +1,161 @@
+import {
+  IonButton,
+  IonItem,
+  IonLabel,
+  IonListHeader,
+  IonRange,
+  IonToggle,
+} from "@ionic/react";
+import { useEffect, useState } from "react";
+import {
+  loadPhysicsRigs,
+  type PhysicsRig,
+  type PhysicsSettings,
+} from "../../services/models/physics";
+
+interface PhysicsSettingsSectionProps {
+  modelUrl: string;
+  physics: PhysicsSettings;
+  onChange: (physics: PhysicsSettings | null) => void;
+}
+
+/**
+ * 物理与呼吸：摆动幅度、重力 / 风向、各物理组开关（按模型保存）
+ */
+export const PhysicsSettingsSection: React.FC<PhysicsSettingsSectionProps> = ({
+  modelUrl,
+  physics,
+  onChange,
+}) => {
+  const [rigs, setRigs] = useState<PhysicsRig[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRigs([]);
+    setMessage(null);
+    void loadPhysicsRigs(modelUrl).then((result) => {
+      if (cancelled) return;
+      if (result.error !== null) {
+        setMessage(`读取物理设置失败: ${result.error.message}`);
+      } else {
+        setRigs(result.data);
+        if (result.data.length === 0) setMessage("当前模型没有物理设置");
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [modelUrl]);
+
+  const update = (patch: Partial<PhysicsSettings>) =>
+    onChange({ ...physics, ...patch });
+
+  const toggleRig = (index: number, enabled: boolean) =>
+    update({
+      disabledRigs: enabled
+        ? physics.disabledRigs.filter((i) => i !== index)
+        : [...physics.disabledRigs, index].sort((a, b) => a - b),
+    });
+
+  return (
+    <>
+      <IonListHeader>
+        <IonLabel>物理与呼吸 (Physics)</IonLabel>
+      </IonListHeader>
+      <IonItem lines="none">
+        <IonLabel>
+          摆动幅度: {Math.round(physics.strength * 100)}%
+          <p className="settings-help">头发、衣服随头部与身体运动的幅度</p>
+          <IonRange
+            min={0}
+            max={3}
+            step={0.1}
+            value={physics.strength}
+            onIonChange={(e) => update({ strength: e.detail.value as number })}
+          />
+        </IonLabel>
+      </IonItem>
+      <IonItem lines="none">
+        <IonLabel>
+          重力方向: {physics.gravityAngle}°
+          <p className="settings-help">0° 为向下，顺时针为正</p>
+          <IonRange
+            min={-180}
+            max={180}
+            step={5}
+            value={physics.gravityAngle}
+            onIonChange={(e) =>
+              update({ gravityAngle: e.detail.value as number })
+            }
+          />
+        </IonLabel>
+      </IonItem>
+      <IonItem lines="none">
+        <IonLabel>
+          风力: {Math.round(physics.wind * 100)}%
+          <IonRange
+            min={0}
+            max={1}
+            step={0.05}
+            value={physics.wind}
+            onIonChange={(e) => update({ wind: e.detail.value as number })}
+          />
+        </IonLabel>
+      </IonItem>
+      {physics.wind > 0 && (
+        <IonItem lines="none">
+          <IonLabel>
+            风向: {physics.windAngle}°
+            <p className="settings-help">90° 向右吹，-90° 向左吹</p>
+            <IonRange
+              min={-180}
+              max={180}
+              step={5}
+              value={physics.windAngle}
+              onIonChange={(e) =>
+                update({ windAngle: e.detail.value as number })
+              }
+            />
+          </IonLabel>
+        </IonItem>
+      )}
+      <IonItem>
+        <IonLabel>
+          呼吸幅度: {Math.round(physics.breath * 100)}%
+          <IonRange
+            min={0}
+            max={2}
+            step={0.1}
+            value={physics.breath}
+            onIonChange={(e) => update({ breath: e.detail.value as number })}
+          />
+        </IonLabel>
+      </IonItem>
+
+      {rigs.map((rig) => (
+        <IonItem key={rig.index}>
+          <IonToggle
+            checked={!physics.disabledRigs.includes(rig.index)}
+            onIonChange={(e) => toggleRig(rig.index, e.detail.checked)}
+          >
+            {rig.name}
+            <p className="settings-help">{rig.outputs.join(", ")}</p>
+          </IonToggle>
+        </IonItem>
+      ))}
+
+      <IonItem lines="none">
+        <IonLabel>
+          <p className="settings-help">
+            {message ??
+              "关闭的物理组不再驱动对应参数；Cubism 2 模型只支持开关物理组与呼吸幅度"}
+          </p>
+        </IonLabel>
+        <IonButton slot="end" fill="outline" onClick={() => onChange(null)}>
+          重置
+        </IonButton>
+      </IonItem>
+    </>
+  );
+};
@@ -0,0 +1,61 @@
+import {
+  IonButton,
+  IonInput,
+  IonItem,
+  IonLabel,
+  IonListHeader,
+} from "@ionic/react";
+import { useState } from "react";
+import { isRemoteUrl } from "../../services/models/catalog";
+
+interface RemoteModelSectionProps {
+  modelUrl: string;
+  onSelect: (url: string) => void;
+}
+
+/**
+ * 远程模型：直接填写模型清单的 http(s) 地址（Cubism 2 / 4 均可）
+ */
+export const RemoteModelSection: React.FC<RemoteModelSectionProps> = ({
+  modelUrl,
+  onSelect,
+}) => {
+  const [url, setUrl] = useState(isRemoteUrl(modelUrl) ? modelUrl : "");
+  const trimmed = url.trim();
+  const valid = isRemoteUrl(trimmed);
+
+  return (
+    <>
+      <IonListHeader>
+        <IonLabel>远程模型 (URL)</IonLabel>
+      </IonListHeader>
+      <IonItem>
+        <IonInput
+          label="地址"
+          type="url"
+          inputmode="url"
+          placeholder="https://.../model.model3.json"
+          value={url}
+          onIonInput={(e) => setUrl(e.detail.value ?? "")}
+        />
+        <IonButton
+          fill="outline"
+          slot="end"
+          disabled={!valid || trimmed === modelUrl}
+          color={trimmed === modelUrl ? "success" : "medium"}
+          onClick={() => onSelect(trimmed)}
+        >
+          {trimmed === modelUrl ? "Using" : "Load"}
+        </IonButton>
+      </IonItem>
+      <IonItem lines="none">
+        <IonLabel>
+          <p className="settings-help">
+            .model3.json 或 Cubism 2 的 .model.json，版本按清单内容判断；
+            服务器需要允许跨域访问 (CORS)
+          </p>
+        </IonLabel>
+      </IonItem>
+    </>
+  );
+};
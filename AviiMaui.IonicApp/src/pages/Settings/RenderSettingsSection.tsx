@@ -0,0 +1,63 @@
+import {
+  IonItem,
+  IonLabel,
+  IonListHeader,
+  IonSelect,
+  IonSelectOption,
+} from "@ionic/react";
+import {
+  RENDER_PROFILES,
+  type RenderProfile,
+  type RenderProfileId,
+} from "../../services/render/renderProfile";
+
+const PROFILE_IDS = Object.keys(RENDER_PROFILES) as RenderProfileId[];
+
+const describeProfile = (profile: RenderProfile) =>
+  [
+    `最高 ${profile.maxResolution}x 分辨率`,
+    profile.maxFPS > 0 ? `${profile.maxFPS} FPS` : "不限帧率",
+    profile.antialias ? "抗锯齿" : "无抗锯齿",
+    profile.pauseWhenHidden ? "后台暂停渲染" : "后台继续渲染",
+    profile.keepScreenOn ? "追踪时屏幕常亮" : "屏幕按系统设置熄灭",
+  ].join(" · ");
+
+interface RenderSettingsSectionProps {
+  profile: RenderProfileId;
+  onChange: (profile: RenderProfileId) => void;
+}
+
+/**
+ * 渲染档位：画质与耗电的取舍
+ */
+export const RenderSettingsSection: React.FC<RenderSettingsSectionProps> = ({
+  profile,
+  onChange,
+}) => (
+  <>
+    <IonListHeader>
+      <IonLabel>渲染 (Rendering)</IonLabel>
+    </IonListHeader>
+    <IonItem>
+      <IonSelect
+        label="渲染档位"
+        interface="popover"
+        value={profile}
+        onIonChange={(e) => onChange(e.detail.value)}
+      >
+        {PROFILE_IDS.map((id) => (
+          <IonSelectOption key={id} value={id}>
+            {RENDER_PROFILES[id].label}
+          </IonSelectOption>
+        ))}
+      </IonSelect>
+    </IonItem>
+    <IonItem lines="none">
+      <IonLabel>
+        <p className="settings-help">
+          {describeProfile(RENDER_PROFILES[profile])}
+        </p>
+      </IonLabel>
+    </IonItem>
+  </>
+);
@@ -0,0 +1,371 @@
+import {
+  IonButton,
+  IonIcon,
+  IonItem,
+  IonLabel,
+  IonListHeader,
+  IonRange,
+  IonSelect,
+  IonSelectOption,
+  IonSpinner,
+  IonThumbnail,
+} from "@ionic/react";
+import { useState } from "react";
+import { addOutline, imageOutline, trashOutline } from "ionicons/icons";
+import {
+  CHROMA_KEY_GREEN,
+  ScenePropSchema,
+  defaultBackground,
+  type ParticleEffect,
+  type SceneBackground,
+  type SceneBackgroundType,
+  type SceneProp,
+  type SceneSettings,
+} from "../../services/scene/scene";
+import {
+  BACKGROUND_IMAGE_MAX_SIZE,
+  PROP_IMAGE_MAX_SIZE,
+  pickSceneImage,
+} from "../../services/scene/sceneImage";
+
+const BACKGROUND_TYPES: Array<{ value: SceneBackgroundType; label: string }> = [
+  { value: "none", label: "透明" },
+  { value: "color", label: "纯色" },
+  { value: "gradient", label: "渐变" },
+  { value: "image", label: "图片" },
+  { value: "chromaKey", label: "绿幕" },
+];
+
+const PARTICLE_EFFECTS: Array<{ value: ParticleEffect; label: string }> = [
+  { value: "none", label: "无" },
+  { value: "snow", label: "雪花" },
+  { value: "sakura", label: "樱花" },
+  { value: "sparkles", label: "星光" },
+  { value: "bubbles", label: "气泡" },
+];
+
+interface ColorItemProps {
+  label: string;
+  value: string;
+  onChange: (color: string) => void;
+}
+
+const ColorItem: React.FC<ColorItemProps> = ({ label, value, onChange }) => (
+  <IonItem>
+    <IonLabel>{label}</IonLabel>
+    <input
+      slot="end"
+      type="color"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  </IonItem>
+);
+
+interface PropEditorProps {
+  prop: SceneProp;
+  index: number;
+  onChange: (prop: SceneProp) => void;
+  onRemove: () => void;
+}
+
+/**
+ * 单个前景道具：位置、大小、不透明度
+ */
+const PropEditor: React.FC<PropEditorProps> = ({
+  prop,
+  index,
+  onChange,
+  onRemove,
+}) => {
+  const ranges: Array<{
+    key: "x" | "y" | "size" | "opacity";
+    label: string;
+    min: number;
+  }> = [
+    { key: "x", label: "水平位置", min: 0 },
+    { key: "y", label: "垂直位置", min: 0 },
+    { key: "size", label: "大小", min: 0.05 },
+    { key: "opacity", label: "不透明度", min: 0 },
+  ];
+
+  return (
+    <>
+      <IonItem>
+        <IonThumbnail slot="start">
+          <img src={prop.image} alt="" style={{ objectFit: "contain" }} />
+        </IonThumbnail>
+        <IonLabel>道具 {index + 1}</IonLabel>
+        <IonButton slot="end" fill="clear" color="danger" onClick={onRemove}>
+          <IonIcon slot="icon-only" icon={trashOutline} />
+        </IonButton>
+      </IonItem>
+      {ranges.map(({ key, label, min }) => (
+        <IonItem key={key} lines="none">
+          <IonLabel>
+            {label}: {Math.round(prop[key] * 100)}%
+            <IonRange
+              min={min}
+              max={1}
+              step={0.01}
+              value={prop[key]}
+              onIonChange={(e) =>
+                onChange({ ...prop, [key]: e.detail.value as number })
+              }
+            />
+          </IonLabel>
+        </IonItem>
+      ))}
+    </>
+  );
+};
+
+interface SceneSettingsSectionProps {
+  scene: SceneSettings;
+  onChange: (scene: SceneSettings) => void;
+}
+
+/**
+ * 场景设置：模型背后的背景、前面的道具与粒子，截图和录制都会包含（按模型保存）
+ */
+export const SceneSettingsSection: React.FC<SceneSettingsSectionProps> = ({
+  scene,
+  onChange,
+}) => {
+  const [picking, setPicking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const { background, props, particles } = scene;
+
+  const setBackground = (next: SceneBackground) =>
+    onChange({ ...scene, background: next });
+  const setProps = (next: SceneProp[]) => onChange({ ...scene, props: next });
+
+  /** 选择图片；取消或失败时返回 null */
+  const pickImage = async (maxSize: number, transparent: boolean) => {
+    setPicking(true);
+    setMessage(null);
+    try {
+      const result = await pickSceneImage(maxSize, transparent);
+      if (result.error !== null) {
+        setMessage(`读取图片失败: ${result.error.message}`);
+        return null;
+      }
+      return result.data;
+    } finally {
+      setPicking(false);
+    }
+  };
+
+  const pickBackgroundImage = async () => {
+    const image = await pickImage(BACKGROUND_IMAGE_MAX_SIZE, false);
+    if (image) {
+      setBackground({
+        type: "image",
+        image,
+        fit: background.type === "image" ? background.fit : "cover",
+      });
+    }
+  };
+
+  const changeBackgroundType = (type: SceneBackgroundType) => {
+    if (type === background.type) return;
+    if (type === "image") void pickBackgroundImage();
+    else setBackground(defaultBackground(type));
+  };
+
+  const addProp = async () => {
+    const image = await pickImage(PROP_IMAGE_MAX_SIZE, true);
+    if (image) {
+      setProps([
+        ...props,
+        ScenePropSchema.parse({ id: crypto.randomUUID(), image }),
+      ]);
+    }
+  };
+
+  return (
+    <>
+      <IonListHeader>
+        <IonLabel>场景 (Scene)</IonLabel>
+      </IonListHeader>
+      <IonItem>
+        <IonSelect
+          label="背景"
+          interface="popover"
+          value={background.type}
+          onIonChange={(e) => changeBackgroundType(e.detail.value)}
+        >
+          {BACKGROUND_TYPES.map((t) => (
+            <IonSelectOption key={t.value} value={t.value}>
+              {t.label}
+            </IonSelectOption>
+          ))}
+        </IonSelect>
+      </IonItem>
+
+      {background.type === "color" && (
+        <ColorItem
+          label="颜色"
+          value={background.color}
+          onChange={(color) => setBackground({ ...background, color })}
+        />
+      )}
+
+      {background.type === "gradient" && (
+        <>
+          <ColorItem
+            label="起始颜色"
+            value={background.from}
+            onChange={(from) => setBackground({ ...background, from })}
+          />
+          <ColorItem
+            label="结束颜色"
+            value={background.to}
+            onChange={(to) => setBackground({ ...background, to })}
+          />
+          <IonItem>
+            <IonLabel>
+              方向: {background.angle}°
+              <IonRange
+                min={0}
+                max={360}
+                step={15}
+                value={background.angle}
+                onIonChange={(e) =>
+                  setBackground({
+                    ...background,
+                    angle: e.detail.value as number,
+                  })
+                }
+              />
+            </IonLabel>
+          </IonItem>
+        </>
+      )}
+
+      {background.type === "image" && (
+        <>
+          <IonItem>
+            <IonThumbnail slot="start">
+              <img src={background.image} alt="" />
+            </IonThumbnail>
+            <IonSelect
+              label="填充方式"
+              interface="popover"
+              value={background.fit}
+              onIonChange={(e) =>
+                setBackground({ ...background, fit: e.detail.value })
+              }
+            >
+              <IonSelectOption value="cover">铺满</IonSelectOption>
+              <IonSelectOption value="contain">完整显示</IonSelectOption>
+            </IonSelect>
+          </IonItem>
+          <IonItem>
+            <IonButton
+              fill="outline"
+              disabled={picking}
+              onClick={() => void pickBackgroundImage()}
+            >
+              <IonIcon slot="start" icon={imageOutline} />
+              更换图片
+            </IonButton>
+          </IonItem>
+        </>
+      )}
+
+      {background.type === "chromaKey" && (
+        <>
+          <ColorItem
+            label="抠像颜色"
+            value={background.color}
+            onChange={(color) => setBackground({ ...background, color })}
+          />
+          <IonItem lines="none">
+            <IonLabel>
+              <p className="settings-help">
+                直播软件中对该颜色做色度键抠像（默认 {CHROMA_KEY_GREEN}）
+              </p>
+            </IonLabel>
+          </IonItem>
+        </>
+      )}
+
+      <IonItem>
+        <IonSelect
+          label="粒子效果"
+          interface="popover"
+          value={particles.effect}
+          onIonChange={(e) =>
+            onChange({
+              ...scene,
+              particles: { ...particles, effect: e.detail.value },
+            })
+          }
+        >
+          {PARTICLE_EFFECTS.map((p) => (
+            <IonSelectOption key={p.value} value={p.value}>
+              {p.label}
+            </IonSelectOption>
+          ))}
+        </IonSelect>
+      </IonItem>
+      {particles.effect !== "none" && (
+        <IonItem>
+          <IonLabel>
+            粒子数量: {Math.round(particles.density * 100)}%
+            <IonRange
+              min={0.1}
+              max={1}
+              step={0.05}
+              value={particles.density}
+              onIonChange={(e) =>
+                onChange({
+                  ...scene,
+                  particles: {
+                    ...particles,
+                    density: e.detail.value as number,
+                  },
+                })
+              }
+            />
+          </IonLabel>
+        </IonItem>
+      )}
+
+      {props.map((prop, i) => (
+        <PropEditor
+          key={prop.id}
+          prop={prop}
+          index={i}
+          onChange={(next) =>
+            setProps(props.map((p) => (p.id === prop.id ? next : p)))
+          }
+          onRemove={() => setProps(props.filter((p) => p.id !== prop.id))}
+        />
+      ))}
+      <IonItem>
+        <IonButton
+          fill="outline"
+          disabled={picking}
+          onClick={() => void addProp()}
+        >
+          {picking ? (
+            <IonSpinner slot="start" name="crescent" />
+          ) : (
+            <IonIcon slot="start" icon={addOutline} />
+          )}
+          添加前景道具
+        </IonButton>
+      </IonItem>
+      <IonItem lines="none">
+        <IonLabel>
+          <p className="settings-help">
+            {message ??
+              "道具显示在模型前面，建议使用透明背景的 PNG；场景会包含在截图与录制中"}
+          </p>
+        </IonLabel>
+      </IonItem>
+    </>
+  );
+};
@@ -0,0 +1,125 @@
+import {
+  IonItem,
+  IonLabel,
+  IonListHeader,
+  IonRange,
+  IonSelect,
+  IonSelectOption,
+} from "@ionic/react";
+import type {
+  ScreenshotSettings,
+  StillFormat,
+} from "../../services/capture/still";
+
+const RESOLUTIONS: Array<{ width: number; height: number; label: string }> = [
+  { width: 720, height: 960, label: "720 × 960 (3:4)" },
+  { width: 1080, height: 1440, label: "1080 × 1440 (3:4)" },
+  { width: 1080, height: 1920, label: "1080 × 1920 (9:16)" },
+  { width: 1920, height: 1080, label: "1920 × 1080 (16:9)" },
+  { width: 1024, height: 1024, label: "1024 × 1024 (头像)" },
+  { width: 2048, height: 2048, label: "2048 × 2048" },
+];
+
+const FORMATS: Array<{ value: StillFormat; label: string }> = [
+  { value: "png", label: "PNG (透明背景)" },
+  { value: "jpeg", label: "JPEG" },
+];
+
+const BACKGROUNDS: Array<{ value: string; label: string }> = [
+  { value: "#ffffff", label: "白色" },
+  { value: "#1a1a2e", label: "深色" },
+  { value: "#00ff00", label: "绿幕" },
+];
+
+const resolutionKey = (s: { width: number; height: number }) =>
+  `${s.width}x${s.height}`;
+
+interface ScreenshotSettingsSectionProps {
+  screenshot: ScreenshotSettings;
+  onChange: (screenshot: ScreenshotSettings) => void;
+}
+
+/**
+ * 截图设置：输出分辨率与格式，与屏幕尺寸无关
+ */
+export const ScreenshotSettingsSection: React.FC<
+  ScreenshotSettingsSectionProps
+> = ({ screenshot, onChange }) => {
+  const update = (patch: Partial<ScreenshotSettings>) =>
+    onChange({ ...screenshot, ...patch });
+
+  return (
+    <>
+      <IonListHeader>
+        <IonLabel>截图</IonLabel>
+      </IonListHeader>
+      <IonItem>
+        <IonSelect
+          label="分辨率"
+          interface="popover"
+          value={resolutionKey(screenshot)}
+          onIonChange={(e) => {
+            const preset = RESOLUTIONS.find(
+              (r) => resolutionKey(r) === e.detail.value,
+            );
+            if (preset) {
+              update({ width: preset.width, height: preset.height });
+            }
+          }}
+        >
+          {RESOLUTIONS.map((r) => (
+            <IonSelectOption key={resolutionKey(r)} value={resolutionKey(r)}>
+              {r.label}
+            </IonSelectOption>
+          ))}
+        </IonSelect>
+      </IonItem>
+      <IonItem>
+        <IonSelect
+          label="格式"
+          interface="popover"
+          value={screenshot.format}
+          onIonChange={(e) => update({ format: e.detail.value })}
+        >
+          {FORMATS.map((f) => (
+            <IonSelectOption key={f.value} value={f.value}>
+              {f.label}
+            </IonSelectOption>
+          ))}
+        </IonSelect>
+      </IonItem>
+      {screenshot.format === "jpeg" && (
+        <>
+          <IonItem>
+            <IonSelect
+              label="背景"
+              interface="popover"
+              value={screenshot.background}
+              onIonChange={(e) => update({ background: e.detail.value })}
+            >
+              {BACKGROUNDS.map((b) => (
+                <IonSelectOption key={b.value} value={b.value}>
+                  {b.label}
+                </IonSelectOption>
+              ))}
+            </IonSelect>
+          </IonItem>
+          <IonItem>
+            <IonLabel>
+              质量: {Math.round(screenshot.quality * 100)}%
+              <IonRange
+                min={0.5}
+                max={1}
+                step={0.01}
+                value={screenshot.quality}
+                onIonChange={(e) =>
+                  update({ quality: e.detail.value as number })
+                }
+              />
+            </IonLabel>
+          </IonItem>
+        </>
+      )}
+    </>
+  );
+};
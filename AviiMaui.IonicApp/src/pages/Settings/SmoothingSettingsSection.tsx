@@ -0,0 +1,179 @@
+import {
+  IonItem,
+  IonLabel,
+  IonListHeader,
+  IonRange,
+  IonSelect,
+  IonSelectOption,
+  IonToggle,
+} from "@ionic/react";
+import {
+  SMOOTHING_GROUPS,
+  type SmoothingFilterKind,
+  type SmoothingGroup,
+  type SmoothingGroupSettings,
+  type SmoothingSettings,
+} from "../../services/faceTracking/smoothing";
+
+const GROUP_LABELS: Record<SmoothingGroup, string> = {
+  head: "头部",
+  eyes: "眼睛与眉毛",
+  mouth: "嘴巴与表情",
+};
+
+const FILTERS: Array<{ value: SmoothingFilterKind; label: string }> = [
+  { value: "oneEuro", label: "One Euro" },
+  { value: "spring", label: "弹簧 (临界阻尼)" },
+  { value: "kalman", label: "Kalman" },
+  { value: "lerp", label: "线性插值 (旧版)" },
+];
+
+type NumericKey = Exclude<keyof SmoothingGroupSettings, "filter">;
+
+interface ParamSpec {
+  key: NumericKey;
+  label: string;
+  help: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+// 每种滤波器需要调节的参数
+const FILTER_PARAMS: Record<SmoothingFilterKind, ParamSpec[]> = {
+  lerp: [
+    {
+      key: "lerpFactor",
+      label: "平滑度",
+      help: "值越小越平滑，但会有延迟",
+      min: 0.05,
+      max: 1,
+      step: 0.05,
+    },
+  ],
+  oneEuro: [
+    {
+      key: "minCutoff",
+      label: "最低截止频率 (Hz)",
+      help: "越小静止时越稳，但慢动作更迟钝",
+      min: 0.1,
+      max: 10,
+      step: 0.1,
+    },
+    {
+      key: "beta",
+      label: "速度系数",
+      help: "越大快速动作的延迟越小",
+      min: 0,
+      max: 2,
+      step: 0.01,
+    },
+  ],
+  spring: [
+    {
+      key: "frequency",
+      label: "跟随速度 (rad/s)",
+      help: "越大越跟手，越小越柔和",
+      min: 2,
+      max: 40,
+      step: 1,
+    },
+  ],
+  kalman: [
+    {
+      key: "processNoise",
+      label: "过程噪声",
+      help: "越大越信任新数据 (更跟手)",
+      min: 0.01,
+      max: 10,
+      step: 0.01,
+    },
+    {
+      key: "measurementNoise",
+      label: "测量噪声",
+      help: "越大越平滑",
+      min: 0.001,
+      max: 1,
+      step: 0.001,
+    },
+  ],
+};
+
+interface SmoothingSettingsSectionProps {
+  smoothing: SmoothingSettings;
+  onChange: (smoothing: SmoothingSettings) => void;
+}
+
+/**
+ * 平滑滤波设置：每个参数组单独选择滤波器与参数
+ */
+export const SmoothingSettingsSection: React.FC<
+  SmoothingSettingsSectionProps
+> = ({ smoothing, onChange }) => {
+  const updateGroup = (
+    group: SmoothingGroup,
+    patch: Partial<SmoothingGroupSettings>,
+  ) => onChange({ ...smoothing, [group]: { ...smoothing[group], ...patch } });
+
+  return (
+    <>
+      <IonListHeader>
+        <IonLabel>平滑滤波 (Smoothing)</IonLabel>
+      </IonListHeader>
+      <IonItem>
+        <IonToggle
+          checked={smoothing.blinkSnap}
+          onIonChange={(e) =>
+            onChange({ ...smoothing, blinkSnap: e.detail.checked })
+          }
+        >
+          眨眼直通
+          <p className="settings-help">眼睛接近闭合时跳过平滑，保证完全闭眼</p>
+        </IonToggle>
+      </IonItem>
+
+      {SMOOTHING_GROUPS.map((group) => {
+        const settings = smoothing[group];
+        return (
+          <div key={group}>
+            <IonItem>
+              <IonSelect
+                label={GROUP_LABELS[group]}
+                interface="popover"
+                value={settings.filter}
+                onIonChange={(e) =>
+                  updateGroup(group, { filter: e.detail.value })
+                }
+              >
+                {FILTERS.map((f) => (
+                  <IonSelectOption key={f.value} value={f.value}>
+                    {f.label}
+                  </IonSelectOption>
+                ))}
+              </IonSelect>
+            </IonItem>
+            {FILTER_PARAMS[settings.filter].map((spec) => (
+              <IonItem key={spec.key}>
+                <IonLabel>
+                  {spec.label}: {settings[spec.key]}
+                  <p className="settings-help">{spec.help}</p>
+                  <IonRange
+                    min={spec.min}
+                    max={spec.max}
+                    step={spec.step}
+                    value={settings[spec.key]}
+                    onIonChange={(e) =>
+                      updateGroup(group, {
+                        [spec.key]: e.detail.value as number,
+                      })
+                    }
+                  />
+                </IonLabel>
+              </IonItem>
+            ))}
+          </div>
+        );
+      })}
+    </>
+  );
+};
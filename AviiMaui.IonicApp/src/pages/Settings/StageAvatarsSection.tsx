@@ -0,0 +1,186 @@
+import {
+  IonButton,
+  IonIcon,
+  IonItem,
+  IonLabel,
+  IonListHeader,
+  IonRange,
+  IonSelect,
+  IonSelectOption,
+} from "@ionic/react";
+import { addOutline, trashOutline } from "ionicons/icons";
+import {
+  createStageAvatar,
+  type AvatarSource,
+  type StageAvatar,
+} from "../../services/models/avatars";
+import { findModel, type ModelEntry } from "../../services/models/catalog";
+
+const SOURCES: Array<{ value: AvatarSource; label: string }> = [
+  { value: "idle", label: "待机动画" },
+  { value: "tracking", label: "面部追踪" },
+  { value: "recording", label: "录制回放" },
+];
+
+interface AvatarEditorProps {
+  avatar: StageAvatar;
+  catalog: ModelEntry[];
+  onChange: (avatar: StageAvatar) => void;
+  onRemove: () => void;
+}
+
+/**
+ * 单个同台模型：模型、参数来源、位置、大小与层级
+ */
+const AvatarEditor: React.FC<AvatarEditorProps> = ({
+  avatar,
+  catalog,
+  onChange,
+  onRemove,
+}) => {
+  const update = (patch: Partial<StageAvatar>) =>
+    onChange({ ...avatar, ...patch });
+  const model = findModel(catalog, avatar.modelUrl);
+
+  return (
+    <>
+      <IonItem>
+        <IonSelect
+          label="模型"
+          interface="popover"
+          value={avatar.modelUrl}
+          onIonChange={(e) => update({ modelUrl: e.detail.value })}
+        >
+          {!model && (
+            <IonSelectOption value={avatar.modelUrl}>
+              {avatar.modelUrl}
+            </IonSelectOption>
+          )}
+          {catalog.map((m) => (
+            <IonSelectOption key={m.url} value={m.url}>
+              {m.name}
+            </IonSelectOption>
+          ))}
+        </IonSelect>
+        <IonButton slot="end" fill="clear" color="danger" onClick={onRemove}>
+          <IonIcon slot="icon-only" icon={trashOutline} />
+        </IonButton>
+      </IonItem>
+      <IonItem lines="none">
+        <IonSelect
+          label="驱动方式"
+          interface="popover"
+          value={avatar.source}
+          onIonChange={(e) => update({ source: e.detail.value })}
+        >
+          {SOURCES.map((s) => (
+            <IonSelectOption key={s.value} value={s.value}>
+              {s.label}
+            </IonSelectOption>
+          ))}
+        </IonSelect>
+      </IonItem>
+      <IonItem lines="none">
+        <IonLabel>
+          水平位置: {avatar.x}
+          <IonRange
+            min={-1000}
+            max={1000}
+            step={10}
+            value={avatar.x}
+            onIonChange={(e) => update({ x: e.detail.value as number })}
+          />
+        </IonLabel>
+      </IonItem>
+      <IonItem lines="none">
+        <IonLabel>
+          垂直位置: {avatar.y}
+          <IonRange
+            min={-1000}
+            max={1000}
+            step={10}
+            value={avatar.y}
+            onIonChange={(e) => update({ y: e.detail.value as number })}
+          />
+        </IonLabel>
+      </IonItem>
+      <IonItem lines="none">
+        <IonLabel>
+          缩放: {avatar.scale.toFixed(2)}
+          <IonRange
+            min={0.01}
+            max={0.5}
+            step={0.01}
+            value={avatar.scale}
+            onIonChange={(e) => update({ scale: e.detail.value as number })}
+          />
+        </IonLabel>
+      </IonItem>
+      <IonItem>
+        <IonLabel>
+          层级: {avatar.zIndex}
+          <p className="settings-help">主模型为 0，数值大的显示在前面</p>
+          <IonRange
+            min={-5}
+            max={5}
+            step={1}
+            snaps
+            value={avatar.zIndex}
+            onIonChange={(e) => update({ zIndex: e.detail.value as number })}
+          />
+        </IonLabel>
+      </IonItem>
+    </>
+  );
+};
+
+interface StageAvatarsSectionProps {
+  avatars: StageAvatar[];
+  catalog: ModelEntry[];
+  onChange: (avatars: StageAvatar[]) => void;
+}
+
+/**
+ * 同台模型：与主模型一起显示，各自由追踪、待机动画或录制回放驱动
+ */
+export const StageAvatarsSection: React.FC<StageAvatarsSectionProps> = ({
+  avatars,
+  catalog,
+  onChange,
+}) => (
+  <>
+    <IonListHeader>
+      <IonLabel>同台模型 (Avatars)</IonLabel>
+    </IonListHeader>
+    {avatars.map((avatar) => (
+      <AvatarEditor
+        key={avatar.id}
+        avatar={avatar}
+        catalog={catalog}
+        onChange={(next) =>
+          onChange(avatars.map((a) => (a.id === avatar.id ? next : a)))
+        }
+        onRemove={() => onChange(avatars.filter((a) => a.id !== avatar.id))}
+      />
+    ))}
+    <IonItem>
+      <IonButton
+        fill="outline"
+        disabled={catalog.length === 0}
+        onClick={() =>
+          onChange([...avatars, createStageAvatar(catalog[0].url, avatars)])
+        }
+      >
+        <IonIcon slot="start" icon={addOutline} />
+        添加模型
+      </IonButton>
+    </IonItem>
+    <IonItem lines="none">
+      <IonLabel>
+        <p className="settings-help">
+          同台模型随主模型一起平移缩放；选择「录制回放」的模型由首页的面部录制回放驱动，主模型继续跟随实时追踪
+        </p>
+      </IonLabel>
+    </IonItem>
+  </>
+);
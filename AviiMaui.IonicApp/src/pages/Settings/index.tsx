@@ -14,25 +14,72 @@ import {
   IonToolbar,
   IonButton,
   IonIcon,
+  IonThumbnail,
 } from "@ionic/react";
 import React from "react";
 import { settingsOutline } from "ionicons/icons";
-import { DEFAULT_MODEL_URL, useSettingsStore } from "../../store/settingsStore";
+import VersionFooter from "../../components/VersionFooter";
+import { SmoothingSettingsSection } from "./SmoothingSettingsSection";
+import { IdleSettingsSection } from "./IdleSettingsSection";
+import { LipSyncSettingsSection } from "./LipSyncSettingsSection";
+import { ExpressionSettingsSection } from "./ExpressionSettingsSection";
+import { CaptureSettingsSection } from "./CaptureSettingsSection";
+import { ImportedModelsSection } from "./ImportedModelsSection";
+import { RemoteModelSection } from "./RemoteModelSection";
+import { ScreenshotSettingsSection } from "./ScreenshotSettingsSection";
+import { SceneSettingsSection } from "./SceneSettingsSection";
+import { StageAvatarsSection } from "./StageAvatarsSection";
+import { PhysicsSettingsSection } from "./PhysicsSettingsSection";
+import { RenderSettingsSection } from "./RenderSettingsSection";
+import {
+  selectFraming,
+  selectPhysics,
+  selectScene,
+  useSettingsStore,
+} from "../../store/settingsStore";
+import { useModelCatalog } from "../../hooks/useModelCatalog";
+import { findModel } from "../../services/models/catalog";
 import "./Settings.css";
 
+const SOURCE_LABELS = {
+  builtin: "内置",
+  imported: "导入",
+  remote: "远程",
+} as const;
+
 const SettingsPage: React.FC = () => {
   const {
     showDebugInfo,
     setShowDebugInfo,
     modelUrl,
     setModelUrl,
-    lerpFactor,
-    setLerpFactor,
-    modelScale,
-    setModelScale,
-    modelRotation,
-    setModelRotation,
+    smoothing,
+    setSmoothing,
+    idle,
+    setIdle,
+    lipSync,
+    setLipSync,
+    expressions,
+    setExpressions,
+    captureBackground,
+    setCaptureBackground,
+    screenshot,
+    setScreenshot,
+    renderProfile,
+    setRenderProfile,
+    setScene,
+    avatars,
+    setAvatars,
+    setFraming,
+    setPhysics,
   } = useSettingsStore();
+  const framing = useSettingsStore(selectFraming(modelUrl));
+  const physics = useSettingsStore(selectPhysics(modelUrl));
+  const scene = useSettingsStore(selectScene(modelUrl));
+  const { catalog, availability } = useModelCatalog({
+    checkAvailability: true,
+  });
+  const currentModel = findModel(catalog, modelUrl);
 
   return (
     <IonPage>
@@ -63,92 +110,117 @@ const SettingsPage: React.FC = () => {
           <IonItem>
             <IonLabel>当前模型</IonLabel>
             <IonLabel slot="end" style={{ fontSize: "0.8em", color: "#888" }}>
-              {modelUrl === DEFAULT_MODEL_URL
-                ? "Hiyori (内置)"
+              {currentModel
+                ? `${currentModel.name} (${SOURCE_LABELS[currentModel.source]})`
                 : modelUrl.split("/").pop() || "自定义"}
             </IonLabel>
           </IonItem>
 
-          <IonListHeader>
-            <IonLabel>内置模型 (Builtin)</IonLabel>
-          </IonListHeader>
-          {[
-            {
-              name: "Hiyori (V3)",
-              path: "models/hiyori_free_en/runtime/hiyori_free_t08.model3.json",
-              desc: "Cubism 4.0 Sample",
-            },
-            {
-              name: "Kato Megumi (V2)",
-              path: "models/katou_01/katou_01.model.json",
-              desc: "Saekano (Live2D v2)",
-            },
-            {
-              name: "Mashiro Seifuku (V2)",
-              path: "models/mashiro/seifuku.model.json",
-              desc: "Sakurasou (Uniform)",
-            },
-            {
-              name: "Mashiro Shifuku (V2)",
-              path: "models/mashiro/shifuku.model.json",
-              desc: "Sakurasou (Casual)",
-            },
-            {
-              name: "Rem (V2)",
-              path: "models/rem/rem.json",
-              desc: "Re:Zero",
-            },
-          ].map((model) => (
-            <IonItem key={model.name}>
-              <IonLabel>
-                <h2>{model.name}</h2>
-                <p>{model.desc}</p>
-              </IonLabel>
-              <IonButton
-                fill="outline"
-                slot="end"
-                color={modelUrl === model.path ? "success" : "medium"}
-                onClick={() => {
-                  setModelUrl(model.path);
-                }}
-              >
-                <IonIcon slot="start" icon={settingsOutline} />
-                {modelUrl === model.path ? "Using" : "Switch"}
-              </IonButton>
-            </IonItem>
-          ))}
-
-          <IonListHeader>
-            <IonLabel>平滑参数 (Lerp)</IonLabel>
-          </IonListHeader>
-          <IonItem lines="none">
+          <IonItem routerLink="/settings/mapping" detail>
             <IonLabel>
-              平滑度: {lerpFactor.toFixed(2)}
+              参数映射
               <p className="settings-help">
-                值越小越平滑，但会有延迟 (推荐 0.1 - 0.5)
+                自定义追踪数据驱动哪些模型参数 (按模型保存)
               </p>
             </IonLabel>
           </IonItem>
-          <IonItem>
-            <IonRange
-              min={0.05}
-              max={1.0}
-              step={0.05}
-              value={lerpFactor}
-              onIonChange={(e) => setLerpFactor(e.detail.value as number)}
-              labelPlacement="start"
-            >
-              <div slot="start">慢</div>
-              <div slot="end">快</div>
-            </IonRange>
-          </IonItem>
+
+          <IonListHeader>
+            <IonLabel>内置模型 (Builtin)</IonLabel>
+          </IonListHeader>
+          {catalog
+            .filter((model) => model.source === "builtin")
+            .map((model) => {
+              const missing = availability[model.url] === "missing";
+              return (
+                <IonItem key={model.url}>
+                  {model.thumbnail && (
+                    <IonThumbnail slot="start">
+                      <img src={model.thumbnail} alt={model.name} />
+                    </IonThumbnail>
+                  )}
+                  <IonLabel>
+                    <h2>{model.name}</h2>
+                    <p>{model.description}</p>
+                    <p className="settings-help">
+                      {[model.author, model.license]
+                        .filter(Boolean)
+                        .join(" · ")}
+                      {missing && " · 文件缺失"}
+                    </p>
+                  </IonLabel>
+                  <IonButton
+                    fill="outline"
+                    slot="end"
+                    disabled={missing}
+                    color={modelUrl === model.url ? "success" : "medium"}
+                    onClick={() => {
+                      setModelUrl(model.url);
+                    }}
+                  >
+                    <IonIcon slot="start" icon={settingsOutline} />
+                    {modelUrl === model.url ? "Using" : "Switch"}
+                  </IonButton>
+                </IonItem>
+              );
+            })}
+
+          <ImportedModelsSection modelUrl={modelUrl} onSelect={setModelUrl} />
+
+          <RemoteModelSection modelUrl={modelUrl} onSelect={setModelUrl} />
+
+          <StageAvatarsSection
+            avatars={avatars}
+            catalog={catalog}
+            onChange={setAvatars}
+          />
+
+          <SmoothingSettingsSection
+            smoothing={smoothing}
+            onChange={setSmoothing}
+          />
+
+          <IdleSettingsSection idle={idle} onChange={setIdle} />
+
+          <PhysicsSettingsSection
+            modelUrl={modelUrl}
+            physics={physics}
+            onChange={(val) => void setPhysics(modelUrl, val)}
+          />
+
+          <LipSyncSettingsSection lipSync={lipSync} onChange={setLipSync} />
+
+          <ExpressionSettingsSection
+            expressions={expressions}
+            onChange={setExpressions}
+          />
+
+          <SceneSettingsSection
+            scene={scene}
+            onChange={(next) => void setScene(modelUrl, next)}
+          />
+
+          <RenderSettingsSection
+            profile={renderProfile}
+            onChange={setRenderProfile}
+          />
+
+          <CaptureSettingsSection
+            background={captureBackground}
+            onChange={setCaptureBackground}
+          />
+
+          <ScreenshotSettingsSection
+            screenshot={screenshot}
+            onChange={setScreenshot}
+          />
 
           <IonListHeader>
             <IonLabel>摄像机距离 (Scale)</IonLabel>
           </IonListHeader>
           <IonItem lines="none">
             <IonLabel>
-              缩放: {modelScale.toFixed(2)}
+              缩放: {framing.scale.toFixed(2)}
               <p className="settings-help">
                 调整模型显示大小 (推荐 0.05 - 0.5)
               </p>
@@ -159,8 +231,13 @@ const SettingsPage: React.FC = () => {
               min={0.01}
               max={0.5}
               step={0.01}
-              value={modelScale}
-              onIonChange={(e) => setModelScale(e.detail.value as number)}
+              value={framing.scale}
+              onIonChange={(e) =>
+                void setFraming(modelUrl, {
+                  ...framing,
+                  scale: e.detail.value as number,
+                })
+              }
               labelPlacement="start"
             >
               <div slot="start">远</div>
@@ -173,7 +250,7 @@ const SettingsPage: React.FC = () => {
           </IonListHeader>
           <IonItem lines="none">
             <IonLabel>
-              角度: {modelRotation}°
+              角度: {framing.rotation}°
               <p className="settings-help">调整模型旋转角度 (-180° ~ 180°)</p>
             </IonLabel>
           </IonItem>
@@ -182,15 +259,36 @@ const SettingsPage: React.FC = () => {
               min={-180}
               max={180}
               step={1}
-              value={modelRotation}
-              onIonChange={(e) => setModelRotation(e.detail.value as number)}
+              value={framing.rotation}
+              onIonChange={(e) =>
+                void setFraming(modelUrl, {
+                  ...framing,
+                  rotation: e.detail.value as number,
+                })
+              }
               labelPlacement="start"
             >
               <div slot="start">-180°</div>
               <div slot="end">180°</div>
             </IonRange>
           </IonItem>
+          <IonItem>
+            <IonLabel>
+              重置取景
+              <p className="settings-help">
+                缩放、旋转与画面平移按模型分别保存；主页双击画面只恢复平移与缩放
+              </p>
+            </IonLabel>
+            <IonButton
+              slot="end"
+              fill="outline"
+              onClick={() => void setFraming(modelUrl, null)}
+            >
+              重置
+            </IonButton>
+          </IonItem>
         </IonList>
+        <VersionFooter appVersion="" />
       </IonContent>
     </IonPage>
   );
@@ -0,0 +1,83 @@
+import { bridgeMessageBus } from "./BridgeMessageBus";
+
+const faceFrame = {
+  angleX: 1,
+  angleY: 2,
+  angleZ: 3,
+  eyeOpenL: 1,
+  eyeOpenR: 1,
+  eyeBallX: 0,
+  eyeBallY: 0,
+  mouthOpen: 0.5,
+  browL: 0,
+  browR: 0,
+};
+
+const emit = (message: unknown) => {
+  window.dispatchEvent(
+    new CustomEvent("HybridWebViewMessageReceived", {
+      detail: { message },
+    }),
+  );
+};
+
+describe("bridgeMessageBus", () => {
+  beforeEach(() => {
+    bridgeMessageBus.resetStats();
+  });
+
+  it("should deliver typed payloads to subscribers", () => {
+    const handler = vi.fn();
+    const unsubscribe = bridgeMessageBus.subscribe("faceTracking", handler);
+
+    emit(JSON.stringify({ type: "faceTracking", data: faceFrame }));
+    unsubscribe();
+    emit(JSON.stringify({ type: "faceTracking", data: faceFrame }));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(faceFrame);
+    expect(bridgeMessageBus.getStats()).toMatchObject({
+      received: 2,
+      dispatched: 1,
+      dropped: 1,
+    });
+  });
+
+  it("should count malformed, unknown and invalid messages", () => {
+    const handler = vi.fn();
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const unsubscribe = bridgeMessageBus.subscribe("faceTracking", handler);
+
+    emit("not json");
+    emit(JSON.stringify({ data: faceFrame }));
+    emit(JSON.stringify({ type: "somethingElse", data: {} }));
+    emit(JSON.stringify({ type: "faceTracking", data: { angleX: "left" } }));
+    unsubscribe();
+    warn.mockRestore();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(bridgeMessageBus.getStats()).toMatchObject({
+      received: 4,
+      malformed: 2,
+      unknownType: 1,
+      invalidPayload: 1,
+    });
+  });
+
+  it("should isolate handler errors", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const good = vi.fn();
+    const unsubscribeBad = bridgeMessageBus.subscribe("faceTracking", () => {
+      throw new Error("boom");
+    });
+    const unsubscribeGood = bridgeMessageBus.subscribe("faceTracking", good);
+
+    bridgeMessageBus.dispatch({ type: "faceTracking", data: faceFrame });
+    unsubscribeBad();
+    unsubscribeGood();
+    error.mockRestore();
+
+    expect(good).toHaveBeenCalledTimes(1);
+    expect(bridgeMessageBus.getStats().handlerErrors).toBe(1);
+  });
+});
@@ -0,0 +1,152 @@
+import {
+  BridgeEnvelopeSchema,
+  bridgeMessages,
+  type BridgeMessagePayload,
+  type BridgeMessageType,
+} from "./bridgeMessages";
+
+export type BridgeMessageHandler<T extends BridgeMessageType> = (
+  payload: BridgeMessagePayload<T>,
+) => void;
+
+export type Unsubscribe = () => void;
+
+/**
+ * 消息统计（开发模式下展示，用于排查丢包 / 格式错误）
+ */
+export interface BridgeMessageStats {
+  /** 收到的原始消息总数 */
+  received: number;
+  /** 成功分发给至少一个订阅者 */
+  dispatched: number;
+  /** 非 JSON 或缺少 type 字段 */
+  malformed: number;
+  /** type 已登记，但 data 未通过 schema 校验 */
+  invalidPayload: number;
+  /** type 未在 bridgeMessages 中登记 */
+  unknownType: number;
+  /** 合法消息但当前没有订阅者 */
+  dropped: number;
+  /** 订阅者回调抛出的异常 */
+  handlerErrors: number;
+}
+
+const emptyStats = (): BridgeMessageStats => ({
+  received: 0,
+  dispatched: 0,
+  malformed: 0,
+  invalidPayload: 0,
+  unknownType: 0,
+  dropped: 0,
+  handlerErrors: 0,
+});
+
+type AnyHandler = (payload: unknown) => void;
+
+/**
+ * BridgeMessageBus
+ * 统一监听 `HybridWebViewMessageReceived`，只解析一次，
+ * 按 `type` 校验后分发给类型化的订阅者。
+ */
+class BridgeMessageBus {
+  private handlers = new Map<BridgeMessageType, Set<AnyHandler>>();
+  private stats = emptyStats();
+  private listening = false;
+
+  private handleEvent = (event: HybridWebViewMessageEvent) => {
+    this.dispatch(event.detail?.message);
+  };
+
+  private ensureListening() {
+    if (this.listening) return;
+    window.addEventListener("HybridWebViewMessageReceived", this.handleEvent);
+    this.listening = true;
+  }
+
+  /**
+   * 处理一条原始消息（字符串或已解析对象）。
+   * 正常情况下由窗口事件触发，也可用于测试或本地模拟。
+   */
+  dispatch(raw: unknown) {
+    this.stats.received++;
+    if (raw === undefined || raw === null || raw === "") {
+      this.stats.malformed++;
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = typeof raw === "string" ? JSON.parse(raw) : raw;
+    } catch {
+      this.stats.malformed++;
+      return;
+    }
+
+    const envelope = BridgeEnvelopeSchema.safeParse(parsed);
+    if (!envelope.success) {
+      this.stats.malformed++;
+      return;
+    }
+
+    const type = envelope.data.type;
+    if (!Object.prototype.hasOwnProperty.call(bridgeMessages, type)) {
+      this.stats.unknownType++;
+      return;
+    }
+
+    const messageType = type as BridgeMessageType;
+    const payload = bridgeMessages[messageType].safeParse(envelope.data.data);
+    if (!payload.success) {
+      this.stats.invalidPayload++;
+      console.warn(
+        `[BridgeMessageBus] Invalid payload for "${messageType}":`,
+        payload.error.issues,
+      );
+      return;
+    }
+
+    const subscribers = this.handlers.get(messageType);
+    if (!subscribers || subscribers.size === 0) {
+      this.stats.dropped++;
+      return;
+    }
+
+    this.stats.dispatched++;
+    for (const handler of [...subscribers]) {
+      try {
+        handler(payload.data);
+      } catch (e) {
+        this.stats.handlerErrors++;
+        console.error(`[BridgeMessageBus] Handler for "${messageType}":`, e);
+      }
+    }
+  }
+
+  subscribe<T extends BridgeMessageType>(
+    type: T,
+    handler: BridgeMessageHandler<T>,
+  ): Unsubscribe {
+    let subscribers = this.handlers.get(type);
+    if (!subscribers) {
+      subscribers = new Set();
+      this.handlers.set(type, subscribers);
+    }
+    subscribers.add(handler as AnyHandler);
+    this.ensureListening();
+
+    return () => {
+      subscribers.delete(handler as AnyHandler);
+      if (subscribers.size === 0) this.handlers.delete(type);
+    };
+  }
+
+  getStats(): BridgeMessageStats {
+    return { ...this.stats };
+  }
+
+  resetStats() {
+    this.stats = emptyStats();
+  }
+}
+
+export const bridgeMessageBus = new BridgeMessageBus();
@@ -0,0 +1,336 @@
+import packageJson from "../../package.json";
+import type {
+  BridgeArgs,
+  BridgeMethodName,
+  BridgeWireResult,
+} from "./bridgeContract";
+import { hasNativeWebViewChannel, type BridgeHost } from "./bridgeHost";
+import type { BridgeMessageType, FaceTrackingData } from "./bridgeMessages";
+import { mauiBridgeService } from "./MauiBridgeService";
+import {
+  base64ToBytes,
+  bytesToBase64,
+  downloadBlob,
+  pickBrowserFile,
+} from "./fileTransfer";
+import { toErrorMessage } from "./result";
+
+/**
+ * BrowserMockHost
+ * 在浏览器中模拟 C# `MauiBridge` 的全部方法，让 `vite dev` 和 Cypress
+ * 不依赖 MAUI 也能走通每个页面：
+ * - GetStringValue / SetStringValue -> localStorage
+ * - 日志 -> 内存中的假日志文件
+ * - GetSystemInfo -> 合成的设备信息
+ * - 选择 / 分享文件 -> <input type="file"> 与下载链接
+ * - 面部追踪 -> 以 30fps 推送合成的 faceTracking 消息
+ *
+ * 返回值与 .NET 一致：JSON 字符串，异常时返回 { error: "..." }。
+ */
+
+type MockHandlers = {
+  [M in BridgeMethodName]: (
+    ...args: BridgeArgs<M>
+  ) => BridgeWireResult<M> | Promise<BridgeWireResult<M>>;
+};
+
+interface MockLogFile {
+  name: string;
+  content: string;
+  lastModified: string;
+}
+
+export interface BrowserMockHostOptions {
+  /** 持久化设置使用的存储，默认 localStorage */
+  storage?: Storage;
+  /** 模拟的调用延迟（毫秒） */
+  latencyMs?: number;
+}
+
+const STORAGE_PREFIX = "avii.mock.";
+const MOCK_HOST_FLAG_KEY = "avii.mockHost";
+const FACE_TRACKING_INTERVAL_MS = 1000 / 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const createSeedLogs = (now = Date.now()): MockLogFile[] =>
+  [0, 1, 2].map((daysAgo) => {
+    const date = new Date(now - daysAgo * DAY_MS);
+    const stamp = date.toISOString().slice(0, 10).replace(/-/g, "");
+    const lines = [
+      "[INF] Application starting (browser mock host)",
+      "[INF] Bridge: Start GetSystemInfo",
+      "[INF] Bridge: Start IsFaceTrackingAvailable",
+      "[WRN] Logs directory is simulated in the browser",
+    ].map(
+      (line, i) =>
+        `${new Date(date.getTime() + i * 1000).toISOString()} ${line}`,
+    );
+    return {
+      name: `v2ex-${stamp}.txt`,
+      content: lines.join("\n"),
+      lastModified: date.toISOString(),
+    };
+  });
+
+/**
+ * 合成一帧面部数据：缓慢摇头、周期眨眼、说话般的张嘴
+ */
+export const syntheticFaceFrame = (timeMs: number): FaceTrackingData => {
+  const t = timeMs / 1000;
+  const eyeOpen = timeMs % 4000 < 150 ? 0 : 1;
+  const brow = Math.sin(t * 0.7) * 0.3;
+  return {
+    angleX: Math.sin(t * 0.8) * 15,
+    angleY: Math.sin(t * 0.5) * 8,
+    angleZ: Math.sin(t * 0.3) * 5,
+    eyeOpenL: eyeOpen,
+    eyeOpenR: eyeOpen,
+    eyeBallX: Math.sin(t * 1.4) * 0.5,
+    eyeBallY: Math.cos(t * 1.1) * 0.3,
+    mouthOpen: Math.max(0, Math.sin(t * 4)) * 0.6,
+    browL: brow,
+    browR: brow,
+  };
+};
+
+/**
+ * includeRawData 时附带的原始 blendshape（只模拟几个常用通道）
+ */
+const syntheticBlendShapes = (
+  frame: FaceTrackingData,
+  timeMs: number,
+): Record<string, number> => {
+  const smile = Math.max(0, Math.sin(timeMs / 1000 / 2));
+  return {
+    eyeBlinkLeft: 1 - frame.eyeOpenL,
+    eyeBlinkRight: 1 - frame.eyeOpenR,
+    jawOpen: frame.mouthOpen,
+    mouthSmileLeft: smile,
+    mouthSmileRight: smile,
+    cheekPuff: Math.max(0, Math.sin(timeMs / 1000 / 3)) * 0.5,
+  };
+};
+
+/**
+ * 与 hybridwebview.ts 相同的方式派发 Native -> Web 消息
+ */
+const emitNativeMessage = (type: BridgeMessageType, data: unknown) => {
+  window.dispatchEvent(
+    new CustomEvent("HybridWebViewMessageReceived", {
+      detail: { message: JSON.stringify({ type, data }) },
+    }),
+  );
+};
+
+const readAsPickResult = async (
+  file: File | null,
+  fallbackType: string,
+): Promise<BridgeWireResult<"PickFileAsync">> => {
+  if (!file) return { cancelled: true };
+  return {
+    success: true,
+    base64: bytesToBase64(new Uint8Array(await file.arrayBuffer())),
+    contentType: file.type || fallbackType,
+    fileName: file.name,
+    size: file.size,
+  };
+};
+
+export class BrowserMockHost implements BridgeHost {
+  readonly name = "BrowserMock";
+
+  private storage: Storage;
+  private latencyMs: number;
+  private logs = createSeedLogs();
+  private faceTrackingTimer: number | null = null;
+  private wakeLock: WakeLockSentinel | null = null;
+
+  constructor(options: BrowserMockHostOptions = {}) {
+    this.storage = options.storage ?? window.localStorage;
+    this.latencyMs = options.latencyMs ?? 0;
+  }
+
+  private handlers: MockHandlers = {
+    GetPlatformInfo: () => ({ platform: "Web" }),
+    GetStringValue: (key) => this.storage.getItem(STORAGE_PREFIX + key) ?? "",
+    SetStringValue: (key, value) => {
+      this.storage.setItem(STORAGE_PREFIX + key, value);
+      return { success: true };
+    },
+    ShowSnackbar: (message) => {
+      console.info("[BrowserMockHost] Snackbar:", message);
+      return { success: true };
+    },
+    ShowToast: (message) => {
+      console.info("[BrowserMockHost] Toast:", message);
+      return { success: true };
+    },
+    GetSystemInfo: () => ({
+      platform: "Web",
+      appVersion: packageJson.version,
+      deviceModel: navigator.platform || "Browser",
+      manufacturer: "Browser Mock",
+      deviceName: "Browser",
+      operatingSystem: navigator.userAgent,
+    }),
+    TrackAnalyticsEventAsync: (eventName, parameters) => {
+      console.debug("[BrowserMockHost] Analytics:", eventName, parameters);
+      return { success: true };
+    },
+
+    // Logs
+    GetLogFilesAsync: () => ({
+      files: this.logs.map((log) => ({
+        name: log.name,
+        path: `mock://logs/${log.name}`,
+        size: log.content.length,
+        lastModified: log.lastModified,
+      })),
+    }),
+    GetLogFileContentAsync: (fileName) => {
+      const log = this.findLog(fileName);
+      return {
+        fileName: log.name,
+        content: log.content,
+        size: log.content.length,
+        lastModified: log.lastModified,
+      };
+    },
+    DeleteLogFileAsync: (fileName) => {
+      const log = this.findLog(fileName);
+      this.logs = this.logs.filter((l) => l !== log);
+      return { success: true, message: "File deleted successfully" };
+    },
+    ClearAllLogsAsync: () => {
+      const count = this.logs.length;
+      this.logs = [];
+      return { success: true, message: `Deleted ${count} log files` };
+    },
+
+    // System
+    OpenExternalLinkAsync: (url) => {
+      window.open(url, "_blank", "noopener");
+      return { success: true };
+    },
+    PickImageAsync: async () =>
+      readAsPickResult(await pickBrowserFile("image/*"), "image/jpeg"),
+    PickFileAsync: async () =>
+      readAsPickResult(await pickBrowserFile(), "application/octet-stream"),
+    ShareFileAsync: (fileName, base64, contentType) => {
+      downloadBlob(
+        new Blob([base64ToBytes(base64)], { type: contentType }),
+        fileName,
+      );
+      return { success: true };
+    },
+    SaveImageToGalleryAsync: (fileName, base64, contentType) => {
+      downloadBlob(
+        new Blob([base64ToBytes(base64)], { type: contentType }),
+        fileName,
+      );
+      return { success: true };
+    },
+    SetKeepScreenOn: async (keepOn) => {
+      if (keepOn && !this.wakeLock && navigator.wakeLock) {
+        this.wakeLock = await navigator.wakeLock.request("screen");
+      } else if (!keepOn && this.wakeLock) {
+        await this.wakeLock.release();
+        this.wakeLock = null;
+      }
+      return { success: true };
+    },
+
+    // Face Tracking
+    IsFaceTrackingAvailable: () => ({ available: true }),
+    StartFaceTracking: (includeRawData) => {
+      this.stopFaceTrackingTimer();
+      const startedAt = performance.now();
+      this.faceTrackingTimer = window.setInterval(() => {
+        const now = performance.now();
+        const elapsed = now - startedAt;
+        const frame = { ...syntheticFaceFrame(elapsed), timestamp: now };
+        emitNativeMessage(
+          "faceTracking",
+          includeRawData
+            ? { ...frame, blendShapes: syntheticBlendShapes(frame, elapsed) }
+            : frame,
+        );
+      }, FACE_TRACKING_INTERVAL_MS);
+      return { success: true, error: null };
+    },
+    StopFaceTracking: () => {
+      this.stopFaceTrackingTimer();
+      return { success: true };
+    },
+    GetFaceTrackingStatus: () => ({
+      isTracking: this.faceTrackingTimer !== null,
+    }),
+  };
+
+  private stopFaceTrackingTimer() {
+    if (this.faceTrackingTimer !== null) {
+      window.clearInterval(this.faceTrackingTimer);
+      this.faceTrackingTimer = null;
+    }
+  }
+
+  private findLog(fileName: string): MockLogFile {
+    const log = this.logs.find((l) => l.name === fileName);
+    if (!log) throw new Error("File not found");
+    return log;
+  }
+
+  async invoke(method: string, args: unknown[]): Promise<unknown> {
+    if (!Object.prototype.hasOwnProperty.call(this.handlers, method)) {
+      throw new Error(`Unknown bridge method: ${method}`);
+    }
+
+    if (this.latencyMs > 0) {
+      await new Promise((resolve) =>
+        window.setTimeout(resolve, this.latencyMs),
+      );
+    }
+
+    // Same shape as MauiBridge.ExecuteSafeAsync: exceptions become { error }
+    try {
+      const handler = this.handlers[method as BridgeMethodName] as (
+        ...args: unknown[]
+      ) => unknown;
+      return JSON.stringify(await handler(...args));
+    } catch (e) {
+      return JSON.stringify({ error: toErrorMessage(e) });
+    }
+  }
+}
+
+/**
+ * 启动时决定是否使用 Mock Host（优先级从高到低）：
+ * 1. URL 参数 `?mockHost=1` / `?mockHost=0`（会记住到 localStorage，方便 Cypress）
+ * 2. localStorage `avii.mockHost`
+ * 3. 环境变量 `VITE_BRIDGE_MOCK=true|false`
+ * 4. 开发模式下且不在 MAUI WebView 中时默认开启
+ */
+export function shouldUseBrowserMockHost(): boolean {
+  const param = new URLSearchParams(window.location.search).get("mockHost");
+  if (param === "1" || param === "0") {
+    window.localStorage.setItem(MOCK_HOST_FLAG_KEY, param);
+    return param === "1";
+  }
+
+  const stored = window.localStorage.getItem(MOCK_HOST_FLAG_KEY);
+  if (stored === "1" || stored === "0") return stored === "1";
+
+  const env = import.meta.env.VITE_BRIDGE_MOCK;
+  if (env === "true" || env === "false") return env === "true";
+
+  return import.meta.env.DEV && !hasNativeWebViewChannel();
+}
+
+export function installBrowserMockHost(
+  options: BrowserMockHostOptions = {},
+): BrowserMockHost {
+  const host = new BrowserMockHost(options);
+  mauiBridgeService.setHost(host);
+  console.info("[BrowserMockHost] Installed, native bridge calls are mocked");
+  return host;
+}
@@ -0,0 +1,161 @@
+import { mauiBridgeService } from "./MauiBridgeService";
+
+const mockInvoke = (impl: (method: string, args: unknown[]) => unknown) => {
+  const invoke = vi.fn(async (method: string, args: unknown[]) =>
+    impl(method, args),
+  );
+  mauiBridgeService.setHost({ name: "test", invoke });
+  return invoke;
+};
+
+describe("MauiBridgeService.call", () => {
+  afterEach(() => {
+    mauiBridgeService.setHost(null);
+  });
+
+  it("should parse results with the registered schema", async () => {
+    mockInvoke(() =>
+      JSON.stringify({
+        files: [
+          {
+            name: "v2ex-20260101.txt",
+            path: "/logs/v2ex-20260101.txt",
+            size: 12,
+            lastModified: "2026-01-01T00:00:00",
+          },
+        ],
+      }),
+    );
+
+    const res = await mauiBridgeService.call("GetLogFilesAsync");
+    expect(res.error).toBeNull();
+    expect(res.data?.files[0]).toEqual({
+      fileName: "v2ex-20260101.txt",
+      size: 12,
+      lastModified: "2026-01-01T00:00:00",
+    });
+  });
+
+  it("should reject invalid arguments before invoking .NET", async () => {
+    const invoke = mockInvoke(() => JSON.stringify({ success: true }));
+
+    const res = await mauiBridgeService.call(
+      "SetKeepScreenOn",
+      // @ts-expect-error - argument type is checked at compile time too
+      "yes",
+    );
+    expect(res.error?.code).toBe("invalid_arguments");
+    expect(res.error?.message).toMatch(/Invalid arguments \(SetKeepScreenOn\)/);
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it("should report schema mismatches", async () => {
+    mockInvoke(() => JSON.stringify({ platform: 42 }));
+
+    const res = await mauiBridgeService.call("GetPlatformInfo");
+    expect(res.error?.code).toBe("schema_mismatch");
+    expect(res.error?.message).toMatch(
+      /Data parsing failed \(GetPlatformInfo\)/,
+    );
+  });
+
+  it("should surface { error } payloads from the native side", async () => {
+    mockInvoke(() => JSON.stringify({ error: "File not found" }));
+
+    const res = await mauiBridgeService.call("GetLogFileContentAsync", "x.txt");
+    expect(res.error).toMatchObject({
+      code: "native_error",
+      message: "File not found",
+    });
+  });
+
+  it("should preserve .NET exception details", async () => {
+    mockInvoke(() => {
+      throw Object.assign(new Error("Object reference not set"), {
+        dotNetErrorType: "System.NullReferenceException",
+        dotNetStackTrace: "at MauiBridge.GetSystemInfo()",
+      });
+    });
+
+    const res = await mauiBridgeService.call("ShowToast", "hi");
+    expect(res.error).toMatchObject({
+      code: "dotnet_exception",
+      message: "Object reference not set",
+      dotNetType: "System.NullReferenceException",
+      dotNetStackTrace: "at MauiBridge.GetSystemInfo()",
+    });
+  });
+
+  it("should report a missing bridge outside of MAUI", async () => {
+    const res = await mauiBridgeService.call("GetSystemInfo");
+    expect(res.error?.code).toBe("bridge_unavailable");
+  });
+});
+
+describe("MauiBridgeService.callWithOptions", () => {
+  const hang = () => new Promise<never>(() => {});
+
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    mauiBridgeService.setHost(null);
+    vi.restoreAllMocks();
+  });
+
+  it("should return a timeout error when .NET does not answer", async () => {
+    mockInvoke(hang);
+
+    const res = await mauiBridgeService.callWithOptions(
+      "SetKeepScreenOn",
+      {
+        timeoutMs: 10,
+      },
+      true,
+    );
+    expect(res.error?.message).toMatch(/timed out/);
+    expect(res.error?.code).toBe("timeout");
+  });
+
+  it("should retry idempotent methods with backoff", async () => {
+    let calls = 0;
+    const invoke = mockInvoke(() => {
+      calls++;
+      if (calls < 3) throw new Error("transient");
+      return JSON.stringify("stored");
+    });
+
+    const res = await mauiBridgeService.callWithOptions(
+      "GetStringValue",
+      { retry: { baseDelayMs: 1 } },
+      "key",
+    );
+    expect(res.data).toBe("stored");
+    expect(invoke).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry non-idempotent methods by default", async () => {
+    const invoke = mockInvoke(() => {
+      throw new Error("transient");
+    });
+
+    const res = await mauiBridgeService.call("ShowToast", "hi");
+    expect(res.error?.message).toBe("transient");
+    expect(invoke).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop waiting when the signal is aborted", async () => {
+    mockInvoke(hang);
+    const controller = new AbortController();
+
+    const pending = mauiBridgeService.getSystemInfo({
+      signal: controller.signal,
+      timeoutMs: 0,
+    });
+    controller.abort();
+
+    const res = await pending;
+    expect(res.error?.code).toBe("aborted");
+  });
+});
@@ -1,46 +1,74 @@
-import { z } from "zod";
-import { err, ok, toErrorMessage, type Result } from "./result";
+import {
+  err,
+  fail,
+  map,
+  ok,
+  toErrorMessage,
+  toResultError,
+  type Result,
+} from "./result";
 import { createFirebaseAnalytics, type AnalyticsParams } from "./firebase";
+import {
+  BridgeAbortError,
+  BridgeTimeoutError,
+  DEFAULT_BRIDGE_TIMEOUT_MS,
+  DEFAULT_RETRY_POLICY,
+  backoffDelay,
+  sleep,
+  withDeadline,
+  type RetryPolicy,
+} from "./callPolicy";
+import {
+  bridgeMethods,
+  type BridgeArgs,
+  type BridgeMethodDefinition,
+  type BridgeMethodName,
+  type BridgeResult,
+  type PickFileResult,
+  type PickImageResult,
+  type SystemInfo,
+} from "./bridgeContract";
+import {
+  hasNativeWebViewChannel,
+  hybridWebViewHost,
+  type BridgeHost,
+} from "./bridgeHost";
+
+export type {
+  PickFileResult,
+  PickImageResult,
+  SystemInfo,
+} from "./bridgeContract";
+
+export interface BridgeCallOptions {
+  /** 超时时间（毫秒），0 表示不设超时 */
+  timeoutMs?: number;
+  /** 取消调用；取消后返回 error.code = "aborted" */
+  signal?: AbortSignal;
+  /** 重试策略；false 关闭重试。幂等方法默认使用 DEFAULT_RETRY_POLICY */
+  retry?: Partial<RetryPolicy> | false;
+}
 
-// --- Schemas ---
-
-const SystemInfoSchema = z.object({
-  platform: z.string(),
-  appVersion: z.string(),
-  deviceModel: z.string(),
-  manufacturer: z.string(),
-  deviceName: z.string(),
-  operatingSystem: z.string(),
-});
-export type SystemInfo = z.infer<typeof SystemInfoSchema>;
-
-const FaceTrackingAvailabilitySchema = z.object({
-  available: z.boolean(),
-});
-
-const FaceTrackingStartSchema = z.object({
-  success: z.boolean(),
-  error: z.string().nullable().optional(),
-});
-
-const FaceTrackingStatusSchema = z.object({
-  isTracking: z.boolean(),
-});
+export interface FaceTrackingStartOptions extends BridgeCallOptions {
+  /** faceTracking 消息中附带 52 个原始 blendShapes 与 headTransform */
+  includeRawData?: boolean;
+}
 
-/**
- * 图片选择结果类型
- */
-export interface PickImageResult {
-  success?: boolean;
-  cancelled?: boolean;
-  base64?: string;
-  contentType?: string;
-  fileName?: string;
-  size?: number;
-  error?: string;
-  message?: string;
+interface ResolvedCallOptions {
+  timeoutMs: number;
+  retry: RetryPolicy | null;
+  signal?: AbortSignal;
 }
 
+const resolveRetryPolicy = (
+  retry: BridgeCallOptions["retry"],
+  idempotent = false,
+): RetryPolicy | null => {
+  if (retry === false) return null;
+  if (retry === undefined) return idempotent ? DEFAULT_RETRY_POLICY : null;
+  return { ...DEFAULT_RETRY_POLICY, ...retry };
+};
+
 /**
  * MauiBridgeService
  * 统一处理 Native Bridge 调用和 Web环境的 Fallback 逻辑。
@@ -49,17 +77,43 @@ export interface PickImageResult {
 class MauiBridgeService {
   // --- Core Bridge Logic ---
 
+  private host: BridgeHost | null = null;
+
   private isNative(): boolean {
     const hwv = window.HybridWebView;
-    return !!(hwv && typeof hwv.InvokeDotNet === "function");
+    return (
+      !!(hwv && typeof hwv.InvokeDotNet === "function") &&
+      hasNativeWebViewChannel()
+    );
+  }
+
+  /**
+   * 替换调用目标（例如浏览器 Mock Host）。传 null 恢复默认的 HybridWebView。
+   */
+  setHost(host: BridgeHost | null) {
+    this.host = host;
+  }
+
+  get hostName(): string | null {
+    return this.resolveHost()?.name ?? null;
+  }
+
+  private resolveHost(): BridgeHost | null {
+    if (this.host) return this.host;
+    return this.isNative() ? hybridWebViewHost : null;
   }
 
   private async callMauiBridge(
     method: string,
     args?: unknown[] | Record<string, unknown>,
+    options: ResolvedCallOptions = {
+      timeoutMs: DEFAULT_BRIDGE_TIMEOUT_MS,
+      retry: null,
+    },
   ): Promise<Result<string>> {
-    if (!this.isNative()) {
-      return err("Native Bridge not available");
+    const host = this.resolveHost();
+    if (!host) {
+      return err("bridge_unavailable", "Native Bridge not available");
     }
 
     const argValues = Array.isArray(args)
@@ -68,216 +122,256 @@ class MauiBridgeService {
         ? Object.values(args)
         : [];
 
-    const hwv = window.HybridWebView;
-    if (!hwv) return err("HybridWebView not found");
-
-    try {
-      const result = await hwv.InvokeDotNet(method, argValues);
-      return ok(typeof result === "string" ? result : JSON.stringify(result));
-    } catch (e) {
-      return err(toErrorMessage(e, `Bridge call failed: ${method}`));
+    const { timeoutMs, retry, signal } = options;
+    const maxAttempts = retry ? retry.retries + 1 : 1;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        // InvokeDotNet serializes paramValues in place, so hand it a copy.
+        const result = await withDeadline(
+          host.invoke(method, [...argValues]),
+          method,
+          timeoutMs,
+          signal,
+        );
+        return ok(typeof result === "string" ? result : JSON.stringify(result));
+      } catch (e) {
+        if (e instanceof BridgeAbortError) {
+          return err("aborted", e.message, { cause: e });
+        }
+
+        if (retry && attempt + 1 < maxAttempts) {
+          const delay = backoffDelay(retry, attempt);
+          console.warn(
+            `[MauiBridge] ${method} failed (attempt ${attempt + 1}/${maxAttempts}), retrying in ${delay}ms:`,
+            toErrorMessage(e),
+          );
+          try {
+            await sleep(delay, method, signal);
+          } catch (abort) {
+            return err("aborted", toErrorMessage(abort), { cause: abort });
+          }
+          continue;
+        }
+
+        if (e instanceof BridgeTimeoutError) {
+          return err("timeout", e.message, { cause: e });
+        }
+        return fail(
+          toResultError(e, "unknown", `Bridge call failed: ${method}`),
+        );
+      }
     }
   }
 
-  private async invoke<T>(
-    methodName: string,
-    args: unknown[] = [],
-    schema: z.ZodType<T>,
-  ): Promise<Result<T>> {
-    const res = await this.callMauiBridge(methodName, args);
-    if (res.error !== null) return err(res.error);
-
-    let data: unknown;
-    try {
-      data = JSON.parse(res.data);
-    } catch (e) {
-      return err(`Bridge returned invalid JSON: ${toErrorMessage(e)}`);
-    }
-
-    // Handle common { error: "..." } response pattern
-    if (
-      data &&
-      typeof data === "object" &&
-      "error" in data &&
-      typeof (data as any).error === "string"
-    ) {
-      return err((data as any).error);
-    }
+  /**
+   * 类型化调用入口：方法名、参数、返回值均由 `bridgeMethods` 推导。
+   * 参数在调用 `InvokeDotNet` 之前先做 schema 校验。
+   */
+  async call<M extends BridgeMethodName>(
+    methodName: M,
+    ...args: BridgeArgs<M>
+  ): Promise<Result<BridgeResult<M>>> {
+    return this.callWithOptions(methodName, {}, ...args);
+  }
 
-    try {
-      return ok(schema.parse(data));
-    } catch (e) {
-      return err(`Data parsing failed (${methodName}): ${toErrorMessage(e)}`);
+  /**
+   * 同 `call`，额外支持超时、取消与重试配置。
+   * 未指定时使用 `bridgeMethods` 中登记的默认值。
+   */
+  async callWithOptions<M extends BridgeMethodName>(
+    methodName: M,
+    options: BridgeCallOptions,
+    ...args: BridgeArgs<M>
+  ): Promise<Result<BridgeResult<M>>> {
+    const definition: BridgeMethodDefinition = bridgeMethods[methodName];
+
+    const parsedArgs = definition.args.safeParse(args);
+    if (!parsedArgs.success) {
+      return err(
+        "invalid_arguments",
+        `Invalid arguments (${methodName}): ${toErrorMessage(parsedArgs.error)}`,
+        { cause: parsedArgs.error },
+      );
     }
-  }
 
-  private async invokeVoid(
-    methodName: string,
-    args: unknown[] = [],
-  ): Promise<Result<void>> {
-    const res = await this.callMauiBridge(methodName, args);
-    if (res.error !== null) return err(res.error);
+    const res = await this.callMauiBridge(methodName, parsedArgs.data, {
+      timeoutMs:
+        options.timeoutMs ?? definition.timeoutMs ?? DEFAULT_BRIDGE_TIMEOUT_MS,
+      retry: resolveRetryPolicy(options.retry, definition.idempotent),
+      signal: options.signal,
+    });
+    if (res.error !== null) return fail(res.error);
 
     let data: unknown;
     try {
       data = JSON.parse(res.data);
     } catch (e) {
-      return err(`Bridge returned invalid JSON: ${toErrorMessage(e)}`);
+      return err(
+        "invalid_json",
+        `Bridge returned invalid JSON: ${toErrorMessage(e)}`,
+        { cause: e },
+      );
     }
 
+    // Handle common { error: "..." } response pattern
     if (
       data &&
       typeof data === "object" &&
       "error" in data &&
-      typeof (data as any).error === "string"
+      typeof data.error === "string"
     ) {
-      return err((data as any).error);
+      return err("native_error", data.error);
     }
 
-    return ok(undefined);
+    const parsed = definition.result.safeParse(data);
+    if (!parsed.success) {
+      return err(
+        "schema_mismatch",
+        `Data parsing failed (${methodName}): ${toErrorMessage(parsed.error)}`,
+        { cause: parsed.error },
+      );
+    }
+    return ok(parsed.data as BridgeResult<M>);
   }
 
   // --- Public Methods (Matching C# Bridge) ---
 
   async getPlatformInfo(): Promise<Result<{ platform: string }>> {
-    const schema = z.object({ platform: z.string() });
-    return this.invoke("GetPlatformInfo", [], schema);
+    return this.call("GetPlatformInfo");
   }
 
-  async getStringValue(key: string): Promise<Result<string | null>> {
-    return this.invoke("GetStringValue", [key], z.string().nullable());
+  async getStringValue(
+    key: string,
+    options: BridgeCallOptions = {},
+  ): Promise<Result<string | null>> {
+    return this.callWithOptions("GetStringValue", options, key);
   }
 
   async setStringValue(key: string, value: string): Promise<Result<void>> {
-    return this.invokeVoid("SetStringValue", [key, value]);
+    return this.call("SetStringValue", key, value);
   }
 
   async showSnackbar(message: string): Promise<Result<void>> {
-    return this.invokeVoid("ShowSnackbar", [message]);
+    return this.call("ShowSnackbar", message);
   }
 
   async showToast(message: string): Promise<Result<void>> {
-    return this.invokeVoid("ShowToast", [message]);
+    return this.call("ShowToast", message);
   }
 
-  async getSystemInfo(): Promise<Result<SystemInfo>> {
-    return this.invoke("GetSystemInfo", [], SystemInfoSchema);
+  async getSystemInfo(
+    options: BridgeCallOptions = {},
+  ): Promise<Result<SystemInfo>> {
+    return this.callWithOptions("GetSystemInfo", options);
   }
 
   async trackAnalyticsEvent(
     eventName: string,
     parameters?: AnalyticsParams,
   ): Promise<Result<void>> {
-    return this.invokeVoid("TrackAnalyticsEventAsync", [eventName, parameters]);
+    return this.call("TrackAnalyticsEventAsync", eventName, parameters);
   }
 
   async signOut(): Promise<Result<void>> {
     // SignOutAsync logic if it exists in C# Bridge, or just log
     // Assuming SignOutAsync exists or logic is different
-    // return this.invokeVoid("SignOutAsync");
+    // return this.call("SignOutAsync");
     console.log("SignOut native called (if implemented)");
     return ok(undefined);
   }
 
   // --- Logs ---
 
-  async getLogFiles(): Promise<Result<{ files: any[]; error?: string }>> {
-    const schema = z.object({
-      files: z.array(z.any()),
-      error: z.string().optional(),
-    });
-    return this.invoke("GetLogFilesAsync", [], schema);
+  async getLogFiles(
+    options: BridgeCallOptions = {},
+  ): Promise<Result<BridgeResult<"GetLogFilesAsync">>> {
+    return this.callWithOptions("GetLogFilesAsync", options);
   }
 
-  async getLogFileContent(fileName: string): Promise<Result<any | null>> {
-    const schema = z.object({
-      fileName: z.string(),
-      content: z.string(),
-      size: z.number(),
-      lastModified: z.string(),
-    });
-    return this.invoke("GetLogFileContentAsync", [fileName], schema);
+  async getLogFileContent(
+    fileName: string,
+    options: BridgeCallOptions = {},
+  ): Promise<Result<BridgeResult<"GetLogFileContentAsync">>> {
+    return this.callWithOptions("GetLogFileContentAsync", options, fileName);
   }
 
   async deleteLogFile(fileName: string): Promise<Result<boolean>> {
-    // C# returns { success: true, message: ... } which invokeVoid handles if checks for 'error' prop
-    // But invokeVoid returns void. We want boolean success.
-    // Let's use invoke with schema.
-    const res = await this.invoke(
-      "DeleteLogFileAsync",
-      [fileName],
-      z.object({ success: z.boolean(), message: z.string().optional() }),
-    );
-    if (res.error) return err(res.error);
-    if (!res.data) return err("No data returned");
-    return ok(res.data.success);
+    // C# returns { success: true, message: ... }; we only expose the flag.
+    const res = await this.call("DeleteLogFileAsync", fileName);
+    return map(res, (data) => data.success);
   }
 
   async clearAllLogs(): Promise<Result<boolean>> {
-    const res = await this.invoke(
-      "ClearAllLogsAsync",
-      [],
-      z.object({ success: z.boolean(), message: z.string().optional() }),
-    );
-    if (res.error) return err(res.error);
-    if (!res.data) return err("No data returned");
-    return ok(res.data.success);
+    const res = await this.call("ClearAllLogsAsync");
+    return map(res, (data) => data.success);
   }
 
   async openExternalLink(url: string): Promise<Result<void>> {
-    return this.invokeVoid("OpenExternalLinkAsync", [url]);
+    return this.call("OpenExternalLinkAsync", url);
   }
 
   async pickImage(): Promise<Result<PickImageResult>> {
-    const schema = z.object({
-      success: z.boolean().optional(),
-      cancelled: z.boolean().optional(),
-      base64: z.string().optional(),
-      contentType: z.string().optional(),
-      fileName: z.string().optional(),
-      size: z.number().optional(),
-      error: z.string().optional(),
-      message: z.string().optional(),
-    });
-    return this.invoke("PickImageAsync", [], schema);
+    return this.call("PickImageAsync");
+  }
+
+  async pickFile(): Promise<Result<PickFileResult>> {
+    return this.call("PickFileAsync");
+  }
+
+  /**
+   * 通过系统分享面板导出文件（保存到文件 App、AirDrop 等）
+   */
+  async shareFile(
+    fileName: string,
+    base64: string,
+    contentType: string,
+  ): Promise<Result<void>> {
+    return this.call("ShareFileAsync", fileName, base64, contentType);
+  }
+
+  /**
+   * 保存图片到系统相册
+   */
+  async saveImageToGallery(
+    fileName: string,
+    base64: string,
+    contentType: string,
+  ): Promise<Result<void>> {
+    return this.call("SaveImageToGalleryAsync", fileName, base64, contentType);
   }
 
   // --- Face Tracking ---
 
-  async isFaceTrackingAvailable(): Promise<Result<boolean>> {
-    const res = await this.invoke(
-      "IsFaceTrackingAvailable",
-      [],
-      FaceTrackingAvailabilitySchema,
-    );
-    if (res.error) return err(res.error);
-    if (!res.data) return err("No data returned");
-    return ok(res.data.available);
+  async isFaceTrackingAvailable(
+    options: BridgeCallOptions = {},
+  ): Promise<Result<boolean>> {
+    const res = await this.callWithOptions("IsFaceTrackingAvailable", options);
+    return map(res, (data) => data.available);
   }
 
-  async startFaceTracking(): Promise<
+  async startFaceTracking({
+    includeRawData = false,
+    ...options
+  }: FaceTrackingStartOptions = {}): Promise<
     Result<{ success: boolean; error?: string | null }>
   > {
-    return this.invoke("StartFaceTracking", [], FaceTrackingStartSchema);
+    return this.callWithOptions("StartFaceTracking", options, includeRawData);
   }
 
-  async stopFaceTracking(): Promise<Result<void>> {
-    return this.invokeVoid("StopFaceTracking");
+  async stopFaceTracking(
+    options: BridgeCallOptions = {},
+  ): Promise<Result<void>> {
+    return this.callWithOptions("StopFaceTracking", options);
   }
 
   async getFaceTrackingStatus(): Promise<Result<boolean>> {
-    const res = await this.invoke(
-      "GetFaceTrackingStatus",
-      [],
-      FaceTrackingStatusSchema,
-    );
-    if (res.error) return err(res.error);
-    if (!res.data) return err("No data returned");
-    return ok(res.data.isTracking);
+    const res = await this.call("GetFaceTrackingStatus");
+    return map(res, (data) => data.isTracking);
   }
 
   async setKeepScreenOn(keepOn: boolean): Promise<Result<void>> {
-    return this.invokeVoid("SetKeepScreenOn", [keepOn]);
+    return this.call("SetKeepScreenOn", keepOn);
   }
 }
 
@@ -0,0 +1,234 @@
+import { z } from "zod";
+
+/**
+ * Bridge Contract
+ *
+ * C# `MauiBridge` 公开方法的唯一声明处：方法名 + 参数 schema + 返回值 schema。
+ * `MauiBridgeService.call` 的参数与返回类型全部从这里推导，
+ * 方法名拼错或参数类型不匹配会在编译期报错，而不是在真机上运行时才暴露。
+ *
+ * 新增 Native 方法时：先在 C# 侧实现，再在 `bridgeMethods` 中登记一条。
+ * 只读方法标记 `idempotent`，需要等待用户操作的方法把 `timeoutMs` 设为 0。
+ */
+
+// --- Shared Schemas ---
+
+/**
+ * `ExecuteSafeVoidAsync` 的成功返回：{ success: true }
+ */
+const VoidResultSchema = z
+  .object({ success: z.boolean() })
+  .transform((): void => undefined);
+
+const OperationResultSchema = z.object({
+  success: z.boolean(),
+  message: z.string().optional(),
+});
+
+export const AnalyticsParamsSchema = z.record(
+  z.string(),
+  z.union([z.string(), z.number(), z.boolean(), z.null(), z.undefined()]),
+);
+
+export const SystemInfoSchema = z.object({
+  platform: z.string(),
+  appVersion: z.string(),
+  deviceModel: z.string(),
+  manufacturer: z.string(),
+  deviceName: z.string(),
+  operatingSystem: z.string(),
+});
+export type SystemInfo = z.infer<typeof SystemInfoSchema>;
+
+/**
+ * C# 返回 { name, path, size, lastModified }，这里统一成前端使用的 fileName。
+ */
+export const LogFileSchema = z
+  .object({
+    name: z.string(),
+    path: z.string().optional(),
+    size: z.number(),
+    lastModified: z.string(),
+  })
+  .transform(({ name, size, lastModified }) => ({
+    fileName: name,
+    size,
+    lastModified,
+  }));
+
+export const LogFileContentSchema = z.object({
+  fileName: z.string(),
+  content: z.string(),
+  size: z.number(),
+  lastModified: z.string(),
+});
+
+export const PickImageResultSchema = z.object({
+  success: z.boolean().optional(),
+  cancelled: z.boolean().optional(),
+  base64: z.string().optional(),
+  contentType: z.string().optional(),
+  fileName: z.string().optional(),
+  size: z.number().optional(),
+  error: z.string().optional(),
+  message: z.string().optional(),
+});
+export type PickImageResult = z.infer<typeof PickImageResultSchema>;
+
+/** PickFileAsync 与 PickImageAsync 返回结构相同 */
+export const PickFileResultSchema = PickImageResultSchema;
+export type PickFileResult = z.infer<typeof PickFileResultSchema>;
+
+export const FaceTrackingStartSchema = z.object({
+  success: z.boolean(),
+  error: z.string().nullable().optional(),
+});
+
+// --- Registry ---
+
+export interface BridgeMethodDefinition<
+  A extends z.ZodTuple = z.ZodTuple,
+  R extends z.ZodType = z.ZodType,
+> {
+  args: A;
+  result: R;
+  /** 无副作用、可安全重试（默认启用重试退避） */
+  idempotent?: boolean;
+  /** 覆盖默认超时；0 表示不设超时（例如等待用户操作） */
+  timeoutMs?: number;
+}
+
+const defineMethod = <A extends z.ZodTuple, R extends z.ZodType>(
+  definition: BridgeMethodDefinition<A, R>,
+) => definition;
+
+const noArgs = () => z.tuple([]);
+
+export const bridgeMethods = {
+  GetPlatformInfo: defineMethod({
+    args: noArgs(),
+    result: z.object({ platform: z.string() }),
+    idempotent: true,
+  }),
+  GetStringValue: defineMethod({
+    args: z.tuple([z.string()]),
+    result: z.string().nullable(),
+    idempotent: true,
+  }),
+  SetStringValue: defineMethod({
+    args: z.tuple([z.string(), z.string()]),
+    result: VoidResultSchema,
+  }),
+  ShowSnackbar: defineMethod({
+    args: z.tuple([z.string()]),
+    result: VoidResultSchema,
+  }),
+  ShowToast: defineMethod({
+    args: z.tuple([z.string()]),
+    result: VoidResultSchema,
+  }),
+  GetSystemInfo: defineMethod({
+    args: noArgs(),
+    result: SystemInfoSchema,
+    idempotent: true,
+  }),
+  TrackAnalyticsEventAsync: defineMethod({
+    args: z.tuple([z.string(), AnalyticsParamsSchema.optional()]),
+    result: VoidResultSchema,
+  }),
+
+  // Logs
+  GetLogFilesAsync: defineMethod({
+    args: noArgs(),
+    result: z.object({ files: z.array(LogFileSchema) }),
+    idempotent: true,
+  }),
+  GetLogFileContentAsync: defineMethod({
+    args: z.tuple([z.string().min(1)]),
+    result: LogFileContentSchema,
+    idempotent: true,
+  }),
+  DeleteLogFileAsync: defineMethod({
+    args: z.tuple([z.string().min(1)]),
+    result: OperationResultSchema,
+  }),
+  ClearAllLogsAsync: defineMethod({
+    args: noArgs(),
+    result: OperationResultSchema,
+  }),
+
+  // System
+  OpenExternalLinkAsync: defineMethod({
+    args: z.tuple([z.string().min(1)]),
+    result: VoidResultSchema,
+  }),
+  PickImageAsync: defineMethod({
+    args: noArgs(),
+    result: PickImageResultSchema,
+    timeoutMs: 0,
+  }),
+  PickFileAsync: defineMethod({
+    args: noArgs(),
+    result: PickFileResultSchema,
+    timeoutMs: 0,
+  }),
+  ShareFileAsync: defineMethod({
+    // fileName, base64, contentType；等待用户关闭分享面板
+    args: z.tuple([z.string().min(1), z.string(), z.string()]),
+    result: VoidResultSchema,
+    timeoutMs: 0,
+  }),
+  SaveImageToGalleryAsync: defineMethod({
+    // fileName, base64, contentType；首次调用会弹出相册权限请求
+    args: z.tuple([z.string().min(1), z.string(), z.string()]),
+    result: VoidResultSchema,
+    timeoutMs: 0,
+  }),
+  SetKeepScreenOn: defineMethod({
+    args: z.tuple([z.boolean()]),
+    result: VoidResultSchema,
+  }),
+
+  // Face Tracking
+  IsFaceTrackingAvailable: defineMethod({
+    args: noArgs(),
+    result: z.object({ available: z.boolean() }),
+    idempotent: true,
+  }),
+  StartFaceTracking: defineMethod({
+    // includeRawData: 消息中附带原始 blendShapes / headTransform
+    args: z.tuple([z.boolean()]),
+    result: FaceTrackingStartSchema,
+    // 首次启动会弹出相机权限请求
+    timeoutMs: 30_000,
+  }),
+  StopFaceTracking: defineMethod({
+    args: noArgs(),
+    result: VoidResultSchema,
+  }),
+  GetFaceTrackingStatus: defineMethod({
+    args: noArgs(),
+    result: z.object({ isTracking: z.boolean() }),
+    idempotent: true,
+  }),
+} satisfies Record<string, BridgeMethodDefinition>;
+
+// --- Derived Types ---
+
+export type BridgeMethods = typeof bridgeMethods;
+export type BridgeMethodName = keyof BridgeMethods;
+
+/** 调用方传入的参数元组 */
+export type BridgeArgs<M extends BridgeMethodName> = z.input<
+  BridgeMethods[M]["args"]
+>;
+
+/** schema 校验（及 transform）之后的返回类型 */
+export type BridgeResult<M extends BridgeMethodName> = z.output<
+  BridgeMethods[M]["result"]
+>;
+
+/** .NET 侧实际返回（schema 校验前）的数据结构，供 Mock Host 实现 */
+export type BridgeWireResult<M extends BridgeMethodName> = z.input<
+  BridgeMethods[M]["result"]
+>;
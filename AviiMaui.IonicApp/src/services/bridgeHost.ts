@@ -0,0 +1,34 @@
+/**
+ * Bridge Host
+ *
+ * `MauiBridgeService` 实际发送调用的目标。默认是 MAUI 注入的 HybridWebView，
+ * 浏览器开发 / Cypress 场景下可替换为 `BrowserMockHost`。
+ *
+ * 约定与 `InvokeDotNet` 一致：返回 .NET 方法的原始结果（通常是 JSON 字符串），
+ * 失败时抛出异常。
+ */
+export interface BridgeHost {
+  readonly name: string;
+  invoke(method: string, args: unknown[]): Promise<unknown>;
+}
+
+export const hybridWebViewHost: BridgeHost = {
+  name: "HybridWebView",
+  invoke: (method, args) => {
+    const hwv = window.HybridWebView;
+    if (!hwv) throw new Error("HybridWebView not found");
+    return hwv.InvokeDotNet(method, args);
+  },
+};
+
+/**
+ * 是否运行在真正的 MAUI WebView 中。
+ * `hybridwebview.ts` 在任何环境都会注入 window.HybridWebView，
+ * 所以这里检查的是宿主通道本身（与其 initHybridWebView 的判断一致）。
+ */
+export const hasNativeWebViewChannel = (): boolean =>
+  !!(
+    window.chrome?.webview ||
+    window.webkit?.messageHandlers?.webwindowinterop ||
+    window.hybridWebViewHost
+  );
@@ -0,0 +1,55 @@
+import { z } from "zod";
+
+/**
+ * Bridge Messages
+ *
+ * Native -> Web 方向的消息声明（`SendRawMessage` 推送的 `{ type, data }`）。
+ * 与 `bridgeContract.ts` 对应：每种 `type` 在这里登记一次 data schema，
+ * `bridgeMessageBus` 只会把通过校验的 payload 分发给订阅者。
+ */
+
+export const FaceTrackingDataSchema = z.object({
+  // Head rotation
+  angleX: z.number().default(0), // Left-Right
+  angleY: z.number().default(0), // Up-Down
+  angleZ: z.number().default(0), // Tilt
+
+  // Eyes
+  eyeOpenL: z.number().default(0),
+  eyeOpenR: z.number().default(0),
+  eyeBallX: z.number().default(0),
+  eyeBallY: z.number().default(0),
+
+  // Mouth
+  mouthOpen: z.number().default(0),
+
+  // Eyebrows
+  browL: z.number().default(0),
+  browR: z.number().default(0),
+
+  // 采集时间（毫秒，单调时钟），用于与帧率无关的平滑
+  timestamp: z.number().optional(),
+
+  // Raw data (StartFaceTracking(includeRawData: true) / Web tracking)
+  // ARKit 规范名 -> 0..1，例如 eyeBlinkLeft、jawOpen、cheekPuff
+  blendShapes: z.record(z.string(), z.number()).nullish(),
+  // 4x4 头部变换矩阵，列主序
+  headTransform: z.array(z.number()).length(16).nullish(),
+});
+export type FaceTrackingData = z.infer<typeof FaceTrackingDataSchema>;
+
+export const bridgeMessages = {
+  faceTracking: FaceTrackingDataSchema,
+} satisfies Record<string, z.ZodType>;
+
+export type BridgeMessages = typeof bridgeMessages;
+export type BridgeMessageType = keyof BridgeMessages;
+export type BridgeMessagePayload<T extends BridgeMessageType> = z.output<
+  BridgeMessages[T]
+>;
+
+/** 所有消息共用的外层结构 */
+export const BridgeEnvelopeSchema = z.object({
+  type: z.string(),
+  data: z.unknown(),
+});
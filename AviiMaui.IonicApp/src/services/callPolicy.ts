@@ -0,0 +1,109 @@
+/**
+ * Bridge 调用策略：超时、取消与重试退避。
+ *
+ * `InvokeDotNet` 本身不支持取消（底层 fetch 没有 signal），
+ * 这里通过 Promise 竞速让调用方及时返回；.NET 侧的结果到达后会被丢弃。
+ */
+
+export const DEFAULT_BRIDGE_TIMEOUT_MS = 10_000;
+
+export interface RetryPolicy {
+  /** 首次调用之后的最大重试次数 */
+  retries: number;
+  /** 第一次重试前的等待时间 */
+  baseDelayMs: number;
+  /** 单次等待的上限 */
+  maxDelayMs: number;
+  /** 每次重试的等待倍数 */
+  factor: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 200,
+  maxDelayMs: 2_000,
+  factor: 2,
+};
+
+export class BridgeTimeoutError extends Error {
+  constructor(
+    public readonly method: string,
+    public readonly timeoutMs: number,
+  ) {
+    super(`Bridge call timed out after ${timeoutMs}ms: ${method}`);
+    this.name = "BridgeTimeoutError";
+  }
+}
+
+export class BridgeAbortError extends Error {
+  constructor(public readonly method: string) {
+    super(`Bridge call aborted: ${method}`);
+    this.name = "BridgeAbortError";
+  }
+}
+
+/**
+ * 第 attempt 次重试（从 0 开始）前的等待时间
+ */
+export const backoffDelay = (policy: RetryPolicy, attempt: number): number =>
+  Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * Math.pow(policy.factor, attempt),
+  );
+
+/**
+ * 为 promise 加上超时与取消。timeoutMs <= 0 表示不设超时。
+ */
+export function withDeadline<T>(
+  promise: Promise<T>,
+  method: string,
+  timeoutMs: number,
+  signal?: AbortSignal,
+): Promise<T> {
+  if (signal?.aborted) return Promise.reject(new BridgeAbortError(method));
+  if (timeoutMs <= 0 && !signal) return promise;
+
+  return new Promise<T>((resolve, reject) => {
+    const timer =
+      timeoutMs > 0
+        ? window.setTimeout(
+            () =>
+              finish(() => reject(new BridgeTimeoutError(method, timeoutMs))),
+            timeoutMs,
+          )
+        : undefined;
+
+    const onAbort = () => finish(() => reject(new BridgeAbortError(method)));
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    let settled = false;
+    function finish(settle: () => void) {
+      if (settled) return;
+      settled = true;
+      if (timer !== undefined) window.clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      settle();
+    }
+
+    promise.then(
+      (value) => finish(() => resolve(value)),
+      (error) => finish(() => reject(error)),
+    );
+  });
+}
+
+/**
+ * 可被 signal 打断的等待
+ */
+export function sleep(
+  ms: number,
+  method: string,
+  signal?: AbortSignal,
+): Promise<void> {
+  return withDeadline(
+    new Promise<void>((resolve) => window.setTimeout(resolve, ms)),
+    method,
+    0,
+    signal,
+  );
+}
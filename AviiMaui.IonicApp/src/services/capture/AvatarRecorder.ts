@@ -0,0 +1,279 @@
+import { toMediaDeviceError } from "../mediaErrors";
+import { err, fail, ok, toResultError, type Result } from "../result";
+import { assembleApng, deflateFrame } from "./apng";
+
+/**
+ * AvatarRecorder
+ * 录制 Live2D 画布：
+ * - video: canvas.captureStream + MediaRecorder（WebM，iOS 上为 MP4），可附带麦克风
+ * - apng: 按固定帧率截取画面编码为 APNG，适合几秒的短动图
+ *
+ * 每次渲染后把 PIXI 画布合成到一张 2D 画布上（透明或填充背景色），录制的是这张合成画布。
+ */
+
+export type CaptureFormat = "video" | "apng";
+
+export interface CaptureSource {
+  canvas: HTMLCanvasElement;
+  /** 每次渲染之后调用（此时 WebGL 画面可读），返回取消函数 */
+  onAfterRender(callback: () => void): () => void;
+}
+
+export interface CaptureOptions {
+  format: CaptureFormat;
+  /** CSS 颜色；null 为透明背景 */
+  background?: string | null;
+  /** 仅 video */
+  includeMicrophone?: boolean;
+}
+
+export interface CaptureResult {
+  blob: Blob;
+  /** 含点号的扩展名 */
+  extension: string;
+}
+
+const VIDEO_FPS = 30;
+const VIDEO_BITS_PER_SECOND = 5_000_000;
+const VIDEO_MIME_TYPES = [
+  "video/webm;codecs=vp9,opus",
+  "video/webm;codecs=vp8,opus",
+  "video/webm",
+  "video/mp4",
+];
+
+const APNG_FPS = 12;
+/** 动图最长时长，超过后自动停止 */
+export const APNG_MAX_DURATION_MS = 5000;
+// 动图逐帧保存 RGBA，限制尺寸控制内存与文件大小
+const APNG_MAX_SIZE = 360;
+
+const pickVideoMimeType = () =>
+  VIDEO_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? "";
+
+export class AvatarRecorder {
+  private format: CaptureFormat | null = null;
+  private cleanup: Array<() => void> = [];
+
+  // video
+  private mediaRecorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+
+  // apng
+  private apngFrames: Array<Promise<Uint8Array>> = [];
+  private apngSize = { width: 0, height: 0 };
+
+  static isSupported(format: CaptureFormat): boolean {
+    if (typeof document === "undefined") return false;
+    if (format === "apng") return typeof CompressionStream !== "undefined";
+    return (
+      typeof MediaRecorder !== "undefined" &&
+      "captureStream" in HTMLCanvasElement.prototype
+    );
+  }
+
+  get isRecording(): boolean {
+    return this.format !== null;
+  }
+
+  /**
+   * @param onLimit 动图达到最长时长时调用，调用方应随后 stop() 取得结果
+   */
+  async start(
+    source: CaptureSource,
+    options: CaptureOptions,
+    onLimit?: () => void,
+  ): Promise<Result<void>> {
+    if (this.isRecording) return err("invalid_arguments", "已经在录制中");
+    if (!AvatarRecorder.isSupported(options.format)) {
+      return err("unsupported", "当前浏览器不支持录制画面");
+    }
+
+    const result =
+      options.format === "video"
+        ? await this.startVideo(source, options)
+        : this.startApng(source, options, onLimit);
+    if (result.error !== null) this.release();
+    else this.format = options.format;
+    return result;
+  }
+
+  async stop(): Promise<Result<CaptureResult>> {
+    const format = this.format;
+    if (format === null) return err("invalid_arguments", "没有在录制");
+
+    try {
+      return format === "video"
+        ? await this.stopVideo()
+        : await this.stopApng();
+    } catch (e) {
+      return fail(toResultError(e, "unknown", "录制导出失败"));
+    } finally {
+      this.release();
+    }
+  }
+
+  /** 放弃当前录制 */
+  cancel() {
+    if (this.mediaRecorder?.state === "recording") this.mediaRecorder.stop();
+    this.release();
+  }
+
+  private async startVideo(
+    source: CaptureSource,
+    { background = null, includeMicrophone = false }: CaptureOptions,
+  ): Promise<Result<void>> {
+    const composite = this.createComposite(
+      source,
+      source.canvas.width,
+      source.canvas.height,
+      background,
+    );
+    const stream = composite.captureStream(VIDEO_FPS);
+
+    if (includeMicrophone) {
+      try {
+        const mic = await navigator.mediaDevices.getUserMedia({ audio: true });
+        mic.getAudioTracks().forEach((track) => stream.addTrack(track));
+        this.cleanup.push(() => mic.getTracks().forEach((t) => t.stop()));
+      } catch (e) {
+        return toMediaDeviceError(e, "麦克风");
+      }
+    }
+
+    const mimeType = pickVideoMimeType();
+    let recorder: MediaRecorder;
+    try {
+      recorder = new MediaRecorder(stream, {
+        mimeType: mimeType || undefined,
+        videoBitsPerSecond: VIDEO_BITS_PER_SECOND,
+      });
+    } catch (e) {
+      return fail(toResultError(e, "unsupported", "无法创建视频编码器"));
+    }
+
+    this.chunks = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) this.chunks.push(e.data);
+    };
+    recorder.start(1000);
+    this.mediaRecorder = recorder;
+    console.log(`[AvatarRecorder] Recording video (${recorder.mimeType})`);
+    return ok(undefined);
+  }
+
+  private stopVideo(): Promise<Result<CaptureResult>> {
+    const recorder = this.mediaRecorder;
+    if (!recorder) return Promise.resolve(err("aborted", "录制已取消"));
+
+    return new Promise((resolve) => {
+      recorder.onstop = () => {
+        const type = recorder.mimeType || "video/webm";
+        const blob = new Blob(this.chunks, { type });
+        this.chunks = [];
+        resolve(
+          blob.size > 0
+            ? ok({ blob, extension: type.includes("mp4") ? ".mp4" : ".webm" })
+            : err("unknown", "没有录到任何画面"),
+        );
+      };
+      recorder.stop();
+    });
+  }
+
+  private startApng(
+    source: CaptureSource,
+    { background = null }: CaptureOptions,
+    onLimit?: () => void,
+  ): Result<void> {
+    const scale = Math.min(
+      1,
+      APNG_MAX_SIZE / Math.max(source.canvas.width, source.canvas.height),
+    );
+    const composite = this.createComposite(
+      source,
+      Math.max(1, Math.round(source.canvas.width * scale)),
+      Math.max(1, Math.round(source.canvas.height * scale)),
+      background,
+    );
+    // 合成画布会取偶数尺寸，APNG 按实际画布大小截帧
+    const { width, height } = composite;
+    this.apngSize = { width, height };
+    this.apngFrames = [];
+
+    const ctx = composite.getContext("2d", { willReadFrequently: true });
+    if (!ctx) return err("unsupported", "无法创建 2D 画布");
+
+    const interval = 1000 / APNG_FPS;
+    let startedAt: number | null = null;
+    let nextFrameAt = 0;
+    let limited = false;
+
+    // 在合成之后截帧（createComposite 先注册，回调按注册顺序执行）
+    this.cleanup.push(
+      source.onAfterRender(() => {
+        const now = performance.now();
+        startedAt ??= now;
+        if (limited || now < nextFrameAt) return;
+        if (now - startedAt >= APNG_MAX_DURATION_MS) {
+          limited = true;
+          onLimit?.();
+          return;
+        }
+        nextFrameAt = Math.max(nextFrameAt + interval, now);
+        this.apngFrames.push(
+          deflateFrame(ctx.getImageData(0, 0, width, height)),
+        );
+      }),
+    );
+    console.log(`[AvatarRecorder] Recording APNG ${width}x${height}`);
+    return ok(undefined);
+  }
+
+  private async stopApng(): Promise<Result<CaptureResult>> {
+    const frames = await Promise.all(this.apngFrames);
+    this.apngFrames = [];
+    if (frames.length === 0) return err("unknown", "没有录到任何画面");
+    const { width, height } = this.apngSize;
+    return ok({
+      blob: assembleApng(width, height, frames, 1000 / APNG_FPS),
+      extension: ".png",
+    });
+  }
+
+  /**
+   * 每次渲染后把源画布缩放绘制到合成画布
+   */
+  private createComposite(
+    source: CaptureSource,
+    width: number,
+    height: number,
+    background: string | null,
+  ): HTMLCanvasElement {
+    const canvas = document.createElement("canvas");
+    // 部分视频编码器要求偶数尺寸
+    canvas.width = Math.max(2, width - (width % 2));
+    canvas.height = Math.max(2, height - (height % 2));
+    const ctx = canvas.getContext("2d");
+
+    this.cleanup.push(
+      source.onAfterRender(() => {
+        if (!ctx) return;
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        if (background) {
+          ctx.fillStyle = background;
+          ctx.fillRect(0, 0, canvas.width, canvas.height);
+        }
+        ctx.drawImage(source.canvas, 0, 0, canvas.width, canvas.height);
+      }),
+    );
+    return canvas;
+  }
+
+  private release() {
+    this.cleanup.forEach((fn) => fn());
+    this.cleanup = [];
+    this.mediaRecorder = null;
+    this.format = null;
+  }
+}
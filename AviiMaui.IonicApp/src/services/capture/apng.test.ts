@@ -0,0 +1,79 @@
+import { assembleApng, crc32, deflateFrame } from "./apng";
+
+const readChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Array<{ type: string; data: Uint8Array }> = [];
+  let offset = 8;
+  while (offset < bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({
+      type,
+      data: bytes.subarray(offset + 8, offset + 8 + length),
+    });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+const toBytes = async (blob: Blob) =>
+  new Uint8Array(
+    await new Promise<ArrayBuffer>((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as ArrayBuffer);
+      reader.readAsArrayBuffer(blob);
+    }),
+  );
+
+describe("crc32", () => {
+  it("matches the PNG IEND checksum", () => {
+    expect(crc32(new TextEncoder().encode("IEND"))).toBe(0xae426082);
+  });
+});
+
+describe("assembleApng", () => {
+  it("writes frames with increasing sequence numbers", async () => {
+    const frames = [Uint8Array.of(1, 2), Uint8Array.of(3), Uint8Array.of(4)];
+    const blob = assembleApng(2, 1, frames, 100);
+    expect(blob.type).toBe("image/png");
+
+    const bytes = await toBytes(blob);
+    expect([...bytes.subarray(0, 8)]).toEqual([
+      137, 80, 78, 71, 13, 10, 26, 10,
+    ]);
+
+    const chunks = readChunks(bytes);
+    expect(chunks.map((c) => c.type)).toEqual([
+      "IHDR",
+      "acTL",
+      "fcTL",
+      "IDAT",
+      "fcTL",
+      "fdAT",
+      "fcTL",
+      "fdAT",
+      "IEND",
+    ]);
+
+    const u32 = (data: Uint8Array) =>
+      new DataView(data.buffer, data.byteOffset).getUint32(0);
+    // acTL: 帧数
+    expect(u32(chunks[1].data)).toBe(3);
+    // fcTL / fdAT 共用一个从 0 开始的序号
+    const sequences = chunks
+      .filter((c) => c.type === "fcTL" || c.type === "fdAT")
+      .map((c) => u32(c.data));
+    expect(sequences).toEqual([0, 1, 2, 3, 4]);
+    expect([...chunks[3].data]).toEqual([1, 2]);
+    expect([...chunks[5].data.subarray(4)]).toEqual([3]);
+  });
+});
+
+describe.runIf(typeof CompressionStream !== "undefined")("deflateFrame", () => {
+  it("produces a zlib stream", async () => {
+    const data = new Uint8ClampedArray(2 * 2 * 4).fill(255);
+    const deflated = await deflateFrame({ width: 2, height: 2, data });
+    // zlib header: CMF = 0x78
+    expect(deflated[0]).toBe(0x78);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * APNG encoder
+ *
+ * 动图导出：每帧 RGBA 直接存储（滤波方式 0），用浏览器自带的 CompressionStream
+ * 做 zlib 压缩，不需要额外依赖，并且保留透明背景（GIF 只有 1 位透明）。
+ */
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const b of bytes) crc = CRC_TABLE[(crc ^ b) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+class ByteWriter {
+  private bytes: number[] = [];
+  u8(v: number) {
+    this.bytes.push(v & 0xff);
+    return this;
+  }
+  u16(v: number) {
+    return this.u8(v >>> 8).u8(v);
+  }
+  u32(v: number) {
+    return this.u8(v >>> 24)
+      .u8(v >>> 16)
+      .u8(v >>> 8)
+      .u8(v);
+  }
+  toArray() {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+/**
+ * 把一帧 RGBA 压缩成 IDAT / fdAT 的数据部分
+ */
+export async function deflateFrame(
+  image: Pick<ImageData, "width" | "height" | "data">,
+): Promise<Uint8Array> {
+  const { width, height, data } = image;
+  const stride = width * 4;
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    // 每行首字节为滤波方式，0 = None
+    raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+  const compression = new CompressionStream("deflate");
+  const writer = compression.writable.getWriter();
+  void writer.write(raw);
+  void writer.close();
+  return new Uint8Array(await new Response(compression.readable).arrayBuffer());
+}
+
+/**
+ * 拼装 APNG 文件
+ * @param frames deflateFrame 的输出
+ * @param loops 循环次数，0 = 无限
+ */
+export function assembleApng(
+  width: number,
+  height: number,
+  frames: Uint8Array[],
+  delayMs: number,
+  loops = 0,
+): Blob {
+  const parts: Uint8Array<ArrayBuffer>[] = [Uint8Array.from(PNG_SIGNATURE)];
+
+  parts.push(
+    chunk(
+      "IHDR",
+      new ByteWriter()
+        .u32(width)
+        .u32(height)
+        .u8(8) // bit depth
+        .u8(6) // RGBA
+        .u8(0) // deflate
+        .u8(0) // filter method
+        .u8(0) // no interlace
+        .toArray(),
+    ),
+  );
+  parts.push(
+    chunk("acTL", new ByteWriter().u32(frames.length).u32(loops).toArray()),
+  );
+
+  let sequence = 0;
+  frames.forEach((frame, i) => {
+    parts.push(
+      chunk(
+        "fcTL",
+        new ByteWriter()
+          .u32(sequence++)
+          .u32(width)
+          .u32(height)
+          .u32(0) // x offset
+          .u32(0) // y offset
+          .u16(Math.round(delayMs))
+          .u16(1000)
+          .u8(0) // dispose: none
+          .u8(0) // blend: source（整帧覆盖，包括透明像素）
+          .toArray(),
+      ),
+    );
+    if (i === 0) {
+      parts.push(chunk("IDAT", frame));
+    } else {
+      const data = new Uint8Array(4 + frame.length);
+      new DataView(data.buffer).setUint32(0, sequence++);
+      data.set(frame, 4);
+      parts.push(chunk("fdAT", data));
+    }
+  });
+
+  parts.push(chunk("IEND", new Uint8Array(0)));
+  // image/png：分享面板与相册对 image/apng 的支持不如 png
+  return new Blob(parts, { type: "image/png" });
+}
@@ -0,0 +1,51 @@
+import {
+  DEFAULT_SCREENSHOT_SETTINGS,
+  ScreenshotSettingsSchema,
+  fitFraming,
+} from "./still";
+
+describe("fitFraming", () => {
+  const screen = { width: 400, height: 800 };
+
+  it("keeps a centered viewport centered at any resolution", () => {
+    const framing = fitFraming(
+      screen,
+      { width: 1080, height: 1920 },
+      { x: 200, y: 400 },
+    );
+    expect(framing.scale).toBeCloseTo(2.4);
+    expect(framing.x).toBe(540);
+    expect(framing.y).toBe(960);
+  });
+
+  it("scales the pan offset with the output", () => {
+    const framing = fitFraming(
+      screen,
+      { width: 800, height: 1600 },
+      { x: 250, y: 350 },
+    );
+    expect(framing.scale).toBe(2);
+    expect(framing.x).toBe(400 + 50 * 2);
+    expect(framing.y).toBe(800 - 50 * 2);
+  });
+
+  it("fits the whole screen inside a wider output", () => {
+    const framing = fitFraming(
+      screen,
+      { width: 1920, height: 1080 },
+      { x: 200, y: 400 },
+    );
+    expect(framing.scale).toBeCloseTo(1080 / 800);
+  });
+});
+
+describe("ScreenshotSettingsSchema", () => {
+  it("fills defaults and rejects oversized output", () => {
+    expect(ScreenshotSettingsSchema.parse({})).toEqual(
+      DEFAULT_SCREENSHOT_SETTINGS,
+    );
+    expect(ScreenshotSettingsSchema.safeParse({ width: 10000 }).success).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import { z } from "zod";
+import { err, ok, type Result } from "../result";
+
+/**
+ * Still capture
+ * 截图：按指定分辨率重新渲染当前姿态（与屏幕尺寸无关），
+ * PNG 保留透明通道，JPEG 填充背景色。
+ */
+
+export const STILL_MAX_SIZE = 4096;
+
+export const StillFormatSchema = z.enum(["png", "jpeg"]);
+export type StillFormat = z.infer<typeof StillFormatSchema>;
+
+export const ScreenshotSettingsSchema = z.object({
+  width: z.number().int().min(64).max(STILL_MAX_SIZE).default(1080),
+  height: z.number().int().min(64).max(STILL_MAX_SIZE).default(1440),
+  format: StillFormatSchema.default("png"),
+  /** JPEG 背景色 */
+  background: z.string().default("#ffffff"),
+  /** JPEG 质量 0 - 1 */
+  quality: z.number().min(0.1).max(1).default(0.92),
+});
+export type ScreenshotSettings = z.infer<typeof ScreenshotSettingsSchema>;
+export const DEFAULT_SCREENSHOT_SETTINGS = ScreenshotSettingsSchema.parse({});
+
+export interface StillOptions {
+  width: number;
+  height: number;
+  format: StillFormat;
+  background?: string;
+  quality?: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface Framing {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * 把屏幕上的取景等比映射到输出尺寸：屏幕可见区域完整落在输出内并居中
+ * @param position 视口容器在屏幕上的位置
+ */
+export function fitFraming(
+  screen: Size,
+  target: Size,
+  position: { x: number; y: number },
+): Framing {
+  const scale = Math.min(
+    target.width / screen.width,
+    target.height / screen.height,
+  );
+  return {
+    scale,
+    x: target.width / 2 + (position.x - screen.width / 2) * scale,
+    y: target.height / 2 + (position.y - screen.height / 2) * scale,
+  };
+}
+
+export const stillExtension = (format: StillFormat) =>
+  format === "png" ? ".png" : ".jpg";
+
+/**
+ * 编码渲染结果；JPEG 没有透明通道，先铺背景色
+ */
+export function encodeStill(
+  source: HTMLCanvasElement,
+  { format, background, quality = 0.92 }: StillOptions,
+): Promise<Result<Blob>> {
+  const fill = format === "jpeg" ? (background ?? "#ffffff") : background;
+  let canvas = source;
+  if (fill) {
+    canvas = document.createElement("canvas");
+    canvas.width = source.width;
+    canvas.height = source.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return Promise.resolve(err("unsupported", "无法创建 2D 画布"));
+    ctx.fillStyle = fill;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(source, 0, 0);
+  }
+
+  return new Promise((resolve) =>
+    canvas.toBlob(
+      (blob) => resolve(blob ? ok(blob) : err("unknown", "图片编码失败")),
+      `image/${format}`,
+      quality,
+    ),
+  );
+}
@@ -0,0 +1,252 @@
+import type {
+  FaceLandmarker,
+  FaceLandmarkerResult,
+} from "@mediapipe/tasks-vision";
+import wasmLoaderUrl from "@mediapipe/tasks-vision/vision_wasm_internal.js?url";
+import wasmBinaryUrl from "@mediapipe/tasks-vision/vision_wasm_internal.wasm?url";
+import nosimdLoaderUrl from "@mediapipe/tasks-vision/vision_wasm_nosimd_internal.js?url";
+import nosimdBinaryUrl from "@mediapipe/tasks-vision/vision_wasm_nosimd_internal.wasm?url";
+import type { FaceTrackingData } from "../bridgeMessages";
+import {
+  err,
+  fail,
+  ok,
+  toResultError,
+  type Result,
+  type ResultError,
+} from "../result";
+import { toMediaDeviceError } from "../mediaErrors";
+import { blendshapesToFaceData, type BlendshapeScores } from "./blendshapes";
+
+/**
+ * WebFaceTracker
+ * 非 iOS 环境（Android / Windows / 浏览器）的面部追踪：
+ * getUserMedia 摄像头 + MediaPipe Face Landmarker（WASM，浏览器内推理）。
+ *
+ * 输出与原生 ARKit 追踪相同的 `FaceTrackingData`。
+ *
+ * WASM 取自已安装的 @mediapipe/tasks-vision（由 Vite 打包，版本与 JS 一致），
+ * 模型由 scripts/fetch-face-landmarker.mjs 在构建前下载到 public/，离线也能追踪。
+ */
+
+const FACE_LANDMARKER_MODEL_URL = "mediapipe/face_landmarker.task";
+
+type WasmFileset = Parameters<typeof FaceLandmarker.createFromOptions>[0];
+
+export interface WebFaceTrackerOptions {
+  /** 从其他位置加载 WASM（目录下需有 vision_wasm_internal.js / .wasm） */
+  wasmBaseUrl?: string;
+  modelAssetPath?: string;
+}
+
+async function resolveWasmFileset(
+  wasmBaseUrl: string | undefined,
+): Promise<WasmFileset> {
+  const { FilesetResolver } = await import("@mediapipe/tasks-vision");
+  if (wasmBaseUrl) return FilesetResolver.forVisionTasks(wasmBaseUrl);
+  // 与 FilesetResolver 相同：不支持 SIMD 的设备使用 nosimd 版本
+  return (await FilesetResolver.isSimdSupported())
+    ? { wasmLoaderPath: wasmLoaderUrl, wasmBinaryPath: wasmBinaryUrl }
+    : { wasmLoaderPath: nosimdLoaderUrl, wasmBinaryPath: nosimdBinaryUrl };
+}
+
+// 模型加载较慢（WASM + ~4MB 模型），全局只加载一次
+let landmarkerPromise: Promise<FaceLandmarker> | null = null;
+
+function loadFaceLandmarker(
+  wasmBaseUrl: string | undefined,
+  modelAssetPath: string,
+): Promise<FaceLandmarker> {
+  landmarkerPromise ??= (async () => {
+    const { FaceLandmarker } = await import("@mediapipe/tasks-vision");
+    const fileset = await resolveWasmFileset(wasmBaseUrl);
+    return FaceLandmarker.createFromOptions(fileset, {
+      baseOptions: { modelAssetPath, delegate: "GPU" },
+      runningMode: "VIDEO",
+      numFaces: 1,
+      outputFaceBlendshapes: true,
+      outputFacialTransformationMatrixes: true,
+    });
+  })().catch((e) => {
+    // 允许下次重试
+    landmarkerPromise = null;
+    throw e;
+  });
+  return landmarkerPromise;
+}
+
+/**
+ * 与原生 includeRawData 模式相同：始终附带原始 blendShapes 与 headTransform
+ */
+export function toFaceTrackingData(
+  result: FaceLandmarkerResult,
+  timestamp?: number,
+): FaceTrackingData | null {
+  const categories = result.faceBlendshapes[0]?.categories;
+  if (!categories) return null;
+
+  const blendShapes: BlendshapeScores = {};
+  for (const c of categories) blendShapes[c.categoryName] = c.score;
+  const headTransform = result.facialTransformationMatrixes[0]?.data;
+
+  return {
+    ...blendshapesToFaceData(blendShapes, headTransform),
+    timestamp,
+    blendShapes,
+    headTransform: headTransform ? Array.from(headTransform) : null,
+  };
+}
+
+export class WebFaceTracker {
+  private options: WebFaceTrackerOptions;
+  private stream: MediaStream | null = null;
+  private video: HTMLVideoElement | null = null;
+  private overlay: HTMLCanvasElement | null = null;
+  private frameHandle: number | null = null;
+  private lastVideoTime = -1;
+  // 每次 start / stop 递增，用于丢弃过期的异步启动
+  private generation = 0;
+
+  constructor(options: WebFaceTrackerOptions = {}) {
+    this.options = options;
+  }
+
+  static isSupported(): boolean {
+    return (
+      typeof navigator !== "undefined" &&
+      !!navigator.mediaDevices?.getUserMedia &&
+      typeof WebAssembly !== "undefined"
+    );
+  }
+
+  get isRunning(): boolean {
+    return this.stream !== null;
+  }
+
+  /**
+   * 打开摄像头并开始逐帧推理。
+   * @param video 用于播放摄像头画面的 video 元素（可以是页面上的预览，也可以是离屏元素）
+   * @param overlay 调试用：把关键点画到这个 canvas 上
+   * @param onError 启动后推理出错时调用，此时追踪已停止
+   */
+  async start(
+    video: HTMLVideoElement,
+    onFrame: (data: FaceTrackingData) => void,
+    overlay: HTMLCanvasElement | null = null,
+    onError?: (error: ResultError) => void,
+  ): Promise<Result<void>> {
+    if (this.isRunning) return ok(undefined);
+    if (!WebFaceTracker.isSupported()) {
+      return err("unsupported", "当前浏览器不支持摄像头");
+    }
+    const generation = ++this.generation;
+    const stopped = () => generation !== this.generation;
+
+    let landmarker: FaceLandmarker;
+    try {
+      landmarker = await loadFaceLandmarker(
+        this.options.wasmBaseUrl,
+        this.options.modelAssetPath ?? FACE_LANDMARKER_MODEL_URL,
+      );
+    } catch (e) {
+      return fail(toResultError(e, "unknown", "面部识别模型加载失败"));
+    }
+    if (stopped()) return err("aborted", "Web face tracking stopped");
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: "user", width: 640, height: 480 },
+        audio: false,
+      });
+    } catch (e) {
+      return toMediaDeviceError(e, "摄像头");
+    }
+    if (stopped()) {
+      stream.getTracks().forEach((track) => track.stop());
+      return err("aborted", "Web face tracking stopped");
+    }
+
+    this.stream = stream;
+
+    this.video = video;
+    this.overlay = overlay;
+    video.srcObject = stream;
+    video.muted = true;
+    video.playsInline = true;
+    try {
+      await video.play();
+    } catch (e) {
+      this.stop();
+      return fail(toResultError(e, "unknown", "无法播放摄像头画面"));
+    }
+
+    const loop = () => {
+      if (!this.video) return;
+      // 同一视频帧只推理一次
+      if (this.video.currentTime !== this.lastVideoTime) {
+        this.lastVideoTime = this.video.currentTime;
+        const now = performance.now();
+        let result: FaceLandmarkerResult;
+        try {
+          result = landmarker.detectForVideo(this.video, now);
+        } catch (e) {
+          // WebGL 上下文丢失等错误会一直重复，停止追踪而不是每帧报错
+          console.error("[WebFaceTracker] Detection failed:", e);
+          this.stop();
+          onError?.(toResultError(e, "unknown", "面部识别出错，追踪已停止"));
+          return;
+        }
+        this.drawOverlay(result);
+        const data = toFaceTrackingData(result, now);
+        if (data) onFrame(data);
+      }
+      this.frameHandle = window.requestAnimationFrame(loop);
+    };
+    this.frameHandle = window.requestAnimationFrame(loop);
+
+    console.log("[WebFaceTracker] Started");
+    return ok(undefined);
+  }
+
+  stop(): void {
+    this.generation++;
+    if (this.frameHandle !== null) {
+      window.cancelAnimationFrame(this.frameHandle);
+      this.frameHandle = null;
+    }
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    if (this.video) {
+      this.video.pause();
+      this.video.srcObject = null;
+      this.video = null;
+    }
+    this.lastVideoTime = -1;
+    this.clearOverlay();
+  }
+
+  private drawOverlay(result: FaceLandmarkerResult) {
+    const canvas = this.overlay;
+    const video = this.video;
+    if (!canvas || !video) return;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    if (canvas.width !== video.videoWidth) canvas.width = video.videoWidth;
+    if (canvas.height !== video.videoHeight) canvas.height = video.videoHeight;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    ctx.fillStyle = "#0f0";
+    for (const p of result.faceLandmarks[0] ?? []) {
+      ctx.fillRect(p.x * canvas.width - 1, p.y * canvas.height - 1, 2, 2);
+    }
+  }
+
+  private clearOverlay() {
+    const canvas = this.overlay;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    this.overlay = null;
+  }
+}
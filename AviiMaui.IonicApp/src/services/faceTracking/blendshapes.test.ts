@@ -0,0 +1,64 @@
+import { blendshapesToFaceData, eulerFromMatrix } from "./blendshapes";
+
+// 列主序 4x4
+const identity = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+const yRotation = (rad: number) => {
+  const c = Math.cos(rad);
+  const s = Math.sin(rad);
+  // [ c 0 s ; 0 1 0 ; -s 0 c ] in column-major
+  return [c, 0, -s, 0, 0, 1, 0, 0, s, 0, c, 0, 0, 0, 0, 1];
+};
+
+describe("eulerFromMatrix", () => {
+  it("returns zero angles for the identity matrix", () => {
+    const { pitch, yaw, roll } = eulerFromMatrix(identity);
+    expect(pitch).toBeCloseTo(0);
+    expect(yaw).toBeCloseTo(0);
+    expect(roll).toBeCloseTo(0);
+  });
+
+  it("reads yaw from a rotation around Y", () => {
+    expect(eulerFromMatrix(yRotation(0.5)).yaw).toBeCloseTo(0.5);
+  });
+});
+
+describe("blendshapesToFaceData", () => {
+  it("converts ARKit-named blendshapes like the native service", () => {
+    const data = blendshapesToFaceData(
+      {
+        eyeBlinkLeft: 1,
+        eyeBlinkRight: 0.25,
+        eyeLookOutLeft: 0.6,
+        eyeLookInLeft: 0.1,
+        jawOpen: 0.4,
+        browOuterUpLeft: 0.3,
+        browDownRight: 0.2,
+      },
+      yRotation(Math.PI / 6),
+    );
+
+    expect(data.angleX).toBeCloseTo(30);
+    expect(data.eyeOpenL).toBe(0);
+    expect(data.eyeOpenR).toBe(0.75);
+    expect(data.eyeBallX).toBeCloseTo(0.5);
+    expect(data.mouthOpen).toBe(0.4);
+    expect(data.browL).toBeCloseTo(0.3);
+    expect(data.browR).toBeCloseTo(-0.2);
+  });
+
+  it("treats missing blendshapes and matrix as neutral", () => {
+    expect(blendshapesToFaceData({})).toEqual({
+      angleX: 0,
+      angleY: 0,
+      angleZ: 0,
+      eyeOpenL: 1,
+      eyeOpenR: 1,
+      eyeBallX: 0,
+      eyeBallY: 0,
+      mouthOpen: 0,
+      browL: 0,
+      browR: 0,
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import type { FaceTrackingData } from "../bridgeMessages";
+
+/**
+ * Blendshape -> FaceTrackingData
+ *
+ * MediaPipe Face Landmarker 输出的 52 个 blendshape 与 ARKit 同名
+ * （eyeBlinkLeft、jawOpen ...），因此这里复用 iOS
+ * `FaceTrackingService.ProcessFaceAnchor` 的换算公式，
+ * 保证 Web 追踪与原生追踪产出同样含义的数值。
+ */
+
+/** ARKit 的 52 个 blendshape（MediaPipe 另外输出一个 _neutral） */
+export const ARKIT_BLENDSHAPE_NAMES = [
+  "browDownLeft",
+  "browDownRight",
+  "browInnerUp",
+  "browOuterUpLeft",
+  "browOuterUpRight",
+  "cheekPuff",
+  "cheekSquintLeft",
+  "cheekSquintRight",
+  "eyeBlinkLeft",
+  "eyeBlinkRight",
+  "eyeLookDownLeft",
+  "eyeLookDownRight",
+  "eyeLookInLeft",
+  "eyeLookInRight",
+  "eyeLookOutLeft",
+  "eyeLookOutRight",
+  "eyeLookUpLeft",
+  "eyeLookUpRight",
+  "eyeSquintLeft",
+  "eyeSquintRight",
+  "eyeWideLeft",
+  "eyeWideRight",
+  "jawForward",
+  "jawLeft",
+  "jawOpen",
+  "jawRight",
+  "mouthClose",
+  "mouthDimpleLeft",
+  "mouthDimpleRight",
+  "mouthFrownLeft",
+  "mouthFrownRight",
+  "mouthFunnel",
+  "mouthLeft",
+  "mouthLowerDownLeft",
+  "mouthLowerDownRight",
+  "mouthPressLeft",
+  "mouthPressRight",
+  "mouthPucker",
+  "mouthRight",
+  "mouthRollLower",
+  "mouthRollUpper",
+  "mouthShrugLower",
+  "mouthShrugUpper",
+  "mouthSmileLeft",
+  "mouthSmileRight",
+  "mouthStretchLeft",
+  "mouthStretchRight",
+  "mouthUpperUpLeft",
+  "mouthUpperUpRight",
+  "noseSneerLeft",
+  "noseSneerRight",
+  "tongueOut",
+] as const;
+
+/** blendshape 名称 -> 0..1 权重 */
+export type BlendshapeScores = Record<string, number>;
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+/**
+ * 从 4x4 变换矩阵（列主序，MediaPipe `Matrix.data` 的格式）提取欧拉角（弧度）。
+ * 与 iOS ExtractEulerAngles 一致：M23 -> data[9]，M13 -> data[8] ...
+ */
+export function eulerFromMatrix(data: ArrayLike<number>): {
+  pitch: number;
+  yaw: number;
+  roll: number;
+} {
+  const m = (row: number, col: number) => data[(col - 1) * 4 + (row - 1)];
+  const clamp = (v: number) => Math.max(-1, Math.min(1, v));
+
+  return {
+    pitch: Math.asin(clamp(-m(2, 3))),
+    yaw: Math.atan2(m(1, 3), m(3, 3)),
+    roll: Math.atan2(m(2, 1), m(2, 2)),
+  };
+}
+
+export function blendshapesToFaceData(
+  scores: BlendshapeScores,
+  matrix?: ArrayLike<number>,
+): FaceTrackingData {
+  const s = (name: string) => scores[name] ?? 0;
+  const { pitch, yaw, roll } = matrix
+    ? eulerFromMatrix(matrix)
+    : { pitch: 0, yaw: 0, roll: 0 };
+
+  return {
+    // 头部旋转（角度）
+    angleX: yaw * RAD_TO_DEG,
+    angleY: pitch * RAD_TO_DEG,
+    angleZ: roll * RAD_TO_DEG,
+
+    // 眼睛开合（blendshape 0 = 睁眼，需要反转）
+    eyeOpenL: 1 - s("eyeBlinkLeft"),
+    eyeOpenR: 1 - s("eyeBlinkRight"),
+
+    // 视线方向
+    eyeBallX: s("eyeLookOutLeft") - s("eyeLookInLeft"),
+    eyeBallY: s("eyeLookUpLeft") - s("eyeLookDownLeft"),
+
+    // 嘴巴
+    mouthOpen: s("jawOpen"),
+
+    // 眉毛
+    browL: s("browOuterUpLeft") - s("browDownLeft"),
+    browR: s("browOuterUpRight") - s("browDownRight"),
+  };
+}
@@ -0,0 +1,61 @@
+import type { FaceTrackingData } from "../bridgeMessages";
+import { applyCalibration, computeCalibration } from "./calibration";
+import { NEUTRAL_FACE } from "./parameterMapping";
+
+const frame = (
+  overrides: Partial<FaceTrackingData> = {},
+): FaceTrackingData => ({ ...NEUTRAL_FACE, ...overrides });
+
+describe("calibration", () => {
+  // 手机略微倾斜、眼睛天生睁不满
+  const neutral = [
+    frame({ angleZ: 7, angleY: -4, eyeOpenL: 0.8, eyeOpenR: 0.7 }),
+    frame({ angleZ: 9, angleY: -2, eyeOpenL: 0.8, eyeOpenR: 0.9 }),
+  ];
+  const closed = [frame({ eyeOpenL: 0.2, eyeOpenR: 0.1 })];
+  const calibration = computeCalibration(
+    neutral,
+    closed,
+    new Date("2026-01-01T00:00:00Z"),
+  );
+
+  it("averages the neutral pose and eye extremes", () => {
+    expect(calibration.neutral.angleZ).toBe(8);
+    expect(calibration.neutral.angleY).toBe(-3);
+    expect(calibration.eyeOpenL).toEqual({ open: 0.8, closed: 0.2 });
+    expect(calibration.eyeOpenR.open).toBeCloseTo(0.8);
+    expect(calibration.calibratedAt).toBe("2026-01-01T00:00:00.000Z");
+  });
+
+  it("removes the neutral offset and stretches the eye range", () => {
+    const data = applyCalibration(
+      frame({ angleZ: 8, angleY: -3, eyeOpenL: 0.8, eyeOpenR: 0.45 }),
+      calibration,
+    );
+    expect(data.angleZ).toBe(0);
+    expect(data.angleY).toBe(0);
+    expect(data.eyeOpenL).toBeCloseTo(1);
+    expect(data.eyeOpenR).toBeCloseTo(0.5);
+  });
+
+  it("clamps eyes to 0..1", () => {
+    const data = applyCalibration(
+      frame({ eyeOpenL: 1, eyeOpenR: 0 }),
+      calibration,
+    );
+    expect(data.eyeOpenL).toBe(1);
+    expect(data.eyeOpenR).toBe(0);
+  });
+
+  it("falls back to the default eye range when eyes were not closed", () => {
+    const c = computeCalibration(neutral, neutral);
+    expect(c.eyeOpenL).toEqual({ open: 1, closed: 0 });
+  });
+
+  it("keeps raw blendshapes untouched", () => {
+    const blendShapes = { cheekPuff: 0.3 };
+    expect(
+      applyCalibration(frame({ blendShapes }), calibration).blendShapes,
+    ).toBe(blendShapes);
+  });
+});
@@ -0,0 +1,118 @@
+import { z } from "zod";
+import type { FaceTrackingData } from "../bridgeMessages";
+
+/**
+ * Calibration
+ *
+ * 记录用户的自然姿态与眼睛开合范围，在数据进入 Live2DViewer 之前归一化：
+ * - 角度 / 视线 / 眉毛：减去自然姿态时的均值（手机略微倾斜时模型不再一直歪头）
+ * - 眼睛：按 [闭眼, 睁眼] 区间线性映射到 [0, 1]
+ * - 嘴巴：减去静止时的张嘴量
+ *
+ * 只处理 FaceTrackingData 的基础字段，原始 blendShapes 原样传递。
+ */
+
+const RangeSchema = z.object({ closed: z.number(), open: z.number() });
+
+export const CalibrationSchema = z.object({
+  neutral: z.object({
+    angleX: z.number(),
+    angleY: z.number(),
+    angleZ: z.number(),
+    eyeBallX: z.number(),
+    eyeBallY: z.number(),
+    browL: z.number(),
+    browR: z.number(),
+    mouthOpen: z.number(),
+  }),
+  eyeOpenL: RangeSchema,
+  eyeOpenR: RangeSchema,
+  /** ISO 时间，仅用于显示 */
+  calibratedAt: z.string(),
+});
+export type Calibration = z.infer<typeof CalibrationSchema>;
+
+type NeutralKey = keyof Calibration["neutral"];
+const NEUTRAL_KEYS: NeutralKey[] = [
+  "angleX",
+  "angleY",
+  "angleZ",
+  "eyeBallX",
+  "eyeBallY",
+  "browL",
+  "browR",
+  "mouthOpen",
+];
+
+// 睁眼与闭眼差距太小时说明闭眼阶段没做好，退回默认区间
+const MIN_EYE_RANGE = 0.2;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+const average = (
+  samples: readonly FaceTrackingData[],
+  key: keyof FaceTrackingData,
+): number => {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (const s of samples) sum += (s[key] as number) ?? 0;
+  return sum / samples.length;
+};
+
+const eyeRange = (open: number, closed: number) =>
+  open - closed >= MIN_EYE_RANGE ? { open, closed } : { open: 1, closed: 0 };
+
+/**
+ * 由两段采样计算校准值
+ * @param neutralSamples 看向正前方、自然表情、睁眼
+ * @param closedSamples 保持姿势闭上双眼
+ */
+export function computeCalibration(
+  neutralSamples: readonly FaceTrackingData[],
+  closedSamples: readonly FaceTrackingData[],
+  now: Date = new Date(),
+): Calibration {
+  const neutral = {} as Calibration["neutral"];
+  for (const key of NEUTRAL_KEYS) neutral[key] = average(neutralSamples, key);
+
+  return {
+    neutral,
+    eyeOpenL: eyeRange(
+      average(neutralSamples, "eyeOpenL"),
+      average(closedSamples, "eyeOpenL"),
+    ),
+    eyeOpenR: eyeRange(
+      average(neutralSamples, "eyeOpenR"),
+      average(closedSamples, "eyeOpenR"),
+    ),
+    calibratedAt: now.toISOString(),
+  };
+}
+
+export function applyCalibration(
+  data: FaceTrackingData,
+  calibration: Calibration,
+): FaceTrackingData {
+  const { neutral, eyeOpenL, eyeOpenR } = calibration;
+  const normalizeEye = (v: number, range: z.infer<typeof RangeSchema>) =>
+    clamp01((v - range.closed) / (range.open - range.closed));
+
+  return {
+    ...data,
+    angleX: data.angleX - neutral.angleX,
+    angleY: data.angleY - neutral.angleY,
+    angleZ: data.angleZ - neutral.angleZ,
+    eyeBallX: data.eyeBallX - neutral.eyeBallX,
+    eyeBallY: data.eyeBallY - neutral.eyeBallY,
+    browL: data.browL - neutral.browL,
+    browR: data.browR - neutral.browR,
+    eyeOpenL: normalizeEye(data.eyeOpenL, eyeOpenL),
+    eyeOpenR: normalizeEye(data.eyeOpenR, eyeOpenR),
+    mouthOpen:
+      neutral.mouthOpen < 1
+        ? clamp01(
+            (data.mouthOpen - neutral.mouthOpen) / (1 - neutral.mouthOpen),
+          )
+        : data.mouthOpen,
+  };
+}
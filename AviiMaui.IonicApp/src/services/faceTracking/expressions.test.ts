@@ -0,0 +1,60 @@
+import type { FaceTrackingData } from "../bridgeMessages";
+import {
+  DEFAULT_EXPRESSION_SETTINGS,
+  ExpressionTrigger,
+  findExpressionIndex,
+} from "./expressions";
+import { NEUTRAL_FACE } from "./parameterMapping";
+
+const frame = (
+  brow: number,
+  blendShapes?: Record<string, number>,
+): FaceTrackingData => ({
+  ...NEUTRAL_FACE,
+  browL: brow,
+  browR: brow,
+  blendShapes,
+});
+
+describe("ExpressionTrigger", () => {
+  it("activates above the threshold and releases below threshold - hysteresis", () => {
+    const trigger = new ExpressionTrigger(DEFAULT_EXPRESSION_SETTINGS);
+    expect(trigger.update(frame(0.4))).toBeNull();
+    expect(trigger.update(frame(0.6))).toBe("Surprised");
+    // 0.5 - 0.15 以内保持
+    expect(trigger.update(frame(0.4))).toBe("Surprised");
+    expect(trigger.update(frame(0.3))).toBeNull();
+    expect(trigger.update(frame(0.4))).toBeNull();
+  });
+
+  it("requires every condition and prefers earlier rules", () => {
+    const trigger = new ExpressionTrigger({
+      ...DEFAULT_EXPRESSION_SETTINGS,
+      rules: DEFAULT_EXPRESSION_SETTINGS.rules.map((rule) => ({
+        ...rule,
+        enabled: true,
+      })),
+    });
+    expect(trigger.update(frame(0, { mouthSmileLeft: 0.9 }))).toBeNull();
+    expect(
+      trigger.update(frame(0.8, { mouthSmileLeft: 0.9, mouthSmileRight: 0.9 })),
+    ).toBe("Smile");
+  });
+
+  it("does nothing when disabled", () => {
+    const trigger = new ExpressionTrigger({
+      ...DEFAULT_EXPRESSION_SETTINGS,
+      enabled: false,
+    });
+    expect(trigger.update(frame(1))).toBeNull();
+  });
+});
+
+describe("findExpressionIndex", () => {
+  it("matches names case-insensitively without file suffixes", () => {
+    const names = ["Angry.exp3.json", "smile.exp3.json", "f01"];
+    expect(findExpressionIndex(names, "Smile")).toBe(1);
+    expect(findExpressionIndex(names, "F01.exp3.json")).toBe(2);
+    expect(findExpressionIndex(names, "Sad")).toBe(-1);
+  });
+});
@@ -0,0 +1,144 @@
+import { z } from "zod";
+import type { FaceTrackingData } from "../bridgeMessages";
+import { readChannel } from "./parameterMapping";
+
+/**
+ * Expressions
+ *
+ * 由追踪数据触发模型表情（.exp3.json / V2 .exp.json）：
+ * 规则的全部条件满足时激活，激活后各条件的阈值放宽 hysteresis 才会解除，
+ * 避免数值在阈值附近抖动时表情来回切换。多条规则同时激活时取列表中靠前的一条。
+ *
+ * 条件的输入通道与参数映射相同（`browL`、`bs:mouthSmileLeft` ...）。
+ * 默认的微笑规则依赖原始 blendshape，需要在设置中手动开启。
+ */
+
+export const ExpressionComparisonSchema = z.enum(["above", "below"]);
+export type ExpressionComparison = z.infer<typeof ExpressionComparisonSchema>;
+
+export const ExpressionConditionSchema = z.object({
+  input: z.string().min(1),
+  comparison: ExpressionComparisonSchema.default("above"),
+  threshold: z.number(),
+});
+export type ExpressionCondition = z.output<typeof ExpressionConditionSchema>;
+
+export const ExpressionRuleSchema = z.object({
+  /** 表情名，不区分大小写，可省略 .exp3.json 后缀 */
+  expression: z.string().min(1),
+  conditions: z.array(ExpressionConditionSchema).min(1),
+  hysteresis: z.number().min(0).max(1).default(0.1),
+  enabled: z.boolean().default(true),
+});
+export type ExpressionRule = z.output<typeof ExpressionRuleSchema>;
+
+export const DEFAULT_EXPRESSION_RULES: ExpressionRule[] = [
+  {
+    expression: "Smile",
+    conditions: [
+      { input: "bs:mouthSmileLeft", comparison: "above", threshold: 0.5 },
+      { input: "bs:mouthSmileRight", comparison: "above", threshold: 0.5 },
+    ],
+    hysteresis: 0.15,
+    enabled: false,
+  },
+  {
+    expression: "Surprised",
+    conditions: [
+      { input: "browL", comparison: "above", threshold: 0.5 },
+      { input: "browR", comparison: "above", threshold: 0.5 },
+    ],
+    hysteresis: 0.15,
+    enabled: true,
+  },
+];
+
+export const ExpressionSettingsSchema = z.object({
+  /** 由追踪数据自动切换表情；手动选择的表情优先 */
+  enabled: z.boolean().default(true),
+  rules: z.array(ExpressionRuleSchema).default(DEFAULT_EXPRESSION_RULES),
+});
+export type ExpressionSettings = z.output<typeof ExpressionSettingsSchema>;
+
+export const DEFAULT_EXPRESSION_SETTINGS: ExpressionSettings =
+  ExpressionSettingsSchema.parse({});
+
+/**
+ * 模型清单中的表情名去掉文件后缀（部分模型以文件名作为 Name）
+ */
+export const normalizeExpressionName = (name: string) =>
+  name.replace(/(\.exp3?)?\.json$/i, "");
+
+/**
+ * 在模型的表情列表中查找，返回下标；找不到时返回 -1
+ */
+export function findExpressionIndex(names: string[], name: string): number {
+  const target = normalizeExpressionName(name).toLowerCase();
+  return names.findIndex(
+    (n) => normalizeExpressionName(n).toLowerCase() === target,
+  );
+}
+
+function conditionHolds(
+  condition: ExpressionCondition,
+  data: FaceTrackingData,
+  margin: number,
+): boolean {
+  const value = readChannel(data, condition.input);
+  if (value === undefined) return false;
+  return condition.comparison === "above"
+    ? value >= condition.threshold - margin
+    : value <= condition.threshold + margin;
+}
+
+/**
+ * 启用的规则用到的输入通道（用于判断是否需要原始数据）
+ */
+export const expressionInputs = (settings: ExpressionSettings): string[] =>
+  settings.enabled
+    ? settings.rules
+        .filter((rule) => rule.enabled)
+        .flatMap((rule) => rule.conditions.map((c) => c.input))
+    : [];
+
+/**
+ * 带滞回的表情触发器，每帧追踪数据调用一次 update
+ */
+export class ExpressionTrigger {
+  private active = new Set<ExpressionRule>();
+
+  constructor(
+    private settings: ExpressionSettings = DEFAULT_EXPRESSION_SETTINGS,
+  ) {}
+
+  setSettings(settings: ExpressionSettings) {
+    this.settings = settings;
+    this.active.clear();
+  }
+
+  reset() {
+    this.active.clear();
+  }
+
+  /**
+   * @returns 应显示的表情名；没有规则激活时返回 null
+   */
+  update(data: FaceTrackingData): string | null {
+    if (!this.settings.enabled) return null;
+
+    let result: string | null = null;
+    for (const rule of this.settings.rules) {
+      const margin = this.active.has(rule) ? rule.hysteresis : 0;
+      const holds =
+        rule.enabled &&
+        rule.conditions.every((c) => conditionHolds(c, data, margin));
+      if (holds) {
+        this.active.add(rule);
+        result ??= rule.expression;
+      } else {
+        this.active.delete(rule);
+      }
+    }
+    return result;
+  }
+}
@@ -0,0 +1,75 @@
+import {
+  DEFAULT_IDLE_SETTINGS,
+  IdleAnimator,
+  TrackingBlend,
+  mixFaceData,
+} from "./idle";
+import { NEUTRAL_FACE } from "./parameterMapping";
+
+describe("IdleAnimator", () => {
+  it("blinks once per scheduled interval", () => {
+    // random() = 0 -> 每 2 秒眨一次
+    const animator = new IdleAnimator(DEFAULT_IDLE_SETTINGS, () => 0);
+    expect(animator.sample(0).face.eyeOpenL).toBe(1);
+    expect(animator.sample(1000).face.eyeOpenL).toBe(1);
+    expect(animator.sample(2060).face.eyeOpenL).toBeCloseTo(0, 5);
+    expect(animator.sample(2150).face.eyeOpenL).toBe(1);
+  });
+
+  it("keeps eyes open and the head still when everything is off", () => {
+    const animator = new IdleAnimator({
+      ...DEFAULT_IDLE_SETTINGS,
+      autoBlink: false,
+      breath: false,
+      headSway: false,
+    });
+    for (const t of [0, 2060, 5000]) {
+      const { face, breath } = animator.sample(t);
+      expect(face).toEqual(NEUTRAL_FACE);
+      expect(breath).toBe(0);
+    }
+  });
+});
+
+describe("TrackingBlend", () => {
+  const settings = {
+    ...DEFAULT_IDLE_SETTINGS,
+    lossTimeoutMs: 1000,
+    fadeMs: 500,
+  };
+
+  it("fades in after data arrives and out after the loss timeout", () => {
+    const blend = new TrackingBlend(settings);
+    expect(blend.update(0)).toBe(0);
+
+    blend.markTracked(0);
+    expect(blend.update(250)).toBeCloseTo(0.5);
+    expect(blend.update(600)).toBe(1);
+
+    // 1000ms 内仍视为追踪中
+    expect(blend.update(1000)).toBe(1);
+    expect(blend.isTracking(1100)).toBe(false);
+    expect(blend.update(1350)).toBeCloseTo(0.3);
+    expect(blend.update(2000)).toBe(0);
+  });
+
+  it("switches instantly without a fade", () => {
+    const blend = new TrackingBlend({ ...settings, fadeMs: 0 });
+    blend.update(0);
+    blend.markTracked(10);
+    expect(blend.update(20)).toBe(1);
+  });
+});
+
+describe("mixFaceData", () => {
+  it("interpolates basic channels and blendshapes", () => {
+    const mixed = mixFaceData(
+      NEUTRAL_FACE,
+      { ...NEUTRAL_FACE, angleX: 1, mouthOpen: 1, blendShapes: { jawOpen: 1 } },
+      0.25,
+    );
+    expect(mixed.angleX).toBe(0.25);
+    expect(mixed.mouthOpen).toBe(0.25);
+    expect(mixed.blendShapes).toEqual({ jawOpen: 0.25 });
+  });
+});
@@ -0,0 +1,186 @@
+import { z } from "zod";
+import type { FaceTrackingData } from "../bridgeMessages";
+import { BASIC_CHANNELS } from "./parameterMapping";
+
+/**
+ * Idle
+ *
+ * 没有追踪数据时（未开启追踪或脸离开画面）由 IdleAnimator 生成自动眨眼、
+ * 呼吸与轻微摆头，输出与追踪相同的 FaceTrackingData，经过同一套参数映射。
+ * TrackingBlend 根据最近一次收到追踪数据的时间在两者之间交叉淡化。
+ */
+
+export const IdleSettingsSchema = z.object({
+  enabled: z.boolean().default(true),
+  /** 超过该时间没有追踪数据即视为丢失（毫秒） */
+  lossTimeoutMs: z.number().min(100).max(10000).default(1000),
+  /** 追踪 <-> 待机 交叉淡化时长（毫秒） */
+  fadeMs: z.number().min(0).max(5000).default(600),
+  autoBlink: z.boolean().default(true),
+  breath: z.boolean().default(true),
+  headSway: z.boolean().default(true),
+  /** 待机时随机播放模型的 Idle 动作组 */
+  idleMotions: z.boolean().default(true),
+});
+export type IdleSettings = z.output<typeof IdleSettingsSchema>;
+
+export const DEFAULT_IDLE_SETTINGS: IdleSettings = IdleSettingsSchema.parse({});
+
+export interface IdlePose {
+  face: FaceTrackingData;
+  /** ParamBreath，0..1 */
+  breath: number;
+}
+
+const BLINK_DURATION_MS = 150;
+// 闭眼比睁眼快
+const BLINK_CLOSE_RATIO = 0.4;
+const BLINK_INTERVAL_MIN_MS = 2000;
+const BLINK_INTERVAL_MAX_MS = 6000;
+const BREATH_PERIOD_S = 3.5;
+
+const wave = (t: number, period: number, phase = 0) =>
+  Math.sin((2 * Math.PI * t) / period + phase);
+
+/**
+ * 待机姿态生成器
+ */
+export class IdleAnimator {
+  private nextBlinkAt: number | null = null;
+
+  constructor(
+    private settings: IdleSettings = DEFAULT_IDLE_SETTINGS,
+    private random: () => number = Math.random,
+  ) {}
+
+  setSettings(settings: IdleSettings) {
+    this.settings = settings;
+  }
+
+  /**
+   * @param nowMs 单调时间（毫秒）
+   */
+  sample(nowMs: number): IdlePose {
+    const { autoBlink, breath, headSway } = this.settings;
+    const t = nowMs / 1000;
+    const breathValue = breath ? 0.5 + 0.5 * wave(t, BREATH_PERIOD_S) : 0;
+    const eyeOpen = autoBlink ? this.blink(nowMs) : 1;
+
+    return {
+      face: {
+        angleX: headSway ? 4 * wave(t, 6.3) + 1.5 * wave(t, 2.9, 1) : 0,
+        // 呼吸时头部随之轻微上下
+        angleY:
+          (headSway ? 3 * wave(t, 5.1, 2) : 0) +
+          (breath ? breathValue * 2 - 1 : 0),
+        angleZ: headSway ? 3 * wave(t, 7.7, 0.5) : 0,
+        eyeOpenL: eyeOpen,
+        eyeOpenR: eyeOpen,
+        eyeBallX: headSway ? 0.2 * wave(t, 4.3, 3) : 0,
+        eyeBallY: headSway ? 0.1 * wave(t, 5.9, 1.5) : 0,
+        mouthOpen: 0,
+        browL: 0,
+        browR: 0,
+      },
+      breath: breathValue,
+    };
+  }
+
+  private blink(nowMs: number): number {
+    const start = this.nextBlinkAt ?? this.scheduleBlink(nowMs);
+    const p = (nowMs - start) / BLINK_DURATION_MS;
+    if (p < 0) return 1;
+    if (p >= 1) {
+      this.scheduleBlink(nowMs);
+      return 1;
+    }
+    return p < BLINK_CLOSE_RATIO
+      ? 1 - p / BLINK_CLOSE_RATIO
+      : (p - BLINK_CLOSE_RATIO) / (1 - BLINK_CLOSE_RATIO);
+  }
+
+  private scheduleBlink(nowMs: number): number {
+    this.nextBlinkAt =
+      nowMs +
+      BLINK_INTERVAL_MIN_MS +
+      this.random() * (BLINK_INTERVAL_MAX_MS - BLINK_INTERVAL_MIN_MS);
+    return this.nextBlinkAt;
+  }
+}
+
+/**
+ * 追踪权重：收到数据后淡入到 1，超过 lossTimeoutMs 没有数据后淡出到 0
+ */
+export class TrackingBlend {
+  private lastTrackedAt: number | null = null;
+  private lastUpdateAt: number | null = null;
+  private weight = 0;
+
+  constructor(private settings: IdleSettings = DEFAULT_IDLE_SETTINGS) {}
+
+  setSettings(settings: IdleSettings) {
+    this.settings = settings;
+  }
+
+  reset() {
+    this.lastTrackedAt = null;
+    this.lastUpdateAt = null;
+    this.weight = 0;
+  }
+
+  markTracked(nowMs: number) {
+    this.lastTrackedAt = nowMs;
+  }
+
+  /** 是否在超时时间内收到过追踪数据 */
+  isTracking(nowMs: number): boolean {
+    return (
+      this.lastTrackedAt !== null &&
+      nowMs - this.lastTrackedAt <= this.settings.lossTimeoutMs
+    );
+  }
+
+  /**
+   * 推进淡化并返回当前追踪权重（0 = 完全待机，1 = 完全追踪）
+   */
+  update(nowMs: number): number {
+    const dt = this.lastUpdateAt === null ? 0 : nowMs - this.lastUpdateAt;
+    this.lastUpdateAt = nowMs;
+
+    const target = this.isTracking(nowMs) ? 1 : 0;
+    const { fadeMs } = this.settings;
+    const step = fadeMs > 0 ? dt / fadeMs : 1;
+    this.weight += Math.max(-step, Math.min(step, target - this.weight));
+    return this.weight;
+  }
+}
+
+/**
+ * 在两帧之间插值；blendShapes 缺失的通道按 0 处理
+ */
+export function mixFaceData(
+  from: FaceTrackingData,
+  to: FaceTrackingData,
+  t: number,
+): FaceTrackingData {
+  const result: FaceTrackingData = { ...to };
+  for (const channel of BASIC_CHANNELS) {
+    result[channel] = from[channel] + (to[channel] - from[channel]) * t;
+  }
+
+  if (from.blendShapes || to.blendShapes) {
+    const names = new Set([
+      ...Object.keys(from.blendShapes ?? {}),
+      ...Object.keys(to.blendShapes ?? {}),
+    ]);
+    const blendShapes: Record<string, number> = {};
+    for (const name of names) {
+      const a = from.blendShapes?.[name] ?? 0;
+      const b = to.blendShapes?.[name] ?? 0;
+      blendShapes[name] = a + (b - a) * t;
+    }
+    result.blendShapes = blendShapes;
+  }
+
+  return result;
+}
@@ -0,0 +1,109 @@
+import { DEFAULT_EXPRESSION_SETTINGS, expressionInputs } from "./expressions";
+import {
+  BLENDSHAPE_PRESET_MAPPINGS,
+  DEFAULT_PARAMETER_MAPPINGS,
+  NEUTRAL_FACE,
+  ParameterMappingListSchema,
+  applyMapping,
+  evaluateMappings,
+  needsRawData,
+  type ParameterMapping,
+} from "./parameterMapping";
+
+const mapping = (overrides: Partial<ParameterMapping>): ParameterMapping => ({
+  input: "angleX",
+  parameterId: "ParamAngleX",
+  gain: 1,
+  offset: 0,
+  min: -1,
+  max: 1,
+  curve: "linear",
+  invert: false,
+  ...overrides,
+});
+
+describe("applyMapping", () => {
+  it("applies curve, gain, offset and clamp in order", () => {
+    const m = mapping({ curve: "easeIn", gain: 2, offset: 0.1, max: 10 });
+    expect(applyMapping(m, -0.5)).toBeCloseTo(-0.4);
+    expect(applyMapping(m, 3)).toBe(10);
+  });
+
+  it("inverts within the clamp range", () => {
+    const eye = mapping({ min: 0, max: 1, invert: true });
+    expect(applyMapping(eye, 0.2)).toBeCloseTo(0.8);
+
+    const angle = mapping({ min: -30, max: 30, invert: true });
+    expect(applyMapping(angle, 12)).toBe(-12);
+  });
+});
+
+describe("evaluateMappings", () => {
+  it("keeps the legacy behaviour for the standard parameters", () => {
+    const targets = evaluateMappings(DEFAULT_PARAMETER_MAPPINGS, {
+      ...NEUTRAL_FACE,
+      angleX: 4,
+      mouthOpen: 0.5,
+    });
+
+    expect(targets.ParamAngleX).toBe(10);
+    expect(targets.ParamMouthOpenY).toBe(0.5);
+    expect(targets.ParamEyeLOpen).toBe(1);
+  });
+
+  it("skips blendshape channels when raw data is missing", () => {
+    const targets = evaluateMappings(BLENDSHAPE_PRESET_MAPPINGS, NEUTRAL_FACE);
+    expect(targets).not.toHaveProperty("ParamMouthForm");
+    expect(targets).not.toHaveProperty("ParamCheek");
+  });
+
+  it("sums mappings that target the same parameter", () => {
+    const targets = evaluateMappings(BLENDSHAPE_PRESET_MAPPINGS, {
+      ...NEUTRAL_FACE,
+      blendShapes: {
+        mouthSmileLeft: 1,
+        mouthSmileRight: 0.6,
+        mouthFrownLeft: 0.2,
+        mouthFrownRight: 0,
+        cheekPuff: 0.7,
+      },
+    });
+
+    expect(targets.ParamMouthForm).toBeCloseTo(0.7);
+    expect(targets.ParamCheek).toBeCloseTo(0.7);
+  });
+});
+
+describe("needsRawData", () => {
+  it("does not request raw data with the default settings", () => {
+    expect(
+      needsRawData(
+        DEFAULT_PARAMETER_MAPPINGS,
+        expressionInputs(DEFAULT_EXPRESSION_SETTINGS),
+      ),
+    ).toBe(false);
+  });
+
+  it("requests raw data once a blendshape channel is used", () => {
+    expect(
+      needsRawData([
+        ...DEFAULT_PARAMETER_MAPPINGS,
+        ...BLENDSHAPE_PRESET_MAPPINGS,
+      ]),
+    ).toBe(true);
+    expect(
+      needsRawData(DEFAULT_PARAMETER_MAPPINGS, ["bs:mouthSmileLeft"]),
+    ).toBe(true);
+  });
+});
+
+describe("ParameterMappingListSchema", () => {
+  it("fills defaults for stored mappings", () => {
+    const parsed = ParameterMappingListSchema.parse([
+      { input: "bs:browInnerUp", parameterId: "ParamBrowLAngle" },
+    ]);
+    expect(parsed[0]).toEqual(
+      mapping({ input: "bs:browInnerUp", parameterId: "ParamBrowLAngle" }),
+    );
+  });
+});
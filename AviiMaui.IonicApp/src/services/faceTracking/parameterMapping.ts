@@ -0,0 +1,166 @@
+import { z } from "zod";
+import type { FaceTrackingData } from "../bridgeMessages";
+
+/**
+ * Parameter Mapping
+ *
+ * 把追踪输入通道映射到任意 Live2D 参数：
+ *   value = clamp(curve(input) * gain + offset, min, max)
+ *   invert 时在 [min, max] 内翻转：min + max - value
+ *
+ * 输入通道：
+ * - FaceTrackingData 的数值字段：`angleX`、`eyeOpenL`、`mouthOpen` ...
+ * - 原始 blendshape：`bs:<name>`，例如 `bs:cheekPuff`、`bs:mouthSmileLeft`
+ *   （需要 includeRawData 或 Web 追踪，缺失时该条映射跳过；
+ *   原生追踪只在用到这类通道时才请求原始数据，见 needsRawData）
+ *
+ * 同一参数的多条映射结果相加（例如 MouthForm = 微笑 - 撇嘴）。
+ */
+
+export const BLENDSHAPE_CHANNEL_PREFIX = "bs:";
+
+export const BASIC_CHANNELS = [
+  "angleX",
+  "angleY",
+  "angleZ",
+  "eyeOpenL",
+  "eyeOpenR",
+  "eyeBallX",
+  "eyeBallY",
+  "mouthOpen",
+  "browL",
+  "browR",
+] as const satisfies readonly (keyof FaceTrackingData)[];
+
+/** 正脸、睁眼、闭嘴、眉毛放松时的基础通道 */
+export const NEUTRAL_FACE: Readonly<FaceTrackingData> = {
+  angleX: 0,
+  angleY: 0,
+  angleZ: 0,
+  eyeOpenL: 1,
+  eyeOpenR: 1,
+  eyeBallX: 0,
+  eyeBallY: 0,
+  mouthOpen: 0,
+  browL: 0,
+  browR: 0,
+};
+
+export const MappingCurveSchema = z.enum(["linear", "easeIn", "easeOut"]);
+export type MappingCurve = z.infer<typeof MappingCurveSchema>;
+
+export const ParameterMappingSchema = z.object({
+  input: z.string().min(1),
+  parameterId: z.string().min(1),
+  gain: z.number().default(1),
+  offset: z.number().default(0),
+  min: z.number().default(-1),
+  max: z.number().default(1),
+  curve: MappingCurveSchema.default("linear"),
+  invert: z.boolean().default(false),
+});
+export type ParameterMapping = z.output<typeof ParameterMappingSchema>;
+
+export const ParameterMappingListSchema = z.array(ParameterMappingSchema);
+
+const mapping = (
+  input: string,
+  parameterId: string,
+  overrides: Partial<ParameterMapping> = {},
+): ParameterMapping => ({
+  input,
+  parameterId,
+  gain: 1,
+  offset: 0,
+  min: -1,
+  max: 1,
+  curve: "linear",
+  invert: false,
+  ...overrides,
+});
+
+/**
+ * 默认映射：Cubism 标准参数 ID，只使用基础通道。
+ * 前 8 条与旧版 Live2DViewer 的硬编码行为一致（角度 x2.5）。
+ */
+export const DEFAULT_PARAMETER_MAPPINGS: ParameterMapping[] = [
+  mapping("angleX", "ParamAngleX", { gain: 2.5, min: -30, max: 30 }),
+  mapping("angleY", "ParamAngleY", { gain: 2.5, min: -30, max: 30 }),
+  mapping("angleZ", "ParamAngleZ", { gain: 2.5, min: -30, max: 30 }),
+  mapping("eyeOpenL", "ParamEyeLOpen", { min: 0 }),
+  mapping("eyeOpenR", "ParamEyeROpen", { min: 0 }),
+  mapping("eyeBallX", "ParamEyeBallX"),
+  mapping("eyeBallY", "ParamEyeBallY"),
+  mapping("mouthOpen", "ParamMouthOpenY", { min: 0 }),
+  mapping("browL", "ParamBrowLY"),
+  mapping("browR", "ParamBrowRY"),
+];
+
+/**
+ * 可选的 blendshape 映射：微笑 / 撇嘴 -> MouthForm，鼓腮 -> Cheek。
+ * 在参数映射页手动添加，添加后原生追踪会请求原始数据。
+ */
+export const BLENDSHAPE_PRESET_MAPPINGS: ParameterMapping[] = [
+  mapping("bs:mouthSmileLeft", "ParamMouthForm", { gain: 0.5 }),
+  mapping("bs:mouthSmileRight", "ParamMouthForm", { gain: 0.5 }),
+  mapping("bs:mouthFrownLeft", "ParamMouthForm", { gain: -0.5 }),
+  mapping("bs:mouthFrownRight", "ParamMouthForm", { gain: -0.5 }),
+  mapping("bs:cheekPuff", "ParamCheek", { min: 0 }),
+];
+
+const CURVES: Record<MappingCurve, (x: number) => number> = {
+  linear: (x) => x,
+  // 保留符号的幂曲线：小幅动作更不敏感 / 更敏感
+  easeIn: (x) => Math.sign(x) * x * x,
+  easeOut: (x) => Math.sign(x) * Math.sqrt(Math.abs(x)),
+};
+
+/**
+ * 读取一个输入通道；通道不存在时返回 undefined
+ */
+export function readChannel(
+  data: FaceTrackingData,
+  input: string,
+): number | undefined {
+  if (input.startsWith(BLENDSHAPE_CHANNEL_PREFIX)) {
+    return data.blendShapes?.[input.slice(BLENDSHAPE_CHANNEL_PREFIX.length)];
+  }
+  const value = (data as Record<string, unknown>)[input];
+  return typeof value === "number" ? value : undefined;
+}
+
+/**
+ * 是否需要原始 blendshape（原生追踪的 includeRawData）
+ * @param extraInputs 映射之外用到的输入通道，例如表情触发条件
+ */
+export function needsRawData(
+  mappings: readonly ParameterMapping[],
+  extraInputs: readonly string[] = [],
+): boolean {
+  return [...mappings.map((m) => m.input), ...extraInputs].some((input) =>
+    input.startsWith(BLENDSHAPE_CHANNEL_PREFIX),
+  );
+}
+
+export function applyMapping(m: ParameterMapping, input: number): number {
+  const value = CURVES[m.curve](input) * m.gain + m.offset;
+  const clamped = Math.min(m.max, Math.max(m.min, value));
+  return m.invert ? m.min + m.max - clamped : clamped;
+}
+
+/**
+ * 计算一帧的目标参数值：parameterId -> value
+ */
+export function evaluateMappings(
+  mappings: readonly ParameterMapping[],
+  data: FaceTrackingData,
+): Record<string, number> {
+  const targets: Record<string, number> = {};
+  for (const m of mappings) {
+    const input = readChannel(data, m.input);
+    if (input === undefined) continue;
+    targets[m.parameterId] =
+      (targets[m.parameterId] ?? 0) + applyMapping(m, input);
+  }
+  return targets;
+}
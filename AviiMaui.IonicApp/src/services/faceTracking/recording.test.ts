@@ -0,0 +1,103 @@
+import type { FaceTrackingData } from "../bridgeMessages";
+import { NEUTRAL_FACE } from "./parameterMapping";
+import {
+  FacePlayer,
+  FaceRecorder,
+  parseRecording,
+  serializeRecording,
+  type FaceRecording,
+} from "./recording";
+
+const frame = (angleX: number, timestamp?: number): FaceTrackingData => ({
+  ...NEUTRAL_FACE,
+  angleX,
+  timestamp,
+});
+
+const record = (timestamps: number[]): FaceRecording => {
+  const recorder = new FaceRecorder();
+  recorder.start();
+  timestamps.forEach((t, i) => recorder.add(frame(i, t)));
+  return recorder.stop(new Date("2026-01-01T00:00:00Z"))!;
+};
+
+describe("FaceRecorder", () => {
+  it("stores frames relative to the first timestamp", () => {
+    const recording = record([1000, 1033, 1066]);
+    expect(recording.frames.map((f) => f.t)).toEqual([0, 33, 66]);
+    expect(recording.frames[2].data.timestamp).toBe(66);
+  });
+
+  it("ignores frames while stopped and returns null when empty", () => {
+    const recorder = new FaceRecorder();
+    recorder.add(frame(1, 0));
+    recorder.start();
+    expect(recorder.stop()).toBeNull();
+  });
+});
+
+describe("serialization", () => {
+  it("round-trips frames including raw blendshapes", () => {
+    const recording = record([0, 33.3333333]);
+    recording.frames[1].data.blendShapes = { jawOpen: 0.123456, cheekPuff: 1 };
+
+    const text = serializeRecording(recording);
+    expect(text.trim().split("\n")).toHaveLength(3);
+
+    const parsed = parseRecording(text);
+    expect(parsed.error).toBeNull();
+    const [first, second] = parsed.data!.frames;
+    expect(first.data.angleX).toBe(0);
+    expect(first.data.blendShapes).toBeUndefined();
+    expect(second.t).toBe(33.3333);
+    expect(second.data.blendShapes).toMatchObject({
+      jawOpen: 0.1235,
+      cheekPuff: 1,
+      eyeBlinkLeft: 0,
+    });
+  });
+
+  it("rejects files that are not recordings", () => {
+    expect(parseRecording("").error?.code).toBe("schema_mismatch");
+    expect(parseRecording('{"hello":1}').error?.code).toBe("schema_mismatch");
+    const header = serializeRecording(record([0])).split("\n")[0];
+    expect(parseRecording(`${header}\nnot json`).error?.code).toBe(
+      "invalid_json",
+    );
+  });
+});
+
+describe("FacePlayer", () => {
+  const emitted = (recording: FaceRecording) => {
+    const angles: number[] = [];
+    const player = new FacePlayer(recording, (data) =>
+      angles.push(data.angleX),
+    );
+    return { player, angles };
+  };
+
+  it("emits every frame passed during playback", () => {
+    const { player, angles } = emitted(record([0, 10, 20, 30]));
+    player.advance(0);
+    player.advance(25);
+    expect(angles).toEqual([0, 1, 2]);
+    player.advance(100);
+    expect(angles).toEqual([0, 1, 2, 3]);
+    expect(player.positionMs).toBe(30);
+  });
+
+  it("applies playback speed", () => {
+    const { player, angles } = emitted(record([0, 10, 20, 30]));
+    player.setSpeed(0.5);
+    player.advance(40);
+    expect(angles).toEqual([0, 1, 2]);
+  });
+
+  it("seeks to the frame at the given position", () => {
+    const { player, angles } = emitted(record([0, 10, 20, 30]));
+    player.seek(25);
+    expect(angles).toEqual([2]);
+    player.advance(5);
+    expect(angles).toEqual([2, 3]);
+  });
+});
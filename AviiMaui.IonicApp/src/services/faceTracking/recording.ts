@@ -0,0 +1,273 @@
+import { z } from "zod";
+import {
+  FaceTrackingDataSchema,
+  type FaceTrackingData,
+} from "../bridgeMessages";
+import { err, ok, type Result } from "../result";
+import { ARKIT_BLENDSHAPE_NAMES } from "./blendshapes";
+import { BASIC_CHANNELS } from "./parameterMapping";
+
+/**
+ * Face recording
+ *
+ * 录制 FaceTrackingResult 帧并回放，用于在桌面上复现平滑 / 映射问题。
+ *
+ * 文件格式为 JSON Lines：
+ * - 第 1 行是 header，记录基础通道与 blendShape 的顺序
+ * - 之后每行一帧：{ t, v, bs?, ht? }，t 为相对首帧的毫秒，v / bs 按 header 顺序排列
+ */
+
+export const RECORDING_FORMAT = "avii-face-recording";
+export const RECORDING_VERSION = 1;
+export const RECORDING_FILE_EXTENSION = ".avrec.jsonl";
+
+const RecordingHeaderSchema = z.object({
+  format: z.literal(RECORDING_FORMAT),
+  version: z.literal(RECORDING_VERSION),
+  createdAt: z.string(),
+  channels: z.array(z.enum(BASIC_CHANNELS)),
+  blendShapes: z.array(z.string()),
+});
+export type RecordingHeader = z.infer<typeof RecordingHeaderSchema>;
+
+const RecordedLineSchema = z.object({
+  t: z.number(),
+  v: z.array(z.number()),
+  bs: z.array(z.number()).optional(),
+  ht: z.array(z.number()).length(16).optional(),
+});
+
+export interface RecordedFrame {
+  /** 相对首帧的毫秒 */
+  t: number;
+  /** timestamp 已改写为 t */
+  data: FaceTrackingData;
+}
+
+export interface FaceRecording {
+  header: RecordingHeader;
+  frames: RecordedFrame[];
+}
+
+export const recordingDuration = (recording: FaceRecording): number =>
+  recording.frames.at(-1)?.t ?? 0;
+
+// header 中没有的基础通道回放为 0
+const EMPTY_FRAME: FaceTrackingData = FaceTrackingDataSchema.parse({});
+
+// 4 位小数足够复现，文件体积约减半
+const round = (v: number) => Math.round(v * 1e4) / 1e4;
+
+export function serializeRecording(recording: FaceRecording): string {
+  const { header } = recording;
+  const lines = [JSON.stringify(header)];
+  for (const { t, data } of recording.frames) {
+    const line: z.infer<typeof RecordedLineSchema> = {
+      t: round(t),
+      v: header.channels.map((channel) => round(data[channel])),
+    };
+    if (data.blendShapes) {
+      line.bs = header.blendShapes.map((name) =>
+        round(data.blendShapes?.[name] ?? 0),
+      );
+    }
+    if (data.headTransform) line.ht = data.headTransform.map(round);
+    lines.push(JSON.stringify(line));
+  }
+  return lines.join("\n") + "\n";
+}
+
+export function parseRecording(text: string): Result<FaceRecording> {
+  const lines = text.split("\n").filter((line) => line.trim() !== "");
+  if (lines.length === 0) return err("schema_mismatch", "录制文件为空");
+
+  let header: RecordingHeader;
+  const frames: RecordedFrame[] = [];
+  try {
+    const parsedHeader = RecordingHeaderSchema.safeParse(JSON.parse(lines[0]));
+    if (!parsedHeader.success) {
+      return err("schema_mismatch", "不是 Avii 面部录制文件", {
+        cause: parsedHeader.error,
+      });
+    }
+    header = parsedHeader.data;
+
+    for (let i = 1; i < lines.length; i++) {
+      const parsed = RecordedLineSchema.safeParse(JSON.parse(lines[i]));
+      if (!parsed.success) {
+        return err("schema_mismatch", `第 ${i + 1} 行格式错误`, {
+          cause: parsed.error,
+        });
+      }
+      const { t, v, bs, ht } = parsed.data;
+      const data: FaceTrackingData = { ...EMPTY_FRAME, timestamp: t };
+      header.channels.forEach((channel, j) => (data[channel] = v[j] ?? 0));
+      if (bs) {
+        const blendShapes: Record<string, number> = {};
+        header.blendShapes.forEach((name, j) => (blendShapes[name] = bs[j]));
+        data.blendShapes = blendShapes;
+      }
+      if (ht) data.headTransform = ht;
+      frames.push({ t, data });
+    }
+  } catch (e) {
+    return err("invalid_json", "录制文件不是合法的 JSON Lines", { cause: e });
+  }
+
+  frames.sort((a, b) => a.t - b.t);
+  return ok({ header, frames });
+}
+
+/**
+ * 录制器：add() 收到的帧按时间戳保存。
+ * 帧自带 timestamp 时使用它（保留原始帧间隔，便于复现平滑问题），否则用接收时间。
+ */
+export class FaceRecorder {
+  private frames: RecordedFrame[] = [];
+  private origin: number | null = null;
+  private recording = false;
+
+  get isRecording(): boolean {
+    return this.recording;
+  }
+
+  get frameCount(): number {
+    return this.frames.length;
+  }
+
+  start() {
+    this.frames = [];
+    this.origin = null;
+    this.recording = true;
+  }
+
+  add(data: FaceTrackingData, nowMs: number = performance.now()) {
+    if (!this.recording) return;
+    const time = data.timestamp ?? nowMs;
+    this.origin ??= time;
+    const t = time - this.origin;
+    this.frames.push({ t, data: { ...data, timestamp: t } });
+  }
+
+  /** 没有录到任何帧时返回 null */
+  stop(now: Date = new Date()): FaceRecording | null {
+    this.recording = false;
+    const frames = this.frames;
+    this.frames = [];
+    if (frames.length === 0) return null;
+    return {
+      header: {
+        format: RECORDING_FORMAT,
+        version: RECORDING_VERSION,
+        createdAt: now.toISOString(),
+        channels: [...BASIC_CHANNELS],
+        blendShapes: [...ARKIT_BLENDSHAPE_NAMES],
+      },
+      frames,
+    };
+  }
+}
+
+/**
+ * 回放器：按录制时间（乘以速度）依次输出帧
+ */
+export class FacePlayer {
+  private position = 0;
+  private speed = 1;
+  private playing = false;
+  private nextIndex = 0;
+  private frameHandle: number | null = null;
+  private lastTick = 0;
+
+  constructor(
+    private recording: FaceRecording,
+    private onFrame: (data: FaceTrackingData) => void,
+    private onProgress?: (positionMs: number, playing: boolean) => void,
+  ) {}
+
+  get duration(): number {
+    return recordingDuration(this.recording);
+  }
+
+  get positionMs(): number {
+    return this.position;
+  }
+
+  get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  play() {
+    if (this.playing) return;
+    if (this.position >= this.duration) this.seek(0);
+    this.playing = true;
+    this.lastTick = performance.now();
+    this.frameHandle = window.requestAnimationFrame(this.tick);
+    this.notify();
+  }
+
+  pause() {
+    this.playing = false;
+    if (this.frameHandle !== null) {
+      window.cancelAnimationFrame(this.frameHandle);
+      this.frameHandle = null;
+    }
+    this.notify();
+  }
+
+  setSpeed(speed: number) {
+    this.speed = speed;
+  }
+
+  /**
+   * 跳到指定位置并立即输出该位置的帧
+   */
+  seek(positionMs: number) {
+    const { frames } = this.recording;
+    this.position = Math.min(this.duration, Math.max(0, positionMs));
+    this.nextIndex = frames.findIndex((f) => f.t > this.position);
+    if (this.nextIndex === -1) this.nextIndex = frames.length;
+    const current = frames[this.nextIndex - 1];
+    if (current) this.onFrame(current.data);
+    this.notify();
+  }
+
+  /**
+   * 推进播放位置并输出经过的帧（rAF 循环与测试共用）
+   */
+  advance(elapsedMs: number) {
+    const { frames } = this.recording;
+    this.position = Math.min(
+      this.duration,
+      this.position + elapsedMs * this.speed,
+    );
+    // 经过的每一帧都输出，平滑器看到的帧间隔与录制时一致
+    while (
+      this.nextIndex < frames.length &&
+      frames[this.nextIndex].t <= this.position
+    ) {
+      this.onFrame(frames[this.nextIndex++].data);
+    }
+    if (this.position >= this.duration) this.pause();
+    else this.notify();
+  }
+
+  dispose() {
+    this.pause();
+    this.onProgress = undefined;
+  }
+
+  private tick = (now: number) => {
+    if (!this.playing) return;
+    const elapsed = now - this.lastTick;
+    this.lastTick = now;
+    this.advance(elapsed);
+    if (this.playing) {
+      this.frameHandle = window.requestAnimationFrame(this.tick);
+    }
+  };
+
+  private notify() {
+    this.onProgress?.(this.position, this.playing);
+  }
+}
@@ -0,0 +1,113 @@
+import type { FaceTrackingData } from "../bridgeMessages";
+import { NEUTRAL_FACE } from "./parameterMapping";
+import {
+  DEFAULT_SMOOTHING_SETTINGS,
+  FaceSmoother,
+  SmoothingGroupSettingsSchema,
+  SmoothingSettingsSchema,
+  channelGroup,
+  createFilter,
+} from "./smoothing";
+
+const frame = (
+  overrides: Partial<FaceTrackingData> = {},
+): FaceTrackingData => ({ ...NEUTRAL_FACE, ...overrides });
+
+/** 以固定帧率把阶跃输入喂给滤波器，返回 duration 秒后的输出 */
+const stepResponse = (filter: string, fps: number, duration: number) => {
+  const f = createFilter(SmoothingGroupSettingsSchema.parse({ filter }));
+  f.reset(0);
+  let out = 0;
+  for (let i = 0; i < Math.round(duration * fps); i++) out = f.next(1, 1 / fps);
+  return out;
+};
+
+describe("filters", () => {
+  it.each(["lerp", "oneEuro", "spring", "kalman"])(
+    "%s converges towards the target",
+    (filter) => {
+      const early = stepResponse(filter, 60, 0.05);
+      const late = stepResponse(filter, 60, 2);
+      expect(early).toBeLessThan(late);
+      expect(late).toBeCloseTo(1, 1);
+    },
+  );
+
+  it.each(["lerp", "spring"])(
+    "%s does not depend on the frame rate",
+    (filter) => {
+      expect(stepResponse(filter, 30, 0.2)).toBeCloseTo(
+        stepResponse(filter, 60, 0.2),
+        2,
+      );
+    },
+  );
+
+  it("spring never overshoots", () => {
+    const f = createFilter(
+      SmoothingGroupSettingsSchema.parse({ filter: "spring" }),
+    );
+    f.reset(0);
+    for (let i = 0; i < 120; i++)
+      expect(f.next(1, 1 / 60)).toBeLessThanOrEqual(1);
+  });
+});
+
+describe("channelGroup", () => {
+  it("groups basic and blendshape channels", () => {
+    expect(channelGroup("angleZ")).toBe("head");
+    expect(channelGroup("eyeBallX")).toBe("eyes");
+    expect(channelGroup("browL")).toBe("eyes");
+    expect(channelGroup("bs:eyeBlinkLeft")).toBe("eyes");
+    expect(channelGroup("mouthOpen")).toBe("mouth");
+    expect(channelGroup("bs:cheekPuff")).toBe("mouth");
+  });
+});
+
+describe("FaceSmoother", () => {
+  it("passes the first frame through and smooths the following ones", () => {
+    const smoother = new FaceSmoother();
+    expect(smoother.process(frame({ angleX: 10 }), 0).angleX).toBe(10);
+
+    const next = smoother.process(frame({ angleX: 20 }), 33).angleX;
+    expect(next).toBeGreaterThan(10);
+    expect(next).toBeLessThan(20);
+  });
+
+  it("snaps eyes shut when blinking", () => {
+    const smoother = new FaceSmoother();
+    smoother.process(frame(), 0);
+    const closed = smoother.process(
+      frame({ eyeOpenL: 0.1, eyeOpenR: 0.15 }),
+      33,
+    );
+    expect(closed.eyeOpenL).toBe(0);
+    expect(closed.eyeOpenR).toBe(0);
+  });
+
+  it("smooths blinks when blink snap is off", () => {
+    const smoother = new FaceSmoother({
+      ...DEFAULT_SMOOTHING_SETTINGS,
+      blinkSnap: false,
+    });
+    smoother.process(frame(), 0);
+    expect(
+      smoother.process(frame({ eyeOpenL: 0.1 }), 33).eyeOpenL,
+    ).toBeGreaterThan(0.1);
+  });
+
+  it("restarts after a long gap instead of easing from stale values", () => {
+    const smoother = new FaceSmoother();
+    smoother.process(frame({ angleX: 0 }), 0);
+    expect(smoother.process(frame({ angleX: 25 }), 5000).angleX).toBe(25);
+  });
+
+  it("fills nested defaults for stored settings", () => {
+    const parsed = SmoothingSettingsSchema.parse({
+      head: { filter: "kalman" },
+    });
+    expect(parsed.head.filter).toBe("kalman");
+    expect(parsed.head.measurementNoise).toBe(0.05);
+    expect(parsed.eyes).toEqual(DEFAULT_SMOOTHING_SETTINGS.eyes);
+  });
+});
@@ -0,0 +1,259 @@
+import { z } from "zod";
+import type { FaceTrackingData } from "../bridgeMessages";
+import { BASIC_CHANNELS, BLENDSHAPE_CHANNEL_PREFIX } from "./parameterMapping";
+
+/**
+ * Smoothing
+ *
+ * 对追踪输入通道逐个滤波（在参数映射之前）。时间步长取自消息的 timestamp，
+ * 因此 30fps 的 ARKit 与 60fps 的 Web 追踪得到同样的手感。
+ *
+ * - lerp: 旧版的固定系数插值（按 60fps 折算）
+ * - oneEuro: One Euro Filter，静止时强平滑、快速移动时低延迟
+ * - spring: 临界阻尼弹簧，无过冲
+ * - kalman: 一维 Kalman（匀速假设之外的噪声都视为测量噪声）
+ */
+
+export const SmoothingFilterKindSchema = z.enum([
+  "lerp",
+  "oneEuro",
+  "spring",
+  "kalman",
+]);
+export type SmoothingFilterKind = z.infer<typeof SmoothingFilterKindSchema>;
+
+export const SMOOTHING_GROUPS = ["head", "eyes", "mouth"] as const;
+export type SmoothingGroup = (typeof SMOOTHING_GROUPS)[number];
+
+export const SmoothingGroupSettingsSchema = z.object({
+  filter: SmoothingFilterKindSchema.default("oneEuro"),
+  /** lerp: 每帧（60fps）逼近目标的比例 */
+  lerpFactor: z.number().min(0.01).max(1).default(0.3),
+  /** oneEuro: 静止时的截止频率（Hz），越小越平滑 */
+  minCutoff: z.number().positive().default(1.5),
+  /** oneEuro: 速度系数，越大快速动作延迟越小 */
+  beta: z.number().min(0).default(0.05),
+  /** spring: 固有频率（rad/s），越大跟随越快 */
+  frequency: z.number().positive().default(15),
+  /** kalman: 过程噪声（每秒） */
+  processNoise: z.number().positive().default(1),
+  /** kalman: 测量噪声 */
+  measurementNoise: z.number().positive().default(0.05),
+});
+export type SmoothingGroupSettings = z.output<
+  typeof SmoothingGroupSettingsSchema
+>;
+
+export const SmoothingSettingsSchema = z.object({
+  head: SmoothingGroupSettingsSchema.default(
+    SmoothingGroupSettingsSchema.parse({}),
+  ),
+  eyes: SmoothingGroupSettingsSchema.default(
+    SmoothingGroupSettingsSchema.parse({ minCutoff: 3, beta: 0.5 }),
+  ),
+  mouth: SmoothingGroupSettingsSchema.default(
+    SmoothingGroupSettingsSchema.parse({ minCutoff: 2, beta: 0.5 }),
+  ),
+  /** 眨眼直通：眼睛接近闭合时跳过滤波直接闭眼 */
+  blinkSnap: z.boolean().default(true),
+});
+export type SmoothingSettings = z.output<typeof SmoothingSettingsSchema>;
+
+export const DEFAULT_SMOOTHING_SETTINGS: SmoothingSettings =
+  SmoothingSettingsSchema.parse({});
+
+// eyeOpen 低于该值（或 eyeBlink 高于 1 - 该值）视为闭眼
+const BLINK_THRESHOLD = 0.2;
+// 帧间隔超出范围时（追踪暂停、切换追踪源）重置滤波器
+const MAX_DT = 0.5;
+
+export interface ScalarFilter {
+  next(value: number, dt: number): number;
+  reset(value: number): void;
+}
+
+class LerpFilter implements ScalarFilter {
+  private x = 0;
+  constructor(private factor: number) {}
+  next(value: number, dt: number) {
+    const alpha = 1 - Math.pow(1 - this.factor, dt * 60);
+    this.x += (value - this.x) * alpha;
+    return this.x;
+  }
+  reset(value: number) {
+    this.x = value;
+  }
+}
+
+class OneEuroFilter implements ScalarFilter {
+  private x = 0;
+  private dx = 0;
+  private static readonly D_CUTOFF = 1;
+  constructor(
+    private minCutoff: number,
+    private beta: number,
+  ) {}
+  private static alpha(cutoff: number, dt: number) {
+    const tau = 1 / (2 * Math.PI * cutoff);
+    return 1 / (1 + tau / dt);
+  }
+  next(value: number, dt: number) {
+    const rawDx = (value - this.x) / dt;
+    this.dx +=
+      (rawDx - this.dx) * OneEuroFilter.alpha(OneEuroFilter.D_CUTOFF, dt);
+    const cutoff = this.minCutoff + this.beta * Math.abs(this.dx);
+    this.x += (value - this.x) * OneEuroFilter.alpha(cutoff, dt);
+    return this.x;
+  }
+  reset(value: number) {
+    this.x = value;
+    this.dx = 0;
+  }
+}
+
+class SpringFilter implements ScalarFilter {
+  private x = 0;
+  private v = 0;
+  constructor(private omega: number) {}
+  next(target: number, dt: number) {
+    // 临界阻尼弹簧的解析解，任意 dt 下都稳定
+    const decay = Math.exp(-this.omega * dt);
+    const delta = this.x - target;
+    const temp = (this.v + this.omega * delta) * dt;
+    this.v = (this.v - this.omega * temp) * decay;
+    this.x = target + (delta + temp) * decay;
+    return this.x;
+  }
+  reset(value: number) {
+    this.x = value;
+    this.v = 0;
+  }
+}
+
+class KalmanFilter implements ScalarFilter {
+  private x = 0;
+  private p = 1;
+  constructor(
+    private q: number,
+    private r: number,
+  ) {}
+  next(value: number, dt: number) {
+    this.p += this.q * dt;
+    const k = this.p / (this.p + this.r);
+    this.x += k * (value - this.x);
+    this.p *= 1 - k;
+    return this.x;
+  }
+  reset(value: number) {
+    this.x = value;
+    this.p = 1;
+  }
+}
+
+export function createFilter(settings: SmoothingGroupSettings): ScalarFilter {
+  switch (settings.filter) {
+    case "lerp":
+      return new LerpFilter(settings.lerpFactor);
+    case "oneEuro":
+      return new OneEuroFilter(settings.minCutoff, settings.beta);
+    case "spring":
+      return new SpringFilter(settings.frequency);
+    case "kalman":
+      return new KalmanFilter(settings.processNoise, settings.measurementNoise);
+  }
+}
+
+/**
+ * 通道所属分组：angle* -> head，eye* / brow* -> eyes，其余 -> mouth
+ */
+export function channelGroup(channel: string): SmoothingGroup {
+  if (channel.startsWith(BLENDSHAPE_CHANNEL_PREFIX)) {
+    channel = channel.slice(BLENDSHAPE_CHANNEL_PREFIX.length);
+  }
+  if (channel.startsWith("angle")) return "head";
+  if (channel.startsWith("eye") || channel.startsWith("brow")) return "eyes";
+  return "mouth";
+}
+
+/**
+ * 对整帧 FaceTrackingData 滤波，每个通道（含原始 blendShapes）各自一个滤波器
+ */
+export class FaceSmoother {
+  private filters = new Map<string, ScalarFilter>();
+  private lastTimestamp: number | null = null;
+
+  constructor(
+    private settings: SmoothingSettings = DEFAULT_SMOOTHING_SETTINGS,
+  ) {}
+
+  setSettings(settings: SmoothingSettings) {
+    this.settings = settings;
+    this.reset();
+  }
+
+  reset() {
+    this.filters.clear();
+    this.lastTimestamp = null;
+  }
+
+  /**
+   * @param timestampMs 帧时间（毫秒），优先使用消息自带的 timestamp
+   */
+  process(data: FaceTrackingData, timestampMs: number): FaceTrackingData {
+    const dt =
+      this.lastTimestamp === null
+        ? null
+        : (timestampMs - this.lastTimestamp) / 1000;
+    this.lastTimestamp = timestampMs;
+
+    const step = (channel: string, value: number, snapTo?: number) => {
+      let filter = this.filters.get(channel);
+      if (!filter) {
+        filter = createFilter(this.settings[channelGroup(channel)]);
+        this.filters.set(channel, filter);
+        filter.reset(value);
+        return value;
+      }
+      if (snapTo !== undefined) {
+        filter.reset(snapTo);
+        return snapTo;
+      }
+      // 重复帧或时间跳变：重新从当前值开始
+      if (dt === null || dt <= 0 || dt > MAX_DT) {
+        filter.reset(value);
+        return value;
+      }
+      return filter.next(value, dt);
+    };
+
+    const blinkSnap = this.settings.blinkSnap;
+    const result: FaceTrackingData = { ...data };
+
+    for (const channel of BASIC_CHANNELS) {
+      const value = data[channel];
+      const closed =
+        blinkSnap &&
+        (channel === "eyeOpenL" || channel === "eyeOpenR") &&
+        value <= BLINK_THRESHOLD;
+      result[channel] = step(channel, value, closed ? 0 : undefined);
+    }
+
+    if (data.blendShapes) {
+      const blendShapes: Record<string, number> = {};
+      for (const [name, value] of Object.entries(data.blendShapes)) {
+        const closed =
+          blinkSnap &&
+          name.startsWith("eyeBlink") &&
+          value >= 1 - BLINK_THRESHOLD;
+        blendShapes[name] = step(
+          BLENDSHAPE_CHANNEL_PREFIX + name,
+          value,
+          closed ? 1 : undefined,
+        );
+      }
+      result.blendShapes = blendShapes;
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,168 @@
+import { mauiBridgeService } from "./MauiBridgeService";
+import { err, fail, ok, type Result } from "./result";
+
+/**
+ * 文件导入 / 导出
+ *
+ * App 内走 Bridge（系统文件选择器 / 分享面板），浏览器里退回 <input type="file"> 与下载链接。
+ */
+
+export interface ImportedFile {
+  fileName: string;
+  content: string;
+}
+
+export interface ImportedBinaryFile {
+  fileName: string;
+  bytes: Uint8Array<ArrayBuffer>;
+}
+
+const BASE64_CHUNK = 0x8000;
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * 浏览器文件选择；取消时返回 null
+ */
+export const pickBrowserFile = (accept = ""): Promise<File | null> =>
+  new Promise((resolve) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = accept;
+    input.addEventListener("cancel", () => resolve(null));
+    input.addEventListener("change", () => resolve(input.files?.[0] ?? null));
+    input.click();
+  });
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  // 给浏览器时间开始下载
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export async function exportFile(
+  fileName: string,
+  content: string | Blob,
+  contentType: string,
+): Promise<Result<void>> {
+  const blob =
+    typeof content === "string"
+      ? new Blob([content], { type: contentType })
+      : content;
+  const base64 = bytesToBase64(new Uint8Array(await blob.arrayBuffer()));
+  const result = await mauiBridgeService.shareFile(
+    fileName,
+    base64,
+    contentType,
+  );
+  if (result.error?.code === "bridge_unavailable") {
+    downloadBlob(blob, fileName);
+    return ok(undefined);
+  }
+  return result;
+}
+
+/**
+ * 保存图片到相册；浏览器中下载
+ */
+export async function saveImage(
+  fileName: string,
+  blob: Blob,
+): Promise<Result<void>> {
+  const base64 = bytesToBase64(new Uint8Array(await blob.arrayBuffer()));
+  const result = await mauiBridgeService.saveImageToGallery(
+    fileName,
+    base64,
+    blob.type,
+  );
+  if (result.error?.code === "bridge_unavailable") {
+    downloadBlob(blob, fileName);
+    return ok(undefined);
+  }
+  return result;
+}
+
+/**
+ * 选择一个文件并读取内容；取消时返回 ok(null)
+ * @param accept 仅浏览器回退时生效
+ */
+export async function importBinaryFile(
+  accept = "",
+): Promise<Result<ImportedBinaryFile | null>> {
+  const result = await mauiBridgeService.pickFile();
+
+  if (result.error?.code === "bridge_unavailable") {
+    const file = await pickBrowserFile(accept);
+    return ok(
+      file
+        ? {
+            fileName: file.name,
+            bytes: new Uint8Array(await file.arrayBuffer()),
+          }
+        : null,
+    );
+  }
+  if (result.error !== null) return result;
+
+  const { cancelled, base64, fileName, error, message } = result.data;
+  if (cancelled) return ok(null);
+  if (!base64) {
+    return err("native_error", error ?? message ?? "读取文件失败");
+  }
+  return ok({ fileName: fileName ?? "", bytes: base64ToBytes(base64) });
+}
+
+/**
+ * 选择一个文本文件并读取内容；取消时返回 ok(null)
+ * @param accept 仅浏览器回退时生效
+ */
+export async function importTextFile(
+  accept = "",
+): Promise<Result<ImportedFile | null>> {
+  const result = await importBinaryFile(accept);
+  if (result.error !== null) return fail(result.error);
+  if (!result.data) return ok(null);
+  return ok({
+    fileName: result.data.fileName,
+    content: new TextDecoder().decode(result.data.bytes),
+  });
+}
+
+/**
+ * 从相册选择一张图片，返回 data URL；取消时返回 ok(null)
+ */
+export async function importImage(): Promise<Result<string | null>> {
+  const result = await mauiBridgeService.pickImage();
+
+  if (result.error?.code === "bridge_unavailable") {
+    const file = await pickBrowserFile("image/*");
+    if (!file) return ok(null);
+    const base64 = bytesToBase64(new Uint8Array(await file.arrayBuffer()));
+    return ok(`data:${file.type || "image/jpeg"};base64,${base64}`);
+  }
+  if (result.error !== null) return fail(result.error);
+
+  const { cancelled, base64, contentType, error, message } = result.data;
+  if (cancelled) return ok(null);
+  if (!base64) {
+    return err("native_error", error ?? message ?? "读取图片失败");
+  }
+  return ok(`data:${contentType ?? "image/jpeg"};base64,${base64}`);
+}
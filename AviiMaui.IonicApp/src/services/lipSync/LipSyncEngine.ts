@@ -0,0 +1,218 @@
+import { toMediaDeviceError } from "../mediaErrors";
+import { err, fail, ok, toResultError, type Result } from "../result";
+import {
+  DEFAULT_LIP_SYNC_SETTINGS,
+  SILENT_FRAME,
+  analyzeAudioFrame,
+  type LipSyncFrame,
+  type LipSyncSettings,
+} from "./analysis";
+
+/**
+ * LipSyncEngine
+ * Web Audio 口型同步：麦克风或本地音频文件 -> AnalyserNode -> 每帧 LipSyncFrame。
+ * 音频文件会同时播放出来，麦克风不接到扬声器（避免回授）。
+ */
+
+export type LipSyncSource = "microphone" | "file";
+
+const FFT_SIZE = 2048;
+// 张嘴快、闭嘴慢，看起来更自然（每秒逼近比例）
+const ATTACK_RATE = 30;
+const RELEASE_RATE = 12;
+
+export class LipSyncEngine {
+  private settings: LipSyncSettings;
+  private context: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private stream: MediaStream | null = null;
+  private audio: HTMLAudioElement | null = null;
+  private objectUrl: string | null = null;
+  private frameHandle: number | null = null;
+  private current: LipSyncSource | null = null;
+  private last: LipSyncFrame = SILENT_FRAME;
+  // 每次 start / stop 递增，用于丢弃过期的异步启动
+  private generation = 0;
+
+  constructor(settings: LipSyncSettings = DEFAULT_LIP_SYNC_SETTINGS) {
+    this.settings = settings;
+  }
+
+  static isSupported(): boolean {
+    return typeof window !== "undefined" && "AudioContext" in window;
+  }
+
+  get source(): LipSyncSource | null {
+    return this.current;
+  }
+
+  setSettings(settings: LipSyncSettings) {
+    this.settings = settings;
+  }
+
+  async startMicrophone(
+    onFrame: (frame: LipSyncFrame) => void,
+  ): Promise<Result<void>> {
+    if (!LipSyncEngine.isSupported() || !navigator.mediaDevices?.getUserMedia) {
+      return err("unsupported", "当前浏览器不支持麦克风");
+    }
+    this.stop();
+    const generation = this.generation;
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true },
+        video: false,
+      });
+    } catch (e) {
+      return toMediaDeviceError(e, "麦克风");
+    }
+    if (generation !== this.generation) {
+      stream.getTracks().forEach((track) => track.stop());
+      return err("aborted", "Lip sync stopped");
+    }
+
+    this.stream = stream;
+    const { context, analyser } = this.createContext();
+    context.createMediaStreamSource(stream).connect(analyser);
+    return this.begin("microphone", context, onFrame);
+  }
+
+  /**
+   * 播放本地音频文件并按其驱动口型，用于没有麦克风时测试
+   * @param onEnded 播放结束（口型已回到静音）
+   */
+  async startFile(
+    file: Blob | string,
+    onFrame: (frame: LipSyncFrame) => void,
+    onEnded?: () => void,
+  ): Promise<Result<void>> {
+    if (!LipSyncEngine.isSupported()) {
+      return err("unsupported", "当前浏览器不支持 Web Audio");
+    }
+    this.stop();
+    const generation = this.generation;
+
+    if (typeof file !== "string") {
+      this.objectUrl = URL.createObjectURL(file);
+    }
+    const audio = new Audio(this.objectUrl ?? (file as string));
+    this.audio = audio;
+    const { context, analyser } = this.createContext();
+    const node = context.createMediaElementSource(audio);
+    node.connect(analyser);
+    node.connect(context.destination);
+
+    audio.addEventListener("ended", () => {
+      if (generation !== this.generation) return;
+      this.stop();
+      onFrame(SILENT_FRAME);
+      onEnded?.();
+    });
+
+    try {
+      await audio.play();
+    } catch (e) {
+      this.stop();
+      return fail(toResultError(e, "unknown", "无法播放音频文件"));
+    }
+    if (generation !== this.generation) {
+      return err("aborted", "Lip sync stopped");
+    }
+    return this.begin("file", context, onFrame);
+  }
+
+  stop(): void {
+    this.generation++;
+    if (this.frameHandle !== null) {
+      window.cancelAnimationFrame(this.frameHandle);
+      this.frameHandle = null;
+    }
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    if (this.audio) {
+      this.audio.pause();
+      this.audio.removeAttribute("src");
+      this.audio = null;
+    }
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+    void this.context?.close();
+    this.context = null;
+    this.analyser = null;
+    this.current = null;
+    this.last = SILENT_FRAME;
+  }
+
+  private createContext() {
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = FFT_SIZE;
+    analyser.smoothingTimeConstant = 0.5;
+    this.context = context;
+    this.analyser = analyser;
+    return { context, analyser };
+  }
+
+  private async begin(
+    source: LipSyncSource,
+    context: AudioContext,
+    onFrame: (frame: LipSyncFrame) => void,
+  ): Promise<Result<void>> {
+    // 部分 WebView 在用户手势之外创建的 AudioContext 处于 suspended
+    if (context.state === "suspended") {
+      try {
+        await context.resume();
+      } catch (e) {
+        this.stop();
+        return fail(toResultError(e, "unknown", "无法启动音频"));
+      }
+    }
+    const analyser = this.analyser;
+    if (!analyser || this.context !== context) {
+      return err("aborted", "Lip sync stopped");
+    }
+
+    this.current = source;
+    const timeDomain = new Float32Array(analyser.fftSize);
+    const spectrum = new Float32Array(analyser.frequencyBinCount);
+    let lastTime = performance.now();
+
+    const loop = () => {
+      if (!this.analyser) return;
+      const now = performance.now();
+      const dt = Math.min(0.1, (now - lastTime) / 1000);
+      lastTime = now;
+
+      analyser.getFloatTimeDomainData(timeDomain);
+      analyser.getFloatFrequencyData(spectrum);
+      const target = analyzeAudioFrame(
+        timeDomain,
+        spectrum,
+        context.sampleRate,
+        this.settings,
+      );
+      onFrame(this.smooth(target, dt));
+      this.frameHandle = window.requestAnimationFrame(loop);
+    };
+    this.frameHandle = window.requestAnimationFrame(loop);
+
+    console.log(`[LipSync] Started (${source})`);
+    return ok(undefined);
+  }
+
+  private smooth(target: LipSyncFrame, dt: number): LipSyncFrame {
+    const prev = this.last;
+    const rate = target.mouthOpen > prev.mouthOpen ? ATTACK_RATE : RELEASE_RATE;
+    const alpha = 1 - Math.exp(-rate * dt);
+    this.last = {
+      ...target,
+      mouthOpen: prev.mouthOpen + (target.mouthOpen - prev.mouthOpen) * alpha,
+      mouthForm: prev.mouthForm + (target.mouthForm - prev.mouthForm) * alpha,
+    };
+    return this.last;
+  }
+}
@@ -0,0 +1,130 @@
+import {
+  DEFAULT_LIP_SYNC_SETTINGS,
+  MOUTH_FORM_PARAM,
+  MOUTH_OPEN_PARAM,
+  analyzeAudioFrame,
+  classifyVowel,
+  estimateFormants,
+  mixLipSync,
+  rms,
+  type LipSyncFrame,
+} from "./analysis";
+
+const SAMPLE_RATE = 48000;
+const BINS = 1024;
+
+/** 在 f1 / f2 处各有一个峰的频谱（dB） */
+const spectrumWithPeaks = (f1: number, f2: number) => {
+  const binHz = SAMPLE_RATE / 2 / BINS;
+  return Float32Array.from({ length: BINS }, (_, i) => {
+    const f = i * binHz;
+    const peak = (c: number) => Math.exp(-(((f - c) / 60) ** 2));
+    return -100 + 70 * Math.max(peak(f1), peak(f2));
+  });
+};
+
+const sine = (amplitude: number) =>
+  Float32Array.from(
+    { length: 2048 },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * 220 * i) / SAMPLE_RATE),
+  );
+
+describe("analysis", () => {
+  it("computes RMS", () => {
+    expect(rms([])).toBe(0);
+    expect(rms(sine(1))).toBeCloseTo(Math.SQRT1_2, 2);
+  });
+
+  it.each([
+    ["a", 800, 1250],
+    ["i", 300, 2300],
+    ["u", 350, 1300],
+    ["e", 500, 1900],
+    ["o", 500, 850],
+  ] as const)("classifies /%s/", (vowel, f1, f2) => {
+    expect(classifyVowel(f1, f2)).toBe(vowel);
+  });
+
+  it("estimates formants from spectral peaks", () => {
+    const formants = estimateFormants(
+      spectrumWithPeaks(300, 2300),
+      SAMPLE_RATE,
+    );
+    expect(formants?.f1).toBeCloseTo(300, -2);
+    expect(formants?.f2).toBeCloseTo(2300, -2);
+  });
+
+  it("keeps the mouth closed below the noise gate", () => {
+    const frame = analyzeAudioFrame(
+      sine(0.005),
+      spectrumWithPeaks(800, 1250),
+      SAMPLE_RATE,
+    );
+    expect(frame.mouthOpen).toBe(0);
+    expect(frame.vowel).toBeNull();
+  });
+
+  it("opens the mouth and shapes it by vowel", () => {
+    const a = analyzeAudioFrame(
+      sine(0.5),
+      spectrumWithPeaks(800, 1250),
+      SAMPLE_RATE,
+    );
+    const i = analyzeAudioFrame(
+      sine(0.5),
+      spectrumWithPeaks(300, 2300),
+      SAMPLE_RATE,
+    );
+    expect(a).toMatchObject({ vowel: "a", mouthOpen: 1, mouthForm: 0 });
+    expect(i.vowel).toBe("i");
+    expect(i.mouthOpen).toBeLessThan(a.mouthOpen);
+    expect(i.mouthForm).toBeGreaterThan(0);
+  });
+
+  it("falls back to volume only when vowels are disabled", () => {
+    const frame = analyzeAudioFrame(
+      sine(0.5),
+      spectrumWithPeaks(300, 2300),
+      SAMPLE_RATE,
+      { ...DEFAULT_LIP_SYNC_SETTINGS, vowels: false },
+    );
+    expect(frame).toMatchObject({ vowel: null, mouthOpen: 1, mouthForm: 0 });
+  });
+});
+
+describe("mixLipSync", () => {
+  const face = {
+    [MOUTH_OPEN_PARAM]: 0.6,
+    [MOUTH_FORM_PARAM]: 0.2,
+    ParamAngleX: 5,
+  };
+  const audio: LipSyncFrame = {
+    volume: 0.1,
+    mouthOpen: 0.4,
+    mouthForm: -0.8,
+    vowel: "o",
+  };
+
+  it("keeps the wider mouth in max mode", () => {
+    expect(mixLipSync(face, audio)).toEqual(face);
+    expect(mixLipSync(face, { ...audio, mouthOpen: 0.9 })).toMatchObject({
+      [MOUTH_OPEN_PARAM]: 0.9,
+      [MOUTH_FORM_PARAM]: -0.8,
+    });
+  });
+
+  it("replaces or blends mouth parameters", () => {
+    const settings = DEFAULT_LIP_SYNC_SETTINGS;
+    expect(
+      mixLipSync(face, audio, { ...settings, mixMode: "replace" }),
+    ).toEqual({ ...face, [MOUTH_OPEN_PARAM]: 0.4, [MOUTH_FORM_PARAM]: -0.8 });
+    const blended = mixLipSync(face, audio, {
+      ...settings,
+      mixMode: "blend",
+      audioWeight: 0.5,
+    });
+    expect(blended[MOUTH_OPEN_PARAM]).toBeCloseTo(0.5);
+    expect(blended[MOUTH_FORM_PARAM]).toBeCloseTo(-0.3);
+    expect(blended.ParamAngleX).toBe(5);
+  });
+});
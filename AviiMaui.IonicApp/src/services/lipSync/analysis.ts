@@ -0,0 +1,194 @@
+import { z } from "zod";
+
+/**
+ * Lip sync analysis
+ *
+ * 由一帧音频估计口型：
+ * - 张嘴幅度：时域 RMS 音量，减去噪声门限后乘以灵敏度
+ * - 口型（元音）：频谱上 F1 / F2 两个频段的能量重心近似共振峰，
+ *   取最近的元音 (a / i / u / e / o) 决定 ParamMouthForm 与张嘴比例
+ */
+
+export const MOUTH_OPEN_PARAM = "ParamMouthOpenY";
+export const MOUTH_FORM_PARAM = "ParamMouthForm";
+
+/**
+ * - replace: 只用音频驱动嘴巴
+ * - max: 取面部追踪与音频中张得更大的一方
+ * - blend: 按 audioWeight 线性混合
+ */
+export const LipSyncMixModeSchema = z.enum(["replace", "max", "blend"]);
+export type LipSyncMixMode = z.infer<typeof LipSyncMixModeSchema>;
+
+export const LipSyncSettingsSchema = z.object({
+  mixMode: LipSyncMixModeSchema.default("max"),
+  /** blend 模式下音频所占比例 */
+  audioWeight: z.number().min(0).max(1).default(0.7),
+  /** 音量 -> 张嘴幅度的倍数 */
+  sensitivity: z.number().min(1).max(50).default(10),
+  /** 低于该 RMS 视为静音 */
+  noiseGate: z.number().min(0).max(0.2).default(0.01),
+  /** 是否做元音识别（关闭时只按音量张嘴） */
+  vowels: z.boolean().default(true),
+});
+export type LipSyncSettings = z.output<typeof LipSyncSettingsSchema>;
+
+export const DEFAULT_LIP_SYNC_SETTINGS: LipSyncSettings =
+  LipSyncSettingsSchema.parse({});
+
+export type Vowel = "a" | "i" | "u" | "e" | "o";
+
+export interface LipSyncFrame {
+  /** 原始 RMS 音量 */
+  volume: number;
+  /** 0..1 */
+  mouthOpen: number;
+  /** -1 (嘟嘴) .. 1 (咧嘴) */
+  mouthForm: number;
+  vowel: Vowel | null;
+}
+
+// 成年人元音的典型共振峰 (F1, F2)，单位 Hz
+const VOWEL_FORMANTS: Record<Vowel, [number, number]> = {
+  a: [800, 1250],
+  i: [300, 2300],
+  u: [350, 1300],
+  e: [500, 1900],
+  o: [500, 850],
+};
+
+const VOWEL_SHAPES: Record<Vowel, { open: number; form: number }> = {
+  a: { open: 1, form: 0 },
+  i: { open: 0.35, form: 1 },
+  u: { open: 0.45, form: -0.6 },
+  e: { open: 0.6, form: 0.5 },
+  o: { open: 0.75, form: -0.8 },
+};
+
+const F1_BAND: [number, number] = [250, 1000];
+const F2_BAND: [number, number] = [850, 3000];
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+export const SILENT_FRAME: LipSyncFrame = {
+  volume: 0,
+  mouthOpen: 0,
+  mouthForm: 0,
+  vowel: null,
+};
+
+export function rms(samples: ArrayLike<number>): number {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / samples.length);
+}
+
+/**
+ * 频段内的能量加权平均频率
+ * @param spectrumDb AnalyserNode.getFloatFrequencyData 的结果（dB）
+ */
+function bandCentroid(
+  spectrumDb: ArrayLike<number>,
+  binHz: number,
+  [lo, hi]: [number, number],
+): number | null {
+  let weighted = 0;
+  let total = 0;
+  const start = Math.max(0, Math.ceil(lo / binHz));
+  const end = Math.min(spectrumDb.length - 1, Math.floor(hi / binHz));
+  for (let i = start; i <= end; i++) {
+    const db = spectrumDb[i];
+    if (!Number.isFinite(db)) continue;
+    const power = Math.pow(10, db / 10);
+    weighted += power * i * binHz;
+    total += power;
+  }
+  return total > 0 ? weighted / total : null;
+}
+
+export function estimateFormants(
+  spectrumDb: ArrayLike<number>,
+  sampleRate: number,
+): { f1: number; f2: number } | null {
+  // frequencyBinCount = fftSize / 2，覆盖 0 .. sampleRate / 2
+  const binHz = sampleRate / 2 / spectrumDb.length;
+  const f1 = bandCentroid(spectrumDb, binHz, F1_BAND);
+  const f2 = bandCentroid(spectrumDb, binHz, F2_BAND);
+  return f1 !== null && f2 !== null ? { f1, f2 } : null;
+}
+
+/**
+ * 对数频率空间中最近的元音
+ */
+export function classifyVowel(f1: number, f2: number): Vowel {
+  let best: Vowel = "a";
+  let bestDistance = Infinity;
+  for (const [vowel, [r1, r2]] of Object.entries(VOWEL_FORMANTS) as Array<
+    [Vowel, [number, number]]
+  >) {
+    const d = Math.log2(f1 / r1) ** 2 + Math.log2(f2 / r2) ** 2;
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = vowel;
+    }
+  }
+  return best;
+}
+
+export function analyzeAudioFrame(
+  timeDomain: ArrayLike<number>,
+  spectrumDb: ArrayLike<number>,
+  sampleRate: number,
+  settings: LipSyncSettings = DEFAULT_LIP_SYNC_SETTINGS,
+): LipSyncFrame {
+  const volume = rms(timeDomain);
+  const level = clamp01((volume - settings.noiseGate) * settings.sensitivity);
+  if (level <= 0) return { ...SILENT_FRAME, volume };
+
+  const formants = settings.vowels
+    ? estimateFormants(spectrumDb, sampleRate)
+    : null;
+  const vowel = formants ? classifyVowel(formants.f1, formants.f2) : null;
+  const shape = vowel ? VOWEL_SHAPES[vowel] : { open: 1, form: 0 };
+
+  return {
+    volume,
+    mouthOpen: level * shape.open,
+    mouthForm: shape.form,
+    vowel,
+  };
+}
+
+/**
+ * 把音频口型与映射后的面部追踪参数合并
+ */
+export function mixLipSync(
+  targets: Record<string, number>,
+  frame: LipSyncFrame,
+  settings: LipSyncSettings = DEFAULT_LIP_SYNC_SETTINGS,
+): Record<string, number> {
+  const faceOpen = targets[MOUTH_OPEN_PARAM] ?? 0;
+  const faceForm = targets[MOUTH_FORM_PARAM] ?? 0;
+  let open: number;
+  let form: number;
+
+  switch (settings.mixMode) {
+    case "replace":
+      open = frame.mouthOpen;
+      form = frame.mouthForm;
+      break;
+    case "max":
+      open = Math.max(faceOpen, frame.mouthOpen);
+      form = frame.mouthOpen > faceOpen ? frame.mouthForm : faceForm;
+      break;
+    case "blend": {
+      const w = settings.audioWeight;
+      open = faceOpen + (frame.mouthOpen - faceOpen) * w;
+      form = faceForm + (frame.mouthForm - faceForm) * w;
+      break;
+    }
+  }
+
+  return { ...targets, [MOUTH_OPEN_PARAM]: open, [MOUTH_FORM_PARAM]: form };
+}
@@ -0,0 +1,19 @@
+import { err, fail, toResultError, type Result } from "./result";
+
+/**
+ * getUserMedia 失败 -> Result 错误码
+ * @param device 用于错误信息，例如 "摄像头" / "麦克风"
+ */
+export function toMediaDeviceError<T = void>(
+  e: unknown,
+  device: string,
+): Result<T> {
+  const name = e instanceof Error ? e.name : "";
+  if (name === "NotAllowedError" || name === "SecurityError") {
+    return err("permission_denied", `${device}权限被拒绝`, { cause: e });
+  }
+  if (name === "NotFoundError" || name === "OverconstrainedError") {
+    return err("unsupported", `未找到可用的${device}`, { cause: e });
+  }
+  return fail(toResultError(e, "unknown", `无法打开${device}`));
+}
@@ -0,0 +1,34 @@
+import {
+  StageAvatarListSchema,
+  createStageAvatar,
+  recordingAvatarIds,
+} from "./avatars";
+
+describe("createStageAvatar", () => {
+  it("places new avatars alternately right and left behind the main model", () => {
+    const first = createStageAvatar("a.model3.json", [], "1");
+    const second = createStageAvatar("b.model3.json", [first], "2");
+    const third = createStageAvatar("c.model3.json", [first, second], "3");
+    expect(first).toMatchObject({ id: "1", x: 300, y: 0, zIndex: -1 });
+    expect(second.x).toBe(-300);
+    expect(third.x).toBe(600);
+    expect(first.source).toBe("idle");
+  });
+});
+
+describe("recordingAvatarIds", () => {
+  it("returns avatars driven by recordings", () => {
+    const avatars = StageAvatarListSchema.parse([
+      { id: "a", modelUrl: "a", source: "tracking" },
+      { id: "b", modelUrl: "b", source: "recording" },
+      { id: "c", modelUrl: "c" },
+    ]);
+    expect(recordingAvatarIds(avatars)).toEqual(["b"]);
+  });
+});
+
+describe("StageAvatarListSchema", () => {
+  it("rejects avatars without a model", () => {
+    expect(StageAvatarListSchema.safeParse([{ id: "a" }]).success).toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+import { z } from "zod";
+
+/**
+ * Stage avatars
+ *
+ * 与主模型同台显示的其他模型。主模型（id 为 `main`）仍由取景、互动、表情等设置控制；
+ * 同台模型各自有位置、大小、层级与参数来源：
+ * - tracking：与主模型使用同一份面部追踪
+ * - idle：只播放待机动画（眨眼、呼吸、Idle 动作组）
+ * - recording：由回放中的面部录制驱动，主模型继续跟随实时追踪
+ */
+
+export const MAIN_AVATAR_ID = "main";
+
+export const AvatarSourceSchema = z.enum(["tracking", "idle", "recording"]);
+export type AvatarSource = z.infer<typeof AvatarSourceSchema>;
+
+export const StageAvatarSchema = z.object({
+  id: z.string().min(1),
+  modelUrl: z.string().min(1),
+  /** 相对主模型中心的位置（视口坐标，与主模型一起平移缩放） */
+  x: z.number().min(-2000).max(2000).default(0),
+  y: z.number().min(-2000).max(2000).default(0),
+  scale: z.number().min(0.01).max(1).default(0.15),
+  /** 层级，主模型为 0，大的在前 */
+  zIndex: z.number().int().min(-10).max(10).default(-1),
+  source: AvatarSourceSchema.default("idle"),
+});
+export type StageAvatar = z.output<typeof StageAvatarSchema>;
+
+export const StageAvatarListSchema = z.array(StageAvatarSchema);
+
+/** 新增模型时的水平间距 */
+const AVATAR_SPACING = 300;
+
+/**
+ * 新建同台模型：依次放在主模型右、左两侧，位于主模型之后
+ */
+export function createStageAvatar(
+  modelUrl: string,
+  existing: StageAvatar[],
+  id: string = crypto.randomUUID(),
+): StageAvatar {
+  const slot = existing.length;
+  const side = slot % 2 === 0 ? 1 : -1;
+  return StageAvatarSchema.parse({
+    id,
+    modelUrl,
+    x: side * AVATAR_SPACING * (Math.floor(slot / 2) + 1),
+  });
+}
+
+/**
+ * 当前由录制回放驱动的同台模型 id；没有时回放仍驱动主模型
+ */
+export const recordingAvatarIds = (avatars: StageAvatar[]): string[] =>
+  avatars.filter((a) => a.source === "recording").map((a) => a.id);
@@ -0,0 +1,61 @@
+import {
+  BUILTIN_MODELS,
+  DEFAULT_MODEL_URL,
+  buildCatalog,
+  findModel,
+  normalizeModelUrl,
+} from "./catalog";
+
+const imported = {
+  id: "abc",
+  name: "Mao",
+  entry: "mao.model3.json",
+  size: 1,
+  importedAt: "2024-01-01T00:00:00.000Z",
+  warnings: [],
+};
+
+describe("normalizeModelUrl", () => {
+  it("falls back to the default model for unknown local paths", () => {
+    expect(normalizeModelUrl(null)).toBe(DEFAULT_MODEL_URL);
+    expect(normalizeModelUrl("models/rem/rem.json")).toBe(DEFAULT_MODEL_URL);
+  });
+
+  it("keeps builtin, imported and remote urls", () => {
+    const builtin = BUILTIN_MODELS[1].url;
+    expect(normalizeModelUrl(builtin)).toBe(builtin);
+    expect(normalizeModelUrl("imported:abc")).toBe("imported:abc");
+    expect(normalizeModelUrl("https://x.test/a.model3.json")).toBe(
+      "https://x.test/a.model3.json",
+    );
+  });
+});
+
+describe("findModel", () => {
+  const catalog = buildCatalog([imported]);
+
+  it("finds builtin and imported entries", () => {
+    expect(findModel(catalog, DEFAULT_MODEL_URL)?.source).toBe("builtin");
+    expect(findModel(catalog, "imported:abc")).toMatchObject({
+      name: "Mao",
+      version: "cubism4",
+      source: "imported",
+    });
+  });
+
+  it("uses the version detected when the model was imported", () => {
+    const v2 = buildCatalog([
+      { ...imported, id: "v2", entry: "rem.model.json", version: "cubism2" },
+    ]);
+    expect(findModel(v2, "imported:v2")?.version).toBe("cubism2");
+  });
+
+  it("synthesizes an entry for remote urls", () => {
+    expect(findModel(catalog, "https://x.test/shizuku.model.json")).toEqual({
+      url: "https://x.test/shizuku.model.json",
+      name: "shizuku.model.json",
+      source: "remote",
+    });
+    expect(findModel(catalog, "models/missing.model3.json")).toBeNull();
+  });
+});
@@ -0,0 +1,163 @@
+import { z } from "zod";
+import {
+  hasImportedModel,
+  importedModelUrl,
+  parseImportedModelUrl,
+  type ImportedModelInfo,
+} from "./importedModels";
+
+/**
+ * Model catalog
+ *
+ * 首页模型选择、设置页模型列表与 settingsStore.modelUrl 共用的唯一模型目录：
+ * - builtin:  随 App 打包在 public/models 下的模型
+ * - imported: 用户导入、保存在 IndexedDB 的模型（modelUrl 为 imported:<id>）
+ * - remote:   直接填写的 http(s) 地址
+ *
+ * 模型版本以清单结构为准（detectManifestVersion），不按文件名判断。
+ */
+
+export const ModelSourceSchema = z.enum(["builtin", "imported", "remote"]);
+export type ModelSource = z.infer<typeof ModelSourceSchema>;
+
+/** cubism2 = .model.json，cubism4 = .model3.json（Cubism 3 / 4 共用） */
+export const ModelVersionSchema = z.enum(["cubism2", "cubism4"]);
+export type ModelVersion = z.infer<typeof ModelVersionSchema>;
+
+export interface ModelEntry {
+  /** 即 modelUrl */
+  url: string;
+  name: string;
+  /** 远程地址在读取清单前未知，加载时由 resolveModelRuntime 判断 */
+  version?: ModelVersion;
+  source: ModelSource;
+  description?: string;
+  author?: string;
+  license?: string;
+  /** 缩略图 URL */
+  thumbnail?: string;
+}
+
+export type ModelAvailability = "checking" | "available" | "missing";
+
+const LIVE2D_SAMPLE = {
+  version: "cubism4",
+  source: "builtin",
+  author: "Live2D Inc.",
+  license: "Live2D Free Material License",
+} as const;
+
+export const BUILTIN_MODELS: ModelEntry[] = [
+  {
+    ...LIVE2D_SAMPLE,
+    url: "models/hiyori_free_en/runtime/hiyori_free_t08.model3.json",
+    name: "Hiyori",
+    description: "Cubism 3 标准模型",
+  },
+  {
+    ...LIVE2D_SAMPLE,
+    url: "models/chitose/runtime/chitose.model3.json",
+    name: "Chitose",
+    description: "男性模型，可切换右臂挥手",
+  },
+  {
+    ...LIVE2D_SAMPLE,
+    url: "models/natori_pro_en/runtime/natori_pro_t06.model3.json",
+    name: "Natori",
+    description: "手臂切换示例",
+  },
+  {
+    ...LIVE2D_SAMPLE,
+    url: "models/rice_pro_en/runtime/rice_pro_t03.model3.json",
+    name: "Rice",
+    description: "侧身模型，反向遮罩示例",
+  },
+  {
+    ...LIVE2D_SAMPLE,
+    url: "models/tororo_hijiki/tororo/runtime/tororo.model3.json",
+    name: "Tororo",
+    description: "白猫",
+  },
+  {
+    ...LIVE2D_SAMPLE,
+    url: "models/tororo_hijiki/hijiki/runtime/hijiki.model3.json",
+    name: "Hijiki",
+    description: "黑猫",
+  },
+  {
+    ...LIVE2D_SAMPLE,
+    url: "models/wanko/runtime/wanko_touch.model3.json",
+    name: "Wanko",
+    description: "可替换配饰",
+  },
+];
+
+export const DEFAULT_MODEL_URL = BUILTIN_MODELS[0].url;
+
+export const isRemoteUrl = (url: string) => /^https?:\/\//i.test(url);
+
+export const importedModelEntry = (info: ImportedModelInfo): ModelEntry => ({
+  url: importedModelUrl(info.id),
+  name: info.name,
+  version: info.version ?? "cubism4",
+  source: "imported",
+  description: `导入于 ${new Date(info.importedAt).toLocaleDateString()}`,
+});
+
+/**
+ * 内置模型 + 导入的模型
+ */
+export const buildCatalog = (imported: ImportedModelInfo[]): ModelEntry[] => [
+  ...BUILTIN_MODELS,
+  ...imported.map(importedModelEntry),
+];
+
+/**
+ * 查找 modelUrl 对应的条目；目录外的远程地址生成一个临时条目
+ */
+export function findModel(
+  catalog: ModelEntry[],
+  url: string,
+): ModelEntry | null {
+  const entry = catalog.find((m) => m.url === url);
+  if (entry) return entry;
+  if (isRemoteUrl(url)) {
+    return {
+      url,
+      name: decodeURIComponent(url.split("/").pop() ?? url),
+      source: "remote",
+    };
+  }
+  return null;
+}
+
+/**
+ * 检查模型入口文件能否读取
+ */
+export async function checkModelAvailability(
+  entry: ModelEntry,
+): Promise<boolean> {
+  const id = parseImportedModelUrl(entry.url);
+  if (id !== null) {
+    const result = await hasImportedModel(id);
+    return result.data === true;
+  }
+  try {
+    const response = await fetch(entry.url);
+    void response.body?.cancel();
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * settingsStore 加载时校验保存的 modelUrl：
+ * 不在目录中的本地路径（旧版本的模型、已移除的模型）退回默认模型。
+ * 导入的模型在 IndexedDB 中异步加载，这里只按前缀保留。
+ */
+export function normalizeModelUrl(url: string | null | undefined): string {
+  if (!url) return DEFAULT_MODEL_URL;
+  if (parseImportedModelUrl(url) !== null || isRemoteUrl(url)) return url;
+  return BUILTIN_MODELS.some((m) => m.url === url) ? url : DEFAULT_MODEL_URL;
+}
@@ -0,0 +1,18 @@
+import { toCubism2ParameterId } from "./cubismRuntime";
+
+describe("toCubism2ParameterId", () => {
+  it("converts standard parameter ids", () => {
+    expect(toCubism2ParameterId("ParamAngleX")).toBe("PARAM_ANGLE_X");
+    expect(toCubism2ParameterId("ParamEyeLOpen")).toBe("PARAM_EYE_L_OPEN");
+    expect(toCubism2ParameterId("ParamEyeBallY")).toBe("PARAM_EYE_BALL_Y");
+    expect(toCubism2ParameterId("ParamMouthOpenY")).toBe("PARAM_MOUTH_OPEN_Y");
+    expect(toCubism2ParameterId("ParamBodyAngleX")).toBe("PARAM_BODY_ANGLE_X");
+    expect(toCubism2ParameterId("ParamCheek")).toBe("PARAM_TERE");
+  });
+
+  it("keeps ids that are not in Cubism 3 form", () => {
+    expect(toCubism2ParameterId("PARAM_ANGLE_X")).toBe("PARAM_ANGLE_X");
+    expect(toCubism2ParameterId("CustomParam")).toBe("CustomParam");
+    expect(toCubism2ParameterId("Parameter")).toBe("Parameter");
+  });
+});
@@ -0,0 +1,165 @@
+import { err, fail, ok, toResultError, type Result } from "../result";
+import type { ModelVersion } from "./catalog";
+import { resolveModelSource } from "./importedModels";
+import { detectManifestVersion, resolvePath } from "./modelPackage";
+
+/**
+ * Cubism runtime
+ *
+ * pixi-live2d-display 的 cubism2 / cubism4 入口各自只注册一代运行时。
+ * 加载模型前先读取模型清单判断版本，再按需动态导入对应入口：
+ * - cubism2: .model.json（{ model, textures }），依赖 live2d.min.js
+ * - cubism4: .model3.json（{ FileReferences }），依赖 live2dcubismcore.min.js
+ *
+ * 追踪映射统一使用 Cubism 3+ 的参数 ID（ParamAngleX），
+ * 写入 V2 模型时用 toCubism2ParameterId 转换为 PARAM_ANGLE_X。
+ */
+
+/** Live2DModel 的静态部分，两代运行时签名一致 */
+export interface Live2DModelClass {
+  from(source: string | object | File[]): Promise<unknown>;
+}
+
+export interface ModelSourceInfo {
+  version: ModelVersion;
+  /** 传给 Live2DModel.from：导入的模型为 File[]，URL 为带 url 字段的清单 */
+  source: object | File[];
+}
+
+/**
+ * 读取模型清单：导入的模型读入口文件，URL 直接请求
+ */
+export async function readManifest(
+  source: string | File[],
+): Promise<Result<{ json: unknown; fileName: string }>> {
+  try {
+    if (typeof source !== "string") {
+      // loadImportedModelFiles 保证入口文件在第一个
+      const entry = source[0];
+      if (!entry) return err("schema_mismatch", "导入的模型没有文件");
+      return ok({ json: JSON.parse(await entry.text()), fileName: entry.name });
+    }
+    const response = await fetch(source);
+    if (!response.ok) {
+      return err("unknown", `读取模型失败 (HTTP ${response.status})`);
+    }
+    return ok({
+      json: await response.json(),
+      fileName: source.split("/").pop() ?? source,
+    });
+  } catch (e) {
+    return fail(toResultError(e, "invalid_json", "模型清单不是合法的 JSON"));
+  }
+}
+
+/**
+ * 读取清单引用的 JSON 文件（物理、姿势等），路径相对清单所在目录
+ */
+export async function readModelAsset(
+  source: string | File[],
+  path: string,
+): Promise<Result<unknown>> {
+  try {
+    if (typeof source !== "string") {
+      const entryPath = source[0]?.webkitRelativePath ?? "";
+      const target = resolvePath(
+        entryPath.slice(0, entryPath.lastIndexOf("/") + 1),
+        path,
+      );
+      const file = source.find((f) => f.webkitRelativePath === target);
+      if (!file) return err("schema_mismatch", `模型缺少文件: ${path}`);
+      return ok(JSON.parse(await file.text()));
+    }
+    const response = await fetch(
+      new URL(path, new URL(source, window.location.href)),
+    );
+    if (!response.ok) {
+      return err("unknown", `读取 ${path} 失败 (HTTP ${response.status})`);
+    }
+    return ok(await response.json());
+  } catch (e) {
+    return fail(toResultError(e, "invalid_json", `${path} 不是合法的 JSON`));
+  }
+}
+
+/**
+ * modelUrl -> 模型版本与 Live2DModel.from 的参数（清单只读取一次）
+ */
+export async function resolveModelRuntime(
+  url: string,
+): Promise<Result<ModelSourceInfo>> {
+  const resolved = await resolveModelSource(url);
+  if (resolved.error !== null) return resolved;
+
+  const manifest = await readManifest(resolved.data);
+  if (manifest.error !== null) return manifest;
+  const version = detectManifestVersion(manifest.data.json);
+  if (!version) {
+    return err(
+      "schema_mismatch",
+      `无法识别的模型格式: ${manifest.data.fileName}`,
+    );
+  }
+
+  const source =
+    typeof resolved.data === "string"
+      ? // 相对路径以清单 URL 为基准解析
+        { ...(manifest.data.json as object), url: resolved.data }
+      : resolved.data;
+  return ok({ version, source });
+}
+
+/**
+ * 动态导入对应版本的 pixi-live2d-display 入口
+ */
+export async function loadLive2DRuntime(
+  version: ModelVersion,
+): Promise<Result<Live2DModelClass>> {
+  // 两个入口在模块加载时检查全局运行时，缺失会直接抛错
+  const global = window as unknown as Record<string, unknown>;
+  try {
+    if (version === "cubism2") {
+      if (!global.Live2D) {
+        return err("unsupported", "未加载 Cubism 2 运行时 (live2d.min.js)");
+      }
+      const { Live2DModel } = await import("pixi-live2d-display/cubism2");
+      return ok(Live2DModel);
+    }
+    if (!global.Live2DCubismCore) {
+      return err(
+        "unsupported",
+        "未加载 Cubism 4 运行时 (live2dcubismcore.min.js)",
+      );
+    }
+    const { Live2DModel } = await import("pixi-live2d-display/cubism4");
+    return ok(Live2DModel);
+  } catch (e) {
+    return fail(toResultError(e, "unknown", "加载 Live2D 运行时失败"));
+  }
+}
+
+/** 命名方式之外改了名字的标准参数 */
+const CUBISM2_RENAMED_PARAMETERS: Record<string, string> = {
+  ParamCheek: "PARAM_TERE",
+};
+
+const cubism2Ids = new Map<string, string>();
+
+/**
+ * Cubism 3+ 参数 ID -> Cubism 2 参数 ID
+ *
+ * ParamEyeLOpen -> PARAM_EYE_L_OPEN；不以 Param 开头的 ID（含已是 V2 写法的）原样返回
+ */
+export function toCubism2ParameterId(id: string): string {
+  let converted = cubism2Ids.get(id);
+  if (converted === undefined) {
+    const words = /^Param(?=[A-Z0-9])/.test(id)
+      ? id.slice("Param".length).match(/[A-Z][a-z]*|[0-9]+/g)
+      : null;
+    converted =
+      CUBISM2_RENAMED_PARAMETERS[id] ??
+      (words ? `PARAM_${words.join("_").toUpperCase()}` : id);
+    cubism2Ids.set(id, converted);
+  }
+  return converted;
+}
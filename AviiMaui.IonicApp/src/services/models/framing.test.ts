@@ -0,0 +1,85 @@
+import {
+  DEFAULT_FRAMING,
+  FramingSchema,
+  MAX_ZOOM,
+  framePreset,
+  interpolateFraming,
+  resetView,
+} from "./framing";
+
+const layout = { modelHeight: 1000, modelOffsetY: 50, screenHeight: 800 };
+
+describe("framePreset", () => {
+  it("fits the whole model for the full body preset", () => {
+    const framing = framePreset("fullBody", DEFAULT_FRAMING, layout);
+    expect(framing.zoom).toBeCloseTo(800 / 1050);
+    expect(framing.panX).toBe(0);
+    // 模型中心 (y = 50) 移到画面中心
+    expect(framing.panY * layout.screenHeight).toBeCloseTo(-framing.zoom * 50);
+  });
+
+  it("zooms in and centers the face for the close-up preset", () => {
+    const framing = framePreset("face", DEFAULT_FRAMING, layout);
+    expect(framing.zoom).toBeGreaterThan(
+      framePreset("bust", DEFAULT_FRAMING, layout).zoom,
+    );
+    // 头部在模型上方，画面需要向下平移
+    expect(framing.panY).toBeGreaterThan(0);
+  });
+
+  it("keeps model scale and rotation and clamps zoom", () => {
+    const current = { ...DEFAULT_FRAMING, scale: 0.3, rotation: 15 };
+    const framing = framePreset("face", current, {
+      ...layout,
+      modelHeight: 10,
+    });
+    expect(framing.zoom).toBe(MAX_ZOOM);
+    expect(framing.scale).toBe(0.3);
+    expect(framing.rotation).toBe(15);
+  });
+
+  it("returns the current framing when the model has no size", () => {
+    const framing = framePreset("bust", DEFAULT_FRAMING, {
+      ...layout,
+      modelHeight: 0,
+    });
+    expect(framing).toBe(DEFAULT_FRAMING);
+  });
+});
+
+describe("resetView", () => {
+  it("resets pan and zoom only", () => {
+    expect(
+      resetView({ panX: 0.2, panY: -0.1, zoom: 3, scale: 0.2, rotation: 30 }),
+    ).toEqual({ ...DEFAULT_FRAMING, scale: 0.2, rotation: 30 });
+  });
+});
+
+describe("interpolateFraming", () => {
+  const from = { ...DEFAULT_FRAMING, zoom: 1 };
+  const to = { ...DEFAULT_FRAMING, panX: 0.4, zoom: 4, rotation: 90 };
+
+  it("returns the endpoints at t = 0 and t = 1", () => {
+    expect(interpolateFraming(from, to, 0)).toEqual(from);
+    const end = interpolateFraming(from, to, 1);
+    expect(end.zoom).toBeCloseTo(4);
+    expect(end.panX).toBeCloseTo(0.4);
+  });
+
+  it("interpolates zoom geometrically", () => {
+    const mid = interpolateFraming(from, to, 0.5);
+    expect(mid.zoom).toBeCloseTo(2);
+    expect(mid.panX).toBeCloseTo(0.2);
+    expect(mid.rotation).toBeCloseTo(45);
+  });
+});
+
+describe("FramingSchema", () => {
+  it("rejects zoom outside the supported range", () => {
+    expect(FramingSchema.safeParse({ zoom: 50 }).success).toBe(false);
+    expect(FramingSchema.parse({ scale: 0.3 })).toEqual({
+      ...DEFAULT_FRAMING,
+      scale: 0.3,
+    });
+  });
+});
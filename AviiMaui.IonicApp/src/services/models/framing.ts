@@ -0,0 +1,114 @@
+import { z } from "zod";
+
+/**
+ * Framing
+ *
+ * 按模型保存的取景：画面平移 / 缩放（Live2DViewer 的视口）与模型自身的大小 / 旋转。
+ * 平移以画布宽高的比例保存，横竖屏切换或窗口大小变化后取景保持一致。
+ */
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 5;
+
+export const FramingSchema = z.object({
+  /** 水平平移，画布宽度的比例 */
+  panX: z.number().default(0),
+  /** 垂直平移，画布高度的比例 */
+  panY: z.number().default(0),
+  zoom: z.number().min(MIN_ZOOM).max(MAX_ZOOM).default(1),
+  /** 模型缩放 */
+  scale: z.number().min(0.01).max(1).default(0.15),
+  /** 模型旋转（度） */
+  rotation: z.number().min(-180).max(180).default(0),
+});
+export type Framing = z.output<typeof FramingSchema>;
+
+export const DEFAULT_FRAMING: Framing = FramingSchema.parse({});
+
+export const FramingPresetIdSchema = z.enum(["fullBody", "bust", "face"]);
+export type FramingPresetId = z.infer<typeof FramingPresetIdSchema>;
+
+interface FramingPreset {
+  label: string;
+  /** 画面中心对准的位置，模型高度的比例（0 = 头顶） */
+  centerY: number;
+  /** 画面高度容纳的模型高度比例 */
+  visible: number;
+}
+
+// 大多数 Live2D 立绘头部约占上方 1/4
+export const FRAMING_PRESETS: Record<FramingPresetId, FramingPreset> = {
+  fullBody: { label: "全身", centerY: 0.5, visible: 1.05 },
+  bust: { label: "半身", centerY: 0.3, visible: 0.55 },
+  face: { label: "面部特写", centerY: 0.17, visible: 0.3 },
+};
+
+/** 取景切换动画时长（毫秒） */
+export const FRAMING_TRANSITION_MS = 400;
+
+export interface FramingLayout {
+  /** 视口缩放为 1 时模型的高度（像素） */
+  modelHeight: number;
+  /** 模型中心相对视口原点的垂直偏移（像素） */
+  modelOffsetY: number;
+  screenHeight: number;
+}
+
+const clamp = (v: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, v));
+
+/**
+ * 计算预设对应的视口平移与缩放，模型大小与旋转保持不变
+ */
+export function framePreset(
+  preset: FramingPresetId,
+  framing: Framing,
+  layout: FramingLayout,
+): Framing {
+  const { centerY, visible } = FRAMING_PRESETS[preset];
+  if (!(layout.modelHeight > 0) || !(layout.screenHeight > 0)) return framing;
+
+  const zoom = clamp(
+    layout.screenHeight / (layout.modelHeight * visible),
+    MIN_ZOOM,
+    MAX_ZOOM,
+  );
+  const focusY = layout.modelOffsetY + (centerY - 0.5) * layout.modelHeight;
+  return {
+    ...framing,
+    panX: 0,
+    panY: (-zoom * focusY) / layout.screenHeight,
+    zoom,
+  };
+}
+
+/**
+ * 恢复默认平移与缩放（双击画面），模型大小与旋转保持不变
+ */
+export const resetView = (framing: Framing): Framing => ({
+  ...framing,
+  panX: DEFAULT_FRAMING.panX,
+  panY: DEFAULT_FRAMING.panY,
+  zoom: DEFAULT_FRAMING.zoom,
+});
+
+export const easeInOutCubic = (t: number) =>
+  t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2;
+
+/**
+ * 两个取景之间插值；缩放按对数插值，放大与缩小的速度观感一致
+ */
+export function interpolateFraming(
+  from: Framing,
+  to: Framing,
+  t: number,
+): Framing {
+  const lerp = (a: number, b: number) => a + (b - a) * t;
+  return {
+    panX: lerp(from.panX, to.panX),
+    panY: lerp(from.panY, to.panY),
+    zoom: Math.exp(lerp(Math.log(from.zoom), Math.log(to.zoom))),
+    scale: lerp(from.scale, to.scale),
+    rotation: lerp(from.rotation, to.rotation),
+  };
+}
@@ -0,0 +1,211 @@
+import { err, fail, ok, toResultError, type Result } from "../result";
+import type { ModelVersion } from "./catalog";
+import { validateModelPackage, type ModelPackage } from "./modelPackage";
+import { unzip } from "./zip";
+
+/**
+ * Imported models
+ *
+ * 用户导入的模型保存在 IndexedDB：
+ * - models: 元数据（列表页只读这张表）
+ * - files:  模型 id -> { 相对路径: Blob }
+ *
+ * 加载时把文件还原为带 webkitRelativePath 的 File[]，交给
+ * pixi-live2d-display 的 FileLoader，由它为每个资源创建 blob URL。
+ */
+
+/** modelUrl 前缀，后接模型 id */
+export const IMPORTED_MODEL_PREFIX = "imported:";
+
+const DB_NAME = "avii-models";
+const DB_VERSION = 1;
+const MODELS_STORE = "models";
+const FILES_STORE = "files";
+
+export interface ImportedModelInfo {
+  id: string;
+  name: string;
+  /** 导入时按清单判断；旧版本的记录没有此字段（只支持导入 Cubism 4） */
+  version?: ModelVersion;
+  /** 模型清单相对模型根目录的路径 */
+  entry: string;
+  /** 字节数 */
+  size: number;
+  importedAt: string;
+  /** 导入时缺失的非必需文件 */
+  warnings: string[];
+}
+
+export const importedModelUrl = (id: string) => `${IMPORTED_MODEL_PREFIX}${id}`;
+
+export const parseImportedModelUrl = (url: string): string | null =>
+  url.startsWith(IMPORTED_MODEL_PREFIX)
+    ? url.slice(IMPORTED_MODEL_PREFIX.length)
+    : null;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(MODELS_STORE)) {
+        db.createObjectStore(MODELS_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(FILES_STORE)) {
+        db.createObjectStore(FILES_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((e) => {
+    dbPromise = null;
+    throw e;
+  });
+  return dbPromise;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+
+async function withDb<T>(
+  message: string,
+  fn: (db: IDBDatabase) => Promise<T>,
+): Promise<Result<T>> {
+  if (typeof indexedDB === "undefined") {
+    return err("unsupported", "当前环境不支持 IndexedDB");
+  }
+  try {
+    return ok(await fn(await openDb()));
+  } catch (e) {
+    return fail(toResultError(e, "unknown", message));
+  }
+}
+
+export function listImportedModels(): Promise<Result<ImportedModelInfo[]>> {
+  return withDb("读取导入的模型失败", async (db) => {
+    const tx = db.transaction(MODELS_STORE, "readonly");
+    const models = await requestToPromise<ImportedModelInfo[]>(
+      tx.objectStore(MODELS_STORE).getAll(),
+    );
+    return models.sort((a, b) => a.importedAt.localeCompare(b.importedAt));
+  });
+}
+
+export function saveImportedModel(
+  pkg: ModelPackage,
+): Promise<Result<ImportedModelInfo>> {
+  return withDb("保存模型失败", async (db) => {
+    const blobs: Record<string, Blob> = {};
+    let size = 0;
+    for (const [path, bytes] of Object.entries(pkg.files)) {
+      blobs[path] = new Blob([bytes]);
+      size += bytes.byteLength;
+    }
+    const info: ImportedModelInfo = {
+      id: crypto.randomUUID(),
+      name: pkg.name,
+      version: pkg.version,
+      entry: pkg.entry,
+      size,
+      importedAt: new Date().toISOString(),
+      warnings: pkg.warnings,
+    };
+
+    const tx = db.transaction([MODELS_STORE, FILES_STORE], "readwrite");
+    tx.objectStore(MODELS_STORE).put(info);
+    tx.objectStore(FILES_STORE).put(blobs, info.id);
+    await transactionDone(tx);
+    return info;
+  });
+}
+
+export function deleteImportedModel(id: string): Promise<Result<void>> {
+  return withDb("删除模型失败", async (db) => {
+    const tx = db.transaction([MODELS_STORE, FILES_STORE], "readwrite");
+    tx.objectStore(MODELS_STORE).delete(id);
+    tx.objectStore(FILES_STORE).delete(id);
+    await transactionDone(tx);
+  });
+}
+
+export function hasImportedModel(id: string): Promise<Result<boolean>> {
+  return withDb("读取导入的模型失败", async (db) => {
+    const tx = db.transaction(FILES_STORE, "readonly");
+    const count = await requestToPromise(tx.objectStore(FILES_STORE).count(id));
+    return count > 0;
+  });
+}
+
+/**
+ * 读取模型文件，返回 FileLoader 可用的 File[]（模型清单在第一个）
+ */
+export async function loadImportedModelFiles(
+  id: string,
+): Promise<Result<File[]>> {
+  const result = await withDb("读取模型文件失败", async (db) => {
+    const tx = db.transaction([MODELS_STORE, FILES_STORE], "readonly");
+    const [info, blobs] = await Promise.all([
+      requestToPromise<ImportedModelInfo | undefined>(
+        tx.objectStore(MODELS_STORE).get(id),
+      ),
+      requestToPromise<Record<string, Blob> | undefined>(
+        tx.objectStore(FILES_STORE).get(id),
+      ),
+    ]);
+    return info && blobs ? { info, blobs } : null;
+  });
+  if (result.error !== null) return result;
+  if (!result.data) return err("schema_mismatch", "导入的模型已被删除");
+
+  const { info, blobs } = result.data;
+  const files = Object.entries(blobs).map(([path, blob]) => {
+    const file = new File([blob], path.split("/").pop() ?? path);
+    // FileLoader 按 webkitRelativePath 解析模型中的相对路径，需要一层目录
+    Object.defineProperty(file, "webkitRelativePath", {
+      value: `${info.id}/${path}`,
+    });
+    return file;
+  });
+  // FileLoader 取第一个以 model.json / model3.json 结尾的文件作为入口
+  files.sort(
+    (a, b) =>
+      Number(b.webkitRelativePath.endsWith(`/${info.entry}`)) -
+      Number(a.webkitRelativePath.endsWith(`/${info.entry}`)),
+  );
+  return ok(files);
+}
+
+/**
+ * modelUrl -> Live2DModel.from 的参数：内置模型原样返回 URL，导入的模型返回 File[]
+ */
+export async function resolveModelSource(
+  url: string,
+): Promise<Result<string | File[]>> {
+  const id = parseImportedModelUrl(url);
+  return id === null ? ok(url) : loadImportedModelFiles(id);
+}
+
+/**
+ * 解压、校验并保存模型压缩包
+ */
+export async function importModelZip(
+  bytes: Uint8Array,
+): Promise<Result<ImportedModelInfo>> {
+  const files = await unzip(bytes);
+  if (files.error !== null) return files;
+  const pkg = validateModelPackage(files.data);
+  if (pkg.error !== null) return pkg;
+  return saveImportedModel(pkg.data);
+}
@@ -0,0 +1,68 @@
+import {
+  ANY_HIT_AREA,
+  DEFAULT_INTERACTION_CONFIG,
+  applyPointerFocus,
+  findBinding,
+  setBinding,
+  suggestInteractionConfig,
+} from "./interactions";
+
+describe("suggestInteractionConfig", () => {
+  it("binds hit areas to tap motion groups by naming convention", () => {
+    const config = suggestInteractionConfig(
+      ["HitAreaHead", "HitAreaBody"],
+      ["Idle", "Tap", "Tap@Head", "tap_body"],
+    );
+    expect(config.bindings).toEqual([
+      {
+        hitArea: "HitAreaHead",
+        gesture: "tap",
+        action: { type: "motion", group: "Tap@Head" },
+      },
+      {
+        hitArea: "HitAreaBody",
+        gesture: "tap",
+        action: { type: "motion", group: "tap_body" },
+      },
+      {
+        hitArea: ANY_HIT_AREA,
+        gesture: "tap",
+        action: { type: "motion", group: "Tap" },
+      },
+    ]);
+  });
+});
+
+describe("findBinding", () => {
+  const config = suggestInteractionConfig(["Body"], ["Tap", "Tap@Body"]);
+
+  it("prefers the hit area over the wildcard", () => {
+    expect(findBinding(config, ["Body"], "tap")?.action).toEqual({
+      type: "motion",
+      group: "Tap@Body",
+    });
+    expect(findBinding(config, [], "tap")?.hitArea).toBe(ANY_HIT_AREA);
+    expect(findBinding(config, ["Body"], "longPress")).toBeNull();
+  });
+});
+
+describe("setBinding", () => {
+  it("replaces and removes the binding of a hit area + gesture", () => {
+    const action = { type: "expression", name: "Smile" } as const;
+    let config = setBinding(DEFAULT_INTERACTION_CONFIG, "Head", "tap", action);
+    config = setBinding(config, "Head", "tap", action);
+    expect(config.bindings).toHaveLength(1);
+    config = setBinding(config, "Head", "tap", null);
+    expect(config.bindings).toHaveLength(0);
+  });
+});
+
+describe("applyPointerFocus", () => {
+  it("drives head angle and gaze from the pointer", () => {
+    const face = applyPointerFocus(null, { x: 1, y: -0.5 });
+    expect(face.angleX).toBe(12);
+    expect(face.angleY).toBe(-6);
+    expect(face.eyeBallX).toBe(1);
+    expect(face.eyeOpenL).toBe(1);
+  });
+});
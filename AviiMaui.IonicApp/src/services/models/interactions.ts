@@ -0,0 +1,147 @@
+import { z } from "zod";
+import type { FaceTrackingData } from "../bridgeMessages";
+import { NEUTRAL_FACE } from "../faceTracking/parameterMapping";
+
+/**
+ * Interactions
+ *
+ * 按模型保存的互动配置：命中区域 (HitAreas) + 手势 -> 动作 / 表情 / 声音。
+ * - hitArea 为 `*` 时匹配模型上的任意位置（包括没有定义命中区域的模型），
+ *   优先级低于具体的命中区域
+ * - dragFollow：在模型上拖动时视线与头部跟随指针，拖动空白处仍为平移画面
+ *
+ * 未自定义的模型由 suggestInteractionConfig 按动作组命名
+ * （`Tap`、`TapHead`、`Tap@Body`、V2 的 `tap_body`）生成默认配置。
+ */
+
+export const ANY_HIT_AREA = "*";
+
+export const InteractionGestureSchema = z.enum(["tap", "longPress"]);
+export type InteractionGesture = z.infer<typeof InteractionGestureSchema>;
+
+export const InteractionActionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("motion"),
+    group: z.string().min(1),
+    /** 省略时随机播放组内动作 */
+    index: z.number().int().min(0).optional(),
+  }),
+  z.object({ type: z.literal("expression"), name: z.string().min(1) }),
+  z.object({ type: z.literal("sound"), url: z.string().min(1) }),
+]);
+export type InteractionAction = z.infer<typeof InteractionActionSchema>;
+
+export const InteractionBindingSchema = z.object({
+  hitArea: z.string().min(1),
+  gesture: InteractionGestureSchema.default("tap"),
+  action: InteractionActionSchema,
+});
+export type InteractionBinding = z.output<typeof InteractionBindingSchema>;
+
+export const InteractionConfigSchema = z.object({
+  bindings: z.array(InteractionBindingSchema).default([]),
+  dragFollow: z.boolean().default(true),
+  /** 长按判定时间（毫秒） */
+  longPressMs: z.number().min(200).max(2000).default(500),
+});
+export type InteractionConfig = z.output<typeof InteractionConfigSchema>;
+
+export const DEFAULT_INTERACTION_CONFIG: InteractionConfig =
+  InteractionConfigSchema.parse({});
+
+/** 指针相对模型中心的位置，-1..1，y 向上为正 */
+export interface PointerFocus {
+  x: number;
+  y: number;
+}
+
+const normalizeName = (name: string) =>
+  name
+    .replace(/^hitarea/i, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+
+/**
+ * 按命名约定生成默认配置：命中区域 X -> Tap X / Tap@X / tap_x，其余位置 -> Tap
+ */
+export function suggestInteractionConfig(
+  hitAreas: string[],
+  motionGroups: string[],
+): InteractionConfig {
+  const bindings: InteractionBinding[] = [];
+  const findGroup = (name: string) =>
+    motionGroups.find((g) => normalizeName(g) === name);
+
+  for (const hitArea of hitAreas) {
+    const group = findGroup(`tap${normalizeName(hitArea)}`);
+    if (group) {
+      bindings.push({
+        hitArea,
+        gesture: "tap",
+        action: { type: "motion", group },
+      });
+    }
+  }
+  const tap = findGroup("tap");
+  if (tap) {
+    bindings.push({
+      hitArea: ANY_HIT_AREA,
+      gesture: "tap",
+      action: { type: "motion", group: tap },
+    });
+  }
+  return { ...DEFAULT_INTERACTION_CONFIG, bindings };
+}
+
+/**
+ * 查找手势对应的绑定：先按命中区域，再回退到 `*`
+ *
+ * @param hitAreas 指针下的命中区域（hitTest 的结果）
+ */
+export function findBinding(
+  config: InteractionConfig,
+  hitAreas: string[],
+  gesture: InteractionGesture,
+): InteractionBinding | null {
+  const candidates = config.bindings.filter((b) => b.gesture === gesture);
+  return (
+    candidates.find((b) => hitAreas.includes(b.hitArea)) ??
+    candidates.find((b) => b.hitArea === ANY_HIT_AREA) ??
+    null
+  );
+}
+
+/**
+ * 设置（action 为 null 时删除）某个命中区域 + 手势的绑定，每个组合只保留一条
+ */
+export function setBinding(
+  config: InteractionConfig,
+  hitArea: string,
+  gesture: InteractionGesture,
+  action: InteractionAction | null,
+): InteractionConfig {
+  const bindings = config.bindings.filter(
+    (b) => !(b.hitArea === hitArea && b.gesture === gesture),
+  );
+  if (action) bindings.push({ hitArea, gesture, action });
+  return { ...config, bindings };
+}
+
+// 与默认参数映射的增益 (x2.5) 配合，最大约 ±30°
+const FOCUS_ANGLE = 12;
+
+/**
+ * 拖动跟随时用指针位置替换头部角度与视线；没有追踪 / 待机数据时以正脸为基础
+ */
+export function applyPointerFocus(
+  face: FaceTrackingData | null,
+  focus: PointerFocus,
+): FaceTrackingData {
+  return {
+    ...(face ?? NEUTRAL_FACE),
+    angleX: focus.x * FOCUS_ANGLE,
+    angleY: focus.y * FOCUS_ANGLE,
+    eyeBallX: focus.x,
+    eyeBallY: focus.y,
+  };
+}
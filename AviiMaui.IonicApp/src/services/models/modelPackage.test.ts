@@ -0,0 +1,127 @@
+import {
+  detectManifestVersion,
+  resolvePath,
+  validateModelPackage,
+} from "./modelPackage";
+
+const text = (s: string) => new TextEncoder().encode(s);
+const bytes = () => Uint8Array.of(0);
+
+const model3 = (refs: Record<string, unknown>) =>
+  text(JSON.stringify({ Version: 3, FileReferences: refs }));
+
+describe("detectManifestVersion", () => {
+  it("detects Cubism 4 and Cubism 2 manifests", () => {
+    expect(
+      detectManifestVersion({
+        Version: 3,
+        FileReferences: { Moc: "a.moc3", Textures: ["a.png"] },
+      }),
+    ).toBe("cubism4");
+    expect(
+      detectManifestVersion({ model: "rem.moc", textures: ["rem.png"] }),
+    ).toBe("cubism2");
+  });
+
+  it("returns null for unknown manifests", () => {
+    expect(detectManifestVersion(null)).toBeNull();
+    expect(detectManifestVersion({ model: "a.moc" })).toBeNull();
+  });
+});
+
+describe("resolvePath", () => {
+  it("normalizes relative segments", () => {
+    expect(resolvePath("a/b/", "./c.png")).toBe("a/b/c.png");
+    expect(resolvePath("a/b/", "../c.png")).toBe("a/c.png");
+    expect(resolvePath("", "../c.png")).toBeNull();
+  });
+});
+
+describe("validateModelPackage", () => {
+  it("strips the root folder and keeps only referenced files", () => {
+    const result = validateModelPackage({
+      "pkg/runtime/hiyori.model3.json": model3({
+        Moc: "hiyori.moc3",
+        Textures: ["tex/texture_00.png"],
+        Physics: "hiyori.physics3.json",
+        Motions: { Idle: [{ File: "motion/idle.motion3.json" }] },
+      }),
+      "pkg/runtime/hiyori.moc3": bytes(),
+      "pkg/runtime/tex/texture_00.png": bytes(),
+      "pkg/runtime/hiyori.physics3.json": bytes(),
+      "pkg/runtime/motion/idle.motion3.json": bytes(),
+      "pkg/readme.txt": bytes(),
+    });
+    expect(result.error).toBeNull();
+    expect(result.data?.name).toBe("hiyori");
+    expect(result.data?.version).toBe("cubism4");
+    expect(result.data?.entry).toBe("hiyori.model3.json");
+    expect(Object.keys(result.data?.files ?? {}).sort()).toEqual([
+      "hiyori.moc3",
+      "hiyori.model3.json",
+      "hiyori.physics3.json",
+      "motion/idle.motion3.json",
+      "tex/texture_00.png",
+    ]);
+    expect(result.data?.warnings).toEqual([]);
+  });
+
+  it("fails when required files are missing", () => {
+    const result = validateModelPackage({
+      "m.model3.json": model3({ Moc: "m.moc3", Textures: ["t.png"] }),
+      "m.moc3": bytes(),
+    });
+    expect(result.error?.code).toBe("schema_mismatch");
+    expect(result.error?.message).toContain("t.png");
+  });
+
+  it("reports missing motions as warnings", () => {
+    const result = validateModelPackage({
+      "m.model3.json": model3({
+        Moc: "m.moc3",
+        Textures: ["t.png"],
+        Motions: { Tap: [{ File: "tap.motion3.json", Sound: "tap.wav" }] },
+      }),
+      "m.moc3": bytes(),
+      "t.png": bytes(),
+    });
+    expect(result.error).toBeNull();
+    expect(result.data?.warnings).toEqual(["tap.motion3.json", "tap.wav"]);
+  });
+
+  it("accepts Cubism 2 packages", () => {
+    const result = validateModelPackage({
+      "shizuku/shizuku.model.json": text(
+        JSON.stringify({
+          model: "moc/shizuku.moc",
+          textures: ["moc/shizuku.1024/texture_00.png"],
+          physics: "shizuku.physics.json",
+          expressions: [{ name: "f01", file: "exp/f01.exp.json" }],
+          motions: { idle: [{ file: "mtn/idle.mtn", sound: "snd/idle.mp3" }] },
+        }),
+      ),
+      "shizuku/moc/shizuku.moc": bytes(),
+      "shizuku/moc/shizuku.1024/texture_00.png": bytes(),
+      "shizuku/shizuku.physics.json": bytes(),
+      "shizuku/exp/f01.exp.json": bytes(),
+      "shizuku/mtn/idle.mtn": bytes(),
+    });
+    expect(result.error).toBeNull();
+    expect(result.data).toMatchObject({
+      name: "shizuku",
+      version: "cubism2",
+      entry: "shizuku.model.json",
+      warnings: ["snd/idle.mp3"],
+    });
+    expect(Object.keys(result.data?.files ?? {})).toHaveLength(6);
+  });
+
+  it("explains packages without a model manifest", () => {
+    expect(validateModelPackage({ "a.png": bytes() }).error?.code).toBe(
+      "schema_mismatch",
+    );
+    expect(
+      validateModelPackage({ "rem.model.json": text("{}") }).error?.code,
+    ).toBe("schema_mismatch");
+  });
+});
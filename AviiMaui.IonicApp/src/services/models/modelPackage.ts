@@ -0,0 +1,216 @@
+import { z } from "zod";
+import { err, ok, type Result } from "../result";
+import type { ModelVersion } from "./catalog";
+import type { ZipFiles } from "./zip";
+
+/**
+ * Model package
+ *
+ * 校验用户导入的 Cubism 模型压缩包：找到模型清单（.model3.json / V2 .model.json），
+ * 检查其引用的文件都在包内，并把路径改为相对模型根目录，只保留被引用的文件。
+ */
+
+export const MODEL3_SUFFIX = ".model3.json";
+export const MODEL2_SUFFIX = ".model.json";
+
+const Model3Schema = z.object({
+  FileReferences: z.object({
+    Moc: z.string().min(1),
+    Textures: z.array(z.string()).min(1),
+    Physics: z.string().optional(),
+    Pose: z.string().optional(),
+    DisplayInfo: z.string().optional(),
+    UserData: z.string().optional(),
+    Expressions: z
+      .array(z.object({ Name: z.string(), File: z.string() }))
+      .optional(),
+    Motions: z
+      .record(
+        z.string(),
+        z.array(z.object({ File: z.string(), Sound: z.string().optional() })),
+      )
+      .optional(),
+  }),
+});
+
+const Model2Schema = z.object({
+  model: z.string().min(1),
+  textures: z.array(z.string()).min(1),
+  physics: z.string().optional(),
+  pose: z.string().optional(),
+  expressions: z
+    .array(z.object({ name: z.string(), file: z.string() }))
+    .optional(),
+  motions: z
+    .record(
+      z.string(),
+      z.array(z.object({ file: z.string(), sound: z.string().optional() })),
+    )
+    .optional(),
+});
+
+/**
+ * 按清单结构判断模型版本；无法识别时返回 null
+ */
+export function detectManifestVersion(json: unknown): ModelVersion | null {
+  if (!json || typeof json !== "object") return null;
+  const manifest = json as Record<string, unknown>;
+  if (manifest.FileReferences && typeof manifest.FileReferences === "object") {
+    return "cubism4";
+  }
+  if (typeof manifest.model === "string" && Array.isArray(manifest.textures)) {
+    return "cubism2";
+  }
+  return null;
+}
+
+export interface ModelPackage {
+  name: string;
+  version: ModelVersion;
+  /** 模型清单相对包根目录的路径 */
+  entry: string;
+  /** 相对包根目录的路径 -> 内容 */
+  files: ZipFiles;
+  /** 缺失但不影响加载的文件（动作、表情、语音） */
+  warnings: string[];
+}
+
+const dirname = (path: string) => path.slice(0, path.lastIndexOf("/") + 1);
+
+/**
+ * 解析 dir 下的相对路径，处理 ./ 与 ../；越出根目录时返回 null
+ */
+export function resolvePath(dir: string, relative: string): string | null {
+  const parts: string[] = [];
+  for (const part of (dir + relative).split("/")) {
+    if (part === "" || part === ".") continue;
+    if (part === "..") {
+      if (parts.length === 0) return null;
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  return parts.join("/");
+}
+
+const manifestSuffix = (path: string) =>
+  [MODEL3_SUFFIX, MODEL2_SUFFIX].find((suffix) =>
+    path.toLowerCase().endsWith(suffix),
+  );
+
+/**
+ * 多个模型清单时取目录层级最浅的一个
+ */
+const findEntry = (paths: string[]) =>
+  paths
+    .filter((p) => manifestSuffix(p))
+    .sort(
+      (a, b) => a.split("/").length - b.split("/").length || (a < b ? -1 : 1),
+    )[0];
+
+/** 清单引用的文件：缺少 required 时无法加载，optional 缺失只给出警告 */
+interface ManifestReferences {
+  required: (string | undefined)[];
+  optional: (string | undefined)[];
+}
+
+function manifestReferences(
+  json: unknown,
+  version: ModelVersion,
+): ManifestReferences | null {
+  if (version === "cubism2") {
+    const parsed = Model2Schema.safeParse(json);
+    if (!parsed.success) return null;
+    const refs = parsed.data;
+    return {
+      required: [refs.model, ...refs.textures, refs.physics, refs.pose],
+      optional: [
+        ...(refs.expressions ?? []).map((e) => e.file),
+        ...Object.values(refs.motions ?? {}).flatMap((motions) =>
+          motions.flatMap((m) => [m.file, m.sound]),
+        ),
+      ],
+    };
+  }
+
+  const parsed = Model3Schema.safeParse(json);
+  if (!parsed.success) return null;
+  const refs = parsed.data.FileReferences;
+  return {
+    required: [
+      refs.Moc,
+      ...refs.Textures,
+      refs.Physics,
+      refs.Pose,
+      refs.DisplayInfo,
+      refs.UserData,
+    ],
+    optional: [
+      ...(refs.Expressions ?? []).map((e) => e.File),
+      ...Object.values(refs.Motions ?? {}).flatMap((motions) =>
+        motions.flatMap((m) => [m.File, m.Sound]),
+      ),
+    ],
+  };
+}
+
+export function validateModelPackage(files: ZipFiles): Result<ModelPackage> {
+  const entryPath = findEntry(Object.keys(files));
+  if (!entryPath) {
+    return err(
+      "schema_mismatch",
+      `压缩包中没有 ${MODEL3_SUFFIX} 或 ${MODEL2_SUFFIX}`,
+    );
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(new TextDecoder().decode(files[entryPath]));
+  } catch (e) {
+    return err("invalid_json", `${entryPath} 不是合法的 JSON`, { cause: e });
+  }
+  const version = detectManifestVersion(json);
+  const refs = version && manifestReferences(json, version);
+  if (!version || !refs) {
+    return err(
+      "schema_mismatch",
+      `${entryPath} 缺少模型文件引用 (FileReferences / model、textures)`,
+    );
+  }
+  const { required, optional } = refs;
+
+  const root = dirname(entryPath);
+
+  const packaged: ZipFiles = {
+    [entryPath.slice(root.length)]: files[entryPath],
+  };
+  const missing: string[] = [];
+  const warnings: string[] = [];
+  const collect = (ref: string | undefined, isRequired: boolean) => {
+    if (!ref) return;
+    const path = resolvePath(root, ref);
+    if (path && files[path]) {
+      packaged[path.slice(root.length)] = files[path];
+    } else if (isRequired) {
+      missing.push(ref);
+    } else {
+      warnings.push(ref);
+    }
+  };
+  required.forEach((ref) => collect(ref, true));
+  optional.forEach((ref) => collect(ref, false));
+
+  if (missing.length > 0) {
+    return err("schema_mismatch", `模型文件缺失: ${missing.join(", ")}`);
+  }
+
+  const fileName = entryPath.slice(root.length);
+  return ok({
+    name: fileName.slice(0, -(manifestSuffix(fileName)?.length ?? 0)),
+    version,
+    entry: fileName,
+    files: packaged,
+    warnings,
+  });
+}
@@ -0,0 +1,103 @@
+import {
+  DEFAULT_PHYSICS_SETTINGS,
+  PhysicsSettingsSchema,
+  directionVector,
+  parsePhysicsRigs,
+  physicsPath,
+  scaleBreath,
+} from "./physics";
+
+describe("PhysicsSettingsSchema", () => {
+  it("defaults to the model's own physics", () => {
+    expect(DEFAULT_PHYSICS_SETTINGS).toEqual({
+      strength: 1,
+      gravityAngle: 0,
+      windAngle: 90,
+      wind: 0,
+      disabledRigs: [],
+      breath: 1,
+    });
+  });
+
+  it("rejects out of range values", () => {
+    expect(PhysicsSettingsSchema.safeParse({ strength: 5 }).success).toBe(
+      false,
+    );
+    expect(
+      PhysicsSettingsSchema.safeParse({ disabledRigs: [-1] }).success,
+    ).toBe(false);
+  });
+});
+
+describe("directionVector", () => {
+  it("points down at 0 degrees and right at 90 degrees", () => {
+    const down = directionVector(0);
+    expect(down.x).toBeCloseTo(0);
+    expect(down.y).toBeCloseTo(-1);
+
+    const right = directionVector(90, 0.5);
+    expect(right.x).toBeCloseTo(0.5);
+    expect(right.y).toBeCloseTo(0);
+  });
+});
+
+describe("scaleBreath", () => {
+  it("scales and clamps the breath parameter", () => {
+    expect(scaleBreath(0.5, 0)).toBe(0);
+    expect(scaleBreath(0.4, 1.5)).toBeCloseTo(0.6);
+    expect(scaleBreath(0.8, 2)).toBe(1);
+  });
+});
+
+describe("parsePhysicsRigs", () => {
+  it("names Cubism 4 rigs from the physics dictionary", () => {
+    const result = parsePhysicsRigs(
+      {
+        Meta: {
+          PhysicsDictionary: [{ Id: "PhysicsSetting1", Name: "前髪" }],
+        },
+        PhysicsSettings: [
+          {
+            Id: "PhysicsSetting1",
+            Output: [{ Destination: { Id: "ParamHairFront" } }],
+          },
+          { Id: "PhysicsSetting2", Output: [] },
+        ],
+      },
+      "cubism4",
+    );
+    expect(result.data).toEqual([
+      { index: 0, name: "前髪", outputs: ["ParamHairFront"] },
+      { index: 1, name: "PhysicsSetting2", outputs: [] },
+    ]);
+  });
+
+  it("reads Cubism 2 physics hairs", () => {
+    const result = parsePhysicsRigs(
+      { physics_hair: [{ targets: [{ id: "PARAM_HAIR_FRONT" }] }] },
+      "cubism2",
+    );
+    expect(result.data).toEqual([
+      { index: 0, name: "物理 1", outputs: ["PARAM_HAIR_FRONT"] },
+    ]);
+  });
+
+  it("fails on unknown physics files", () => {
+    expect(parsePhysicsRigs({}, "cubism4").error?.code).toBe("schema_mismatch");
+  });
+});
+
+describe("physicsPath", () => {
+  it("finds the physics file in both manifest formats", () => {
+    expect(
+      physicsPath(
+        { FileReferences: { Physics: "hiyori.physics3.json" } },
+        "cubism4",
+      ),
+    ).toBe("hiyori.physics3.json");
+    expect(physicsPath({ physics: "shizuku.physics.json" }, "cubism2")).toBe(
+      "shizuku.physics.json",
+    );
+    expect(physicsPath({ FileReferences: {} }, "cubism4")).toBeNull();
+  });
+});
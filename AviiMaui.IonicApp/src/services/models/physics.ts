@@ -0,0 +1,172 @@
+import { z } from "zod";
+import { err, fail, ok, type Result } from "../result";
+import type { ModelVersion } from "./catalog";
+import { readManifest, readModelAsset } from "./cubismRuntime";
+import { resolveModelSource } from "./importedModels";
+import { detectManifestVersion } from "./modelPackage";
+
+/**
+ * Physics tuning
+ *
+ * 按模型保存的物理与呼吸调整，运行时叠加在模型自带的 physics3.json / physics.json 上：
+ * - strength：物理输入的倍率（头发、衣服摆动的幅度）
+ * - gravity / wind：重力与风的方向，风力为 0 时无风
+ * - disabledRigs：关闭的物理组（按 physics 文件中的顺序）
+ * - breath：呼吸幅度的倍率
+ *
+ * Cubism 2 的物理只支持开关物理组，倍率、重力与风不生效。
+ */
+
+export const PhysicsSettingsSchema = z.object({
+  strength: z.number().min(0).max(3).default(1),
+  /** 重力方向（度），0 为向下，顺时针为正 */
+  gravityAngle: z.number().min(-180).max(180).default(0),
+  /** 风向（度），90 为向右吹 */
+  windAngle: z.number().min(-180).max(180).default(90),
+  /** 风力，相对重力加速度 */
+  wind: z.number().min(0).max(1).default(0),
+  disabledRigs: z.array(z.number().int().min(0)).default([]),
+  breath: z.number().min(0).max(2).default(1),
+});
+export type PhysicsSettings = z.output<typeof PhysicsSettingsSchema>;
+
+export const DEFAULT_PHYSICS_SETTINGS: PhysicsSettings =
+  PhysicsSettingsSchema.parse({});
+
+export interface PhysicsRig {
+  /** physics 文件中的顺序，与运行时的物理组一一对应 */
+  index: number;
+  name: string;
+  /** 该组驱动的参数 */
+  outputs: string[];
+}
+
+/**
+ * 角度 -> Cubism 坐标系（y 向上）中的方向向量，0 度指向下方
+ */
+export function directionVector(
+  angleDeg: number,
+  magnitude = 1,
+): { x: number; y: number } {
+  const rad = (angleDeg * Math.PI) / 180;
+  return { x: Math.sin(rad) * magnitude, y: -Math.cos(rad) * magnitude };
+}
+
+/**
+ * 呼吸参数（0 ~ 1）按倍率缩放
+ */
+export const scaleBreath = (value: number, amplitude: number): number =>
+  Math.min(1, Math.max(0, value * amplitude));
+
+const RigJsonSchema = z.object({
+  Id: z.string().optional(),
+  Output: z
+    .array(z.object({ Destination: z.object({ Id: z.string() }) }))
+    .default([]),
+});
+
+const Physics3JsonSchema = z.object({
+  Meta: z
+    .object({
+      PhysicsDictionary: z
+        .array(z.object({ Id: z.string(), Name: z.string() }))
+        .optional(),
+    })
+    .optional(),
+  PhysicsSettings: z.array(RigJsonSchema),
+});
+
+const Cubism2PhysicsJsonSchema = z.object({
+  physics_hair: z
+    .array(
+      z.object({
+        comment: z.string().optional(),
+        label: z.string().optional(),
+        targets: z.array(z.object({ id: z.string() })).default([]),
+      }),
+    )
+    .default([]),
+});
+
+/**
+ * 从 physics 文件中读出物理组；V4 的名称取自 PhysicsDictionary
+ */
+export function parsePhysicsRigs(
+  json: unknown,
+  version: ModelVersion,
+): Result<PhysicsRig[]> {
+  if (version === "cubism2") {
+    const parsed = Cubism2PhysicsJsonSchema.safeParse(json);
+    if (!parsed.success) {
+      return err("schema_mismatch", "无法识别的物理文件", {
+        cause: parsed.error,
+      });
+    }
+    return ok(
+      parsed.data.physics_hair.map((hair, index) => ({
+        index,
+        name: hair.comment || hair.label || `物理 ${index + 1}`,
+        outputs: hair.targets.map((t) => t.id),
+      })),
+    );
+  }
+
+  const parsed = Physics3JsonSchema.safeParse(json);
+  if (!parsed.success) {
+    return err("schema_mismatch", "无法识别的物理文件", {
+      cause: parsed.error,
+    });
+  }
+  const names = new Map(
+    (parsed.data.Meta?.PhysicsDictionary ?? []).map((d) => [d.Id, d.Name]),
+  );
+  return ok(
+    parsed.data.PhysicsSettings.map((rig, index) => ({
+      index,
+      name: (rig.Id && names.get(rig.Id)) || rig.Id || `物理 ${index + 1}`,
+      outputs: rig.Output.map((o) => o.Destination.Id),
+    })),
+  );
+}
+
+/**
+ * 清单中物理文件的路径；模型没有物理时返回 null
+ */
+export function physicsPath(
+  manifest: unknown,
+  version: ModelVersion,
+): string | null {
+  const json = manifest as {
+    physics?: unknown;
+    FileReferences?: { Physics?: unknown };
+  };
+  const path =
+    version === "cubism2" ? json.physics : json.FileReferences?.Physics;
+  return typeof path === "string" && path ? path : null;
+}
+
+/**
+ * 读取模型的物理组（设置页不加载模型，直接读取 physics 文件）
+ */
+export async function loadPhysicsRigs(
+  modelUrl: string,
+): Promise<Result<PhysicsRig[]>> {
+  const source = await resolveModelSource(modelUrl);
+  if (source.error !== null) return fail(source.error);
+  const manifest = await readManifest(source.data);
+  if (manifest.error !== null) return fail(manifest.error);
+
+  const version = detectManifestVersion(manifest.data.json);
+  if (!version) {
+    return err(
+      "schema_mismatch",
+      `无法识别的模型格式: ${manifest.data.fileName}`,
+    );
+  }
+  const path = physicsPath(manifest.data.json, version);
+  if (!path) return ok([]);
+
+  const json = await readModelAsset(source.data, path);
+  if (json.error !== null) return fail(json.error);
+  return parsePhysicsRigs(json.data, version);
+}
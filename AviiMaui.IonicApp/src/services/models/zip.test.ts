@@ -0,0 +1,99 @@
+import { crc32 } from "../capture/apng";
+import { unzip } from "./zip";
+
+interface TestEntry {
+  path: string;
+  data: Uint8Array;
+  /** 已压缩的数据（method 8） */
+  deflated?: Uint8Array;
+}
+
+/** 按 PKZIP 规范拼一个最小的压缩包 */
+function buildZip(entries: TestEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const local: number[] = [];
+  const central: number[] = [];
+  const u16 = (out: number[], v: number) =>
+    out.push(v & 0xff, (v >>> 8) & 0xff);
+  const u32 = (out: number[], v: number) => {
+    u16(out, v & 0xffff);
+    u16(out, v >>> 16);
+  };
+
+  for (const { path, data, deflated } of entries) {
+    const name = encoder.encode(path);
+    const body = deflated ?? data;
+    const method = deflated ? 8 : 0;
+    const offset = local.length;
+    const crc = crc32(data);
+
+    u32(local, 0x04034b50);
+    [20, 0, method, 0, 0].forEach((v) => u16(local, v));
+    [crc, body.length, data.length].forEach((v) => u32(local, v));
+    u16(local, name.length);
+    u16(local, 0);
+    local.push(...name, ...body);
+
+    u32(central, 0x02014b50);
+    [20, 20, 0, method, 0, 0].forEach((v) => u16(central, v));
+    [crc, body.length, data.length].forEach((v) => u32(central, v));
+    [name.length, 0, 0, 0, 0].forEach((v) => u16(central, v));
+    u32(central, 0);
+    u32(central, offset);
+    central.push(...name);
+  }
+
+  const end: number[] = [];
+  u32(end, 0x06054b50);
+  [0, 0, entries.length, entries.length].forEach((v) => u16(end, v));
+  u32(end, central.length);
+  u32(end, local.length);
+  u16(end, 0);
+  return Uint8Array.from([...local, ...central, ...end]);
+}
+
+const text = (s: string) => new TextEncoder().encode(s);
+
+describe("unzip", () => {
+  it("reads stored entries and skips directories and macOS metadata", async () => {
+    const zip = buildZip([
+      { path: "model/", data: new Uint8Array() },
+      { path: "model/a.txt", data: text("hello") },
+      { path: "model\\b.bin", data: Uint8Array.of(1, 2, 3) },
+      { path: "__MACOSX/model/._a.txt", data: text("junk") },
+    ]);
+    const result = await unzip(zip);
+    expect(result.error).toBeNull();
+    expect(Object.keys(result.data ?? {})).toEqual([
+      "model/a.txt",
+      "model/b.bin",
+    ]);
+    expect(new TextDecoder().decode(result.data?.["model/a.txt"])).toBe(
+      "hello",
+    );
+  });
+
+  it("rejects data that is not a zip", async () => {
+    const result = await unzip(text("definitely not a zip archive"));
+    expect(result.error?.code).toBe("schema_mismatch");
+  });
+
+  it.runIf(typeof CompressionStream !== "undefined")(
+    "inflates deflated entries",
+    async () => {
+      const data = text("abcabcabcabcabcabcabc");
+      const compression = new CompressionStream("deflate-raw");
+      const writer = compression.writable.getWriter();
+      void writer.write(data);
+      void writer.close();
+      const deflated = new Uint8Array(
+        await new Response(compression.readable).arrayBuffer(),
+      );
+
+      const result = await unzip(buildZip([{ path: "x.txt", data, deflated }]));
+      expect(new TextDecoder().decode(result.data?.["x.txt"])).toBe(
+        "abcabcabcabcabcabcabc",
+      );
+    },
+  );
+});
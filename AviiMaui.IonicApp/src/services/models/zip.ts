@@ -0,0 +1,154 @@
+import { err, fail, ok, toResultError, type Result } from "../result";
+
+/**
+ * Zip reader
+ *
+ * 只读解压：支持存储 (0) 与 deflate (8)，解压用浏览器自带的 DecompressionStream，
+ * 不需要额外依赖。不支持 zip64 与加密压缩包。
+ */
+
+export type ZipFiles = Record<string, Uint8Array<ArrayBuffer>>;
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_ENCRYPTED = 0x1;
+
+/** 解压后总大小上限，防止压缩炸弹 */
+export const MAX_UNZIPPED_SIZE = 256 * 1024 * 1024;
+
+interface ZipEntry {
+  path: string;
+  method: number;
+  flags: number;
+  compressedSize: number;
+  size: number;
+  localOffset: number;
+}
+
+// macOS 归档时附带的元数据
+const isJunk = (path: string) =>
+  path.endsWith("/") ||
+  path.startsWith("__MACOSX/") ||
+  path.split("/").pop() === ".DS_Store";
+
+function findEndOfCentralDirectory(view: DataView): number {
+  const min = Math.max(0, view.byteLength - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+  for (let i = view.byteLength - EOCD_MIN_SIZE; i >= min; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) return i;
+  }
+  return -1;
+}
+
+function readEntries(data: Uint8Array): Result<ZipEntry[]> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const eocd = findEndOfCentralDirectory(view);
+  if (eocd < 0) return err("schema_mismatch", "不是有效的 zip 文件");
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (count === 0xffff || offset === 0xffffffff) {
+    return err("unsupported", "不支持 zip64 压缩包");
+  }
+
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (
+      offset + 46 > data.length ||
+      view.getUint32(offset, true) !== CENTRAL_SIGNATURE
+    ) {
+      return err("schema_mismatch", "zip 目录已损坏");
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    // Windows 压缩工具可能写入反斜杠
+    const path = decoder
+      .decode(data.subarray(offset + 46, offset + 46 + nameLength))
+      .replace(/\\/g, "/");
+    entries.push({
+      path,
+      flags: view.getUint16(offset + 8, true),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      localOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return ok(entries);
+}
+
+async function inflateRaw(
+  bytes: Uint8Array<ArrayBuffer>,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const decompression = new DecompressionStream("deflate-raw");
+  const writer = decompression.writable.getWriter();
+  void writer.write(bytes);
+  void writer.close();
+  return new Uint8Array(
+    await new Response(decompression.readable).arrayBuffer(),
+  );
+}
+
+/**
+ * 解压整个压缩包，返回 路径 -> 内容（跳过目录与 macOS 元数据）
+ */
+export async function unzip(data: Uint8Array): Promise<Result<ZipFiles>> {
+  const entriesResult = readEntries(data);
+  if (entriesResult.error !== null) return entriesResult;
+  const entries = entriesResult.data.filter((e) => !isJunk(e.path));
+
+  const total = entries.reduce((sum, e) => sum + e.size, 0);
+  if (total > MAX_UNZIPPED_SIZE) {
+    return err("unsupported", "压缩包解压后过大");
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const files: ZipFiles = {};
+  try {
+    for (const entry of entries) {
+      if (entry.flags & FLAG_ENCRYPTED) {
+        return err("unsupported", `不支持加密的压缩包: ${entry.path}`);
+      }
+      if (entry.size === 0xffffffff || entry.compressedSize === 0xffffffff) {
+        return err("unsupported", "不支持 zip64 压缩包");
+      }
+
+      const local = entry.localOffset;
+      if (
+        local + 30 > data.length ||
+        view.getUint32(local, true) !== LOCAL_SIGNATURE
+      ) {
+        return err("schema_mismatch", `zip 条目已损坏: ${entry.path}`);
+      }
+      // 本地头的扩展字段长度可能与中央目录不同
+      const start =
+        local +
+        30 +
+        view.getUint16(local + 26, true) +
+        view.getUint16(local + 28, true);
+      const compressed = data.slice(start, start + entry.compressedSize);
+
+      if (entry.method === METHOD_STORED) {
+        files[entry.path] = compressed;
+      } else if (entry.method === METHOD_DEFLATE) {
+        files[entry.path] = await inflateRaw(compressed);
+      } else {
+        return err(
+          "unsupported",
+          `不支持的压缩方式 (${entry.method}): ${entry.path}`,
+        );
+      }
+    }
+  } catch (e) {
+    return fail(toResultError(e, "schema_mismatch", "解压失败"));
+  }
+  return ok(files);
+}
@@ -0,0 +1,74 @@
+import { PerfMonitor, percentile, PERF_REPORT_FORMAT } from "./perfStats";
+
+const resources = { memoryBytes: null, textures: 2, textureBytes: 1024 };
+
+describe("percentile", () => {
+  it("uses the nearest rank", () => {
+    expect(percentile([], 0.95)).toBeNull();
+    expect(percentile([5, 1, 3, 2, 4], 0.5)).toBe(3);
+    expect(percentile([5, 1, 3, 2, 4], 0.95)).toBe(5);
+  });
+});
+
+describe("PerfMonitor", () => {
+  it("measures fps, frame time and dropped frames", () => {
+    const monitor = new PerfMonitor();
+    for (let i = 0; i <= 30; i++) monitor.recordFrame(i * 20, 60);
+    // 一次 100ms 的卡顿约等于掉 5 帧
+    monitor.recordFrame(700, 60);
+
+    const sample = monitor.sample(700, resources);
+    expect(sample.fps).toBe(31);
+    expect(sample.frameTimeP95Ms).toBe(20);
+    expect(sample.droppedFrames).toBe(5);
+    expect(sample.textures).toBe(2);
+  });
+
+  it("does not count a paused period as dropped frames", () => {
+    const monitor = new PerfMonitor();
+    monitor.recordFrame(0, 30);
+    monitor.resumeFrames();
+    monitor.recordFrame(5000, 30);
+    expect(monitor.sample(5000, resources).droppedFrames).toBe(0);
+  });
+
+  it("counts messages in the last second", () => {
+    const monitor = new PerfMonitor();
+    for (let t = 0; t < 2000; t += 50) monitor.recordMessage(t);
+    expect(monitor.sample(2000, resources).messageRate).toBe(20);
+  });
+
+  it("measures latency directly when the clocks match", () => {
+    const monitor = new PerfMonitor();
+    monitor.recordLatency(100, 104, 110);
+    const sample = monitor.sample(110, resources);
+    expect(sample.latencyMs).toBe(10);
+    expect(sample.latencyClock).toBe("shared");
+  });
+
+  it("estimates the clock offset for native timestamps", () => {
+    const monitor = new PerfMonitor();
+    // 原生时钟比本地时钟早 50 秒；最快的一条消息传输耗时视为 0
+    monitor.recordLatency(0, 50_002, 50_010);
+    monitor.recordLatency(33, 50_040, 50_045);
+    const sample = monitor.sample(50_045, resources);
+    expect(sample.latencyClock).toBe("estimated");
+    // (50010 - 0 - 50002) 与 (50045 - 33 - 50002) 的平均
+    expect(sample.latencyMs).toBe(9);
+  });
+
+  it("summarizes samples into an exportable report", () => {
+    const monitor = new PerfMonitor();
+    for (let i = 0; i <= 60; i++) monitor.recordFrame(i * 33, 30);
+    monitor.sample(1000, resources);
+    monitor.sample(2000, resources);
+
+    const report = monitor.report({ renderProfile: "balanced" });
+    expect(report.format).toBe(PERF_REPORT_FORMAT);
+    expect(report.meta).toEqual({ renderProfile: "balanced" });
+    expect(report.samples).toHaveLength(2);
+    expect(report.summary.durationMs).toBe(2000);
+    expect(report.summary.latencyAvgMs).toBeNull();
+    expect(JSON.parse(JSON.stringify(report))).toEqual(report);
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Performance stats
+ *
+ * 开发模式 HUD 的统计：渲染帧率与帧时间、掉帧、追踪消息频率、
+ * 端到端延迟（追踪帧的采集时间 -> 参数写入模型）以及内存 / 纹理占用。
+ * 每秒取一次样本，导出为 JSON 便于版本间对比。
+ *
+ * 原生消息的 timestamp 来自原生的单调时钟，与 performance.now() 不同源：
+ * 两者相差较大时取窗口内最小的（接收时间 - timestamp）作为时钟差，
+ * 即假设最快的一条消息传输耗时为 0，此时延迟是下限估计。
+ */
+
+export const PERF_REPORT_FORMAT = "avii-perf-report";
+export const PERF_REPORT_VERSION = 1;
+
+/** 项目计划中的目标：桥接延迟 < 16ms，稳定 30fps */
+export const PERF_TARGETS = { latencyMs: 16, fps: 30 } as const;
+
+/** 统计窗口（毫秒） */
+const WINDOW_MS = 1000;
+/** 估计时钟差使用的窗口（毫秒），兼顾两个时钟的漂移 */
+const CLOCK_OFFSET_WINDOW_MS = 10_000;
+/** timestamp 与本地时钟相差在此之内视为同一时钟（Web 追踪、浏览器模拟） */
+const SAME_CLOCK_TOLERANCE_MS = 1000;
+/** 帧间隔超过目标间隔的倍数时计为掉帧 */
+const DROPPED_FRAME_FACTOR = 1.5;
+/** 最多保留的样本数（10 分钟） */
+const MAX_SAMPLES = 600;
+
+export type LatencyClock = "shared" | "estimated";
+
+export interface PerfResources {
+  /** JS 堆占用（字节），浏览器不支持时为 null */
+  memoryBytes: number | null;
+  textures: number;
+  /** 按 RGBA 估算的纹理显存（字节） */
+  textureBytes: number;
+}
+
+export interface PerfSample extends PerfResources {
+  /** 相对开始统计的毫秒 */
+  t: number;
+  fps: number;
+  frameTimeMs: number;
+  frameTimeP95Ms: number;
+  /** 开始统计以来的掉帧数 */
+  droppedFrames: number;
+  messageRate: number;
+  /** 窗口内没有带 timestamp 的追踪帧时为 null */
+  latencyMs: number | null;
+  latencyP95Ms: number | null;
+  latencyClock: LatencyClock | null;
+}
+
+export interface PerfReport {
+  format: typeof PERF_REPORT_FORMAT;
+  version: typeof PERF_REPORT_VERSION;
+  createdAt: string;
+  targets: typeof PERF_TARGETS;
+  /** 渲染档位、模型、设备等，由调用方提供 */
+  meta: Record<string, unknown>;
+  summary: {
+    durationMs: number;
+    fpsAvg: number;
+    fpsMin: number;
+    frameTimeP95Ms: number;
+    droppedFrames: number;
+    messageRateAvg: number;
+    latencyAvgMs: number | null;
+    latencyP95Ms: number | null;
+  };
+  samples: PerfSample[];
+}
+
+/**
+ * 第 p 百分位（0 ~ 1，最近秩）；空数组返回 null
+ */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(
+    sorted.length - 1,
+    Math.max(0, Math.ceil(p * sorted.length) - 1),
+  );
+  return sorted[index];
+}
+
+const average = (values: number[]): number | null =>
+  values.length === 0
+    ? null
+    : values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+const roundOrNull = (v: number | null) => (v === null ? null : round2(v));
+
+interface Timed {
+  at: number;
+  value: number;
+}
+
+/** 丢弃窗口之外的记录（按时间顺序追加） */
+const prune = (items: Timed[], since: number) => {
+  let i = 0;
+  while (i < items.length && items[i].at < since) i++;
+  if (i > 0) items.splice(0, i);
+};
+
+export class PerfMonitor {
+  private startedAt: number | null = null;
+  private lastFrameAt: number | null = null;
+  private frames: Timed[] = [];
+  private messages: Timed[] = [];
+  private latencies: Timed[] = [];
+  private clockOffsets: Timed[] = [];
+  private latencyClock: LatencyClock | null = null;
+  private droppedFrames = 0;
+  private samples: PerfSample[] = [];
+
+  /**
+   * 每次渲染调用
+   * @param targetFps 帧率上限，用于判断掉帧
+   */
+  recordFrame(now: number, targetFps: number) {
+    this.startedAt ??= now;
+    if (this.lastFrameAt !== null) {
+      const interval = now - this.lastFrameAt;
+      const target = 1000 / targetFps;
+      if (interval > target * DROPPED_FRAME_FACTOR) {
+        this.droppedFrames += Math.round(interval / target) - 1;
+      }
+      this.frames.push({ at: now, value: interval });
+    }
+    this.lastFrameAt = now;
+  }
+
+  /** 暂停渲染后恢复时调用，暂停期间不计为掉帧 */
+  resumeFrames() {
+    this.lastFrameAt = null;
+  }
+
+  /** 每条追踪消息调用 */
+  recordMessage(now: number) {
+    this.startedAt ??= now;
+    this.messages.push({ at: now, value: 1 });
+  }
+
+  /**
+   * 追踪帧的参数写入模型时调用
+   * @param timestamp 消息自带的采集时间
+   * @param receivedAt 收到消息的本地时间
+   * @param appliedAt 写入参数的本地时间
+   */
+  recordLatency(timestamp: number, receivedAt: number, appliedAt: number) {
+    const offset = receivedAt - timestamp;
+    if (Math.abs(offset) < SAME_CLOCK_TOLERANCE_MS) {
+      this.latencyClock = "shared";
+      this.latencies.push({ at: appliedAt, value: appliedAt - timestamp });
+      return;
+    }
+
+    this.clockOffsets.push({ at: receivedAt, value: offset });
+    prune(this.clockOffsets, receivedAt - CLOCK_OFFSET_WINDOW_MS);
+    const clockOffset = Math.min(...this.clockOffsets.map((o) => o.value));
+    this.latencyClock = "estimated";
+    this.latencies.push({
+      at: appliedAt,
+      value: appliedAt - timestamp - clockOffset,
+    });
+  }
+
+  /**
+   * 统计最近一秒，记录为一个样本
+   */
+  sample(now: number, resources: PerfResources): PerfSample {
+    const since = now - WINDOW_MS;
+    prune(this.frames, since);
+    prune(this.messages, since);
+    prune(this.latencies, since);
+
+    const intervals = this.frames.map((f) => f.value);
+    const latencies = this.latencies.map((l) => l.value);
+    const sample: PerfSample = {
+      t: Math.round(now - (this.startedAt ?? now)),
+      fps: this.frames.length,
+      frameTimeMs: round2(average(intervals) ?? 0),
+      frameTimeP95Ms: round2(percentile(intervals, 0.95) ?? 0),
+      droppedFrames: this.droppedFrames,
+      messageRate: this.messages.length,
+      latencyMs: roundOrNull(average(latencies)),
+      latencyP95Ms: roundOrNull(percentile(latencies, 0.95)),
+      latencyClock: latencies.length > 0 ? this.latencyClock : null,
+      ...resources,
+    };
+
+    this.samples.push(sample);
+    if (this.samples.length > MAX_SAMPLES) this.samples.shift();
+    return sample;
+  }
+
+  /**
+   * 汇总已记录的样本
+   */
+  report(meta: Record<string, unknown> = {}): PerfReport {
+    const samples = [...this.samples];
+    const fps = samples.map((s) => s.fps);
+    const latencies = samples.flatMap((s) =>
+      s.latencyMs === null ? [] : [s.latencyMs],
+    );
+    const latencyP95s = samples.flatMap((s) =>
+      s.latencyP95Ms === null ? [] : [s.latencyP95Ms],
+    );
+
+    return {
+      format: PERF_REPORT_FORMAT,
+      version: PERF_REPORT_VERSION,
+      createdAt: new Date().toISOString(),
+      targets: PERF_TARGETS,
+      meta,
+      summary: {
+        durationMs: samples.at(-1)?.t ?? 0,
+        fpsAvg: round2(average(fps) ?? 0),
+        fpsMin: fps.length > 0 ? Math.min(...fps) : 0,
+        frameTimeP95Ms:
+          percentile(
+            samples.map((s) => s.frameTimeP95Ms),
+            0.95,
+          ) ?? 0,
+        droppedFrames: this.droppedFrames,
+        messageRateAvg: round2(average(samples.map((s) => s.messageRate)) ?? 0),
+        latencyAvgMs: roundOrNull(average(latencies)),
+        latencyP95Ms: percentile(latencyP95s, 0.95),
+      },
+      samples,
+    };
+  }
+
+  reset() {
+    this.startedAt = null;
+    this.lastFrameAt = null;
+    this.frames = [];
+    this.messages = [];
+    this.latencies = [];
+    this.clockOffsets = [];
+    this.latencyClock = null;
+    this.droppedFrames = 0;
+    this.samples = [];
+  }
+}
@@ -0,0 +1,27 @@
+import {
+  DEFAULT_RENDER_PROFILE,
+  RENDER_PROFILES,
+  parseRenderProfileId,
+  renderResolution,
+} from "./renderProfile";
+
+describe("parseRenderProfileId", () => {
+  it("reads saved profiles and falls back to the default", () => {
+    expect(parseRenderProfileId("batterySaver")).toBe("batterySaver");
+    expect(parseRenderProfileId(null)).toBe(DEFAULT_RENDER_PROFILE);
+    expect(parseRenderProfileId("ultra")).toBe(DEFAULT_RENDER_PROFILE);
+  });
+});
+
+describe("renderResolution", () => {
+  it("caps the device pixel ratio per profile", () => {
+    expect(renderResolution(RENDER_PROFILES.quality, 3)).toBe(3);
+    expect(renderResolution(RENDER_PROFILES.balanced, 3)).toBe(2);
+    expect(renderResolution(RENDER_PROFILES.batterySaver, 3)).toBe(1);
+  });
+
+  it("never renders below one pixel per CSS pixel", () => {
+    expect(renderResolution(RENDER_PROFILES.quality, 0.75)).toBe(1);
+    expect(renderResolution(RENDER_PROFILES.quality, 0)).toBe(1);
+  });
+});
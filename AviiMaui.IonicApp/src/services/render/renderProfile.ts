@@ -0,0 +1,74 @@
+import { z } from "zod";
+
+/**
+ * Render profiles
+ *
+ * Live2DViewer 的渲染档位，在画质与耗电之间取舍：
+ * - resolution：渲染分辨率，不超过设备像素比
+ * - antialias：WebGL 抗锯齿，只能在创建 PIXI 时指定
+ * - maxFPS：渲染与模型更新的帧率上限，0 为不限（跟随屏幕刷新率）
+ * - pauseWhenHidden：页面不可见（切到其他页面、App 进入后台）时暂停渲染
+ * - keepScreenOn：追踪或录制画面时保持屏幕常亮
+ */
+
+export const RenderProfileIdSchema = z.enum([
+  "quality",
+  "balanced",
+  "batterySaver",
+]);
+export type RenderProfileId = z.infer<typeof RenderProfileIdSchema>;
+
+export const DEFAULT_RENDER_PROFILE: RenderProfileId = "balanced";
+
+export interface RenderProfile {
+  label: string;
+  maxResolution: number;
+  antialias: boolean;
+  maxFPS: number;
+  pauseWhenHidden: boolean;
+  keepScreenOn: boolean;
+}
+
+export const RENDER_PROFILES: Record<RenderProfileId, RenderProfile> = {
+  quality: {
+    label: "画质优先",
+    maxResolution: 3,
+    antialias: true,
+    maxFPS: 0,
+    pauseWhenHidden: false,
+    keepScreenOn: true,
+  },
+  balanced: {
+    label: "均衡",
+    maxResolution: 2,
+    antialias: true,
+    maxFPS: 60,
+    pauseWhenHidden: true,
+    keepScreenOn: true,
+  },
+  batterySaver: {
+    label: "省电",
+    maxResolution: 1,
+    antialias: false,
+    maxFPS: 30,
+    pauseWhenHidden: true,
+    keepScreenOn: false,
+  },
+};
+
+/**
+ * 读取保存的档位；旧版本没有保存或值无效时使用默认档位
+ */
+export const parseRenderProfileId = (raw: string | null): RenderProfileId => {
+  const parsed = RenderProfileIdSchema.safeParse(raw);
+  return parsed.success ? parsed.data : DEFAULT_RENDER_PROFILE;
+};
+
+/**
+ * 档位在当前设备上的渲染分辨率
+ */
+export const renderResolution = (
+  profile: RenderProfile,
+  devicePixelRatio: number,
+): number =>
+  Math.max(1, Math.min(profile.maxResolution, devicePixelRatio || 1));
@@ -0,0 +1,49 @@
+import {
+  andThen,
+  combine,
+  err,
+  map,
+  ok,
+  toResultError,
+  unwrapOr,
+  type Result,
+} from "./result";
+
+describe("result", () => {
+  const failure: Result<number> = err("timeout", "too slow");
+
+  it("should map and chain successful results", () => {
+    expect(map(ok(2), (n) => n * 3)).toEqual(ok(6));
+    expect(andThen(ok(2), (n) => ok(`#${n}`))).toEqual(ok("#2"));
+    expect(andThen(ok(2), () => failure)).toBe(failure);
+  });
+
+  it("should pass failures through untouched", () => {
+    expect(map(failure, (n) => n * 3).error).toBe(failure.error);
+    expect(andThen(failure, (n) => ok(n)).error).toBe(failure.error);
+    expect(unwrapOr(failure, 0)).toBe(0);
+    expect(unwrapOr(ok(5), 0)).toBe(5);
+  });
+
+  it("should combine results into a tuple or the first failure", () => {
+    expect(combine([ok(1), ok("a")] as const)).toEqual(ok([1, "a"]));
+
+    const combined = combine([ok(1), failure, err("aborted", "x")] as const);
+    expect(combined.error?.code).toBe("timeout");
+  });
+
+  it("should keep .NET error details when converting exceptions", () => {
+    const e = Object.assign(new Error("boom"), {
+      dotNetErrorType: "System.IO.IOException",
+    });
+    expect(toResultError(e)).toMatchObject({
+      code: "dotnet_exception",
+      message: "boom",
+      dotNetType: "System.IO.IOException",
+    });
+    expect(toResultError("plain", "native_error")).toMatchObject({
+      code: "native_error",
+      message: "plain",
+    });
+  });
+});
@@ -4,29 +4,144 @@ import { z } from "zod";
  * Result<T>
  *
  * - success: { data: T, error: null }
- * - failure: { data: null, error: string }
+ * - failure: { data: null, error: ResultError }
  *
  * 约定：调用方只需要判断 error 是否为 null。
+ * 需要区分失败原因时按 error.code 分支。
  */
+export type ResultErrorCode =
+  /** 非 MAUI 环境（浏览器直接打开） */
+  | "bridge_unavailable"
+  /** 调用前参数校验失败 */
+  | "invalid_arguments"
+  /** .NET 返回的不是合法 JSON */
+  | "invalid_json"
+  /** 返回数据与 bridgeContract 中的 schema 不符 */
+  | "schema_mismatch"
+  /** InvokeDotNet 抛出的 .NET 异常（带 dotNetType / dotNetStackTrace） */
+  | "dotnet_exception"
+  /** .NET 侧捕获异常后返回的 { error: "..." } */
+  | "native_error"
+  /** 用户拒绝了摄像头 / 麦克风等权限 */
+  | "permission_denied"
+  /** 当前环境不支持（没有摄像头、缺少浏览器 API 等） */
+  | "unsupported"
+  | "timeout"
+  | "aborted"
+  | "unknown";
+
+export interface ResultError {
+  code: ResultErrorCode;
+  message: string;
+  cause?: unknown;
+  dotNetType?: string;
+  dotNetStackTrace?: string;
+}
+
 export type Result<T> =
   | { data: T; error: null }
-  | { data: null; error: string };
+  | { data: null; error: ResultError };
 
 export const ok = <T>(data: T): Result<T> => ({ data, error: null });
-export const err = <T = never>(message: string): Result<T> => ({
+
+export const err = <T = never>(
+  code: ResultErrorCode,
+  message: string,
+  details: Omit<ResultError, "code" | "message"> = {},
+): Result<T> => ({
+  data: null,
+  error: { code, message, ...details },
+});
+
+/**
+ * 原样传递失败结果（换一个 data 类型）
+ */
+export const fail = <T = never>(error: ResultError): Result<T> => ({
   data: null,
-  error: message,
+  error,
 });
 
 export const isOk = <T>(r: Result<T>): r is { data: T; error: null } =>
   r.error === null;
 
-export const isErr = <T>(r: Result<T>): r is { data: null; error: string } =>
-  r.error !== null;
+export const isErr = <T>(
+  r: Result<T>,
+): r is { data: null; error: ResultError } => r.error !== null;
+
+export const hasErrorCode = <T>(
+  r: Result<T>,
+  code: ResultErrorCode,
+): boolean => r.error !== null && r.error.code === code;
+
+// --- Combinators ---
+
+export const map = <T, U>(r: Result<T>, fn: (data: T) => U): Result<U> =>
+  r.error === null ? ok(fn(r.data)) : fail(r.error);
+
+export const mapErr = <T>(
+  r: Result<T>,
+  fn: (error: ResultError) => ResultError,
+): Result<T> => (r.error === null ? r : fail(fn(r.error)));
+
+export const andThen = <T, U>(
+  r: Result<T>,
+  fn: (data: T) => Result<U>,
+): Result<U> => (r.error === null ? fn(r.data) : fail(r.error));
+
+export const unwrapOr = <T>(r: Result<T>, fallback: T): T =>
+  r.error === null ? r.data : fallback;
+
+/**
+ * 合并多个结果：全部成功时返回数据元组，否则返回第一个失败。
+ */
+export const combine = <T extends readonly Result<unknown>[]>(
+  results: T,
+): Result<{ [K in keyof T]: T[K] extends Result<infer U> ? U : never }> => {
+  const values: unknown[] = [];
+  for (const r of results) {
+    if (r.error !== null) return fail(r.error);
+    values.push(r.data);
+  }
+  return ok(
+    values as { [K in keyof T]: T[K] extends Result<infer U> ? U : never },
+  );
+};
+
+// --- Error Conversion ---
+
+/**
+ * 把 catch 到的异常转成 ResultError。
+ * InvokeDotNet 抛出的 Error 上带有 dotNetErrorType / dotNetStackTrace，这里保留下来。
+ */
+export const toResultError = (
+  e: unknown,
+  fallbackCode: ResultErrorCode = "unknown",
+  fallbackMessage?: string,
+): ResultError => {
+  const message = toErrorMessage(e, fallbackMessage);
+
+  if (e instanceof Error) {
+    const { dotNetErrorType, dotNetStackTrace } = e as Error & {
+      dotNetErrorType?: string;
+      dotNetStackTrace?: string;
+    };
+    if (dotNetErrorType || dotNetStackTrace) {
+      return {
+        code: "dotnet_exception",
+        message,
+        cause: e,
+        dotNetType: dotNetErrorType,
+        dotNetStackTrace,
+      };
+    }
+  }
+
+  return { code: fallbackCode, message, cause: e };
+};
 
 export const toErrorMessage = (
   e: unknown,
-  fallback: string = "Unknown error"
+  fallback: string = "Unknown error",
 ): string => {
   if (typeof e === "string") return e;
 
@@ -39,11 +154,8 @@ export const toErrorMessage = (
       const path = issue.path?.length ? issue.path.join(".") : "";
 
       // Common case in this project: expected array but got object (often an error payload)
-      if (issue.code === "invalid_type") {
-        const expected = (issue as any)?.expected as unknown;
-        if (expected === "array") {
-          return "返回数据不是列表（可能是后端错误返回）";
-        }
+      if (issue.code === "invalid_type" && issue.expected === "array") {
+        return "返回数据不是列表（可能是后端错误返回）";
       }
 
       const base = issue.message || "数据格式不正确";
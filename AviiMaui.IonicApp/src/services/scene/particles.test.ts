@@ -0,0 +1,33 @@
+import { PARTICLE_PRESETS, ParticleField } from "./particles";
+
+describe("ParticleField", () => {
+  it("spawns particles according to density", () => {
+    const field = new ParticleField(() => 0.5);
+    field.setSettings({ effect: "snow", density: 0.5 });
+    expect(field.update(0)).toHaveLength(PARTICLE_PRESETS.snow.count / 2);
+    expect(field.shape).toBe("circle");
+
+    field.setSettings({ effect: "none", density: 1 });
+    expect(field.update(0)).toHaveLength(0);
+    expect(field.shape).toBeNull();
+  });
+
+  it("wraps falling particles back to the top", () => {
+    const field = new ParticleField(() => 0.99);
+    field.setSettings({ effect: "snow", density: 0.1 });
+    // 足够长的时间让粒子落出画面
+    const particles = field.update(30);
+    for (const p of particles) {
+      expect(p.y).toBeGreaterThanOrEqual(-0.05);
+      expect(p.y).toBeLessThanOrEqual(1.05);
+    }
+  });
+
+  it("moves rising particles upward", () => {
+    const field = new ParticleField(() => 0.5);
+    field.setSettings({ effect: "bubbles", density: 0.1 });
+    const before = field.update(0).map((p) => p.y);
+    const after = field.update(0.1).map((p) => p.y);
+    after.forEach((y, i) => expect(y).toBeLessThan(before[i]));
+  });
+});
@@ -0,0 +1,152 @@
+import type { ParticleEffect, SceneParticles } from "./scene";
+
+/**
+ * Particles
+ *
+ * 场景粒子的模拟，位置以画布宽高的比例保存（窗口大小变化、按输出尺寸截图时不用重新生成），
+ * 由 Live2DViewer 的 SceneLayers 每帧绘制。
+ */
+
+export type ParticleShape = "circle" | "petal" | "star";
+
+interface ParticlePreset {
+  /** density = 1 时的粒子数 */
+  count: number;
+  colors: number[];
+  shape: ParticleShape;
+  /** 半径范围（像素） */
+  size: [number, number];
+  /** 垂直速度范围（画布高度 / 秒），负数向上 */
+  speed: [number, number];
+  /** 左右摆动幅度（画布宽度 / 秒） */
+  sway: number;
+  alpha: number;
+  /** 闪烁（透明度随时间变化） */
+  twinkle: boolean;
+}
+
+export const PARTICLE_PRESETS: Record<
+  Exclude<ParticleEffect, "none">,
+  ParticlePreset
+> = {
+  snow: {
+    count: 120,
+    colors: [0xffffff],
+    shape: "circle",
+    size: [1.5, 4],
+    speed: [0.04, 0.1],
+    sway: 0.02,
+    alpha: 0.85,
+    twinkle: false,
+  },
+  sakura: {
+    count: 50,
+    colors: [0xffb7c5, 0xffd1dc, 0xff9eb5],
+    shape: "petal",
+    size: [4, 7],
+    speed: [0.05, 0.1],
+    sway: 0.05,
+    alpha: 0.9,
+    twinkle: false,
+  },
+  sparkles: {
+    count: 40,
+    colors: [0xfff3a0, 0xffffff, 0xffd6f5],
+    shape: "star",
+    size: [2, 5],
+    speed: [-0.01, 0.01],
+    sway: 0.005,
+    alpha: 1,
+    twinkle: true,
+  },
+  bubbles: {
+    count: 30,
+    colors: [0x9ad8ff, 0xc8ecff],
+    shape: "circle",
+    size: [4, 12],
+    speed: [-0.1, -0.04],
+    sway: 0.02,
+    alpha: 0.45,
+    twinkle: false,
+  },
+};
+
+export interface Particle {
+  x: number;
+  y: number;
+  radius: number;
+  speed: number;
+  /** 摆动 / 闪烁的相位 */
+  phase: number;
+  color: number;
+  alpha: number;
+  /** 弧度 */
+  rotation: number;
+}
+
+// 粒子完全移出画面后才回到另一侧
+const WRAP_MARGIN = 0.05;
+
+export class ParticleField {
+  private particles: Particle[] = [];
+  private preset: ParticlePreset | null = null;
+  private time = 0;
+
+  constructor(private random: () => number = Math.random) {}
+
+  get shape(): ParticleShape | null {
+    return this.preset?.shape ?? null;
+  }
+
+  setSettings({ effect, density }: SceneParticles) {
+    this.preset = effect === "none" ? null : PARTICLE_PRESETS[effect];
+    const count = this.preset ? Math.round(this.preset.count * density) : 0;
+    this.particles = Array.from({ length: count }, () => this.spawn());
+  }
+
+  /**
+   * @param dt 秒
+   */
+  update(dt: number): readonly Particle[] {
+    const preset = this.preset;
+    if (!preset) return this.particles;
+    this.time += dt;
+
+    for (const p of this.particles) {
+      p.y += p.speed * dt;
+      p.x += Math.sin(this.time * 1.5 + p.phase) * preset.sway * dt;
+      if (preset.shape === "petal") p.rotation += dt * (p.phase - Math.PI);
+      if (preset.twinkle) {
+        p.alpha =
+          preset.alpha * (0.5 + 0.5 * Math.sin(this.time * 3 + p.phase));
+      }
+
+      if (p.y > 1 + WRAP_MARGIN) {
+        p.y = -WRAP_MARGIN;
+        p.x = this.random();
+      } else if (p.y < -WRAP_MARGIN) {
+        p.y = 1 + WRAP_MARGIN;
+        p.x = this.random();
+      }
+      if (p.x > 1 + WRAP_MARGIN) p.x -= 1 + 2 * WRAP_MARGIN;
+      else if (p.x < -WRAP_MARGIN) p.x += 1 + 2 * WRAP_MARGIN;
+    }
+    return this.particles;
+  }
+
+  private spawn(): Particle {
+    const preset = this.preset!;
+    const between = ([min, max]: [number, number]) =>
+      min + (max - min) * this.random();
+    return {
+      x: this.random(),
+      y: this.random(),
+      radius: between(preset.size),
+      speed: between(preset.speed),
+      phase: this.random() * Math.PI * 2,
+      color: preset.colors[Math.floor(this.random() * preset.colors.length)],
+      alpha: preset.alpha,
+      rotation: this.random() * Math.PI * 2,
+    };
+  }
+}
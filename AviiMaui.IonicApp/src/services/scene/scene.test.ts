@@ -0,0 +1,69 @@
+import {
+  DEFAULT_SCENE_SETTINGS,
+  SceneSettingsSchema,
+  defaultBackground,
+  fitImage,
+  gradientEndpoints,
+} from "./scene";
+
+describe("SceneSettingsSchema", () => {
+  it("defaults to a transparent scene without props or particles", () => {
+    expect(DEFAULT_SCENE_SETTINGS).toEqual({
+      background: { type: "none" },
+      props: [],
+      particles: { effect: "none", density: 0.5 },
+    });
+  });
+
+  it("fills background defaults by type", () => {
+    expect(defaultBackground("chromaKey")).toEqual({
+      type: "chromaKey",
+      color: "#00ff00",
+    });
+    expect(
+      SceneSettingsSchema.parse({ background: { type: "gradient" } })
+        .background,
+    ).toMatchObject({ type: "gradient", angle: 180 });
+  });
+
+  it("rejects image backgrounds without an image", () => {
+    expect(
+      SceneSettingsSchema.safeParse({ background: { type: "image" } }).success,
+    ).toBe(false);
+  });
+});
+
+describe("gradientEndpoints", () => {
+  it("runs top to bottom at 180deg", () => {
+    const { start, end } = gradientEndpoints(180, 100, 200);
+    expect(start.x).toBeCloseTo(50);
+    expect(start.y).toBeCloseTo(0);
+    expect(end.x).toBeCloseTo(50);
+    expect(end.y).toBeCloseTo(200);
+  });
+
+  it("reaches the corners on diagonals", () => {
+    const { start, end } = gradientEndpoints(45, 100, 100);
+    // 45deg 指向右上角：起止点在对角线方向上投影到两个角
+    expect(end.x - start.x).toBeCloseTo(100);
+    expect(start.y - end.y).toBeCloseTo(100);
+  });
+});
+
+describe("fitImage", () => {
+  const screen = { width: 400, height: 800 };
+
+  it("covers the screen and crops the overflow", () => {
+    const fit = fitImage({ width: 400, height: 400 }, screen, "cover");
+    expect(fit.scale).toBe(2);
+    expect(fit.x).toBe(-200);
+    expect(fit.y).toBe(0);
+  });
+
+  it("contains the image and centers it", () => {
+    const fit = fitImage({ width: 400, height: 400 }, screen, "contain");
+    expect(fit.scale).toBe(1);
+    expect(fit.x).toBe(0);
+    expect(fit.y).toBe(200);
+  });
+});
@@ -0,0 +1,132 @@
+import { z } from "zod";
+
+/**
+ * Scene
+ *
+ * 模型前后的场景层，由 Live2DViewer 在 PIXI 舞台中渲染，截图与录制都会包含：
+ * - 背景：透明 / 纯色 / 渐变 / 图片 / 绿幕（直播抠像）
+ * - 前景道具：叠加在模型前面的图片，位置与大小按画布比例保存
+ * - 粒子：雪花、樱花等，绘制在最上层
+ *
+ * 图片以压缩后的 data URL 保存在设置里（见 sceneImage）。
+ */
+
+export const CHROMA_KEY_GREEN = "#00ff00";
+
+export const SceneBackgroundSchema = z.discriminatedUnion("type", [
+  /** 透明，显示页面底色；录制时可另选背景色 */
+  z.object({ type: z.literal("none") }),
+  z.object({
+    type: z.literal("color"),
+    color: z.string().default("#1a1a2e"),
+  }),
+  z.object({
+    type: z.literal("gradient"),
+    from: z.string().default("#1a1a2e"),
+    to: z.string().default("#4a3b78"),
+    /** CSS 角度：0 = 自下而上，180 = 自上而下 */
+    angle: z.number().min(0).max(360).default(180),
+  }),
+  z.object({
+    type: z.literal("image"),
+    image: z.string().min(1),
+    fit: z.enum(["cover", "contain"]).default("cover"),
+  }),
+  z.object({
+    type: z.literal("chromaKey"),
+    color: z.string().default(CHROMA_KEY_GREEN),
+  }),
+]);
+export type SceneBackground = z.output<typeof SceneBackgroundSchema>;
+export type SceneBackgroundType = SceneBackground["type"];
+
+export const ScenePropSchema = z.object({
+  id: z.string().min(1),
+  image: z.string().min(1),
+  /** 中心位置，画布宽高的比例 */
+  x: z.number().min(0).max(1).default(0.5),
+  y: z.number().min(0).max(1).default(0.8),
+  /** 高度，画布高度的比例 */
+  size: z.number().min(0.05).max(1).default(0.3),
+  opacity: z.number().min(0).max(1).default(1),
+});
+export type SceneProp = z.output<typeof ScenePropSchema>;
+
+export const ParticleEffectSchema = z.enum([
+  "none",
+  "snow",
+  "sakura",
+  "sparkles",
+  "bubbles",
+]);
+export type ParticleEffect = z.infer<typeof ParticleEffectSchema>;
+
+export const SceneParticlesSchema = z.object({
+  effect: ParticleEffectSchema.default("none"),
+  /** 粒子数量比例 */
+  density: z.number().min(0.1).max(1).default(0.5),
+});
+export type SceneParticles = z.output<typeof SceneParticlesSchema>;
+
+export const SceneSettingsSchema = z.object({
+  background: SceneBackgroundSchema.default({ type: "none" }),
+  props: z.array(ScenePropSchema).default([]),
+  particles: SceneParticlesSchema.default(SceneParticlesSchema.parse({})),
+});
+export type SceneSettings = z.output<typeof SceneSettingsSchema>;
+
+export const DEFAULT_SCENE_SETTINGS: SceneSettings = SceneSettingsSchema.parse(
+  {},
+);
+
+/**
+ * 切换背景类型时的默认配置；图片背景需要先选择图片
+ */
+export function defaultBackground(
+  type: Exclude<SceneBackgroundType, "image">,
+): SceneBackground {
+  return SceneBackgroundSchema.parse({ type });
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * CSS linear-gradient 的起止点：渐变线穿过中心，长度让两个角恰好落在 0% / 100%
+ */
+export function gradientEndpoints(
+  angle: number,
+  width: number,
+  height: number,
+): { start: Point; end: Point } {
+  const rad = (angle * Math.PI) / 180;
+  const dx = Math.sin(rad);
+  const dy = -Math.cos(rad);
+  const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+  const cx = width / 2;
+  const cy = height / 2;
+  return {
+    start: { x: cx - dx * half, y: cy - dy * half },
+    end: { x: cx + dx * half, y: cy + dy * half },
+  };
+}
+
+/**
+ * 图片铺满 (cover) 或完整显示 (contain) 在画布中居中的位置与缩放
+ */
+export function fitImage(
+  image: { width: number; height: number },
+  screen: { width: number; height: number },
+  fit: "cover" | "contain",
+): { scale: number; x: number; y: number } {
+  if (!(image.width > 0 && image.height > 0)) return { scale: 1, x: 0, y: 0 };
+  const ratios = [screen.width / image.width, screen.height / image.height];
+  const scale = fit === "cover" ? Math.max(...ratios) : Math.min(...ratios);
+  return {
+    scale,
+    x: (screen.width - image.width * scale) / 2,
+    y: (screen.height - image.height * scale) / 2,
+  };
+}
@@ -0,0 +1,53 @@
+import { importImage } from "../fileTransfer";
+import { err, fail, ok, toResultError, type Result } from "../result";
+
+/**
+ * 场景图片保存在设置里，选择后先缩小并重新编码，控制设置的大小
+ */
+
+/** 背景图最长边 */
+export const BACKGROUND_IMAGE_MAX_SIZE = 1920;
+/** 前景道具最长边 */
+export const PROP_IMAGE_MAX_SIZE = 512;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("无法解码图片"));
+    image.src = src;
+  });
+
+/**
+ * 选择一张图片并缩小为 data URL；取消时返回 ok(null)
+ * @param transparent 保留透明通道（PNG），否则编码为 JPEG
+ */
+export async function pickSceneImage(
+  maxSize: number,
+  transparent: boolean,
+): Promise<Result<string | null>> {
+  const picked = await importImage();
+  if (picked.error !== null) return fail(picked.error);
+  if (!picked.data) return ok(null);
+
+  try {
+    const image = await loadImage(picked.data);
+    const scale = Math.min(
+      1,
+      maxSize / Math.max(image.naturalWidth, image.naturalHeight),
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return err("unsupported", "当前浏览器不支持 Canvas");
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return ok(
+      transparent
+        ? canvas.toDataURL("image/png")
+        : canvas.toDataURL("image/jpeg", 0.85),
+    );
+  } catch (e) {
+    return fail(toResultError(e, "unknown", "读取图片失败"));
+  }
+}
@@ -0,0 +1,54 @@
+import { create } from "zustand";
+import { importBinaryFile } from "../services/fileTransfer";
+import {
+  deleteImportedModel,
+  importModelZip,
+  listImportedModels,
+  type ImportedModelInfo,
+} from "../services/models/importedModels";
+import { fail, ok, type Result } from "../services/result";
+
+interface ImportedModelState {
+  models: ImportedModelInfo[];
+
+  /** 选择 zip 并导入；取消时返回 ok(null) */
+  importModel: () => Promise<Result<ImportedModelInfo | null>>;
+  removeModel: (id: string) => Promise<Result<void>>;
+
+  // Initialization
+  loadModels: () => Promise<void>;
+}
+
+export const useImportedModelStore = create<ImportedModelState>((set) => ({
+  models: [],
+
+  importModel: async () => {
+    const file = await importBinaryFile(".zip,application/zip");
+    if (file.error !== null) return fail(file.error);
+    if (!file.data) return ok(null);
+
+    const result = await importModelZip(file.data.bytes);
+    if (result.error === null) {
+      const model = result.data;
+      set((state) => ({ models: [...state.models, model] }));
+    }
+    return result;
+  },
+
+  removeModel: async (id: string) => {
+    const result = await deleteImportedModel(id);
+    if (result.error === null) {
+      set((state) => ({ models: state.models.filter((m) => m.id !== id) }));
+    }
+    return result;
+  },
+
+  loadModels: async () => {
+    const result = await listImportedModels();
+    if (result.error !== null) {
+      console.error("Failed to load imported models:", result.error);
+      return;
+    }
+    set({ models: result.data });
+  },
+}));
@@ -0,0 +1,93 @@
+import { create } from "zustand";
+import { mauiBridgeService } from "../services/MauiBridgeService";
+import {
+  DEFAULT_INTERACTION_CONFIG,
+  InteractionConfigSchema,
+  suggestInteractionConfig,
+  type InteractionConfig,
+} from "../services/models/interactions";
+
+const storageKey = (modelUrl: string) => `interactions_${modelUrl}`;
+
+/** 模型加载后读到的互动相关信息，供编辑器提示 */
+export interface ModelInteractionInfo {
+  hitAreas: string[];
+  motionGroups: string[];
+  expressions: string[];
+  /** 按命名约定生成的默认配置 */
+  suggested: InteractionConfig;
+}
+
+interface InteractionState {
+  /** modelUrl -> 自定义互动配置（未自定义的模型使用 suggested） */
+  configs: Record<string, InteractionConfig>;
+  /** modelUrl -> 模型信息（仅内存） */
+  modelInfo: Record<string, ModelInteractionInfo>;
+
+  // Actions
+  loadConfig: (modelUrl: string) => Promise<void>;
+  setConfig: (modelUrl: string, config: InteractionConfig) => Promise<void>;
+  resetConfig: (modelUrl: string) => Promise<void>;
+  setModelInfo: (
+    modelUrl: string,
+    info: Omit<ModelInteractionInfo, "suggested">,
+  ) => void;
+}
+
+export const selectInteractionConfig =
+  (modelUrl: string) =>
+  (state: InteractionState): InteractionConfig =>
+    state.configs[modelUrl] ??
+    state.modelInfo[modelUrl]?.suggested ??
+    DEFAULT_INTERACTION_CONFIG;
+
+export const useInteractionStore = create<InteractionState>((set) => ({
+  configs: {},
+  modelInfo: {},
+
+  loadConfig: async (modelUrl: string) => {
+    const res = await mauiBridgeService.getStringValue(storageKey(modelUrl));
+    if (!res.data) return;
+
+    try {
+      const parsed = InteractionConfigSchema.safeParse(JSON.parse(res.data));
+      if (!parsed.success) {
+        console.warn("Invalid interaction config, using defaults:", modelUrl);
+        return;
+      }
+      set((state) => ({
+        configs: { ...state.configs, [modelUrl]: parsed.data },
+      }));
+    } catch (e) {
+      console.error("Failed to load interaction config:", e);
+    }
+  },
+
+  setConfig: async (modelUrl: string, config: InteractionConfig) => {
+    set((state) => ({ configs: { ...state.configs, [modelUrl]: config } }));
+    await mauiBridgeService.setStringValue(
+      storageKey(modelUrl),
+      JSON.stringify(config),
+    );
+  },
+
+  resetConfig: async (modelUrl: string) => {
+    set((state) => {
+      const configs = { ...state.configs };
+      delete configs[modelUrl];
+      return { configs };
+    });
+    await mauiBridgeService.setStringValue(storageKey(modelUrl), "");
+  },
+
+  setModelInfo: (modelUrl, info) =>
+    set((state) => ({
+      modelInfo: {
+        ...state.modelInfo,
+        [modelUrl]: {
+          ...info,
+          suggested: suggestInteractionConfig(info.hitAreas, info.motionGroups),
+        },
+      },
+    })),
+}));
@@ -0,0 +1,81 @@
+import { create } from "zustand";
+import { mauiBridgeService } from "../services/MauiBridgeService";
+import {
+  DEFAULT_PARAMETER_MAPPINGS,
+  ParameterMappingListSchema,
+  type ParameterMapping,
+} from "../services/faceTracking/parameterMapping";
+
+const storageKey = (modelUrl: string) => `mapping_${modelUrl}`;
+
+interface ParameterMappingState {
+  /** modelUrl -> 自定义映射（未自定义的模型使用默认映射） */
+  mappings: Record<string, ParameterMapping[]>;
+  /** modelUrl -> 模型加载后读到的参数 ID（仅内存，供编辑器提示） */
+  modelParameters: Record<string, string[]>;
+
+  // Actions
+  loadMappings: (modelUrl: string) => Promise<void>;
+  setMappings: (
+    modelUrl: string,
+    mappings: ParameterMapping[],
+  ) => Promise<void>;
+  resetMappings: (modelUrl: string) => Promise<void>;
+  setModelParameters: (modelUrl: string, ids: string[]) => void;
+}
+
+export const selectMappings =
+  (modelUrl: string) =>
+  (state: ParameterMappingState): ParameterMapping[] =>
+    state.mappings[modelUrl] ?? DEFAULT_PARAMETER_MAPPINGS;
+
+export const useParameterMappingStore = create<ParameterMappingState>(
+  (set) => ({
+    mappings: {},
+    modelParameters: {},
+
+    loadMappings: async (modelUrl: string) => {
+      const res = await mauiBridgeService.getStringValue(storageKey(modelUrl));
+      if (!res.data) return;
+
+      try {
+        const parsed = ParameterMappingListSchema.safeParse(
+          JSON.parse(res.data),
+        );
+        if (!parsed.success) {
+          console.warn("Invalid parameter mapping, using defaults:", modelUrl);
+          return;
+        }
+        set((state) => ({
+          mappings: { ...state.mappings, [modelUrl]: parsed.data },
+        }));
+      } catch (e) {
+        console.error("Failed to load parameter mapping:", e);
+      }
+    },
+
+    setMappings: async (modelUrl: string, mappings: ParameterMapping[]) => {
+      set((state) => ({
+        mappings: { ...state.mappings, [modelUrl]: mappings },
+      }));
+      await mauiBridgeService.setStringValue(
+        storageKey(modelUrl),
+        JSON.stringify(mappings),
+      );
+    },
+
+    resetMappings: async (modelUrl: string) => {
+      set((state) => {
+        const mappings = { ...state.mappings };
+        delete mappings[modelUrl];
+        return { mappings };
+      });
+      await mauiBridgeService.setStringValue(storageKey(modelUrl), "");
+    },
+
+    setModelParameters: (modelUrl: string, ids: string[]) =>
+      set((state) => ({
+        modelParameters: { ...state.modelParameters, [modelUrl]: ids },
+      })),
+  }),
+);
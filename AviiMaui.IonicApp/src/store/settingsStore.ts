@@ -1,36 +1,163 @@
 import { create } from "zustand";
 import { mauiBridgeService } from "../services/MauiBridgeService";
+import {
+  CalibrationSchema,
+  type Calibration,
+} from "../services/faceTracking/calibration";
+import {
+  DEFAULT_SMOOTHING_SETTINGS,
+  SmoothingSettingsSchema,
+  type SmoothingSettings,
+} from "../services/faceTracking/smoothing";
+import {
+  DEFAULT_IDLE_SETTINGS,
+  IdleSettingsSchema,
+  type IdleSettings,
+} from "../services/faceTracking/idle";
+import {
+  DEFAULT_EXPRESSION_SETTINGS,
+  ExpressionSettingsSchema,
+  type ExpressionSettings,
+} from "../services/faceTracking/expressions";
+import {
+  DEFAULT_LIP_SYNC_SETTINGS,
+  LipSyncSettingsSchema,
+  type LipSyncSettings,
+} from "../services/lipSync/analysis";
+import {
+  DEFAULT_SCREENSHOT_SETTINGS,
+  ScreenshotSettingsSchema,
+  type ScreenshotSettings,
+} from "../services/capture/still";
+import {
+  DEFAULT_SCENE_SETTINGS,
+  SceneSettingsSchema,
+  type SceneSettings,
+} from "../services/scene/scene";
+import {
+  DEFAULT_MODEL_URL,
+  normalizeModelUrl,
+} from "../services/models/catalog";
+import {
+  StageAvatarListSchema,
+  type StageAvatar,
+} from "../services/models/avatars";
+import {
+  DEFAULT_FRAMING,
+  FramingSchema,
+  type Framing,
+} from "../services/models/framing";
+import {
+  DEFAULT_PHYSICS_SETTINGS,
+  PhysicsSettingsSchema,
+  type PhysicsSettings,
+} from "../services/models/physics";
+import {
+  DEFAULT_RENDER_PROFILE,
+  parseRenderProfileId,
+  type RenderProfileId,
+} from "../services/render/renderProfile";
+import { z } from "zod";
 
-export const DEFAULT_MODEL_URL =
-  "models/hiyori_free_en/runtime/hiyori_free_t08.model3.json";
-export const DEFAULT_LERP_FACTOR = 0.3;
-export const DEFAULT_MODEL_SCALE = 0.15;
-export const DEFAULT_MODEL_ROTATION = 0;
+const CalibrationMapSchema = z.record(z.string(), CalibrationSchema);
+const FramingMapSchema = z.record(z.string(), FramingSchema);
+const PhysicsMapSchema = z.record(z.string(), PhysicsSettingsSchema);
+const SceneMapSchema = z.record(z.string(), SceneSettingsSchema);
+
+// JSON 设置损坏时使用默认值，不影响其他设置的加载
+const parseJsonSetting = <T>(
+  raw: string | null,
+  schema: z.ZodType<T>,
+  fallback: T,
+): T => {
+  if (!raw) return fallback;
+  try {
+    const parsed = schema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : fallback;
+  } catch {
+    return fallback;
+  }
+};
 
 interface SettingsState {
   showDebugInfo: boolean;
   modelUrl: string;
-  lerpFactor: number;
-  modelScale: number;
-  modelRotation: number;
+  smoothing: SmoothingSettings;
+  idle: IdleSettings;
+  lipSync: LipSyncSettings;
+  expressions: ExpressionSettings;
+  /** 录制画面的背景色，空字符串为透明 */
+  captureBackground: string;
+  screenshot: ScreenshotSettings;
+  /** 渲染档位：分辨率、抗锯齿、帧率上限与后台暂停 */
+  renderProfile: RenderProfileId;
+  /** modelUrl -> 模型前后的背景、前景道具与粒子 */
+  scenes: Record<string, SceneSettings>;
+  /** 与主模型同台的其他模型 */
+  avatars: StageAvatar[];
+  /** modelUrl -> 取景（平移、缩放、模型大小与旋转） */
+  framings: Record<string, Framing>;
+  /** modelUrl -> 物理与呼吸调整 */
+  physics: Record<string, PhysicsSettings>;
+  /** modelUrl -> 自然姿态校准 */
+  calibrations: Record<string, Calibration>;
 
   // Actions
   setShowDebugInfo: (show: boolean) => Promise<void>;
   setModelUrl: (url: string) => Promise<void>;
-  setLerpFactor: (val: number) => Promise<void>;
-  setModelScale: (val: number) => Promise<void>;
-  setModelRotation: (val: number) => Promise<void>;
+  setSmoothing: (val: SmoothingSettings) => Promise<void>;
+  setIdle: (val: IdleSettings) => Promise<void>;
+  setLipSync: (val: LipSyncSettings) => Promise<void>;
+  setExpressions: (val: ExpressionSettings) => Promise<void>;
+  setCaptureBackground: (val: string) => Promise<void>;
+  setScreenshot: (val: ScreenshotSettings) => Promise<void>;
+  setRenderProfile: (val: RenderProfileId) => Promise<void>;
+  setScene: (modelUrl: string, scene: SceneSettings | null) => Promise<void>;
+  setAvatars: (val: StageAvatar[]) => Promise<void>;
+  setFraming: (modelUrl: string, framing: Framing | null) => Promise<void>;
+  setPhysics: (
+    modelUrl: string,
+    physics: PhysicsSettings | null,
+  ) => Promise<void>;
+  setCalibration: (
+    modelUrl: string,
+    calibration: Calibration | null,
+  ) => Promise<void>;
 
   // Initialization
   loadSettings: () => Promise<void>;
 }
 
+export const selectFraming =
+  (modelUrl: string) =>
+  (state: SettingsState): Framing =>
+    state.framings[modelUrl] ?? DEFAULT_FRAMING;
+
+export const selectScene =
+  (modelUrl: string) =>
+  (state: SettingsState): SceneSettings =>
+    state.scenes[modelUrl] ?? DEFAULT_SCENE_SETTINGS;
+
+export const selectPhysics =
+  (modelUrl: string) =>
+  (state: SettingsState): PhysicsSettings =>
+    state.physics[modelUrl] ?? DEFAULT_PHYSICS_SETTINGS;
+
 export const useSettingsStore = create<SettingsState>((set, get) => ({
   showDebugInfo: true,
   modelUrl: DEFAULT_MODEL_URL,
-  lerpFactor: DEFAULT_LERP_FACTOR,
-  modelScale: DEFAULT_MODEL_SCALE,
-  modelRotation: DEFAULT_MODEL_ROTATION,
+  smoothing: DEFAULT_SMOOTHING_SETTINGS,
+  idle: DEFAULT_IDLE_SETTINGS,
+  lipSync: DEFAULT_LIP_SYNC_SETTINGS,
+  expressions: DEFAULT_EXPRESSION_SETTINGS,
+  captureBackground: "",
+  screenshot: DEFAULT_SCREENSHOT_SETTINGS,
+  renderProfile: DEFAULT_RENDER_PROFILE,
+  scenes: {},
+  avatars: [],
+  framings: {},
+  physics: {},
+  calibrations: {},
 
   setShowDebugInfo: async (show: boolean) => {
     set({ showDebugInfo: show });
@@ -42,48 +169,230 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
     await mauiBridgeService.setStringValue("settings_modelUrl", url);
   },
 
-  setLerpFactor: async (val: number) => {
-    set({ lerpFactor: val });
-    await mauiBridgeService.setStringValue("settings_lerpFactor", String(val));
+  setSmoothing: async (val: SmoothingSettings) => {
+    set({ smoothing: val });
+    await mauiBridgeService.setStringValue(
+      "settings_smoothing",
+      JSON.stringify(val),
+    );
+  },
+
+  setIdle: async (val: IdleSettings) => {
+    set({ idle: val });
+    await mauiBridgeService.setStringValue(
+      "settings_idle",
+      JSON.stringify(val),
+    );
   },
 
-  setModelScale: async (val: number) => {
-    set({ modelScale: val });
-    await mauiBridgeService.setStringValue("settings_modelScale", String(val));
+  setLipSync: async (val: LipSyncSettings) => {
+    set({ lipSync: val });
+    await mauiBridgeService.setStringValue(
+      "settings_lipSync",
+      JSON.stringify(val),
+    );
   },
 
-  setModelRotation: async (val: number) => {
-    set({ modelRotation: val });
+  setExpressions: async (val: ExpressionSettings) => {
+    set({ expressions: val });
     await mauiBridgeService.setStringValue(
-      "settings_modelRotation",
-      String(val),
+      "settings_expressions",
+      JSON.stringify(val),
+    );
+  },
+
+  setCaptureBackground: async (val: string) => {
+    set({ captureBackground: val });
+    await mauiBridgeService.setStringValue("settings_captureBackground", val);
+  },
+
+  setScreenshot: async (val: ScreenshotSettings) => {
+    set({ screenshot: val });
+    await mauiBridgeService.setStringValue(
+      "settings_screenshot",
+      JSON.stringify(val),
+    );
+  },
+
+  setRenderProfile: async (val: RenderProfileId) => {
+    set({ renderProfile: val });
+    await mauiBridgeService.setStringValue("settings_renderProfile", val);
+  },
+
+  setScene: async (modelUrl: string, scene: SceneSettings | null) => {
+    const scenes = { ...get().scenes };
+    if (scene) scenes[modelUrl] = scene;
+    else delete scenes[modelUrl];
+
+    set({ scenes });
+    await mauiBridgeService.setStringValue(
+      "settings_scenes",
+      JSON.stringify(scenes),
+    );
+  },
+
+  setAvatars: async (val: StageAvatar[]) => {
+    set({ avatars: val });
+    await mauiBridgeService.setStringValue(
+      "settings_avatars",
+      JSON.stringify(val),
+    );
+  },
+
+  setFraming: async (modelUrl: string, framing: Framing | null) => {
+    const framings = { ...get().framings };
+    if (framing) framings[modelUrl] = framing;
+    else delete framings[modelUrl];
+
+    set({ framings });
+    await mauiBridgeService.setStringValue(
+      "settings_framings",
+      JSON.stringify(framings),
+    );
+  },
+
+  setPhysics: async (modelUrl: string, settings: PhysicsSettings | null) => {
+    const physics = { ...get().physics };
+    if (settings) physics[modelUrl] = settings;
+    else delete physics[modelUrl];
+
+    set({ physics });
+    await mauiBridgeService.setStringValue(
+      "settings_physics",
+      JSON.stringify(physics),
+    );
+  },
+
+  setCalibration: async (modelUrl: string, calibration: Calibration | null) => {
+    const calibrations = { ...get().calibrations };
+    if (calibration) calibrations[modelUrl] = calibration;
+    else delete calibrations[modelUrl];
+
+    set({ calibrations });
+    await mauiBridgeService.setStringValue(
+      "settings_calibrations",
+      JSON.stringify(calibrations),
     );
   },
 
   loadSettings: async () => {
     try {
       // Parallel fetch
-      const [debugRes, modelRes, lerpRes, scaleRes, rotationRes] =
-        await Promise.all([
-          mauiBridgeService.getStringValue("settings_showDebug"),
-          mauiBridgeService.getStringValue("settings_modelUrl"),
-          mauiBridgeService.getStringValue("settings_lerpFactor"),
-          mauiBridgeService.getStringValue("settings_modelScale"),
-          mauiBridgeService.getStringValue("settings_modelRotation"),
-        ]);
+      const [
+        debugRes,
+        modelRes,
+        smoothingRes,
+        lerpFactorRes,
+        idleRes,
+        lipSyncRes,
+        expressionsRes,
+        captureBackgroundRes,
+        screenshotRes,
+        renderProfileRes,
+        scenesRes,
+        legacySceneRes,
+        avatarsRes,
+        framingsRes,
+        scaleRes,
+        rotationRes,
+        physicsRes,
+        calibrationRes,
+      ] = await Promise.all([
+        mauiBridgeService.getStringValue("settings_showDebug"),
+        mauiBridgeService.getStringValue("settings_modelUrl"),
+        mauiBridgeService.getStringValue("settings_smoothing"),
+        // 旧版本的全局插值系数，迁移为各组的 lerp 滤波
+        mauiBridgeService.getStringValue("settings_lerpFactor"),
+        mauiBridgeService.getStringValue("settings_idle"),
+        mauiBridgeService.getStringValue("settings_lipSync"),
+        mauiBridgeService.getStringValue("settings_expressions"),
+        mauiBridgeService.getStringValue("settings_captureBackground"),
+        mauiBridgeService.getStringValue("settings_screenshot"),
+        mauiBridgeService.getStringValue("settings_renderProfile"),
+        mauiBridgeService.getStringValue("settings_scenes"),
+        // 旧版本的全局场景，迁移到当前模型
+        mauiBridgeService.getStringValue("settings_scene"),
+        mauiBridgeService.getStringValue("settings_avatars"),
+        mauiBridgeService.getStringValue("settings_framings"),
+        // 旧版本的全局缩放 / 旋转，迁移到当前模型的取景
+        mauiBridgeService.getStringValue("settings_modelScale"),
+        mauiBridgeService.getStringValue("settings_modelRotation"),
+        mauiBridgeService.getStringValue("settings_physics"),
+        mauiBridgeService.getStringValue("settings_calibrations"),
+      ]);
+
+      // 旧版本保存的模型可能已不存在
+      const modelUrl = normalizeModelUrl(modelRes.data);
+      const framings = parseJsonSetting(framingsRes.data, FramingMapSchema, {});
+      if (!framingsRes.data && (scaleRes.data || rotationRes.data)) {
+        const legacy = FramingSchema.safeParse({
+          scale: scaleRes.data ? parseFloat(scaleRes.data) : undefined,
+          rotation: rotationRes.data ? parseFloat(rotationRes.data) : undefined,
+        });
+        if (legacy.success) framings[modelUrl] = legacy.data;
+      }
+      const scenes = parseJsonSetting(scenesRes.data, SceneMapSchema, {});
+      if (!scenesRes.data && legacySceneRes.data) {
+        const legacy = parseJsonSetting(
+          legacySceneRes.data,
+          SceneSettingsSchema,
+          null,
+        );
+        if (legacy) scenes[modelUrl] = legacy;
+      }
+      let smoothing = parseJsonSetting(
+        smoothingRes.data,
+        SmoothingSettingsSchema,
+        DEFAULT_SMOOTHING_SETTINGS,
+      );
+      if (!smoothingRes.data && lerpFactorRes.data) {
+        const lerp = {
+          filter: "lerp",
+          lerpFactor: parseFloat(lerpFactorRes.data),
+        };
+        const legacy = SmoothingSettingsSchema.safeParse({
+          head: { ...DEFAULT_SMOOTHING_SETTINGS.head, ...lerp },
+          eyes: { ...DEFAULT_SMOOTHING_SETTINGS.eyes, ...lerp },
+          mouth: { ...DEFAULT_SMOOTHING_SETTINGS.mouth, ...lerp },
+        });
+        if (legacy.success) smoothing = legacy.data;
+      }
 
       set({
         showDebugInfo: debugRes.data ? debugRes.data === "true" : true,
-        modelUrl: modelRes.data || DEFAULT_MODEL_URL,
-        lerpFactor: lerpRes.data
-          ? parseFloat(lerpRes.data)
-          : DEFAULT_LERP_FACTOR,
-        modelScale: scaleRes.data
-          ? parseFloat(scaleRes.data)
-          : DEFAULT_MODEL_SCALE,
-        modelRotation: rotationRes.data
-          ? parseFloat(rotationRes.data)
-          : DEFAULT_MODEL_ROTATION,
+        modelUrl,
+        smoothing,
+        idle: parseJsonSetting(
+          idleRes.data,
+          IdleSettingsSchema,
+          DEFAULT_IDLE_SETTINGS,
+        ),
+        lipSync: parseJsonSetting(
+          lipSyncRes.data,
+          LipSyncSettingsSchema,
+          DEFAULT_LIP_SYNC_SETTINGS,
+        ),
+        expressions: parseJsonSetting(
+          expressionsRes.data,
+          ExpressionSettingsSchema,
+          DEFAULT_EXPRESSION_SETTINGS,
+        ),
+        captureBackground: captureBackgroundRes.data ?? "",
+        screenshot: parseJsonSetting(
+          screenshotRes.data,
+          ScreenshotSettingsSchema,
+          DEFAULT_SCREENSHOT_SETTINGS,
+        ),
+        renderProfile: parseRenderProfileId(renderProfileRes.data),
+        scenes,
+        avatars: parseJsonSetting(avatarsRes.data, StageAvatarListSchema, []),
+        framings,
+        physics: parseJsonSetting(physicsRes.data, PhysicsMapSchema, {}),
+        calibrations: parseJsonSetting(
+          calibrationRes.data,
+          CalibrationMapSchema,
+          {},
+        ),
       });
     } catch (e) {
       console.error("Failed to load settings:", e);
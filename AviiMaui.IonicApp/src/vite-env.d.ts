@@ -1,5 +1,10 @@
 /// <reference types="vite/client" />
 
+interface ImportMetaEnv {
+  // "true" / "false": force the browser mock bridge host on or off
+  readonly VITE_BRIDGE_MOCK?: string;
+}
+
 interface Window {
   // Used by pixi-live2d-display
   // eslint-disable-next-line @typescript-eslint/no-explicit-any